@@ -6,6 +6,8 @@ declare namespace Cloudflare {
 		Chat: DurableObjectNamespace<import("./src/server/ai/chat-agent").Chat>;
 		AI: Ai;
 		GOOGLE_GEMINI_API_KEY: string;
+		CATALOG_ADMIN_TOKEN: string;
+		FX_ADMIN_TOKEN: string;
 		ASSETS: Fetcher;
 		DB: D1Database;  
 		FILES: R2Bucket;
@@ -0,0 +1,19 @@
+-- Migration number: 0002 	 2026-10-19T09:12:04.000Z
+-- Up
+-- Aggregated view of a parsed billing export, one row per uploaded file
+CREATE TABLE IF NOT EXISTS cost_datasets (
+  id            INTEGER PRIMARY KEY AUTOINCREMENT,
+  fileId        INTEGER NOT NULL UNIQUE,
+  format        TEXT NOT NULL,
+  currency      TEXT NOT NULL,
+  rowCount      INTEGER NOT NULL,
+  billedCost    REAL NOT NULL,
+  effectiveCost REAL NOT NULL,
+  periodStart   TEXT,
+  periodEnd     TEXT,
+  aggregates    TEXT NOT NULL,
+  createdAt     TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (fileId) REFERENCES uploaded_files(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_datasets_file ON cost_datasets(fileId);
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_datasets_file;
+
+DROP TABLE IF EXISTS cost_datasets;
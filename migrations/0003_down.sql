@@ -0,0 +1,2 @@
+ALTER TABLE cost_datasets DROP COLUMN focusKey;
+ALTER TABLE uploaded_files DROP COLUMN sourceFormat;
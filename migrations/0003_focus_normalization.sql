@@ -0,0 +1,7 @@
+-- Migration number: 0003 	 2026-10-19T11:40:27.000Z
+-- Up
+-- Billing format detected for an upload (aws-cur, focus, ...)
+ALTER TABLE uploaded_files ADD COLUMN sourceFormat TEXT;
+
+-- R2 key of the FOCUS-normalized NDJSON records for a dataset
+ALTER TABLE cost_datasets ADD COLUMN focusKey TEXT;
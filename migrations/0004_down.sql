@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_sheets_file;
+
+DROP TABLE IF EXISTS file_sheets;
@@ -0,0 +1,18 @@
+-- Migration number: 0004 	 2026-10-19T14:05:51.000Z
+-- Up
+-- Sheets extracted from uploaded XLSX/XLS workbooks, each stored as CSV in R2
+CREATE TABLE IF NOT EXISTS file_sheets (
+  id           INTEGER PRIMARY KEY AUTOINCREMENT,
+  fileId       INTEGER NOT NULL,
+  sheetIndex   INTEGER NOT NULL,
+  sheetName    TEXT NOT NULL,
+  r2Key        TEXT NOT NULL,
+  rowCount     INTEGER NOT NULL,
+  role         TEXT NOT NULL,
+  detectedRole TEXT NOT NULL,
+  createdAt    TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (fileId, sheetIndex),
+  FOREIGN KEY (fileId) REFERENCES uploaded_files(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sheets_file ON file_sheets(fileId);
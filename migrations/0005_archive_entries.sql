@@ -0,0 +1,6 @@
+-- Migration number: 0005 	 2026-10-19T15:20:12.000Z
+-- Up
+-- Files expanded from an uploaded .gz/.zip/.parquet point back at the archive
+ALTER TABLE uploaded_files ADD COLUMN parentFileId INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_files_parent ON uploaded_files(parentFileId);
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_files_parent;
+
+ALTER TABLE uploaded_files DROP COLUMN parentFileId;
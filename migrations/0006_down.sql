@@ -0,0 +1,2 @@
+ALTER TABLE uploaded_files DROP COLUMN detectedRole;
+ALTER TABLE uploaded_files DROP COLUMN declaredRole;
@@ -0,0 +1,6 @@
+-- Migration number: 0006 	 2026-10-19T16:02:44.000Z
+-- Up
+-- Role the user uploaded a file as ("plan" | "metrics") and the role its
+-- content was recognized as (billing, metrics, iac, pricing, other)
+ALTER TABLE uploaded_files ADD COLUMN declaredRole TEXT;
+ALTER TABLE uploaded_files ADD COLUMN detectedRole TEXT;
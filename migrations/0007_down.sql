@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS multipart_upload_parts;
+
+DROP INDEX IF EXISTS idx_multipart_user;
+
+DROP TABLE IF EXISTS multipart_uploads;
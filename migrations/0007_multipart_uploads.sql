@@ -0,0 +1,33 @@
+-- Migration number: 0007 	 2026-10-19T17:10:05.000Z
+-- Up
+-- R2 multipart uploads in progress, so a dropped client can resume
+CREATE TABLE IF NOT EXISTS multipart_uploads (
+  uploadId     TEXT PRIMARY KEY,
+  userId       TEXT NOT NULL,
+  threadId     TEXT NOT NULL,
+  sessionId    TEXT NOT NULL,
+  r2Key        TEXT NOT NULL,
+  fileName     TEXT NOT NULL,
+  fileSize     INTEGER NOT NULL,
+  contentType  TEXT NOT NULL,
+  declaredRole TEXT,
+  partSize     INTEGER NOT NULL,
+  status       TEXT NOT NULL DEFAULT 'uploading',
+  fileId       INTEGER,
+  createdAt    TEXT NOT NULL DEFAULT (datetime('now')),
+  updatedAt    TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (fileId) REFERENCES uploaded_files(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_multipart_user ON multipart_uploads(userId, status);
+
+-- Parts R2 has acknowledged; their etags are needed to complete the upload
+CREATE TABLE IF NOT EXISTS multipart_upload_parts (
+  uploadId   TEXT NOT NULL,
+  partNumber INTEGER NOT NULL,
+  etag       TEXT NOT NULL,
+  size       INTEGER NOT NULL,
+  createdAt  TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (uploadId, partNumber),
+  FOREIGN KEY (uploadId) REFERENCES multipart_uploads(uploadId)
+);
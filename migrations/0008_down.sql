@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_metric_summaries_file;
+
+DROP TABLE IF EXISTS metric_summaries;
@@ -0,0 +1,24 @@
+-- Migration number: 0008 	 2026-10-19T19:02:41.000Z
+-- Up
+-- Per-resource utilization summaries parsed from uploaded metrics files
+CREATE TABLE IF NOT EXISTS metric_summaries (
+  id          INTEGER PRIMARY KEY AUTOINCREMENT,
+  fileId      INTEGER NOT NULL,
+  format      TEXT NOT NULL,
+  resourceId  TEXT NOT NULL,
+  metric      TEXT NOT NULL,
+  kind        TEXT NOT NULL,
+  unit        TEXT,
+  sampleCount INTEGER NOT NULL,
+  avg         REAL NOT NULL,
+  p50         REAL NOT NULL,
+  p95         REAL NOT NULL,
+  max         REAL NOT NULL,
+  periodStart TEXT,
+  periodEnd   TEXT,
+  createdAt   TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (fileId, resourceId, metric),
+  FOREIGN KEY (fileId) REFERENCES uploaded_files(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metric_summaries_file ON metric_summaries(fileId);
@@ -0,0 +1,8 @@
+-- Migration number: 0009 	 2026-10-19T20:15:33.000Z
+-- Up
+-- Analyses other than the LLM optimization report (e.g. Terraform plan
+-- estimates) keep their structured result as JSON
+ALTER TABLE analyses ADD COLUMN analysisType TEXT NOT NULL DEFAULT 'optimization';
+ALTER TABLE analyses ADD COLUMN data TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_analyses_thread_type ON analyses(threadId, analysisType);
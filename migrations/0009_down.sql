@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_analyses_thread_type;
+
+ALTER TABLE analyses DROP COLUMN data;
+ALTER TABLE analyses DROP COLUMN analysisType;
@@ -0,0 +1,6 @@
+ALTER TABLE analyses DROP COLUMN catalogVersion;
+
+DROP INDEX IF EXISTS idx_catalog_prices_lookup;
+
+DROP TABLE IF EXISTS catalog_prices;
+DROP TABLE IF EXISTS price_catalogs;
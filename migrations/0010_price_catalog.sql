@@ -0,0 +1,31 @@
+-- Migration number: 0010 	 2026-10-19T21:40:12.000Z
+-- Up
+-- Versioned price snapshots (bundled or imported by an admin); a lookup uses
+-- the most recently imported snapshot that prices the SKU
+CREATE TABLE IF NOT EXISTS price_catalogs (
+  version    TEXT PRIMARY KEY,
+  source     TEXT NOT NULL,
+  fileName   TEXT,
+  priceCount INTEGER NOT NULL DEFAULT 0,
+  importedAt TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS catalog_prices (
+  id           INTEGER PRIMARY KEY AUTOINCREMENT,
+  version      TEXT NOT NULL,
+  provider     TEXT NOT NULL,
+  service      TEXT NOT NULL,
+  sku          TEXT NOT NULL,
+  region       TEXT NOT NULL,
+  pricingModel TEXT NOT NULL,
+  unit         TEXT NOT NULL,
+  price        REAL NOT NULL,
+  currency     TEXT NOT NULL,
+  UNIQUE (version, provider, service, sku, region, pricingModel),
+  FOREIGN KEY (version) REFERENCES price_catalogs(version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalog_prices_lookup ON catalog_prices(provider, sku, pricingModel);
+
+-- Catalog versions whose prices an analysis cited
+ALTER TABLE analyses ADD COLUMN catalogVersion TEXT;
@@ -0,0 +1,8 @@
+ALTER TABLE analyses DROP COLUMN fxRates;
+ALTER TABLE analyses DROP COLUMN reportingCurrency;
+
+DROP TABLE IF EXISTS user_settings;
+
+DROP INDEX IF EXISTS idx_fx_rates_currency;
+
+DROP TABLE IF EXISTS fx_rates;
@@ -0,0 +1,27 @@
+-- Migration number: 0011 	 2026-10-19T23:05:41.000Z
+-- Up
+-- Dated exchange rates as units of each currency per US dollar; conversions
+-- between two other currencies go through USD
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id        INTEGER PRIMARY KEY AUTOINCREMENT,
+  currency  TEXT NOT NULL,
+  rateDate  TEXT NOT NULL,
+  perUsd    REAL NOT NULL,
+  source    TEXT NOT NULL,
+  updatedAt TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (currency, rateDate)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_currency ON fx_rates(currency, rateDate);
+
+-- Per-user preferences, starting with the currency analyses report in
+CREATE TABLE IF NOT EXISTS user_settings (
+  userId            TEXT PRIMARY KEY,
+  reportingCurrency TEXT NOT NULL DEFAULT 'USD',
+  updatedAt         TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Reporting currency and the exchange rates an analysis converted with, so
+-- its figures can be reproduced after the rate table changes
+ALTER TABLE analyses ADD COLUMN reportingCurrency TEXT;
+ALTER TABLE analyses ADD COLUMN fxRates TEXT;
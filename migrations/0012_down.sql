@@ -0,0 +1,5 @@
+ALTER TABLE user_settings DROP COLUMN rightsizingMargin;
+
+DROP INDEX IF EXISTS idx_rightsizing_thread;
+
+DROP TABLE IF EXISTS rightsizing_recommendations;
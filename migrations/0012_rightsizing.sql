@@ -0,0 +1,31 @@
+-- Migration number: 0012 	 2026-10-20T08:14:09.000Z
+-- Up
+-- Rightsizing candidates computed from billed instances and their p95
+-- utilization, kept per analysis so the chat and API can list them
+CREATE TABLE IF NOT EXISTS rightsizing_recommendations (
+  id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+  analysisId         INTEGER NOT NULL,
+  userId             TEXT NOT NULL,
+  threadId           TEXT NOT NULL,
+  resourceId         TEXT NOT NULL,
+  resourceName       TEXT,
+  provider           TEXT NOT NULL,
+  region             TEXT,
+  currentType        TEXT NOT NULL,
+  recommendedType    TEXT NOT NULL,
+  cpuP95             REAL NOT NULL,
+  memoryP95          REAL,
+  currentMonthly     REAL NOT NULL,
+  recommendedMonthly REAL NOT NULL,
+  monthlySavings     REAL NOT NULL,
+  currency           TEXT NOT NULL,
+  safetyMargin       REAL NOT NULL,
+  catalogVersion     TEXT NOT NULL,
+  createdAt          TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (analysisId) REFERENCES analyses(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rightsizing_thread ON rightsizing_recommendations(userId, threadId);
+
+-- Headroom kept above p95 utilization when sizing instances
+ALTER TABLE user_settings ADD COLUMN rightsizingMargin REAL NOT NULL DEFAULT 0.2;
@@ -0,0 +1,30 @@
+-- Migration number: 0013 	 2026-10-20T10:41:27.000Z
+-- Up
+-- Days whose spend jumped above the seasonal baseline of their service and
+-- account series across a thread's billing exports, with the usage type and
+-- resource behind the jump
+CREATE TABLE IF NOT EXISTS cost_anomalies (
+  id           INTEGER PRIMARY KEY AUTOINCREMENT,
+  userId       TEXT NOT NULL,
+  threadId     TEXT NOT NULL,
+  -- One detection pass; its assistant message shows the anomalies as cards
+  runId        TEXT NOT NULL,
+  messageId    TEXT,
+  usageDate    TEXT NOT NULL,
+  serviceName  TEXT NOT NULL,
+  subAccountId TEXT,
+  usageType    TEXT,
+  resourceId   TEXT,
+  actualCost   REAL NOT NULL,
+  expectedCost REAL NOT NULL,
+  deltaCost    REAL NOT NULL,
+  score        REAL NOT NULL,
+  currency     TEXT NOT NULL,
+  sensitivity  TEXT NOT NULL,
+  createdAt    TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_anomalies_thread ON cost_anomalies(userId, threadId, usageDate);
+
+-- How readily daily spend jumps are flagged: low, medium or high
+ALTER TABLE user_settings ADD COLUMN anomalySensitivity TEXT NOT NULL DEFAULT 'medium';
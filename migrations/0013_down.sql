@@ -0,0 +1,5 @@
+ALTER TABLE user_settings DROP COLUMN anomalySensitivity;
+
+DROP INDEX IF EXISTS idx_cost_anomalies_thread;
+
+DROP TABLE IF EXISTS cost_anomalies;
@@ -0,0 +1,5 @@
+-- Migration number: 0014 	 2026-10-20T13:05:44.000Z
+-- Up
+-- Tag keys read for team, environment and cost center showback, as JSON
+-- ({"team": ["team", "owner"], ...}); null uses the defaults
+ALTER TABLE user_settings ADD COLUMN showbackTagKeys TEXT;
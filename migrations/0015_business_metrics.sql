@@ -0,0 +1,18 @@
+-- Migration number: 0015 	 2026-10-20T15:22:08.000Z
+-- Up
+-- Daily business volumes (API requests, active customers, orders...) that
+-- daily spend is divided by for unit costs, uploaded or entered per thread
+CREATE TABLE IF NOT EXISTS business_metrics (
+  id        INTEGER PRIMARY KEY AUTOINCREMENT,
+  userId    TEXT NOT NULL,
+  threadId  TEXT NOT NULL,
+  metric    TEXT NOT NULL,
+  usageDate TEXT NOT NULL,
+  value     REAL NOT NULL,
+  -- File name the values came from, or "manual"
+  source    TEXT NOT NULL,
+  createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (userId, threadId, metric, usageDate)
+);
+
+CREATE INDEX IF NOT EXISTS idx_business_metrics_user ON business_metrics(userId, metric, usageDate);
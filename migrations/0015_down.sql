@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_business_metrics_user;
+
+DROP TABLE IF EXISTS business_metrics;
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_scenarios_thread;
+
+DROP TABLE IF EXISTS scenarios;
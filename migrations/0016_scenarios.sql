@@ -0,0 +1,19 @@
+-- Migration number: 0016 	 2026-10-20T17:48:31.000Z
+-- Up
+-- What-if scenarios saved per thread: the transforms applied to the billing
+-- baseline and the projected monthly bill they produced
+CREATE TABLE IF NOT EXISTS scenarios (
+  id               INTEGER PRIMARY KEY AUTOINCREMENT,
+  userId           TEXT NOT NULL,
+  threadId         TEXT NOT NULL,
+  name             TEXT NOT NULL,
+  transforms       TEXT NOT NULL,
+  result           TEXT NOT NULL,
+  currency         TEXT NOT NULL,
+  baselineMonthly  REAL NOT NULL,
+  projectedMonthly REAL NOT NULL,
+  monthlyDelta     REAL NOT NULL,
+  createdAt        TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_scenarios_thread ON scenarios(userId, threadId);
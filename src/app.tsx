@@ -5,6 +5,7 @@ import { ChatMessages } from "@/components/chat/ChatMessages";
 import { Header } from "@/components/layout/Header";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { useChat } from "@/hooks/useChat";
+import { useReportingCurrency } from "@/hooks/useReportingCurrency";
 
 export default function App() {
   const [showSidebar, setShowSidebar] = useState(false);
@@ -22,9 +23,13 @@ export default function App() {
     handleThreadSelect,
     handleFileSelect,
     handleRemoveFile,
+    handleFileRoleChange,
+    handleSheetRoleChange,
     handleSend,
     isSendEnabled
   } = useChat();
+  const { reportingCurrency, currencies, setReportingCurrency } =
+    useReportingCurrency();
 
   // Auto-scroll whenever a new message is added
   // biome-ignore lint/correctness/useExhaustiveDependencies: intentionally re-run when chat grows
@@ -52,6 +57,9 @@ export default function App() {
         onToggleSidebar={() => setShowSidebar(!showSidebar)}
         showSidebar={showSidebar}
         isMobile={true}
+        reportingCurrency={reportingCurrency}
+        currencies={currencies}
+        onReportingCurrencyChange={setReportingCurrency}
       />
 
       <div className="flex-1 flex overflow-hidden">
@@ -72,6 +80,9 @@ export default function App() {
             onToggleSidebar={() => setShowSidebar(!showSidebar)}
             showSidebar={showSidebar}
             isMobile={false}
+            reportingCurrency={reportingCurrency}
+            currencies={currencies}
+            onReportingCurrencyChange={setReportingCurrency}
           />
 
           {/* Messages Area */}
@@ -104,6 +115,8 @@ export default function App() {
             fileUploads={fileUploads}
             onFileSelect={handleFileSelect}
             onRemoveFile={handleRemoveFile}
+            onFileRoleChange={handleFileRoleChange}
+            onSheetRoleChange={handleSheetRoleChange}
             onSend={handleSend}
             loading={loading}
             isSendEnabled={isSendEnabled}
@@ -0,0 +1,60 @@
+import { TrendingUp } from "lucide-react";
+import type { CostAnomaly } from "@/types/chat";
+
+interface AnomalyCardsProps {
+  anomalies: CostAnomaly[];
+}
+
+function formatMoney(value: number, currency: string): string {
+  return value.toLocaleString("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 2
+  });
+}
+
+export function AnomalyCards({ anomalies }: AnomalyCardsProps) {
+  return (
+    <div className="mb-3">
+      <p className="text-xs font-semibold uppercase tracking-wide text-red-600 dark:text-red-400 mb-2">
+        Anomalies found ({anomalies.length})
+      </p>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {anomalies.map((anomaly) => (
+          <div
+            key={`${anomaly.usageDate}-${anomaly.serviceName}-${anomaly.subAccountId}`}
+            className="rounded-md border border-red-200 dark:border-red-900/60 bg-red-50 dark:bg-red-950/30 p-3 text-sm"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-800 dark:text-slate-200 truncate">
+                  {anomaly.serviceName}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {anomaly.usageDate}
+                  {anomaly.subAccountId && ` · account ${anomaly.subAccountId}`}
+                </p>
+              </div>
+              <span className="flex items-center gap-1 text-red-600 dark:text-red-400 font-semibold whitespace-nowrap">
+                <TrendingUp className="h-4 w-4" />+
+                {formatMoney(anomaly.deltaCost, anomaly.currency)}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">
+              {formatMoney(anomaly.actualCost, anomaly.currency)} vs{" "}
+              {formatMoney(anomaly.expectedCost, anomaly.currency)} expected
+              (score {anomaly.score})
+            </p>
+            {(anomaly.usageType || anomaly.resourceId) && (
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400 break-all">
+                {anomaly.usageType && `Usage type: ${anomaly.usageType}`}
+                {anomaly.usageType && anomaly.resourceId && " · "}
+                {anomaly.resourceId && `Resource: ${anomaly.resourceId}`}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,34 @@
 import { Loader2, X } from "lucide-react";
+import { useState } from "react";
 import { Button } from "@/components/button/Button";
 import { FileUpload } from "@/components/file-upload/file-upload";
 import { Textarea } from "@/components/textarea/Textarea";
-import type { FileUploadProgress } from "@/types/chat";
+import type {
+  AttachmentRole,
+  FileUploadProgress,
+  SheetRole
+} from "@/types/chat";
+
+const ATTACHMENT_ROLES: { value: AttachmentRole; label: string }[] = [
+  { value: "billing", label: "Billing" },
+  { value: "metrics", label: "Metrics" },
+  { value: "iac", label: "Terraform / Kubernetes" },
+  { value: "pricing", label: "Pricing" },
+  { value: "invoice", label: "Invoice" },
+  { value: "other", label: "Other" }
+];
+
+const ATTACHMENT_ACCEPT =
+  ".csv,.json,.txt,.xlsx,.xls,.xml,.yaml,.yml,.log,.gz,.zip,.parquet";
 
 interface ChatInputProps {
   message: string;
   setMessage: (message: string) => void;
   fileUploads: FileUploadProgress[];
-  onFileSelect: (file: File | null, type: "plan" | "metrics") => void;
-  onRemoveFile: (fileType: "plan" | "metrics") => void;
+  onFileSelect: (file: File, role: AttachmentRole) => void;
+  onRemoveFile: (id: string) => void;
+  onFileRoleChange: (id: string, role: AttachmentRole) => void;
+  onSheetRoleChange: (id: string, sheetIndex: number, role: SheetRole) => void;
   onSend: () => void;
   loading: boolean;
   isSendEnabled: boolean;
@@ -21,10 +40,14 @@ export function ChatInput({
   fileUploads,
   onFileSelect,
   onRemoveFile,
+  onFileRoleChange,
+  onSheetRoleChange,
   onSend,
   loading,
   isSendEnabled
 }: ChatInputProps) {
+  const [attachRole, setAttachRole] = useState<AttachmentRole>("billing");
+
   return (
     <div className="border-t border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
       {/* File Upload Progress */}
@@ -32,26 +55,33 @@ export function ChatInput({
         <FileUploadProgressDisplay
           fileUploads={fileUploads}
           onRemoveFile={onRemoveFile}
+          onFileRoleChange={onFileRoleChange}
+          onSheetRoleChange={onSheetRoleChange}
         />
       )}
 
       {/* File Uploads */}
       <div className="p-3 border-b border-slate-100 dark:border-slate-700">
-        <div className="flex gap-3">
-          <div className="flex-1">
-            <FileUpload
-              onFileSelect={(file) => onFileSelect(file, "plan")}
-              accept=".csv,.json,.txt,.xlsx,.xls,.xml,.yaml,.yml"
-              label="Upload Plan File"
-              compact={true}
-            />
-          </div>
+        <div className="flex gap-3 items-center">
+          <select
+            value={attachRole}
+            onChange={(e) => setAttachRole(e.target.value as AttachmentRole)}
+            title="Attach files as"
+            className="text-xs rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-2 py-2"
+          >
+            {ATTACHMENT_ROLES.map((role) => (
+              <option key={role.value} value={role.value}>
+                {role.label}
+              </option>
+            ))}
+          </select>
           <div className="flex-1">
             <FileUpload
-              onFileSelect={(file) => onFileSelect(file, "metrics")}
-              accept=".csv,.json,.txt,.xlsx,.xls,.xml,.yaml,.yml,.log"
-              label="Upload Metrics File"
+              onFileSelect={(file) => file && onFileSelect(file, attachRole)}
+              accept={ATTACHMENT_ACCEPT}
+              label="Attach files (any number)"
               compact={true}
+              multiple={true}
             />
           </div>
         </div>
@@ -101,24 +131,28 @@ export function ChatInput({
 // Renamed from FileUploadProgress to avoid conflict with the imported type
 function FileUploadProgressDisplay({
   fileUploads,
-  onRemoveFile
+  onRemoveFile,
+  onFileRoleChange,
+  onSheetRoleChange
 }: {
   fileUploads: FileUploadProgress[];
-  onRemoveFile: (fileType: "plan" | "metrics") => void;
+  onRemoveFile: ChatInputProps["onRemoveFile"];
+  onFileRoleChange: ChatInputProps["onFileRoleChange"];
+  onSheetRoleChange: ChatInputProps["onSheetRoleChange"];
 }) {
   return (
     <div className="p-3 border-b border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/30">
       <div className="flex items-center gap-2 mb-2">
         <span className="text-xs font-medium text-slate-700 dark:text-slate-300">
-          Uploading (
+          Attachments (
           {fileUploads.filter((f) => f.status === "completed").length}/
-          {fileUploads.length})
+          {fileUploads.length} uploaded)
         </span>
       </div>
       <div className="space-y-2">
         {fileUploads.map((upload) => (
           <div
-            key={upload.fileType}
+            key={upload.id}
             className="flex items-center gap-2 p-2 bg-white dark:bg-slate-800 rounded border border-slate-200 dark:border-slate-700"
           >
             <div className="flex-shrink-0">
@@ -138,9 +172,29 @@ function FileUploadProgressDisplay({
             </div>
 
             <div className="flex-1 min-w-0">
-              <p className="text-xs text-slate-700 dark:text-slate-300 truncate">
-                {upload.file.name}
-              </p>
+              <div className="flex items-center gap-2">
+                <p className="flex-1 text-xs text-slate-700 dark:text-slate-300 truncate">
+                  {upload.file.name}
+                </p>
+                <select
+                  value={upload.role}
+                  disabled={upload.status !== "completed"}
+                  onChange={(e) =>
+                    onFileRoleChange(
+                      upload.id,
+                      e.target.value as AttachmentRole
+                    )
+                  }
+                  title="File role"
+                  className="text-xs rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+                >
+                  {ATTACHMENT_ROLES.map((role) => (
+                    <option key={role.value} value={role.value}>
+                      {role.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-1 mt-1">
                 <div
                   className={`h-1 rounded-full transition-all duration-300 ${
@@ -153,12 +207,81 @@ function FileUploadProgressDisplay({
                   style={{ width: `${upload.progress}%` }}
                 />
               </div>
+              {upload.status === "uploading" && upload.parts && (
+                <div className="flex gap-px mt-1">
+                  {upload.parts.map((part) => (
+                    <div
+                      key={part.partNumber}
+                      title={`Part ${part.partNumber}: ${Math.round((part.loaded / part.size) * 100)}%`}
+                      className="flex-1 h-1 bg-slate-200 dark:bg-slate-700"
+                    >
+                      <div
+                        className={`h-1 ${
+                          part.status === "error"
+                            ? "bg-red-500"
+                            : part.status === "completed"
+                              ? "bg-green-500"
+                              : "bg-blue-500"
+                        }`}
+                        style={{
+                          width: `${(part.loaded / part.size) * 100}%`
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              {upload.uploadedFile?.entries &&
+                upload.uploadedFile.entries.length > 0 && (
+                  <p className="mt-1 text-xs text-slate-500 dark:text-slate-400 truncate">
+                    Extracted{" "}
+                    {upload.uploadedFile.entries
+                      .map((entry) => entry.fileName)
+                      .join(", ")}
+                  </p>
+                )}
+              {upload.uploadedFile &&
+                [upload.uploadedFile, ...(upload.uploadedFile.entries ?? [])]
+                  .filter((f) => f.roleWarning)
+                  .map((f) => (
+                    <p
+                      key={f.id}
+                      className="mt-1 text-xs text-amber-600 dark:text-amber-400"
+                    >
+                      {f.roleWarning}
+                    </p>
+                  ))}
+              {upload.uploadedFile?.sheets?.map((sheet) => (
+                <div
+                  key={sheet.sheetIndex}
+                  className="flex items-center gap-2 mt-1 text-xs text-slate-600 dark:text-slate-400"
+                >
+                  <span className="flex-1 truncate">
+                    {sheet.sheetName} ({sheet.rowCount} rows)
+                  </span>
+                  <select
+                    value={sheet.role}
+                    onChange={(e) =>
+                      onSheetRoleChange(
+                        upload.id,
+                        sheet.sheetIndex,
+                        e.target.value as SheetRole
+                      )
+                    }
+                    className="text-xs rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+                  >
+                    <option value="billing">Billing</option>
+                    <option value="metrics">Metrics</option>
+                    <option value="ignore">Ignore</option>
+                  </select>
+                </div>
+              ))}
             </div>
 
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => onRemoveFile(upload.fileType)}
+              onClick={() => onRemoveFile(upload.id)}
               className="p-1 hover:bg-red-100 dark:hover:bg-red-900 text-red-600"
               title="Remove file"
             >
@@ -1,4 +1,5 @@
 import { MessageCircle } from "lucide-react";
+import { AnomalyCards } from "@/components/chat/AnomalyCards";
 import { FileIcon } from "@/components/file-icon/FileIcon";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
 import type { ChatMessage } from "@/types/chat";
@@ -55,6 +56,12 @@ export function ChatMessages({ messages, loading }: ChatMessagesProps) {
               </div>
             )}
 
+            {m.role === "assistant" &&
+              m.anomalies &&
+              m.anomalies.length > 0 && (
+                <AnomalyCards anomalies={m.anomalies} />
+              )}
+
             <div className="whitespace-pre-wrap break-words text-sm lg:text-base leading-relaxed">
               <MemoizedMarkdown
                 content={m.text}
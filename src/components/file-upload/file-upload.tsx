@@ -8,6 +8,8 @@ type FileUploadProps = {
   label?: string;
   className?: string;
   compact?: boolean;
+  // Each selected or dropped file is passed to onFileSelect in turn
+  multiple?: boolean;
 };
 
 export function FileUpload({
@@ -15,13 +17,18 @@ export function FileUpload({
   accept,
   label,
   className,
-  compact = false
+  compact = false,
+  multiple = false
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0] || null;
-    onFileSelect(file);
+    const files = Array.from(e.target.files ?? []);
+    if (multiple) {
+      for (const file of files) onFileSelect(file);
+    } else {
+      onFileSelect(files[0] || null);
+    }
     // Reset input to allow selecting same file again
     e.target.value = "";
   };
@@ -39,8 +46,8 @@ export function FileUpload({
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const file = e.dataTransfer.files[0];
-    if (file) {
+    const files = Array.from(e.dataTransfer.files);
+    for (const file of multiple ? files : files.slice(0, 1)) {
       onFileSelect(file);
     }
   };
@@ -63,6 +70,7 @@ export function FileUpload({
             type="file"
             className="hidden"
             accept={accept}
+            multiple={multiple}
             onChange={handleChange}
           />
           <Upload className="h-3 w-3 text-slate-400 mr-2" />
@@ -97,11 +105,12 @@ export function FileUpload({
           type="file"
           className="hidden"
           accept={accept}
+          multiple={multiple}
           onChange={handleChange}
         />
         <Upload className="h-8 w-8 text-slate-400 mb-3" />
         <span className="text-base text-slate-600 dark:text-slate-400 text-center">
-          Click to upload or drag a file here
+          Click to upload or drag {multiple ? "files" : "a file"} here
         </span>
         {accept && (
           <span className="text-sm text-slate-500 dark:text-slate-500 mt-2">
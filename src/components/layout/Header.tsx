@@ -6,14 +6,35 @@ interface HeaderProps {
   onToggleSidebar: () => void;
   showSidebar: boolean;
   isMobile?: boolean;
+  reportingCurrency: string;
+  currencies: string[];
+  onReportingCurrencyChange: (currency: string) => void;
 }
 
 export function Header({
   onNewChat,
   onToggleSidebar,
   showSidebar,
-  isMobile = false
+  isMobile = false,
+  reportingCurrency,
+  currencies,
+  onReportingCurrencyChange
 }: HeaderProps) {
+  const currencySelect = (
+    <select
+      value={reportingCurrency}
+      onChange={(e) => onReportingCurrencyChange(e.target.value)}
+      title="Reporting currency"
+      className="text-sm rounded-md border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-2 py-1"
+    >
+      {currencies.map((currency) => (
+        <option key={currency} value={currency}>
+          {currency}
+        </option>
+      ))}
+    </select>
+  );
+
   if (isMobile) {
     return (
       <div className="lg:hidden flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
@@ -28,6 +49,7 @@ export function Header({
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {currencySelect}
           <Button
             variant="outline"
             size="sm"
@@ -71,6 +93,7 @@ export function Header({
         </div>
       </div>
       <div className="flex items-center gap-2">
+        {currencySelect}
         <Button
           variant="outline"
           size="sm"
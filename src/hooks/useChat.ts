@@ -1,11 +1,15 @@
 import { useCallback, useRef, useState } from "react";
+import { MULTIPART_THRESHOLD, uploadMultipart } from "@/lib/multipart-upload";
 import type {
+  AttachmentRole,
   ChatMessage,
   ChatRequest,
   ChatResponse,
+  FileSheet,
   FileUploadProgress,
   HistoryResponse,
   NewChatResponse,
+  SheetRole,
   UploadedFile
 } from "@/types/chat";
 
@@ -22,6 +26,8 @@ export function useChat() {
   const [isNewChat, setIsNewChat] = useState(false);
 
   const hasLoadedHistory = useRef(false);
+  // Files selected together upload in parallel and must share one new thread
+  const pendingThread = useRef<Promise<string> | null>(null);
 
   const generateNewSessionId = useCallback(() => {
     const newSessionId = crypto.randomUUID();
@@ -111,26 +117,46 @@ export function useChat() {
     return false;
   };
 
-  const handleFileSelect = async (
-    file: File | null,
-    type: "plan" | "metrics"
-  ) => {
-    if (!file) {
-      setFileUploads((prev) => prev.filter((f) => f.fileType !== type));
-      return;
+  const updateUpload = (id: string, update: Partial<FileUploadProgress>) => {
+    setFileUploads((prev) =>
+      prev.map((f) => (f.id === id ? { ...f, ...update } : f))
+    );
+  };
+
+  const createThreadForUpload = () => {
+    if (!pendingThread.current) {
+      console.log("New chat - creating thread before file upload...");
+      const created = fetch("/api/chat/new", { method: "POST" }).then(
+        async (response) => {
+          if (!response.ok) {
+            throw new Error("Failed to create thread for file upload");
+          }
+          const data = (await response.json()) as NewChatResponse;
+          setCurrentThreadId(data.threadId);
+          console.log("✅ Created new thread for file upload:", data.threadId);
+          return data.threadId;
+        }
+      );
+      // A failed attempt lets the next file try again
+      created.catch(() => {
+        if (pendingThread.current === created) pendingThread.current = null;
+      });
+      pendingThread.current = created;
     }
+    return pendingThread.current;
+  };
 
+  const handleFileSelect = async (file: File, role: AttachmentRole) => {
+    const id = crypto.randomUUID();
     const uploadProgress: FileUploadProgress = {
+      id,
       file: file,
       progress: 0,
       status: "uploading",
-      fileType: type
+      role
     };
 
-    setFileUploads((prev) => [
-      ...prev.filter((f) => f.fileType !== type),
-      uploadProgress
-    ]);
+    setFileUploads((prev) => [...prev, uploadProgress]);
 
     try {
       const currentSessionId = uploadSessionId;
@@ -138,22 +164,7 @@ export function useChat() {
       let threadIdForUpload = currentThreadId;
 
       if (!threadIdForUpload && isNewChat) {
-        console.log("New chat - creating thread before file upload...");
-        const newThreadResponse = await fetch("/api/chat/new", {
-          method: "POST"
-        });
-
-        if (newThreadResponse.ok) {
-          const data = (await newThreadResponse.json()) as NewChatResponse;
-          threadIdForUpload = data.threadId;
-          setCurrentThreadId(threadIdForUpload);
-          console.log(
-            "✅ Created new thread for file upload:",
-            threadIdForUpload
-          );
-        } else {
-          throw new Error("Failed to create thread for file upload");
-        }
+        threadIdForUpload = await createThreadForUpload();
       }
 
       if (!currentSessionId) {
@@ -161,9 +172,29 @@ export function useChat() {
         return;
       }
 
+      if (file.size > MULTIPART_THRESHOLD) {
+        const result = await uploadMultipart(file, {
+          fileType: role,
+          sessionId: currentSessionId,
+          threadId: threadIdForUpload,
+          onStart: (uploadId) => updateUpload(id, { uploadId }),
+          onProgress: (parts) => {
+            const loaded = parts.reduce((sum, part) => sum + part.loaded, 0);
+            const progress = Math.round((loaded / file.size) * 100);
+            updateUpload(id, { parts, progress });
+          }
+        });
+        updateUpload(id, {
+          status: "completed",
+          progress: 100,
+          uploadedFile: result.file
+        });
+        return;
+      }
+
       const formData = new FormData();
       formData.append("file", file);
-      formData.append("fileType", type);
+      formData.append("fileType", role);
       formData.append("sessionId", currentSessionId);
 
       const uploadUrl = threadIdForUpload
@@ -175,11 +206,7 @@ export function useChat() {
       xhr.upload.addEventListener("progress", (e) => {
         if (e.lengthComputable) {
           const progress = (e.loaded / e.total) * 100;
-          setFileUploads((prev) =>
-            prev.map((f) =>
-              f.fileType === type ? { ...f, progress: Math.round(progress) } : f
-            )
-          );
+          updateUpload(id, { progress: Math.round(progress) });
         }
       });
 
@@ -188,57 +215,100 @@ export function useChat() {
           const response: { file: UploadedFile } = await JSON.parse(
             xhr.responseText
           );
-          setFileUploads((prev) =>
-            prev.map((f) =>
-              f.fileType === type
-                ? {
-                    ...f,
-                    status: "completed",
-                    progress: 100,
-                    uploadedFile: response.file
-                  }
-                : f
-            )
-          );
+          updateUpload(id, {
+            status: "completed",
+            progress: 100,
+            uploadedFile: response.file
+          });
         } else {
-          setFileUploads((prev) =>
-            prev.map((f) =>
-              f.fileType === type ? { ...f, status: "error", progress: 0 } : f
-            )
-          );
+          updateUpload(id, { status: "error", progress: 0 });
         }
       });
 
       xhr.addEventListener("error", () => {
-        setFileUploads((prev) =>
-          prev.map((f) =>
-            f.fileType === type ? { ...f, status: "error", progress: 0 } : f
-          )
-        );
+        updateUpload(id, { status: "error", progress: 0 });
       });
 
       xhr.open("POST", uploadUrl);
       xhr.send(formData);
     } catch (error) {
       console.error("File upload error:", error);
-      setFileUploads((prev) =>
-        prev.map((f) =>
-          f.fileType === type ? { ...f, status: "error", progress: 0 } : f
-        )
-      );
+      updateUpload(id, { status: "error", progress: 0 });
     }
   };
 
-  const handleRemoveFile = (fileType: "plan" | "metrics") => {
-    const upload = fileUploads.find((f) => f.fileType === fileType);
+  const handleRemoveFile = (id: string) => {
+    const upload = fileUploads.find((f) => f.id === id);
 
     if (upload?.status === "completed" && upload.uploadedFile) {
       fetch(`/api/files/${upload.uploadedFile.id}`, { method: "DELETE" }).catch(
         console.error
       );
+    } else if (upload?.status === "uploading" && upload.uploadId) {
+      fetch(`/api/uploads/${encodeURIComponent(upload.uploadId)}`, {
+        method: "DELETE"
+      }).catch(console.error);
     }
 
-    setFileUploads((prev) => prev.filter((f) => f.fileType !== fileType));
+    setFileUploads((prev) => prev.filter((f) => f.id !== id));
+  };
+
+  const handleFileRoleChange = async (id: string, role: AttachmentRole) => {
+    const upload = fileUploads.find((f) => f.id === id);
+    if (!upload?.uploadedFile) return;
+
+    updateUpload(id, { role });
+    try {
+      const response = await fetch(
+        `/api/files/${upload.uploadedFile.id}/role`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ role })
+        }
+      );
+      if (!response.ok) throw new Error("Failed to update file role");
+
+      const data = (await response.json()) as { file: UploadedFile };
+      updateUpload(id, {
+        uploadedFile: { ...data.file, sheets: upload.uploadedFile.sheets }
+      });
+    } catch (error) {
+      console.error("File role update error:", error);
+      updateUpload(id, { role: upload.role });
+    }
+  };
+
+  const handleSheetRoleChange = async (
+    id: string,
+    sheetIndex: number,
+    role: SheetRole
+  ) => {
+    const upload = fileUploads.find((f) => f.id === id);
+    if (!upload?.uploadedFile) return;
+
+    try {
+      const response = await fetch(
+        `/api/files/${upload.uploadedFile.id}/sheets`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sheets: [{ sheetIndex, role }] })
+        }
+      );
+      if (!response.ok) throw new Error("Failed to update sheet role");
+
+      const data = (await response.json()) as { sheets: FileSheet[] };
+      setFileUploads((prev) =>
+        prev.map((f) =>
+          f.id === id && f.uploadedFile
+            ? { ...f, uploadedFile: { ...f.uploadedFile, sheets: data.sheets } }
+            : f
+        )
+      );
+    } catch (error) {
+      console.error("Sheet role update error:", error);
+    }
   };
 
   const handleNewChat = async () => {
@@ -251,6 +321,7 @@ export function useChat() {
       setCurrentThreadId(null);
       setIsNewChat(true);
       hasLoadedHistory.current = false;
+      pendingThread.current = null;
 
       const response = await fetch("/api/chat/new", {
         method: "POST"
@@ -312,7 +383,11 @@ export function useChat() {
     try {
       const currentSessionId = uploadSessionId;
     
-      let threadIdForMessage = currentThreadId;
+      // Uploads may have created the thread since this render
+      let threadIdForMessage =
+        currentThreadId ??
+        (await pendingThread.current?.catch(() => null)) ??
+        null;
 
       if (!threadIdForMessage) {
         const newThreadResponse = await fetch("/api/chat/new", {
@@ -343,7 +418,8 @@ export function useChat() {
           role: "assistant",
           text: data.reply,
           timestamp: new Date(),
-          messageId: data.messageId || crypto.randomUUID()
+          messageId: data.messageId || crypto.randomUUID(),
+          anomalies: data.anomalies
         };
         setChat((c) => [...c, assistantMessage]);
       }
@@ -372,6 +448,8 @@ export function useChat() {
     handleThreadSelect,
     handleFileSelect,
     handleRemoveFile,
+    handleFileRoleChange,
+    handleSheetRoleChange,
     handleSend,
     loadChatHistory,
 
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from "react";
+import type { CurrencySettings } from "@/types/chat";
+
+export function useReportingCurrency() {
+  const [settings, setSettings] = useState<CurrencySettings>({
+    reportingCurrency: "USD",
+    currencies: ["USD"]
+  });
+
+  useEffect(() => {
+    fetch("/api/settings/currency")
+      .then((r) => (r.ok ? (r.json() as Promise<CurrencySettings>) : null))
+      .then((d) => d && setSettings(d))
+      .catch((error) =>
+        console.warn("Failed to load currency settings", error)
+      );
+  }, []);
+
+  const setReportingCurrency = useCallback(
+    async (currency: string) => {
+      const previous = settings.reportingCurrency;
+      setSettings((s) => ({ ...s, reportingCurrency: currency }));
+      try {
+        const r = await fetch("/api/settings/currency", {
+          method: "PUT",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ reportingCurrency: currency })
+        });
+        if (!r.ok) throw new Error(`Status ${r.status}`);
+      } catch (error) {
+        console.error("Failed to set reporting currency", error);
+        setSettings((s) => ({ ...s, reportingCurrency: previous }));
+      }
+    },
+    [settings.reportingCurrency]
+  );
+
+  return {
+    reportingCurrency: settings.reportingCurrency,
+    currencies: settings.currencies,
+    setReportingCurrency
+  };
+}
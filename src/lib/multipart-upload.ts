@@ -0,0 +1,169 @@
+import type { PartProgress, UploadedFile } from "@/types/chat";
+
+// Files above this size go through /api/uploads in parts
+export const MULTIPART_THRESHOLD = 10 * 1024 * 1024;
+
+const MAX_PART_ATTEMPTS = 5;
+const PART_CONCURRENCY = 3;
+const RESUME_PREFIX = "multipart-upload:";
+
+interface UploadState {
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+  status: string;
+  parts: { partNumber: number; size: number }[];
+}
+
+export interface MultipartUploadOptions {
+  fileType: string;
+  sessionId: string;
+  threadId: string | null;
+  onStart: (uploadId: string) => void;
+  onProgress: (parts: PartProgress[]) => void;
+}
+
+export interface MultipartUploadResult {
+  file: UploadedFile;
+  warnings: string[];
+}
+
+function resumeKeyFor(file: File, sessionId: string): string {
+  return `${RESUME_PREFIX}${sessionId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Reuses an unfinished upload of the same file in this session, if the
+// server still has it, so a dropped connection only re-sends missing parts
+async function findResumableUpload(
+  resumeKey: string
+): Promise<UploadState | null> {
+  const uploadId = localStorage.getItem(resumeKey);
+  if (!uploadId) return null;
+
+  const response = await fetch(`/api/uploads/${encodeURIComponent(uploadId)}`);
+  if (response.ok) {
+    const state = (await response.json()) as UploadState;
+    if (state.status === "uploading") return state;
+  }
+  localStorage.removeItem(resumeKey);
+  return null;
+}
+
+function sendPart(
+  uploadId: string,
+  partNumber: number,
+  body: Blob,
+  onProgress: (loaded: number) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.upload.addEventListener("progress", (e) => onProgress(e.loaded));
+    xhr.addEventListener("load", () =>
+      xhr.status === 200
+        ? resolve()
+        : reject(new Error(`Part ${partNumber} failed: ${xhr.status}`))
+    );
+    xhr.addEventListener("error", () =>
+      reject(new Error(`Part ${partNumber} failed: network error`))
+    );
+    xhr.open(
+      "PUT",
+      `/api/uploads/${encodeURIComponent(uploadId)}/parts/${partNumber}`
+    );
+    xhr.send(body);
+  });
+}
+
+export async function uploadMultipart(
+  file: File,
+  options: MultipartUploadOptions
+): Promise<MultipartUploadResult> {
+  const resumeKey = resumeKeyFor(file, options.sessionId);
+  let state = await findResumableUpload(resumeKey);
+
+  if (!state) {
+    const response = await fetch("/api/uploads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        fileName: file.name,
+        fileSize: file.size,
+        contentType: file.type,
+        fileType: options.fileType,
+        sessionId: options.sessionId,
+        threadId: options.threadId
+      })
+    });
+    if (!response.ok) throw new Error("Failed to start upload");
+    const created = (await response.json()) as Omit<
+      UploadState,
+      "status" | "parts"
+    >;
+    state = { ...created, status: "uploading", parts: [] };
+    localStorage.setItem(resumeKey, state.uploadId);
+  } else {
+    console.log(
+      `Resuming upload ${state.uploadId}: ${state.parts.length}/${state.partCount} parts done`
+    );
+  }
+
+  const { uploadId, partSize, partCount } = state;
+  options.onStart(uploadId);
+
+  const done = new Set(state.parts.map((part) => part.partNumber));
+  const progress: PartProgress[] = Array.from({ length: partCount }, (_, i) => {
+    const size = Math.min(partSize, file.size - i * partSize);
+    return done.has(i + 1)
+      ? { partNumber: i + 1, size, loaded: size, status: "completed" }
+      : { partNumber: i + 1, size, loaded: 0, status: "pending" };
+  });
+  const report = (partNumber: number, update: Partial<PartProgress>) => {
+    progress[partNumber - 1] = { ...progress[partNumber - 1], ...update };
+    options.onProgress([...progress]);
+  };
+  options.onProgress([...progress]);
+
+  const uploadPart = async (partNumber: number) => {
+    const start = (partNumber - 1) * partSize;
+    const body = file.slice(start, Math.min(start + partSize, file.size));
+    for (let attempt = 1; ; attempt++) {
+      try {
+        report(partNumber, { status: "uploading", loaded: 0 });
+        await sendPart(uploadId, partNumber, body, (loaded) =>
+          report(partNumber, { loaded })
+        );
+        report(partNumber, { status: "completed", loaded: body.size });
+        return;
+      } catch (error) {
+        if (attempt >= MAX_PART_ATTEMPTS) {
+          report(partNumber, { status: "error" });
+          throw error;
+        }
+        // Back off, and wait for the browser to come back online
+        await sleep(1000 * 2 ** (attempt - 1));
+        while (!navigator.onLine) await sleep(1000);
+      }
+    }
+  };
+
+  const queue = progress
+    .filter((part) => part.status !== "completed")
+    .map((part) => part.partNumber);
+  await Promise.all(
+    Array.from({ length: PART_CONCURRENCY }, async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        await uploadPart(next);
+      }
+    })
+  );
+
+  const response = await fetch(
+    `/api/uploads/${encodeURIComponent(uploadId)}/complete`,
+    { method: "POST" }
+  );
+  if (!response.ok) throw new Error("Failed to complete upload");
+  localStorage.removeItem(resumeKey);
+  return (await response.json()) as MultipartUploadResult;
+}
@@ -1,5 +1,10 @@
 import { google } from "@ai-sdk/google";
-import type { Schedule } from "agents";
+import {
+  type Connection,
+  type ConnectionContext,
+  getCurrentAgent,
+  type Schedule
+} from "agents";
 import { AIChatAgent } from "agents/ai-chat-agent";
 import { getSchedulePrompt } from "agents/schedule";
 import {
@@ -12,17 +17,36 @@ import {
   streamText,
   type ToolSet
 } from "ai";
+import { createChatTools, executions } from "../api/chat/tools";
+import { readSessionId } from "../session/cookie";
 import { cleanupMessages, processToolCalls } from "../utils/message-utils";
 
 const model = google("gemini-2.5-flash");
 
+interface ChatConnectionState {
+  userId: string;
+}
+
 export class Chat extends AIChatAgent<Env> {
+  // Tools run as the user of the session cookie the socket was opened with,
+  // as the HTTP routes do
+  async onConnect(
+    connection: Connection<ChatConnectionState>,
+    ctx: ConnectionContext
+  ) {
+    const userId = readSessionId(ctx.request);
+    if (userId) connection.setState({ userId });
+  }
+
   async onChatMessage(
     onFinish: StreamTextOnFinishCallback<ToolSet>,
     _options?: { abortSignal?: AbortSignal }
   ) {
     console.log("Chat agent processing message...");
-    const tools: ToolSet = {};
+    const { connection } = getCurrentAgent<Chat>();
+    const state = (connection as Connection<ChatConnectionState> | undefined)
+      ?.state;
+    const tools = createChatTools(this.env, state?.userId ?? null);
     const stream = createUIMessageStream({
       execute: async ({ writer }) => {
         console.log("Starting message stream execution...");
@@ -33,7 +57,7 @@ export class Chat extends AIChatAgent<Env> {
           messages: cleaned,
           dataStream: writer,
           tools,
-          executions: {}
+          executions
         });
 
         console.log("Starting AI stream text generation...");
@@ -42,9 +66,7 @@ export class Chat extends AIChatAgent<Env> {
           messages: convertToModelMessages(processed),
           model,
           tools,
-          onFinish: onFinish as unknown as StreamTextOnFinishCallback<
-            typeof tools
-          >,
+          onFinish,
           stopWhen: stepCountIs(10)
         });
 
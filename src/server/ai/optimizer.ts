@@ -1,16 +1,43 @@
 import OpenAI from "openai";
+import type { PriceContext } from "../pricing/lookup";
+import { mergeRecommendations, type OptimizationItem } from "./recommendations";
 
 export async function analyzeCostsWithLlama(
   env: Env,
   plan: string,
   metrics: string,
   comment: string,
-  context: string = ""
+  context: string = "",
+  prices: PriceContext | null = null,
+  facts: string = "",
+  recommendations: OptimizationItem[] = []
 ): Promise<string> {
   const prompt = `
-You are a cloud FinOps expert. Given PLAN/BILLING + USAGE METRICS + optional COMMENT + RELEVANT CONTEXT,
+You are a cloud FinOps expert. Given PLAN/BILLING + USAGE METRICS + PRICE CATALOG + COMPUTED FACTS + optional COMMENT + RELEVANT CONTEXT,
 analyze cost drivers and propose optimizations. If appropriate, suggest Cloudflare options
-(Workers, R2, KV, D1). Return:
+(Workers, R2, KV, D1). Billing exports are normalized to FOCUS columns (BilledCost,
+EffectiveCost, ServiceName, SubAccountId, RegionId, PricingCategory, ChargeCategory)
+regardless of cloud provider; prefer EffectiveCost when comparing spend. Usage metrics
+are summarized per resource as p50/p95/max; base rightsizing on p95 and max, never on
+averages alone, and cite the figures you rely on. Terraform plan estimates are already
+priced from the catalog; explain their cost drivers rather than re-pricing them.
+Kubernetes cost allocations split node cost by request share and by measured usage; use
+them to name the namespaces and workloads to right-size. Take every dollar figure for a
+SKU listed in the PRICE CATALOG from the catalog and cite its catalog version; label any
+other price as an estimate. When a currency conversion is given, quote each amount in its
+billing currency followed by the reporting-currency equivalent, and never add amounts in
+different currencies. COMPUTED FACTS were calculated deterministically from the billing
+export, metrics and catalog (rightsizing candidates, commitment simulations, spend
+anomalies, spend forecasts, storage tiering and R2 comparisons, data transfer scenarios,
+Spot eligibility scores, weekly unit costs, what-if scenario projections); explain and
+prioritize them, keep their figures exactly, state each scenario's projected bill and
+delta, name the usage type and resource behind each anomaly, quote forecasts with their
+ranges, state the risk level of each Spot move, describe unit cost trends per metric and call
+out each unit cost regression with its change, base Cloudflare suggestions on the computed
+per-bucket and transfer scenarios, and do not propose other sizes for the same resources. Idle and
+orphaned resources and low or medium risk Spot candidates in the facts are added to the
+JSON array automatically; do not list them in it again.
+Return:
 
 (A) Plain-English summary detailed
 
@@ -32,6 +59,12 @@ ${plan || "(none provided)"}
 --- USAGE METRICS ---
 ${metrics || "(none provided)"}
 
+--- PRICE CATALOG ---
+${prices?.text || "(no catalog prices)"}
+
+--- COMPUTED FACTS ---
+${facts || "(none computed)"}
+
 --- COMMENT ---
 ${comment || "(none provided)"} 
 `;
@@ -59,7 +92,7 @@ ${comment || "(none provided)"}
         : (response as { response?: string })?.response;
 
     if (!out) throw new Error("Empty response from Llama");
-    return out.trim();
+    return mergeRecommendations(out.trim(), recommendations);
   } catch (err) {
     console.error("Llama call failed:", err);
     throw new Error("Cost analysis failed");
@@ -71,7 +104,10 @@ export async function analyzeCostsWithGemini(
   plan: string,
   metrics: string,
   comment: string,
-  context: string = ""
+  context: string = "",
+  prices: PriceContext | null = null,
+  facts: string = "",
+  recommendations: OptimizationItem[] = []
 ): Promise<string> {
   const ai = new OpenAI({
     apiKey: env.GOOGLE_GEMINI_API_KEY,
@@ -79,9 +115,31 @@ export async function analyzeCostsWithGemini(
   });
 
   const prompt = `
-You are a cloud FinOps expert. Given PLAN/BILLING + USAGE METRICS + optional COMMENT + RELEVANT CONTEXT,
+You are a cloud FinOps expert. Given PLAN/BILLING + USAGE METRICS + PRICE CATALOG + COMPUTED FACTS + optional COMMENT + RELEVANT CONTEXT,
 analyze cost drivers and propose optimizations. If appropriate, suggest Cloudflare options
-(Workers, R2, KV, D1). Return:
+(Workers, R2, KV, D1). Billing exports are normalized to FOCUS columns (BilledCost,
+EffectiveCost, ServiceName, SubAccountId, RegionId, PricingCategory, ChargeCategory)
+regardless of cloud provider; prefer EffectiveCost when comparing spend. Usage metrics
+are summarized per resource as p50/p95/max; base rightsizing on p95 and max, never on
+averages alone, and cite the figures you rely on. Terraform plan estimates are already
+priced from the catalog; explain their cost drivers rather than re-pricing them.
+Kubernetes cost allocations split node cost by request share and by measured usage; use
+them to name the namespaces and workloads to right-size. Take every dollar figure for a
+SKU listed in the PRICE CATALOG from the catalog and cite its catalog version; label any
+other price as an estimate. When a currency conversion is given, quote each amount in its
+billing currency followed by the reporting-currency equivalent, and never add amounts in
+different currencies. COMPUTED FACTS were calculated deterministically from the billing
+export, metrics and catalog (rightsizing candidates, commitment simulations, spend
+anomalies, spend forecasts, storage tiering and R2 comparisons, data transfer scenarios,
+Spot eligibility scores, weekly unit costs, what-if scenario projections); explain and
+prioritize them, keep their figures exactly, state each scenario's projected bill and
+delta, name the usage type and resource behind each anomaly, quote forecasts with their
+ranges, state the risk level of each Spot move, describe unit cost trends per metric and call
+out each unit cost regression with its change, base Cloudflare suggestions on the computed
+per-bucket and transfer scenarios, and do not propose other sizes for the same resources. Idle and
+orphaned resources and low or medium risk Spot candidates in the facts are added to the
+JSON array automatically; do not list them in it again.
+Return:
 
 (A) Plain-English summary detailed
 
@@ -103,6 +161,12 @@ ${plan || "(none provided)"}
 --- USAGE METRICS ---
 ${metrics || "(none provided)"}
 
+--- PRICE CATALOG ---
+${prices?.text || "(no catalog prices)"}
+
+--- COMPUTED FACTS ---
+${facts || "(none computed)"}
+
 --- COMMENT ---
 ${comment || "(none provided)"} 
 `;
@@ -122,7 +186,7 @@ ${comment || "(none provided)"}
 
     const out = res.choices?.[0]?.message?.content?.trim();
     if (!out) throw new Error("Empty response from Gemini");
-    return out;
+    return mergeRecommendations(out, recommendations);
   } catch (err) {
     console.error("Gemini call failed:", err);
     throw new Error("Cost analysis failed");
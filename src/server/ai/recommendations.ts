@@ -0,0 +1,38 @@
+// One row of the JSON recommendation list the optimizer prompts ask for;
+// deterministic findings may add their own fields
+export interface OptimizationItem {
+  Area: string;
+  Resource: string;
+  Issue: string;
+  Optimization: string;
+  Cloudflare_Alternative: string;
+  [field: string]: unknown;
+}
+
+const JSON_BLOCK = /```(?:json)?\s*\n([\s\S]*?)```/g;
+
+// Appends computed items to the model's JSON list, replacing its last fenced
+// block; a reply without a parseable list gets a new block
+export function mergeRecommendations(
+  analysis: string,
+  items: OptimizationItem[]
+): string {
+  if (items.length === 0) return analysis;
+
+  const blocks = [...analysis.matchAll(JSON_BLOCK)];
+  for (const block of blocks.reverse()) {
+    let list: unknown;
+    try {
+      list = JSON.parse(block[1]);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(list)) continue;
+
+    const start = block.index ?? 0;
+    const merged = `\`\`\`json\n${JSON.stringify([...list, ...items], null, 2)}\n\`\`\``;
+    return `${analysis.slice(0, start)}${merged}${analysis.slice(start + block[0].length)}`;
+  }
+
+  return `${analysis}\n\n\`\`\`json\n${JSON.stringify(items, null, 2)}\n\`\`\``;
+}
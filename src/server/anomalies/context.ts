@@ -0,0 +1,34 @@
+import { readFocusDatasets } from "../billing/dataset";
+import { getAnomalySensitivity } from "../db/settings";
+import { type AnomalyReport, detectAnomalies } from "./detect";
+import { createDailySpendCollector, type DailySpendCollector } from "./series";
+
+// Detects spend jumps across the daily series of all the exports, so bills
+// uploaded one month at a time still form one history
+export async function buildAnomalyReport(
+  env: Env,
+  userId: string,
+  datasets: { focusKey: string | null }[]
+): Promise<AnomalyReport | null> {
+  if (!datasets.some((dataset) => dataset.focusKey)) return null;
+
+  const collector = createDailySpendCollector();
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  return anomalyReportFrom(env, userId, collector);
+}
+
+// Runs detection over series already collected from the exports
+export async function anomalyReportFrom(
+  env: Env,
+  userId: string,
+  collector: DailySpendCollector
+): Promise<AnomalyReport> {
+  if (collector.skipped > 0) {
+    console.log(
+      `⚠️ Anomaly detection skipped ${collector.skipped} series over the limit`
+    );
+  }
+
+  const sensitivity = await getAnomalySensitivity(env, userId);
+  return detectAnomalies(collector.series(), sensitivity);
+}
@@ -0,0 +1,191 @@
+import { formatMoney, round } from "../utils/format";
+import type { DailySpendSeries } from "./series";
+import { DAY_MS } from "../utils/constants";
+
+export type AnomalySensitivity = "low" | "medium" | "high";
+
+export interface DetectedAnomaly {
+  usageDate: string;
+  serviceName: string;
+  subAccountId: string;
+  // Usage type and resource whose spend rose the most that day
+  usageType: string | null;
+  resourceId: string | null;
+  actualCost: number;
+  expectedCost: number;
+  deltaCost: number;
+  // Robust z-score of the day against its baseline
+  score: number;
+  currency: string;
+}
+
+export interface AnomalyReport {
+  sensitivity: AnomalySensitivity;
+  seriesCount: number;
+  anomalies: DetectedAnomaly[];
+}
+
+export const ANOMALY_SENSITIVITIES: AnomalySensitivity[] = [
+  "low",
+  "medium",
+  "high"
+];
+export const DEFAULT_SENSITIVITY: AnomalySensitivity = "medium";
+
+// Score a day must reach and the share of its baseline the increase must
+// exceed; higher sensitivity flags smaller jumps
+const THRESHOLDS: Record<
+  AnomalySensitivity,
+  { score: number; minIncrease: number }
+> = {
+  low: { score: 5, minIncrease: 0.5 },
+  medium: { score: 3.5, minIncrease: 0.25 },
+  high: { score: 2.5, minIncrease: 0.1 }
+};
+
+// Two weeks give each weekday two earlier samples
+const MIN_HISTORY_DAYS = 14;
+const RESIDUAL_WINDOW_DAYS = 28;
+// Jumps smaller than this are noise whatever their score
+const MIN_DELTA = 1;
+const MAX_ANOMALIES = 50;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+function dayIndex(day: string): number {
+  return Math.floor(Date.parse(`${day}T00:00:00Z`) / DAY_MS);
+}
+
+function dayOf(index: number): string {
+  return new Date(index * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Values for every day from `first` to `last`; days without spend are zero
+function dense(days: Map<string, number>, first: number, last: number) {
+  const values = new Array<number>(last - first + 1).fill(0);
+  for (const [day, cost] of days) {
+    const index = dayIndex(day) - first;
+    if (index >= 0 && index < values.length) values[index] += cost;
+  }
+  return values;
+}
+
+// Seasonal baseline: the median of the same weekday over the previous four
+// weeks, or of the previous week when fewer than two such days exist
+function baselineAt(valueAt: (j: number) => number, i: number): number | null {
+  const weekdays = [7, 14, 21, 28]
+    .map((lag) => i - lag)
+    .filter((j) => j >= 0)
+    .map(valueAt);
+  if (weekdays.length >= 2) return median(weekdays);
+  const week: number[] = [];
+  for (let j = Math.max(0, i - 7); j < i; j++) week.push(valueAt(j));
+  return week.length > 0 ? median(week) : null;
+}
+
+// Largest increase over its own baseline among a day's breakdowns; only the
+// days the baseline needs are looked up
+function topContributor(
+  breakdowns: Map<string, Map<string, number>>,
+  first: number,
+  i: number
+): string | null {
+  let top: string | null = null;
+  let topDelta = 0;
+  for (const [key, days] of breakdowns) {
+    const valueAt = (j: number) => days.get(dayOf(first + j)) ?? 0;
+    const delta = valueAt(i) - (baselineAt(valueAt, i) ?? 0);
+    if (delta > topDelta) {
+      top = key;
+      topDelta = delta;
+    }
+  }
+  return top;
+}
+
+function detectSeries(
+  series: DailySpendSeries,
+  sensitivity: AnomalySensitivity
+): DetectedAnomaly[] {
+  const indexes = [...series.days.keys()].map(dayIndex);
+  const first = Math.min(...indexes);
+  const last = Math.max(...indexes);
+  if (last - first + 1 <= MIN_HISTORY_DAYS) return [];
+
+  const values = dense(series.days, first, last);
+  const baselines = values.map((_, i) => baselineAt((j) => values[j], i));
+  const threshold = THRESHOLDS[sensitivity];
+  const anomalies: DetectedAnomaly[] = [];
+
+  for (let i = MIN_HISTORY_DAYS; i < values.length; i++) {
+    const expected = baselines[i];
+    if (expected === null) continue;
+
+    // Spread of recent days around their own baselines (MAD scaled to a
+    // standard deviation), floored so flat series do not flag pennies
+    const residuals: number[] = [];
+    for (let j = Math.max(1, i - RESIDUAL_WINDOW_DAYS); j < i; j++) {
+      const baseline = baselines[j];
+      if (baseline !== null) residuals.push(values[j] - baseline);
+    }
+    const center = median(residuals);
+    const mad = median(residuals.map((r) => Math.abs(r - center)));
+    const scale = Math.max(1.4826 * mad, 0.05 * expected, 0.01);
+
+    const delta = values[i] - expected;
+    const score = delta / scale;
+    if (
+      score < threshold.score ||
+      delta < MIN_DELTA ||
+      delta < threshold.minIncrease * expected
+    ) {
+      continue;
+    }
+
+    anomalies.push({
+      usageDate: dayOf(first + i),
+      serviceName: series.serviceName,
+      subAccountId: series.subAccountId,
+      usageType: topContributor(series.usageTypes, first, i),
+      resourceId: topContributor(series.resources, first, i),
+      actualCost: round(values[i]),
+      expectedCost: round(expected),
+      deltaCost: round(delta),
+      score: round(score, 1),
+      currency: series.currency
+    });
+  }
+  return anomalies;
+}
+
+// Flags days whose spend jumps above the seasonal baseline of their service
+// and account series, largest jumps first
+export function detectAnomalies(
+  series: DailySpendSeries[],
+  sensitivity: AnomalySensitivity = DEFAULT_SENSITIVITY
+): AnomalyReport {
+  const anomalies = series
+    .flatMap((s) => detectSeries(s, sensitivity))
+    .sort((a, b) => b.deltaCost - a.deltaCost)
+    .slice(0, MAX_ANOMALIES);
+  return { sensitivity, seriesCount: series.length, anomalies };
+}
+
+export function formatAnomalies(report: AnomalyReport): string {
+  if (report.anomalies.length === 0) {
+    return `No spend anomalies across ${report.seriesCount} daily service/account series (${report.sensitivity} sensitivity).`;
+  }
+  return [
+    `Anomalies found (${report.anomalies.length} across ${report.seriesCount} daily service/account series, ${report.sensitivity} sensitivity):`,
+    ...report.anomalies.map(
+      (a) =>
+        `- ${a.usageDate} ${a.serviceName}${a.subAccountId ? ` in account ${a.subAccountId}` : ""}: ${formatMoney(a.actualCost, a.currency)} vs ${formatMoney(a.expectedCost, a.currency)} expected (+${formatMoney(a.deltaCost, a.currency)}, score ${a.score})${a.usageType ? `, usage type ${a.usageType}` : ""}${a.resourceId ? `, resource ${a.resourceId}` : ""}`
+    )
+  ].join("\n");
+}
@@ -0,0 +1,101 @@
+import type { FocusRecord } from "../billing/focus";
+import { COLLECTOR_LIMITS } from "../utils/constants";
+
+// Daily EffectiveCost of one service in one account, with the usage types and
+// resources it breaks down into for root-cause analysis
+export interface DailySpendSeries {
+  serviceName: string;
+  subAccountId: string;
+  currency: string;
+  days: Map<string, number>;
+  usageTypes: Map<string, Map<string, number>>;
+  resources: Map<string, Map<string, number>>;
+}
+
+export interface DailySpendCollector {
+  add(record: FocusRecord): void;
+  series(): DailySpendSeries[];
+  skipped: number;
+}
+
+function addTo(days: Map<string, number>, day: string, cost: number): void {
+  days.set(day, (days.get(day) ?? 0) + cost);
+}
+
+export function createDailySpendCollector(): DailySpendCollector {
+  const series = new Map<string, DailySpendSeries>();
+  let breakdowns = 0;
+
+  const breakdown = (
+    maps: Map<string, Map<string, number>>,
+    key: string,
+    day: string,
+    cost: number
+  ): void => {
+    let days = maps.get(key);
+    if (!days) {
+      if (breakdowns >= COLLECTOR_LIMITS.breakdowns) return;
+      breakdowns++;
+      days = new Map();
+      maps.set(key, days);
+    }
+    addTo(days, day, cost);
+  };
+
+  const collector: DailySpendCollector = {
+    skipped: 0,
+
+    add(record) {
+      // One-off purchases and credits are not usage spikes
+      if (record.ChargeCategory !== "Usage") return;
+      const day = record.ChargePeriodStart.slice(0, 10);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return;
+
+      const key = [
+        record.ServiceName,
+        record.SubAccountId,
+        record.BillingCurrency
+      ].join("\u0000");
+      let entry = series.get(key);
+      if (!entry) {
+        if (series.size >= COLLECTOR_LIMITS.series) {
+          collector.skipped++;
+          return;
+        }
+        entry = {
+          serviceName: record.ServiceName || "(unknown service)",
+          subAccountId: record.SubAccountId,
+          currency: record.BillingCurrency,
+          days: new Map(),
+          usageTypes: new Map(),
+          resources: new Map()
+        };
+        series.set(key, entry);
+      }
+
+      addTo(entry.days, day, record.EffectiveCost);
+      if (record.x_UsageType) {
+        breakdown(
+          entry.usageTypes,
+          record.x_UsageType,
+          day,
+          record.EffectiveCost
+        );
+      }
+      if (record.ResourceId) {
+        breakdown(
+          entry.resources,
+          record.ResourceId,
+          day,
+          record.EffectiveCost
+        );
+      }
+    },
+
+    series() {
+      return [...series.values()];
+    }
+  };
+
+  return collector;
+}
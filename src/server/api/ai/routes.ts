@@ -1,4 +1,6 @@
-import { getFullThreadText } from "../../db/d1";
+import { buildCurrencyConversion } from "../../currency/context";
+import { getFullThreadText, getLatestAnalysisOfType } from "../../db/d1";
+import { getThreadCostDatasets } from "../../db/datasets";
 
 type AiRunOut = { response?: string };
 
@@ -36,15 +38,38 @@ async function handleThreadSummarize(
   const full = await getFullThreadText(env, userId, threadId);
   console.log(`Thread content length: ${full.length} chars`);
 
+  // Spend in other currencies is summarized with its converted amount too
+  const conversion = await buildCurrencyConversion(
+    env,
+    userId,
+    await getThreadCostDatasets(env, userId, threadId)
+  );
+
+  // The latest forecast and unit costs are summarized with the chat so
+  // finance sees where spend will land and what each customer costs
+  const forecast = await getLatestAnalysisOfType(
+    env,
+    userId,
+    threadId,
+    "forecast"
+  );
+  const unitCosts = await getLatestAnalysisOfType(
+    env,
+    userId,
+    threadId,
+    "unit-costs"
+  );
+
   const out = await env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
     messages: [
       {
         role: "system",
-        content: "You summarize FinOps chats into crisp bullet points."
+        content:
+          "You summarize FinOps chats into crisp bullet points. Quote amounts in their billing currency followed by the reporting-currency equivalent when a conversion is given. When a spend forecast is given, end with a Forecast bullet stating the month-end, quarter-end and 12-month figures with their ranges. When unit costs are given, add a Unit costs bullet stating the latest cost per unit of each metric, its trend and any regression."
       },
       {
         role: "user",
-        content: `Summarize key spend drivers and actions:\n${full}`
+        content: `Summarize key spend drivers and actions:\n${full}${conversion.text ? `\n\n${conversion.text}` : ""}${forecast ? `\n\n${forecast.result}` : ""}${unitCosts ? `\n\n${unitCosts.result}` : ""}`
       }
     ],
     temperature: 0.4,
@@ -53,7 +78,11 @@ async function handleThreadSummarize(
 
   const summary = (out as AiRunOut)?.response ?? "";
   console.log(`✅ Summary generated: ${summary.length} chars`);
-  return Response.json({ summary });
+  return Response.json({
+    summary,
+    forecast: forecast?.data ? JSON.parse(forecast.data) : null,
+    unitCosts: unitCosts?.data ? JSON.parse(unitCosts.data) : null
+  });
 }
 
 async function handleDebugFiles(
@@ -0,0 +1,120 @@
+import { buildAnomalyReport } from "../../anomalies/context";
+import {
+  ANOMALY_SENSITIVITIES,
+  type AnomalySensitivity
+} from "../../anomalies/detect";
+import { listLatestAnomalies, saveAnomalies } from "../../db/anomalies";
+import { getThreadCostDatasets } from "../../db/datasets";
+import {
+  getAnomalySensitivity,
+  setAnomalySensitivity
+} from "../../db/settings";
+import { readJsonBody } from "../../utils/request";
+
+export async function anomalyRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  if (url.pathname === "/api/anomalies") {
+    // The thread's latest detected anomalies
+    if (request.method === "GET") {
+      const threadId = url.searchParams.get("threadId");
+      if (!threadId) {
+        return Response.json(
+          { error: "threadId is required" },
+          { status: 400 }
+        );
+      }
+      return Response.json({
+        anomalies: await listLatestAnomalies(env, userId, threadId)
+      });
+    }
+    // Re-runs detection, e.g. after the sensitivity changed
+    if (request.method === "POST") {
+      return await handleDetectAnomalies(request, env, userId);
+    }
+  }
+
+  // How readily spend jumps are flagged
+  if (url.pathname === "/api/settings/anomalies") {
+    if (request.method === "GET") {
+      return Response.json({
+        sensitivity: await getAnomalySensitivity(env, userId),
+        sensitivities: ANOMALY_SENSITIVITIES
+      });
+    }
+    if (request.method === "PUT") {
+      return await handleSetSensitivity(request, env, userId);
+    }
+  }
+
+  return null;
+}
+
+async function handleDetectAnomalies(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  const body = await readJsonBody<{ threadId?: string }>(request);
+  if (!body) {
+    return Response.json(
+      { error: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+  const { threadId } = body;
+  if (!threadId) {
+    return Response.json({ error: "threadId is required" }, { status: 400 });
+  }
+
+  try {
+    const datasets = await getThreadCostDatasets(env, userId, threadId);
+    const report = await buildAnomalyReport(env, userId, datasets);
+    if (!report) {
+      return Response.json(
+        { error: "No billing exports in this thread" },
+        { status: 422 }
+      );
+    }
+    await saveAnomalies(env, userId, threadId, null, report);
+    console.log(`✅ Detected ${report.anomalies.length} spend anomalies`);
+    return Response.json(report);
+  } catch (error) {
+    console.error("❌ Anomaly detection failed:", error);
+    return Response.json(
+      { error: "Anomaly detection failed" },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleSetSensitivity(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  const body = await readJsonBody<{ sensitivity?: string }>(request);
+  if (!body) {
+    return Response.json(
+      { error: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+  const { sensitivity } = body;
+  if (!ANOMALY_SENSITIVITIES.includes(sensitivity as AnomalySensitivity)) {
+    return Response.json(
+      {
+        error: `sensitivity must be one of ${ANOMALY_SENSITIVITIES.join(", ")}`
+      },
+      { status: 400 }
+    );
+  }
+
+  await setAnomalySensitivity(env, userId, sensitivity as AnomalySensitivity);
+  console.log(`✅ Anomaly sensitivity set to ${sensitivity}`);
+  return Response.json({ sensitivity });
+}
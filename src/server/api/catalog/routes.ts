@@ -0,0 +1,167 @@
+import {
+  ensureBundledCatalog,
+  getCatalogVersion,
+  listCatalogVersions,
+  saveCatalogSnapshot
+} from "../../db/catalog";
+import type { CloudProvider, PricingModel } from "../../pricing/catalog";
+import { lookupCatalogPrice } from "../../pricing/lookup";
+import { parsePriceSnapshot } from "../../pricing/snapshots";
+import { hasAdminToken } from "../../session/admin";
+
+// Snapshot files are parsed whole; regional AWS offer files for a single
+// service fit, the global ones do not
+const MAX_SNAPSHOT_BYTES = 32 * 1024 * 1024;
+
+export async function catalogRoutes(
+  request: Request,
+  env: Env,
+  _userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Imported and bundled snapshot versions
+  if (url.pathname === "/api/catalog/versions" && request.method === "GET") {
+    await ensureBundledCatalog(env);
+    return Response.json({ versions: await listCatalogVersions(env) });
+  }
+
+  // Price lookup by provider, SKU, region and pricing model
+  if (url.pathname === "/api/catalog/prices" && request.method === "GET") {
+    return await handlePriceLookup(env, url);
+  }
+
+  // Admin: import a price snapshot file
+  if (url.pathname === "/api/admin/catalog" && request.method === "POST") {
+    return await handleSnapshotImport(request, env, url);
+  }
+
+  return null;
+}
+
+async function handlePriceLookup(env: Env, url: URL): Promise<Response> {
+  const provider = url.searchParams.get("provider");
+  const sku = url.searchParams.get("sku");
+  if (!provider || !sku) {
+    return Response.json(
+      { error: "provider and sku are required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const price = await lookupCatalogPrice(env, {
+      provider: provider as CloudProvider,
+      sku,
+      service: url.searchParams.get("service"),
+      region: url.searchParams.get("region"),
+      pricingModel: (url.searchParams.get("pricingModel") ??
+        "on-demand") as PricingModel
+    });
+    if (!price) {
+      return Response.json(
+        { error: "Price not found in the catalog" },
+        { status: 404 }
+      );
+    }
+    return Response.json({ price });
+  } catch (error) {
+    console.error("❌ Price lookup failed:", error);
+    return Response.json({ error: "Price lookup failed" }, { status: 500 });
+  }
+}
+
+async function handleSnapshotImport(
+  request: Request,
+  env: Env,
+  url: URL
+): Promise<Response> {
+  if (!hasAdminToken(request, env.CATALOG_ADMIN_TOKEN)) {
+    return Response.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  try {
+    let text: string;
+    let fileName: string | null = null;
+    let version = url.searchParams.get("version");
+
+    // Either a multipart form with a `file` field or the raw JSON body
+    if (request.headers.get("Content-Type")?.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file") as unknown as File | null;
+      if (!file) {
+        return Response.json({ error: "No file provided" }, { status: 400 });
+      }
+      if (file.size > MAX_SNAPSHOT_BYTES) {
+        return Response.json(
+          { error: "Snapshot file is too large" },
+          { status: 413 }
+        );
+      }
+      text = await file.text();
+      fileName = file.name;
+      version = (formData.get("version") as string | null) ?? version;
+    } else {
+      const length = Number(request.headers.get("Content-Length") ?? 0);
+      if (length > MAX_SNAPSHOT_BYTES) {
+        return Response.json(
+          { error: "Snapshot file is too large" },
+          { status: 413 }
+        );
+      }
+      text = await request.text();
+    }
+
+    let doc: unknown;
+    try {
+      doc = JSON.parse(text);
+    } catch {
+      return Response.json(
+        { error: "Snapshot is not valid JSON" },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = parsePriceSnapshot(doc);
+    if (!snapshot || snapshot.prices.length === 0) {
+      return Response.json(
+        {
+          error:
+            "Unrecognized snapshot: expected an AWS offer file, Azure retail prices, GCP SKUs or a catalog snapshot with prices"
+        },
+        { status: 422 }
+      );
+    }
+
+    const resolvedVersion =
+      version ??
+      snapshot.version ??
+      `${snapshot.source}-${new Date().toISOString().slice(0, 10)}`;
+    if (await getCatalogVersion(env, resolvedVersion)) {
+      return Response.json(
+        { error: `Catalog version ${resolvedVersion} already exists` },
+        { status: 409 }
+      );
+    }
+
+    await ensureBundledCatalog(env);
+    await saveCatalogSnapshot(
+      env,
+      resolvedVersion,
+      snapshot.source,
+      fileName,
+      snapshot.prices
+    );
+    return Response.json(
+      {
+        version: resolvedVersion,
+        source: snapshot.source,
+        priceCount: snapshot.prices.length
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("❌ Catalog import failed:", error);
+    return Response.json({ error: "Catalog import failed" }, { status: 500 });
+  }
+}
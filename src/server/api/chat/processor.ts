@@ -1,9 +1,205 @@
 import type { UploadedFile } from "@/types/chat";
 import { analyzeCostsWithLlama } from "../../ai/optimizer";
-import { saveAnalysis, saveMessage } from "../../db/d1";
+import type { OptimizationItem } from "../../ai/recommendations";
+import { anomalyReportFrom } from "../../anomalies/context";
+import { type AnomalyReport, formatAnomalies } from "../../anomalies/detect";
+import { createDailySpendCollector } from "../../anomalies/series";
+import {
+  type CostAggregates,
+  formatAggregatesForPrompt,
+  formatCombinedAggregates
+} from "../../billing/aggregate";
+import {
+  type FocusCollector,
+  type FocusFeed,
+  focusKeyFor,
+  loadCostDataset,
+  readFocusDatasets
+} from "../../billing/dataset";
+import { createResourceInventory } from "../../billing/inventory";
+import {
+  asksAboutCommitments,
+  commitmentReportFrom
+} from "../../commitments/context";
+import {
+  type CommitmentReport,
+  formatCommitments
+} from "../../commitments/engine";
+import { createCommitmentUsageCollector } from "../../commitments/usage";
+import { buildCurrencyConversion } from "../../currency/context";
+import {
+  getLatestAnalysisOfType,
+  saveAnalysis,
+  saveMessage
+} from "../../db/d1";
+import { getThreadCostDatasets } from "../../db/datasets";
+import { saveAnomalies, withoutRecordedAnomalies } from "../../db/anomalies";
+import { listBusinessMetrics, saveBusinessMetrics } from "../../db/business";
+import { getThreadMetricsDatasets } from "../../db/metrics";
+import { saveRightsizingRecommendations } from "../../db/rightsizing";
+import { listScenarios } from "../../db/scenarios";
+import { getShowbackTagKeys } from "../../db/settings";
+import { resolveArchiveEntries } from "../../ingest/archive";
+import {
+  estimatePlanCost,
+  formatPlanEstimate,
+  loadTerraformPlan,
+  type PlanCostEstimate,
+  planProviders
+} from "../../iac/terraform";
+import { resolveFileRole } from "../../ingest/roles";
+import {
+  addClusterFile,
+  allocateClusterCost,
+  COMPUTE_PROVIDERS,
+  type ClusterAllocation,
+  createClusterSnapshot,
+  formatClusterAllocation
+} from "../../k8s/allocation";
+import { isSpreadsheet, loadFileSheets } from "../../ingest/spreadsheet";
+import { loadMetricsDataset } from "../../metrics/dataset";
+import { orphanReportFrom } from "../../orphans/context";
+import {
+  formatOrphans,
+  type OrphanReport,
+  orphanRecommendations
+} from "../../orphans/detect";
+import { addInventoryFile, createAwsInventory } from "../../orphans/inventory";
+import { createResourceUsageCollector } from "../../orphans/usage";
+import { buildPriceContext, loadProviderPrices } from "../../pricing/lookup";
+import {
+  formatMetricsForPrompt,
+  type UtilizationSummary
+} from "../../metrics/series";
+import { rightsizingReportFrom } from "../../rightsizing/context";
+import {
+  formatRightsizing,
+  type RightsizingReport
+} from "../../rightsizing/engine";
+import { spendForecastFrom } from "../../forecast/context";
+import { formatForecast, type SpendForecast } from "../../forecast/engine";
+import { createDailyCostCollector } from "../../forecast/series";
+import {
+  buildShowbackReport,
+  parseShowbackCommand
+} from "../../showback/context";
+import { formatShowback, type ShowbackDimension } from "../../showback/engine";
+import {
+  asksToCompareScenarios,
+  asksWhatIf,
+  parseScenario,
+  saveScenarioRun,
+  scenarioBaselineFrom
+} from "../../scenarios/context";
+import {
+  formatScenario,
+  formatScenarioComparison
+} from "../../scenarios/engine";
+import { createScenarioBaselineCollector } from "../../scenarios/baseline";
+import { asksAboutSpot, spotReportFrom } from "../../spot/context";
+import {
+  formatSpot,
+  type SpotReport,
+  spotRecommendations
+} from "../../spot/engine";
+import { createWorkloadUsageCollector } from "../../spot/usage";
 import { getFilesBySession } from "../../storage/file-storage";
+import { storageReportFrom } from "../../tiering/context";
+import { formatStorage, type StorageReport } from "../../tiering/engine";
+import { createBucketUsageCollector } from "../../tiering/usage";
+import {
+  asksAboutTransfer,
+  cacheHitRatioIn,
+  transferReportFrom
+} from "../../transfer/context";
+import { formatTransfer, type TransferReport } from "../../transfer/engine";
+import { createTransferUsageCollector } from "../../transfer/usage";
+import {
+  formatBusinessMetrics,
+  loadBusinessMetrics
+} from "../../unit/business";
+import { asksAboutUnitCosts, unitCostReportFrom } from "../../unit/context";
+import { formatUnitCosts, type UnitCostReport } from "../../unit/engine";
 import { getRelevantContext, isRelevant } from "../../utils/context";
 
+// Files that are not billing exports go to the model as text; large ones are
+// cut off rather than read whole into memory
+const MAX_PROMPT_FILE_BYTES = 1024 * 1024;
+
+async function readPromptText(env: Env, r2Key: string): Promise<string | null> {
+  const object = await env.FILES.get(r2Key, {
+    range: { offset: 0, length: MAX_PROMPT_FILE_BYTES }
+  });
+  if (!object) return null;
+  const text = await object.text();
+  return object.size > MAX_PROMPT_FILE_BYTES
+    ? `${text}\n[truncated: showing the first ${MAX_PROMPT_FILE_BYTES} of ${object.size} bytes]`
+    : text;
+}
+
+// "/showback [team|env|cost-center]" renders the thread's showback tables
+// without going through the model
+async function answerShowbackCommand(
+  env: Env,
+  userId: string,
+  threadId: string,
+  message: string,
+  messageId: string,
+  dimensions: ShowbackDimension[]
+): Promise<Response> {
+  const datasets = await getThreadCostDatasets(env, userId, threadId);
+  const tagKeys = await getShowbackTagKeys(env, userId);
+  const report = await buildShowbackReport(env, datasets, tagKeys);
+
+  let analysisId: number | null = null;
+  let reply =
+    "There is no billed usage in this thread yet. Upload a billing export (CUR, FOCUS, Azure or GCP) to see cost by team, environment and cost center.";
+  if (report) {
+    reply = formatShowback(report, dimensions);
+    analysisId = await saveAnalysis(
+      env,
+      userId,
+      threadId,
+      "",
+      "",
+      message,
+      reply,
+      "showback",
+      report
+    );
+    console.log(`Showback saved with ID: ${analysisId}`);
+  }
+
+  await saveMessage(
+    env,
+    userId,
+    threadId,
+    "user",
+    message,
+    true,
+    analysisId,
+    messageId
+  );
+  const assistantMessageId = crypto.randomUUID();
+  await saveMessage(
+    env,
+    userId,
+    threadId,
+    "assistant",
+    reply,
+    true,
+    analysisId,
+    assistantMessageId
+  );
+
+  return Response.json({
+    reply,
+    threadId,
+    analysisId,
+    messageId: assistantMessageId
+  });
+}
+
 export async function processChatMessage(
   env: Env,
   userId: string,
@@ -28,9 +224,10 @@ export async function processChatMessage(
     const placeholders = fileIds.map(() => "?").join(",");
 
     const { results } = await env.DB.prepare(
-      `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt
+      `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt, sourceFormat, declaredRole, detectedRole
        FROM uploaded_files
-       WHERE id IN (${placeholders})`
+       WHERE id IN (${placeholders})
+       ORDER BY id ASC`
     )
       .bind(...fileIds)
       .all();
@@ -42,6 +239,9 @@ export async function processChatMessage(
       fileSize: number;
       r2Key: string;
       uploadedAt: string;
+      sourceFormat: string | null;
+      declaredRole: string | null;
+      detectedRole: string | null;
     }[];
 
     files = rawFiles.map((file) => ({
@@ -50,7 +250,10 @@ export async function processChatMessage(
       fileType: file.fileType,
       fileSize: file.fileSize,
       r2Key: file.r2Key,
-      uploadedAt: file.uploadedAt
+      uploadedAt: file.uploadedAt,
+      sourceFormat: file.sourceFormat,
+      declaredRole: file.declaredRole,
+      detectedRole: file.detectedRole
     })) as UploadedFile[];
   } else if (sessionId) {
     console.log("Querying files by session ID...");
@@ -59,40 +262,559 @@ export async function processChatMessage(
     console.log("No files provided - processing text-only message");
   }
 
+  files = await resolveArchiveEntries(env, files);
   console.log(`Found ${files.length} files for processing`);
 
+  const showbackDimensions =
+    files.length === 0 ? parseShowbackCommand(message) : null;
+  if (showbackDimensions) {
+    console.log(`Showback command for ${showbackDimensions.join(", ")}`);
+    return await answerShowbackCommand(
+      env,
+      userId,
+      threadId,
+      message,
+      messageId,
+      showbackDimensions
+    );
+  }
+
   let fileContents = "";
   let planText = "";
   let metricsText = "";
+  const costDatasets: {
+    fileName: string;
+    aggregates: CostAggregates;
+    focusKey: string | null;
+  }[] = [];
+  const metricSummaries: UtilizationSummary[] = [];
+  const planEstimates: { report: string; estimate: PlanCostEstimate }[] = [];
+  const cluster = createClusterSnapshot();
+  const inventory = createAwsInventory();
+  let clusterReport: { report: string; allocation: ClusterAllocation } | null =
+    null;
+  let rightsizingReport: { report: string; result: RightsizingReport } | null =
+    null;
+  let commitmentReport: { report: string; result: CommitmentReport } | null =
+    null;
+  let anomalyReport: AnomalyReport | null = null;
+  let forecastReport: { report: string; result: SpendForecast } | null = null;
+  let orphanReport: { report: string; result: OrphanReport } | null = null;
+  let storageReport: { report: string; result: StorageReport } | null = null;
+  let transferReport: { report: string; result: TransferReport } | null = null;
+  let spotReport: { report: string; result: SpotReport } | null = null;
+  let unitCostReport: { report: string; result: UnitCostReport } | null = null;
+  let scenarioReport: string | null = null;
+  // Findings merged into the recommendation list the optimizer returns
+  const recommendations: OptimizationItem[] = [];
+  // Deterministic results the model explains rather than recomputes
+  let facts = "";
 
   if (files.length > 0) {
     console.log("Reading file contents for analysis...");
     for (const file of files) {
       fileContents += `File: ${file.fileName}\n`;
 
-      const object = await env.FILES.get(file.r2Key);
-      if (object) {
-        const content = await object.text();
+      const dataset = await loadCostDataset(env, file);
+      if (dataset) {
+        const summary = formatAggregatesForPrompt(
+          file.fileName,
+          dataset.aggregates
+        );
+        fileContents += `Content preview: ${summary.substring(0, 1000)}\n\n`;
+        planText += `${summary}\n\n`;
+        costDatasets.push({
+          fileName: file.fileName,
+          aggregates: dataset.aggregates,
+          focusKey: dataset.focusKey
+        });
+        console.log(
+          `Identified as ${dataset.format} billing export: ${file.fileName}`
+        );
+      }
+
+      // Workbook sheets not feeding a dataset are passed on as CSV text
+      if (isSpreadsheet(file.fileName)) {
+        const sheets = await loadFileSheets(env, file);
+        const metrics = sheets.some((sheet) => sheet.role === "metrics")
+          ? await loadMetricsDataset(env, file)
+          : null;
+        if (metrics) {
+          metricsText += `${formatMetricsForPrompt(file.fileName, metrics.format, metrics.summaries)}\n\n`;
+          metricSummaries.push(...metrics.summaries);
+        }
+
+        for (const sheet of sheets) {
+          if (sheet.role === "ignore") continue;
+          if (dataset?.focusKey === focusKeyFor(sheet.r2Key)) continue;
+          if (metrics && sheet.role === "metrics") continue;
+
+          const content = await readPromptText(env, sheet.r2Key);
+          if (content === null) continue;
+          const label = `${file.fileName} [${sheet.sheetName}]`;
+
+          fileContents += `Sheet ${sheet.sheetName} preview: ${content.substring(0, 1000)}\n\n`;
+          if (sheet.role === "billing") {
+            planText += `${label}:\n${content}\n\n`;
+          } else {
+            metricsText += `${label}:\n${content}\n\n`;
+          }
+          console.log(`Identified sheet ${label} as ${sheet.role}`);
+        }
+        continue;
+      }
+
+      if (dataset) continue;
+
+      // Manifests, node lists and kubectl top output are combined into one
+      // cluster snapshot and allocated together after the loop
+      const role = await resolveFileRole(env, file);
+      if (
+        (role === "iac" || role === "metrics") &&
+        (await addClusterFile(env, cluster, file))
+      ) {
+        console.log(`Identified as Kubernetes input: ${file.fileName}`);
+        continue;
+      }
+
+      // EC2 describe outputs feed the idle resource rules
+      if (role === "iac" && (await addInventoryFile(env, inventory, file))) {
+        console.log(`Identified as AWS inventory: ${file.fileName}`);
+        continue;
+      }
+
+      // Business volumes are kept per thread and divide daily spend below
+      if (role === "metrics") {
+        const points = await loadBusinessMetrics(env, file);
+        if (points) {
+          await saveBusinessMetrics(
+            env,
+            userId,
+            threadId,
+            file.fileName,
+            points
+          );
+          const summary = formatBusinessMetrics(file.fileName, points);
+          fileContents += `Content preview: ${summary.substring(0, 1000)}\n\n`;
+          metricsText += `${summary}\n\n`;
+          console.log(`Identified as business volumes: ${file.fileName}`);
+          continue;
+        }
+      }
+
+      // Metrics exports are summarized per resource rather than sent raw
+      if (role === "metrics") {
+        const metrics = await loadMetricsDataset(env, file);
+        if (metrics) {
+          const summary = formatMetricsForPrompt(
+            file.fileName,
+            metrics.format,
+            metrics.summaries
+          );
+          fileContents += `Content preview: ${summary.substring(0, 1000)}\n\n`;
+          metricsText += `${summary}\n\n`;
+          metricSummaries.push(...metrics.summaries);
+          console.log(
+            `Identified as ${metrics.format} metrics export: ${file.fileName}`
+          );
+          continue;
+        }
+      }
+
+      // Terraform plans are priced from the catalog before the model sees them
+      if (role === "iac") {
+        const plan = await loadTerraformPlan(env, file);
+        if (plan) {
+          const estimate = estimatePlanCost(
+            plan,
+            await loadProviderPrices(env, planProviders(plan))
+          );
+          const report = formatPlanEstimate(file.fileName, estimate);
+          fileContents += `Content preview: ${report.substring(0, 1000)}\n\n`;
+          planText += `${report}\n\n`;
+          planEstimates.push({ report, estimate });
+          console.log(
+            `Priced Terraform plan ${file.fileName}: ${estimate.deltaMonthly} USD/month`
+          );
+          continue;
+        }
+      }
+
+      const content = await readPromptText(env, file.r2Key);
+      if (content !== null) {
         console.log(`Read file: ${file.fileName} (${content.length} chars)`);
 
         fileContents += `Content preview: ${content.substring(0, 1000)}\n\n`;
 
-        if (
-          file.fileName.includes("plan") ||
-          file.fileName.includes("billing")
-        ) {
-          planText = content;
-          console.log(`Identified as plan/billing file: ${file.fileName}`);
+        // Every file is kept; metrics go to the metrics input, billing, IaC,
+        // price lists, invoices and unrecognized files to the plan input
+        const section = `File: ${file.fileName} (${role})\n${content}\n\n`;
+        if (role === "metrics") {
+          metricsText += section;
         } else {
-          metricsText = content;
-          console.log(`Identified as metrics file: ${file.fileName}`);
+          planText += section;
         }
+        console.log(`Identified as ${role} file: ${file.fileName}`);
       } else {
         console.log(`❌ Could not read file from R2: ${file.r2Key}`);
       }
     }
   }
 
+  if (cluster.sources.length > 0) {
+    const allocation = allocateClusterCost(
+      cluster,
+      await loadProviderPrices(env, COMPUTE_PROVIDERS)
+    );
+    const report = formatClusterAllocation(allocation);
+    fileContents += `Content preview: ${report.substring(0, 1000)}\n\n`;
+    planText += `${report}\n\n`;
+    clusterReport = { report, allocation };
+    console.log(
+      `Allocated Kubernetes cost across ${allocation.namespaces.length} namespaces`
+    );
+  }
+
+  // Follow-up questions reuse the aggregates persisted for earlier uploads
+  if (files.length === 0) {
+    const datasets = await getThreadCostDatasets(env, userId, threadId);
+    for (const dataset of datasets) {
+      planText += `${formatAggregatesForPrompt(dataset.fileName, dataset.aggregates)}\n\n`;
+      costDatasets.push(dataset);
+    }
+    if (datasets.length > 0) {
+      console.log(`Reusing ${datasets.length} parsed billing datasets`);
+    }
+
+    const metrics = await getThreadMetricsDatasets(env, userId, threadId);
+    for (const dataset of metrics) {
+      metricsText += `${formatMetricsForPrompt(dataset.fileName, dataset.format, dataset.summaries)}\n\n`;
+      metricSummaries.push(...dataset.summaries);
+    }
+    if (metrics.length > 0) {
+      console.log(`Reusing ${metrics.length} parsed metrics datasets`);
+    }
+
+    const allocation = await getLatestAnalysisOfType(
+      env,
+      userId,
+      threadId,
+      "k8s-allocation"
+    );
+    if (allocation) {
+      planText += `${allocation.result}\n\n`;
+      console.log(`Reusing Kubernetes allocation ${allocation.id}`);
+    }
+
+    const rightsizing = await getLatestAnalysisOfType(
+      env,
+      userId,
+      threadId,
+      "rightsizing"
+    );
+    if (rightsizing) {
+      facts += `${rightsizing.result}\n\n`;
+      console.log(`Reusing rightsizing analysis ${rightsizing.id}`);
+    }
+
+    const forecast = await getLatestAnalysisOfType(
+      env,
+      userId,
+      threadId,
+      "forecast"
+    );
+    if (forecast) {
+      facts += `${forecast.result}\n\n`;
+      console.log(`Reusing spend forecast ${forecast.id}`);
+    }
+
+    const orphans = await getLatestAnalysisOfType(
+      env,
+      userId,
+      threadId,
+      "orphans"
+    );
+    if (orphans?.data) {
+      facts += `${orphans.result}\n\n`;
+      recommendations.push(...orphanRecommendations(JSON.parse(orphans.data)));
+      console.log(`Reusing idle resource findings ${orphans.id}`);
+    }
+
+    const storage = await getLatestAnalysisOfType(
+      env,
+      userId,
+      threadId,
+      "storage"
+    );
+    if (storage) {
+      facts += `${storage.result}\n\n`;
+      console.log(`Reusing storage analysis ${storage.id}`);
+    }
+
+    // Transfer questions recompute the scenarios below with their hit ratio
+    const transfer = asksAboutTransfer(message)
+      ? null
+      : await getLatestAnalysisOfType(env, userId, threadId, "transfer");
+    if (transfer) {
+      facts += `${transfer.result}\n\n`;
+      console.log(`Reusing transfer analysis ${transfer.id}`);
+    }
+
+    const spot = asksAboutSpot(message)
+      ? null
+      : await getLatestAnalysisOfType(env, userId, threadId, "spot");
+    if (spot?.data) {
+      facts += `${spot.result}\n\n`;
+      recommendations.push(...spotRecommendations(JSON.parse(spot.data)));
+      console.log(`Reusing Spot analysis ${spot.id}`);
+    }
+
+    const unitCosts = asksAboutUnitCosts(message)
+      ? null
+      : await getLatestAnalysisOfType(env, userId, threadId, "unit-costs");
+    if (unitCosts) {
+      facts += `${unitCosts.result}\n\n`;
+      console.log(`Reusing unit costs ${unitCosts.id}`);
+    }
+  }
+
+  // Several bills (e.g. consecutive months) are also analyzed as one series
+  if (costDatasets.length > 1) {
+    planText += `${formatCombinedAggregates(costDatasets)}\n\n`;
+    console.log(`Combined ${costDatasets.length} billing datasets`);
+  }
+
+  // Exports billed in other currencies are converted at the dated rate for
+  // their billing period; the rates used are saved with the analysis
+  const conversion = await buildCurrencyConversion(env, userId, costDatasets);
+  if (conversion.text) {
+    planText += `${conversion.text}\n\n`;
+    fileContents += `Content preview: ${conversion.text.substring(0, 1000)}\n\n`;
+    console.log(
+      `Converted ${costDatasets.length} billing datasets to ${conversion.reportingCurrency}`
+    );
+  }
+
+  // Every analysis below reads the FOCUS records of the same exports, so
+  // their collectors are fed from one pass over each export
+  const threadDatasets =
+    files.length > 0
+      ? await getThreadCostDatasets(env, userId, threadId)
+      : costDatasets;
+  const businessPoints =
+    files.length > 0 || asksAboutUnitCosts(message)
+      ? await listBusinessMetrics(env, userId, threadId)
+      : [];
+  const transforms = asksWhatIf(message) ? parseScenario(message) : [];
+  const uploaded = files.length > 0 && costDatasets.length > 0;
+  const feeds: FocusFeed[] = [];
+  const feed = <T extends FocusCollector>(
+    enabled: boolean,
+    datasets: { focusKey: string | null }[],
+    create: () => T
+  ): T | null => {
+    if (!enabled) return null;
+    const collector = create();
+    feeds.push({ datasets, collector });
+    return collector;
+  };
+  const instances = feed(
+    files.length > 0 && metricSummaries.length > 0,
+    costDatasets,
+    createResourceInventory
+  );
+  const dailySpend = feed(uploaded, threadDatasets, createDailySpendCollector);
+  // The forecast and unit costs share the thread's daily spend
+  const dailyCost = feed(
+    uploaded || businessPoints.length > 0,
+    threadDatasets,
+    createDailyCostCollector
+  );
+  const commitmentUsage = feed(
+    costDatasets.length > 0 && asksAboutCommitments(message),
+    costDatasets,
+    createCommitmentUsageCollector
+  );
+  const resourceUsage = feed(
+    files.length > 0,
+    costDatasets,
+    createResourceUsageCollector
+  );
+  const bucketUsage = feed(
+    files.length > 0,
+    costDatasets,
+    createBucketUsageCollector
+  );
+  const transferUsage = feed(
+    costDatasets.length > 0 && (files.length > 0 || asksAboutTransfer(message)),
+    costDatasets,
+    createTransferUsageCollector
+  );
+  const workloadUsage = feed(
+    costDatasets.length > 0 && (files.length > 0 || asksAboutSpot(message)),
+    costDatasets,
+    createWorkloadUsageCollector
+  );
+  const scenarioUsage = feed(
+    transforms.length > 0,
+    threadDatasets,
+    createScenarioBaselineCollector
+  );
+  await readFocusDatasets(env, feeds);
+
+  // Billed instances of new uploads are sized from their p95 utilization
+  if (instances) {
+    const result = await rightsizingReportFrom(
+      env,
+      userId,
+      instances,
+      metricSummaries
+    );
+    if (result && result.evaluated > 0) {
+      const report = formatRightsizing(result);
+      facts += `${report}\n\n`;
+      fileContents += `Content preview: ${report.substring(0, 1000)}\n\n`;
+      rightsizingReport = { report, result };
+      console.log(
+        `Rightsized ${result.evaluated} instances: ${result.candidates.length} candidates`
+      );
+    }
+  }
+
+  // New bills are checked for spend jumps against the thread's whole daily
+  // history without being asked, and the thread's forecast is remade
+  if (dailySpend) {
+    anomalyReport = await withoutRecordedAnomalies(
+      env,
+      userId,
+      threadId,
+      await anomalyReportFrom(env, userId, dailySpend)
+    );
+    if (anomalyReport.anomalies.length > 0) {
+      facts += `${formatAnomalies(anomalyReport)}\n\n`;
+      console.log(
+        `Found ${anomalyReport.anomalies.length} spend anomalies across ${anomalyReport.seriesCount} series`
+      );
+    }
+  }
+  if (uploaded && dailyCost) {
+    const result = spendForecastFrom(dailyCost);
+    if (result) {
+      const report = formatForecast(result);
+      facts += `${report}\n\n`;
+      forecastReport = { report, result };
+      console.log(
+        `Forecast ${result.monthEnd.label} at ${result.monthEnd.forecast} ${result.currency}`
+      );
+    }
+  }
+
+  // Commitment questions are answered from the exports' hourly or daily
+  // on-demand usage
+  if (commitmentUsage) {
+    const result = await commitmentReportFrom(env, commitmentUsage);
+    if (result) {
+      const report = formatCommitments(result);
+      facts += `${report}\n\n`;
+      commitmentReport = { report, result };
+      console.log(
+        `Analyzed commitments over ${result.hours} hours of ${result.provider} usage`
+      );
+    }
+  }
+
+  // Idle and orphaned resources need no model: billed usage types and
+  // inventory state are the evidence
+  if (resourceUsage) {
+    const result = await orphanReportFrom(env, resourceUsage, inventory);
+    if (result.findings.length > 0) {
+      const report = formatOrphans(result);
+      facts += `${report}\n\n`;
+      recommendations.push(...orphanRecommendations(result));
+      orphanReport = { report, result };
+      console.log(`Found ${result.findings.length} idle or orphaned resources`);
+    }
+  }
+
+  // Object storage buckets get lifecycle tiering and R2 migration figures
+  // instead of a generic Cloudflare suggestion
+  if (bucketUsage) {
+    const result = await storageReportFrom(env, bucketUsage, metricSummaries);
+    if (result) {
+      const report = formatStorage(result);
+      facts += `${report}\n\n`;
+      storageReport = { report, result };
+      console.log(`Analyzed storage of ${result.buckets.length} buckets`);
+    }
+  }
+
+  // Transfer spend is broken down by class on upload and whenever egress or
+  // CDNs come up, with the hit ratio the message names
+  if (transferUsage) {
+    const result = await transferReportFrom(env, transferUsage, {
+      cacheHitRatio: cacheHitRatioIn(message)
+    });
+    if (result) {
+      const report = formatTransfer(result);
+      facts += `${report}\n\n`;
+      transferReport = { report, result };
+      console.log(
+        `Analyzed ${result.totalMonthlyCost} ${result.currency}/month of data transfer`
+      );
+    }
+  }
+
+  // On-demand workloads are scored for Spot on upload and when Spot comes
+  // up; the low and medium risk ones join the recommendation list
+  if (workloadUsage) {
+    const result = await spotReportFrom(env, workloadUsage, metricSummaries);
+    if (result) {
+      const report = formatSpot(result);
+      facts += `${report}\n\n`;
+      recommendations.push(...spotRecommendations(result));
+      spotReport = { report, result };
+      console.log(
+        `Scored ${result.assessments.length} on-demand workloads for Spot`
+      );
+    }
+  }
+
+  // Unit costs follow the thread's whole spend history and every business
+  // volume entered or uploaded to it
+  if (dailyCost && businessPoints.length > 0) {
+    const result = unitCostReportFrom(dailyCost, businessPoints);
+    if (result) {
+      const report = formatUnitCosts(result);
+      facts += `${report}\n\n`;
+      unitCostReport = { report, result };
+      console.log(
+        `Computed unit costs for ${result.metrics.length} metrics, ${result.regressions.length} regressions`
+      );
+    }
+  }
+
+  // What-if questions are simulated over the thread's bill and saved as
+  // scenarios; asking to compare lists the saved ones side by side
+  if (asksWhatIf(message)) {
+    const baseline = scenarioUsage ? scenarioBaselineFrom(scenarioUsage) : null;
+    const scenario = baseline
+      ? await saveScenarioRun(env, userId, threadId, transforms, baseline)
+      : null;
+    if (scenario) {
+      scenarioReport = formatScenario(scenario.name, scenario.result);
+      console.log(
+        `Simulated ${transforms.length} changes: ${scenario.result.monthlyDelta} ${scenario.result.currency}/month`
+      );
+    }
+  } else if (asksToCompareScenarios(message)) {
+    const scenarios = await listScenarios(env, userId, threadId);
+    if (scenarios.length > 0) {
+      scenarioReport = formatScenarioComparison(scenarios);
+      console.log(`Compared ${scenarios.length} saved scenarios`);
+    }
+  }
+  if (scenarioReport) facts += `${scenarioReport}\n\n`;
+
   let relevanceText = "";
 
   if (files.length > 0) {
@@ -107,7 +829,20 @@ export async function processChatMessage(
     `Relevance check input preview: ${relevanceText.substring(0, 500)}`
   );
 
-  const isRelevantAnalysis = await isRelevant(env, relevanceText);
+  const isRelevantAnalysis =
+    planEstimates.length > 0 ||
+    clusterReport !== null ||
+    rightsizingReport !== null ||
+    commitmentReport !== null ||
+    forecastReport !== null ||
+    orphanReport !== null ||
+    storageReport !== null ||
+    transferReport !== null ||
+    spotReport !== null ||
+    unitCostReport !== null ||
+    scenarioReport !== null ||
+    (anomalyReport?.anomalies.length ?? 0) > 0 ||
+    (await isRelevant(env, relevanceText));
 
   if (isRelevantAnalysis) {
     console.log("✅ Content is relevant, proceeding with analysis...");
@@ -117,6 +852,13 @@ export async function processChatMessage(
       `Retrieved ${relevantContext.length > 0 ? "relevant context" : "no relevant context"}`
     );
 
+    const prices = await buildPriceContext(
+      env,
+      `${planText}\n${metricsText}\n${message}`
+    );
+    const catalogVersion = prices.versions.join(", ") || null;
+    console.log(`Citing price catalog ${catalogVersion ?? "(none)"}`);
+
     console.log("Starting AI analysis...");
 
     const result = await analyzeCostsWithLlama(
@@ -124,7 +866,10 @@ export async function processChatMessage(
       planText,
       metricsText,
       message,
-      relevantContext
+      relevantContext,
+      prices,
+      facts,
+      recommendations
     );
 
     console.log(`✅ AI analysis completed (${result.length} chars)`);
@@ -137,11 +882,201 @@ export async function processChatMessage(
         planText,
         metricsText,
         message,
-        result
+        result,
+        "optimization",
+        null,
+        catalogVersion,
+        {
+          reportingCurrency: conversion.reportingCurrency,
+          rates: conversion.rates
+        }
       );
       console.log(`Analysis saved with ID: ${analysisId}`);
     }
 
+    for (const { report, estimate } of planEstimates) {
+      const estimateId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        report,
+        "terraform-estimate",
+        estimate,
+        estimate.catalogVersion
+      );
+      console.log(`Plan estimate saved with ID: ${estimateId}`);
+    }
+
+    if (clusterReport) {
+      const allocationId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        clusterReport.report,
+        "k8s-allocation",
+        clusterReport.allocation,
+        clusterReport.allocation.catalogVersion
+      );
+      console.log(`Kubernetes allocation saved with ID: ${allocationId}`);
+    }
+
+    if (rightsizingReport) {
+      const rightsizingId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        rightsizingReport.report,
+        "rightsizing",
+        rightsizingReport.result,
+        rightsizingReport.result.catalogVersion
+      );
+      await saveRightsizingRecommendations(
+        env,
+        rightsizingId,
+        userId,
+        threadId,
+        rightsizingReport.result
+      );
+      console.log(`Rightsizing analysis saved with ID: ${rightsizingId}`);
+    }
+
+    if (commitmentReport) {
+      const commitmentId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        commitmentReport.report,
+        "commitments",
+        commitmentReport.result,
+        commitmentReport.result.catalogVersion
+      );
+      console.log(`Commitment analysis saved with ID: ${commitmentId}`);
+    }
+
+    if (forecastReport) {
+      const forecastId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        forecastReport.report,
+        "forecast",
+        forecastReport.result
+      );
+      console.log(`Spend forecast saved with ID: ${forecastId}`);
+    }
+
+    if (orphanReport) {
+      const orphanId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        orphanReport.report,
+        "orphans",
+        orphanReport.result,
+        orphanReport.result.catalogVersion
+      );
+      console.log(`Idle resource findings saved with ID: ${orphanId}`);
+    }
+
+    if (storageReport) {
+      const storageId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        storageReport.report,
+        "storage",
+        storageReport.result,
+        storageReport.result.catalogVersion
+      );
+      console.log(`Storage analysis saved with ID: ${storageId}`);
+    }
+
+    if (transferReport) {
+      const transferId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        transferReport.report,
+        "transfer",
+        transferReport.result
+      );
+      console.log(`Transfer analysis saved with ID: ${transferId}`);
+    }
+
+    if (spotReport) {
+      const spotId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        spotReport.report,
+        "spot",
+        spotReport.result,
+        spotReport.result.catalogVersion
+      );
+      console.log(`Spot analysis saved with ID: ${spotId}`);
+    }
+
+    if (unitCostReport) {
+      const unitCostId = await saveAnalysis(
+        env,
+        userId,
+        threadId,
+        planText,
+        metricsText,
+        message,
+        unitCostReport.report,
+        "unit-costs",
+        unitCostReport.result
+      );
+      console.log(`Unit costs saved with ID: ${unitCostId}`);
+    }
+
+    // Priced plan diffs, allocations, rightsizing candidates, commitment
+    // simulations, forecasts, idle resources, storage tables, transfer
+    // scenarios, Spot scores, unit costs and what-if projections lead the
+    // reply so reviewers see the numbers first
+    const reply = [
+      ...planEstimates.map((e) => e.report),
+      ...(clusterReport ? [clusterReport.report] : []),
+      ...(rightsizingReport ? [rightsizingReport.report] : []),
+      ...(commitmentReport ? [commitmentReport.report] : []),
+      ...(forecastReport ? [forecastReport.report] : []),
+      ...(orphanReport ? [orphanReport.report] : []),
+      ...(storageReport ? [storageReport.report] : []),
+      ...(transferReport ? [transferReport.report] : []),
+      ...(spotReport ? [spotReport.report] : []),
+      ...(unitCostReport ? [unitCostReport.report] : []),
+      ...(scenarioReport ? [scenarioReport] : []),
+      result
+    ].join("\n\n");
+
     if (files.length > 0 && sessionId) {
       console.log("Linking files to message and analysis...");
       await env.DB.prepare(
@@ -182,18 +1117,31 @@ export async function processChatMessage(
       userId,
       threadId,
       "assistant",
-      result,
+      reply,
       true,
       analysisId,
       assistantMessageId
     );
 
+    // Anomalies are shown as cards on the assistant message
+    const anomalies = anomalyReport?.anomalies ?? [];
+    if (anomalyReport && anomalies.length > 0) {
+      await saveAnomalies(
+        env,
+        userId,
+        threadId,
+        assistantMessageId,
+        anomalyReport
+      );
+    }
+
     console.log("✅ Chat processing completed successfully");
     return Response.json({
-      reply: result,
+      reply,
       threadId,
       analysisId,
-      messageId: assistantMessageId // Return the assistant message ID
+      messageId: assistantMessageId, // Return the assistant message ID
+      anomalies
     });
   } else {
     console.log("❌ Content is irrelevant, saving as non-relevant message...");
@@ -5,6 +5,7 @@ import {
   getThreadMessagesWithFiles,
   listThreads
 } from "../../db/d1";
+import { listMessageAnomalies } from "../../db/anomalies";
 import { getFileDownloadUrl } from "../../storage/file-storage";
 import { processChatMessage } from "./processor";
 
@@ -49,6 +50,7 @@ export async function chatRoutes(
       threadId
     );
     if (messagesWithFiles.length === 0) return Response.json({ messages: [] });
+    const anomalies = await listMessageAnomalies(env, userId, threadId);
 
     const messages = await Promise.all(
       messagesWithFiles.map(async (msg) => ({
@@ -56,6 +58,7 @@ export async function chatRoutes(
         text: msg.content,
         messageId: msg.messageId,
         timestamp: msg.createdAt,
+        anomalies: anomalies.get(msg.messageId),
         files: await Promise.all(
           msg.files.map(async (f) => ({
             ...f,
@@ -1,22 +1,59 @@
-import { getCurrentAgent } from "agents";
 import { type ToolSet, tool } from "ai";
 import { z } from "zod/v3";
-import type { Chat } from "../../ai/chat-agent";
 import { analyzeCostsWithLlama } from "../../ai/optimizer";
+import { buildPriceContext } from "../../pricing/lookup";
+import { runScenario } from "../../scenarios/context";
+import { formatScenario } from "../../scenarios/engine";
+import { scenarioRunSchema } from "../../scenarios/schema";
 
-const analyzeCosts = tool({
-  description: "Analyze a cloud plan + usage metrics and suggest optimizations",
-  inputSchema: z.object({
-    plan: z.string(),
-    metrics: z.string(),
-    comment: z.string().optional()
-  }),
-  execute: async ({ plan, metrics, comment }) => {
-    const { agent } = getCurrentAgent<Chat>();
-    const env = (agent as unknown as { env: Env }).env;
-    return await analyzeCostsWithLlama(env, plan, metrics, comment ?? "");
-  }
-});
+// Tools of one chat connection, bound to the worker's bindings and the user
+// of its session; saving scenarios needs the user
+export function createChatTools(env: Env, userId: string | null): ToolSet {
+  const analyzeCosts = tool({
+    description:
+      "Analyze a cloud plan + usage metrics and suggest optimizations",
+    inputSchema: z.object({
+      plan: z.string(),
+      metrics: z.string(),
+      comment: z.string().optional()
+    }),
+    execute: async ({ plan, metrics, comment }) => {
+      const prices = await buildPriceContext(
+        env,
+        `${plan}\n${metrics}\n${comment ?? ""}`
+      );
+      return await analyzeCostsWithLlama(
+        env,
+        plan,
+        metrics,
+        comment ?? "",
+        "",
+        prices
+      );
+    }
+  });
+
+  if (!userId) return { analyzeCosts };
+
+  const simulateScenario = tool({
+    description:
+      "Project the monthly bill of a thread after what-if changes (instance family swap, region move, commitment purchase, storage tier change, traffic shift to Cloudflare), applied in order, and save the scenario",
+    inputSchema: scenarioRunSchema,
+    execute: async ({ threadId, name, transforms }) => {
+      const scenario = await runScenario(
+        env,
+        userId,
+        threadId,
+        transforms,
+        name
+      );
+      return scenario
+        ? formatScenario(scenario.name, scenario.result)
+        : "No billed spend in this thread to simulate.";
+    }
+  });
+
+  return { analyzeCosts, simulateScenario };
+}
 
-export const tools = { analyzeCosts } satisfies ToolSet;
 export const executions = {};
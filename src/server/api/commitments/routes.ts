@@ -0,0 +1,118 @@
+import { buildCommitmentReport } from "../../commitments/context";
+import {
+  DEFAULT_TARGET_UTILIZATION,
+  formatCommitments
+} from "../../commitments/engine";
+import { getLatestAnalysisOfType, saveAnalysis } from "../../db/d1";
+import { getThreadCostDatasets } from "../../db/datasets";
+import { readJsonBody } from "../../utils/request";
+
+export async function commitmentRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+  if (url.pathname !== "/api/commitments") return null;
+
+  // The thread's latest commitment analysis
+  if (request.method === "GET") {
+    const threadId = url.searchParams.get("threadId");
+    if (!threadId) {
+      return Response.json({ error: "threadId is required" }, { status: 400 });
+    }
+    const analysis = await getLatestAnalysisOfType(
+      env,
+      userId,
+      threadId,
+      "commitments"
+    );
+    if (!analysis?.data) {
+      return Response.json(
+        { error: "No commitment analysis for this thread" },
+        { status: 404 }
+      );
+    }
+    return Response.json({
+      analysisId: analysis.id,
+      createdAt: analysis.createdAt,
+      report: JSON.parse(analysis.data)
+    });
+  }
+
+  // Runs the analysis over the thread's billing exports
+  if (request.method === "POST") {
+    return await handleAnalyzeCommitments(request, env, userId);
+  }
+
+  return null;
+}
+
+async function handleAnalyzeCommitments(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  const body = await readJsonBody<{
+    threadId?: string;
+    targetUtilization?: unknown;
+  }>(request);
+  if (!body) {
+    return Response.json(
+      { error: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+  const { threadId, targetUtilization = DEFAULT_TARGET_UTILIZATION } = body;
+  if (!threadId) {
+    return Response.json({ error: "threadId is required" }, { status: 400 });
+  }
+  if (
+    typeof targetUtilization !== "number" ||
+    targetUtilization <= 0 ||
+    targetUtilization > 1
+  ) {
+    return Response.json(
+      { error: "targetUtilization must be greater than 0 and at most 1" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const datasets = await getThreadCostDatasets(env, userId, threadId);
+    const report = await buildCommitmentReport(
+      env,
+      datasets,
+      targetUtilization
+    );
+    if (!report) {
+      return Response.json(
+        {
+          error: "No on-demand compute usage in this thread's billing exports"
+        },
+        { status: 422 }
+      );
+    }
+
+    const analysisId = await saveAnalysis(
+      env,
+      userId,
+      threadId,
+      "",
+      "",
+      "",
+      formatCommitments(report),
+      "commitments",
+      report,
+      report.catalogVersion
+    );
+    console.log(`✅ Commitment analysis saved with ID: ${analysisId}`);
+    return Response.json({ analysisId, report }, { status: 201 });
+  } catch (error) {
+    console.error("❌ Commitment analysis failed:", error);
+    return Response.json(
+      { error: "Commitment analysis failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { normalizeCurrency, parseFxRateTable } from "../../currency/fx";
+import { listFxCurrencies, listFxRates, saveFxRates } from "../../db/fx";
+import { getReportingCurrency, setReportingCurrency } from "../../db/settings";
+import { hasAdminToken } from "../../session/admin";
+import { readJsonBody } from "../../utils/request";
+
+const DEFAULT_RATE_LIMIT = 100;
+const MAX_RATE_LIMIT = 1000;
+
+export async function currencyRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Stored exchange rates, newest first
+  if (url.pathname === "/api/fx/rates" && request.method === "GET") {
+    const currency = url.searchParams.get("currency");
+    const limit = Math.min(
+      Number(url.searchParams.get("limit")) || DEFAULT_RATE_LIMIT,
+      MAX_RATE_LIMIT
+    );
+    return Response.json({
+      rates: await listFxRates(env, normalizeCurrency(currency), limit)
+    });
+  }
+
+  // Admin: import a dated rate table
+  if (url.pathname === "/api/admin/fx-rates" && request.method === "POST") {
+    return await handleRateImport(request, env);
+  }
+
+  // The user's reporting currency and the currencies it can be set to
+  if (url.pathname === "/api/settings/currency") {
+    if (request.method === "GET") {
+      return Response.json({
+        reportingCurrency: await getReportingCurrency(env, userId),
+        currencies: await listFxCurrencies(env)
+      });
+    }
+    if (request.method === "PUT") {
+      return await handleSetReportingCurrency(request, env, userId);
+    }
+  }
+
+  return null;
+}
+
+async function handleRateImport(request: Request, env: Env): Promise<Response> {
+  if (!hasAdminToken(request, env.FX_ADMIN_TOKEN)) {
+    return Response.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  let doc: unknown;
+  try {
+    doc = await request.json();
+  } catch {
+    return Response.json(
+      { error: "Rate table is not valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const rates = parseFxRateTable(doc);
+  if (typeof rates === "string") {
+    return Response.json({ error: rates }, { status: 422 });
+  }
+
+  try {
+    await saveFxRates(env, rates);
+    return Response.json(
+      { rateDate: rates[0]?.rateDate ?? null, rateCount: rates.length },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("❌ FX rate import failed:", error);
+    return Response.json({ error: "FX rate import failed" }, { status: 500 });
+  }
+}
+
+async function handleSetReportingCurrency(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  const body = await readJsonBody<{
+    reportingCurrency?: string;
+  }>(request);
+  if (!body) {
+    return Response.json(
+      { error: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+  const { reportingCurrency } = body;
+  const currency = normalizeCurrency(reportingCurrency);
+  if (!currency) {
+    return Response.json(
+      { error: "reportingCurrency must be a 3-letter currency code" },
+      { status: 400 }
+    );
+  }
+
+  // Only currencies with stored rates can be converted to
+  if (!(await listFxCurrencies(env)).includes(currency)) {
+    return Response.json(
+      { error: `No exchange rates stored for ${currency}` },
+      { status: 422 }
+    );
+  }
+
+  await setReportingCurrency(env, userId, currency);
+  console.log(`✅ Reporting currency set to ${currency}`);
+  return Response.json({ reportingCurrency: currency });
+}
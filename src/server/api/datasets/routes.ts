@@ -0,0 +1,83 @@
+import { loadCostDataset } from "../../billing/dataset";
+import { getUserFile } from "../../storage/file-storage";
+
+export async function datasetRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(/^\/api\/datasets\/(\d+)(\/records)?$/);
+
+  if (match && request.method === "GET") {
+    const fileId = Number(match[1]);
+    return match[2]
+      ? await handleDatasetRecords(env, userId, fileId)
+      : await handleDatasetSummary(env, userId, fileId);
+  }
+
+  return null;
+}
+
+async function handleDatasetSummary(
+  env: Env,
+  userId: string,
+  fileId: number
+): Promise<Response> {
+  console.log(`Dataset requested for file: ${fileId}`);
+  try {
+    const file = await getUserFile(env, userId, fileId);
+    if (!file) {
+      return Response.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const dataset = await loadCostDataset(env, file);
+    if (!dataset) {
+      return Response.json(
+        { error: "File is not a recognized billing export" },
+        { status: 422 }
+      );
+    }
+
+    return Response.json({
+      dataset: {
+        ...dataset,
+        fileName: file.fileName,
+        recordsUrl: dataset.focusKey ? `/api/datasets/${fileId}/records` : null
+      }
+    });
+  } catch (error) {
+    console.error("❌ Dataset load failed:", error);
+    return Response.json({ error: "Failed to load dataset" }, { status: 500 });
+  }
+}
+
+async function handleDatasetRecords(
+  env: Env,
+  userId: string,
+  fileId: number
+): Promise<Response> {
+  console.log(`FOCUS records requested for file: ${fileId}`);
+  const file = await getUserFile(env, userId, fileId);
+  if (!file) {
+    return Response.json({ error: "File not found" }, { status: 404 });
+  }
+
+  const dataset = await loadCostDataset(env, file);
+  const object = dataset?.focusKey
+    ? await env.FILES.get(dataset.focusKey)
+    : null;
+  if (!object) {
+    return Response.json(
+      { error: "No normalized records for this file" },
+      { status: 404 }
+    );
+  }
+
+  return new Response(object.body, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "private, max-age=3600"
+    }
+  });
+}
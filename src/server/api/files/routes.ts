@@ -1,8 +1,19 @@
 import { createThread, getLatestThread } from "../../db/d1";
+import { deleteCostDataset } from "../../db/datasets";
+import { deleteMetricSummaries } from "../../db/metrics";
+import { getFileSheets, type SheetRole, setSheetRole } from "../../db/sheets";
+import {
+  deleteUploadedFile,
+  ingestUploadedFile,
+  redeclareFileRole,
+  toDeclaredRole
+} from "../../ingest/upload";
 import {
   getFileDownloadUrl,
+  getUserFile,
   saveFileMetadata,
-  storeFileInR2
+  storeFileInR2,
+  type UploadedFile
 } from "../../storage/file-storage";
 
 export async function fileRoutes(
@@ -12,6 +23,26 @@ export async function fileRoutes(
 ): Promise<Response | null> {
   const url = new URL(request.url);
 
+  // Workbook sheets and their roles (matched before the download catch-all)
+  const sheetsMatch = url.pathname.match(/^\/api\/files\/(\d+)\/sheets$/);
+  if (sheetsMatch && request.method === "GET") {
+    return await handleGetSheets(env, userId, Number(sheetsMatch[1]));
+  }
+  if (sheetsMatch && request.method === "PUT") {
+    return await handleUpdateSheets(
+      request,
+      env,
+      userId,
+      Number(sheetsMatch[1])
+    );
+  }
+
+  // Role an attachment is declared as
+  const roleMatch = url.pathname.match(/^\/api\/files\/(\d+)\/role$/);
+  if (roleMatch && request.method === "PUT") {
+    return await handleUpdateRole(request, env, userId, Number(roleMatch[1]));
+  }
+
   // File download endpoint
   if (url.pathname.startsWith("/api/files/") && request.method === "GET") {
     return await handleFileDownload(request, env);
@@ -83,6 +114,7 @@ async function handleFileUpload(
     const file = formData.get("file") as File;
     const fileType = formData.get("fileType") as string;
     const sessionId = formData.get("sessionId") as string;
+    const declaredRole = toDeclaredRole(fileType);
 
     console.log(
       `File upload details - Name: ${file?.name}, Type: ${fileType}, Size: ${file?.size} bytes, Session: ${sessionId}`
@@ -137,7 +169,7 @@ async function handleFileUpload(
 
     console.log(`✅ File metadata saved with ID: ${fileId}`);
 
-    const uploadedFile = {
+    const uploadedFile: UploadedFile = {
       id: fileId,
       fileName: file.name,
       fileType: file.type,
@@ -147,8 +179,28 @@ async function handleFileUpload(
       downloadUrl: await getFileDownloadUrl(env, r2Key)
     };
 
+    let result: Awaited<ReturnType<typeof ingestUploadedFile>>;
+    try {
+      result = await ingestUploadedFile(
+        env,
+        uploadedFile,
+        { userId, threadId, sessionId },
+        declaredRole
+      );
+    } catch (error) {
+      console.error("❌ File extraction failed:", error);
+      await deleteUploadedFile(env, fileId);
+      return Response.json(
+        {
+          error:
+            "Could not read the file. Is it a valid workbook, archive or Parquet file?"
+        },
+        { status: 422 }
+      );
+    }
+
     console.log("✅ File upload completed successfully");
-    return Response.json({ file: uploadedFile });
+    return Response.json(result);
   } catch (error) {
     console.error("❌ File upload error:", error);
     return Response.json({ error: "File upload failed" }, { status: 500 });
@@ -173,34 +225,103 @@ async function handleFileDelete(request: Request, env: Env): Promise<Response> {
 
     console.log(`Deleting file with ID: ${fileId}`);
 
-    // Find R2 key for file
-    const { results } = await env.DB.prepare(
-      `SELECT r2Key FROM uploaded_files WHERE id = ?`
-    )
-      .bind(fileId)
-      .all();
-
-    if (results.length === 0) {
+    if (!(await deleteUploadedFile(env, Number(fileId)))) {
       return new Response(JSON.stringify({ error: "File not found" }), {
         status: 404
       });
     }
 
-    const { r2Key } = results[0] as { r2Key: string };
-
-    // Delete from R2
-    await env.FILES.delete(r2Key);
-    console.log(`✅ Deleted from R2: ${r2Key}`);
-
-    // Delete from database
-    await env.DB.prepare(`DELETE FROM uploaded_files WHERE id = ?`)
-      .bind(fileId)
-      .run();
-    console.log(`✅ Deleted from database: ${fileId}`);
-
     return Response.json({ success: true });
   } catch (err) {
     console.error("File delete failed:", err);
     return Response.json({ error: "Failed to delete file" }, { status: 500 });
   }
 }
+
+const SHEET_ROLES: SheetRole[] = ["billing", "metrics", "ignore"];
+
+async function handleGetSheets(
+  env: Env,
+  userId: string,
+  fileId: number
+): Promise<Response> {
+  const file = await getUserFile(env, userId, fileId);
+  if (!file) {
+    return Response.json({ error: "File not found" }, { status: 404 });
+  }
+  return Response.json({ sheets: await getFileSheets(env, fileId) });
+}
+
+async function handleUpdateSheets(
+  request: Request,
+  env: Env,
+  userId: string,
+  fileId: number
+): Promise<Response> {
+  try {
+    const file = await getUserFile(env, userId, fileId);
+    if (!file) {
+      return Response.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const { sheets = [] } = (await request.json()) as {
+      sheets?: { sheetIndex: number; role: SheetRole }[];
+    };
+    if (sheets.some((sheet) => !SHEET_ROLES.includes(sheet.role))) {
+      return Response.json(
+        { error: `Sheet role must be one of: ${SHEET_ROLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    for (const sheet of sheets) {
+      await setSheetRole(env, fileId, sheet.sheetIndex, sheet.role);
+    }
+
+    // Datasets may have been built from a sheet whose role just changed
+    await deleteCostDataset(env, fileId);
+    await deleteMetricSummaries(env, fileId);
+    console.log(`✅ Updated ${sheets.length} sheet role(s) for file ${fileId}`);
+
+    return Response.json({ sheets: await getFileSheets(env, fileId) });
+  } catch (error) {
+    console.error("❌ Sheet role update failed:", error);
+    return Response.json(
+      { error: "Failed to update sheet roles" },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleUpdateRole(
+  request: Request,
+  env: Env,
+  userId: string,
+  fileId: number
+): Promise<Response> {
+  try {
+    const file = await getUserFile(env, userId, fileId);
+    if (!file) {
+      return Response.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const { role } = (await request.json()) as { role?: string };
+    const declaredRole = toDeclaredRole(role);
+    if (!declaredRole) {
+      return Response.json(
+        { error: `Unknown file role: ${role}` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await redeclareFileRole(env, file, declaredRole);
+    console.log(`✅ File ${fileId} declared as ${declaredRole}`);
+    return Response.json({ file: updated });
+  } catch (error) {
+    console.error("❌ File role update failed:", error);
+    return Response.json(
+      { error: "Failed to update file role" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { getLatestAnalysisOfType } from "../../db/d1";
+
+export async function forecastRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+  if (url.pathname !== "/api/forecast" || request.method !== "GET") {
+    return null;
+  }
+
+  // The forecast made after the thread's latest billing upload
+  const threadId = url.searchParams.get("threadId");
+  if (!threadId) {
+    return Response.json({ error: "threadId is required" }, { status: 400 });
+  }
+  const analysis = await getLatestAnalysisOfType(
+    env,
+    userId,
+    threadId,
+    "forecast"
+  );
+  if (!analysis?.data) {
+    return Response.json(
+      { error: "No forecast for this thread" },
+      { status: 404 }
+    );
+  }
+  return Response.json({
+    analysisId: analysis.id,
+    createdAt: analysis.createdAt,
+    forecast: JSON.parse(analysis.data)
+  });
+}
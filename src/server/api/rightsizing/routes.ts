@@ -0,0 +1,74 @@
+import { listRightsizingRecommendations } from "../../db/rightsizing";
+import { getRightsizingMargin, setRightsizingMargin } from "../../db/settings";
+import { readJsonBody } from "../../utils/request";
+
+// Margins beyond doubling p95 would never recommend a smaller size
+const MAX_SAFETY_MARGIN = 1;
+
+export async function rightsizingRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Candidates of the thread's latest rightsizing analysis
+  if (url.pathname === "/api/rightsizing" && request.method === "GET") {
+    const threadId = url.searchParams.get("threadId");
+    if (!threadId) {
+      return Response.json({ error: "threadId is required" }, { status: 400 });
+    }
+    const recommendations = await listRightsizingRecommendations(
+      env,
+      userId,
+      threadId
+    );
+    return Response.json({ recommendations });
+  }
+
+  // Headroom kept above p95 utilization when sizing
+  if (url.pathname === "/api/settings/rightsizing") {
+    if (request.method === "GET") {
+      return Response.json({
+        safetyMargin: await getRightsizingMargin(env, userId)
+      });
+    }
+    if (request.method === "PUT") {
+      return await handleSetSafetyMargin(request, env, userId);
+    }
+  }
+
+  return null;
+}
+
+async function handleSetSafetyMargin(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  const body = await readJsonBody<{
+    safetyMargin?: unknown;
+  }>(request);
+  if (!body) {
+    return Response.json(
+      { error: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+  const { safetyMargin: margin } = body;
+  if (
+    typeof margin !== "number" ||
+    !Number.isFinite(margin) ||
+    margin < 0 ||
+    margin > MAX_SAFETY_MARGIN
+  ) {
+    return Response.json(
+      { error: `safetyMargin must be between 0 and ${MAX_SAFETY_MARGIN}` },
+      { status: 400 }
+    );
+  }
+
+  await setRightsizingMargin(env, userId, margin);
+  console.log(`✅ Rightsizing safety margin set to ${margin}`);
+  return Response.json({ safetyMargin: margin });
+}
@@ -0,0 +1,122 @@
+import type { ZodError } from "zod/v3";
+import { deleteScenario, listScenarios } from "../../db/scenarios";
+import { runScenario } from "../../scenarios/context";
+import {
+  formatScenario,
+  formatScenarioComparison
+} from "../../scenarios/engine";
+import { scenarioRunSchema } from "../../scenarios/schema";
+import { readJsonBody } from "../../utils/request";
+
+export async function scenarioRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Saved scenarios side by side, all of the thread's or the ids given
+  if (url.pathname === "/api/scenarios/compare" && request.method === "GET") {
+    const threadId = url.searchParams.get("threadId");
+    if (!threadId) {
+      return Response.json({ error: "threadId is required" }, { status: 400 });
+    }
+    const ids = (url.searchParams.get("ids") ?? "")
+      .split(",")
+      .map(Number)
+      .filter((id) => Number.isInteger(id) && id > 0);
+    const scenarios = await listScenarios(env, userId, threadId, ids);
+    if (scenarios.length === 0) {
+      return Response.json(
+        { error: "No saved scenarios for this thread" },
+        { status: 404 }
+      );
+    }
+    return Response.json({
+      scenarios,
+      comparison: formatScenarioComparison(scenarios)
+    });
+  }
+
+  if (url.pathname === "/api/scenarios") {
+    if (request.method === "GET") {
+      const threadId = url.searchParams.get("threadId");
+      if (!threadId) {
+        return Response.json(
+          { error: "threadId is required" },
+          { status: 400 }
+        );
+      }
+      return Response.json({
+        scenarios: await listScenarios(env, userId, threadId)
+      });
+    }
+    if (request.method === "POST") {
+      return await handleRunScenario(request, env, userId);
+    }
+  }
+
+  const deleteMatch = url.pathname.match(/^\/api\/scenarios\/(\d+)$/);
+  if (deleteMatch && request.method === "DELETE") {
+    const deleted = await deleteScenario(env, userId, Number(deleteMatch[1]));
+    if (!deleted) {
+      return Response.json({ error: "Scenario not found" }, { status: 404 });
+    }
+    return Response.json({ success: true });
+  }
+
+  return null;
+}
+
+// The first schema violation, e.g. "transforms[0].share: Number must be
+// less than or equal to 1"
+function issueMessage(error: ZodError): string {
+  const [issue] = error.issues;
+  const path = issue.path
+    .map((key) => (typeof key === "number" ? `[${key}]` : `.${key}`))
+    .join("")
+    .replace(/^\./, "");
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+async function handleRunScenario(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  const body = await readJsonBody<object>(request);
+  if (!body) {
+    return Response.json(
+      { error: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+  const parsed = scenarioRunSchema.safeParse(body);
+  if (!parsed.success) {
+    return Response.json(
+      { error: issueMessage(parsed.error) },
+      { status: 400 }
+    );
+  }
+  const { threadId, name, transforms } = parsed.data;
+
+  try {
+    const scenario = await runScenario(env, userId, threadId, transforms, name);
+    if (!scenario) {
+      return Response.json(
+        { error: "No billed spend in this thread to simulate" },
+        { status: 422 }
+      );
+    }
+    return Response.json(
+      { ...scenario, report: formatScenario(scenario.name, scenario.result) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("❌ Scenario simulation failed:", error);
+    return Response.json(
+      { error: "Scenario simulation failed" },
+      { status: 500 }
+    );
+  }
+}
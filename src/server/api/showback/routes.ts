@@ -0,0 +1,105 @@
+import { getThreadCostDatasets } from "../../db/datasets";
+import { getShowbackTagKeys, setShowbackTagKeys } from "../../db/settings";
+import { buildShowbackReport } from "../../showback/context";
+import {
+  DEFAULT_TAG_KEYS,
+  SHOWBACK_DIMENSIONS,
+  type ShowbackTagKeys
+} from "../../showback/engine";
+import { readJsonBody } from "../../utils/request";
+
+// Keys per dimension a user can configure
+const MAX_KEYS_PER_DIMENSION = 10;
+
+export async function showbackRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Tag coverage and per-team, environment and cost center tables for the
+  // thread's billing exports
+  if (url.pathname === "/api/showback" && request.method === "GET") {
+    const threadId = url.searchParams.get("threadId");
+    if (!threadId) {
+      return Response.json({ error: "threadId is required" }, { status: 400 });
+    }
+
+    try {
+      const datasets = await getThreadCostDatasets(env, userId, threadId);
+      const tagKeys = await getShowbackTagKeys(env, userId);
+      const report = await buildShowbackReport(env, datasets, tagKeys);
+      if (!report) {
+        return Response.json(
+          { error: "No billed usage in this thread" },
+          { status: 404 }
+        );
+      }
+      return Response.json(report);
+    } catch (error) {
+      console.error("❌ Showback failed:", error);
+      return Response.json({ error: "Showback failed" }, { status: 500 });
+    }
+  }
+
+  // Which tag keys map to teams, environments and cost centers
+  if (url.pathname === "/api/settings/showback") {
+    if (request.method === "GET") {
+      return Response.json({
+        tagKeys: await getShowbackTagKeys(env, userId),
+        defaults: DEFAULT_TAG_KEYS
+      });
+    }
+    if (request.method === "PUT") {
+      return await handleSetTagKeys(request, env, userId);
+    }
+  }
+
+  return null;
+}
+
+async function handleSetTagKeys(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  const body = await readJsonBody<{
+    tagKeys?: Partial<Record<string, unknown>>;
+  }>(request);
+  if (!body) {
+    return Response.json(
+      { error: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+  const { tagKeys } = body;
+  if (!tagKeys || typeof tagKeys !== "object") {
+    return Response.json({ error: "tagKeys is required" }, { status: 400 });
+  }
+
+  const current = await getShowbackTagKeys(env, userId);
+  const updated: ShowbackTagKeys = { ...current };
+  for (const dimension of SHOWBACK_DIMENSIONS) {
+    const keys = tagKeys[dimension];
+    if (keys === undefined) continue;
+    if (
+      !Array.isArray(keys) ||
+      keys.length === 0 ||
+      keys.length > MAX_KEYS_PER_DIMENSION ||
+      !keys.every((key) => typeof key === "string" && key.trim())
+    ) {
+      return Response.json(
+        {
+          error: `${dimension} must be a list of 1 to ${MAX_KEYS_PER_DIMENSION} tag keys`
+        },
+        { status: 400 }
+      );
+    }
+    updated[dimension] = keys.map((key: string) => key.trim());
+  }
+
+  await setShowbackTagKeys(env, userId, updated);
+  console.log("✅ Showback tag keys updated");
+  return Response.json({ tagKeys: updated });
+}
@@ -0,0 +1,122 @@
+import { getLatestAnalysisOfType, saveAnalysis } from "../../db/d1";
+import { getThreadCostDatasets } from "../../db/datasets";
+import { formatTransfer } from "../../transfer/engine";
+import { buildTransferReport } from "../../transfer/context";
+import { readJsonBody } from "../../utils/request";
+
+export async function transferRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+  if (url.pathname !== "/api/transfer") return null;
+
+  // The thread's latest transfer analysis
+  if (request.method === "GET") {
+    const threadId = url.searchParams.get("threadId");
+    if (!threadId) {
+      return Response.json({ error: "threadId is required" }, { status: 400 });
+    }
+    const analysis = await getLatestAnalysisOfType(
+      env,
+      userId,
+      threadId,
+      "transfer"
+    );
+    if (!analysis?.data) {
+      return Response.json(
+        { error: "No transfer analysis for this thread" },
+        { status: 404 }
+      );
+    }
+    return Response.json({
+      analysisId: analysis.id,
+      createdAt: analysis.createdAt,
+      report: JSON.parse(analysis.data)
+    });
+  }
+
+  // Reruns the analysis with another cache hit ratio or plan fee
+  if (request.method === "POST") {
+    return await handleAnalyzeTransfer(request, env, userId);
+  }
+
+  return null;
+}
+
+async function handleAnalyzeTransfer(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  const body = await readJsonBody<{
+    threadId?: string;
+    cacheHitRatio?: unknown;
+    planMonthly?: unknown;
+  }>(request);
+  if (!body) {
+    return Response.json(
+      { error: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+  const { threadId, cacheHitRatio, planMonthly } = body;
+  if (!threadId) {
+    return Response.json({ error: "threadId is required" }, { status: 400 });
+  }
+  if (
+    cacheHitRatio !== undefined &&
+    (typeof cacheHitRatio !== "number" ||
+      cacheHitRatio < 0 ||
+      cacheHitRatio > 1)
+  ) {
+    return Response.json(
+      { error: "cacheHitRatio must be between 0 and 1" },
+      { status: 400 }
+    );
+  }
+  if (
+    planMonthly !== undefined &&
+    (typeof planMonthly !== "number" || planMonthly < 0)
+  ) {
+    return Response.json(
+      { error: "planMonthly must be a non-negative number" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const datasets = await getThreadCostDatasets(env, userId, threadId);
+    const report = await buildTransferReport(env, datasets, {
+      cacheHitRatio,
+      planMonthly
+    });
+    if (!report) {
+      return Response.json(
+        { error: "No data transfer in this thread's billing exports" },
+        { status: 422 }
+      );
+    }
+
+    const analysisId = await saveAnalysis(
+      env,
+      userId,
+      threadId,
+      "",
+      "",
+      "",
+      formatTransfer(report),
+      "transfer",
+      report
+    );
+    console.log(`✅ Transfer analysis saved with ID: ${analysisId}`);
+    return Response.json({ analysisId, report }, { status: 201 });
+  } catch (error) {
+    console.error("❌ Transfer analysis failed:", error);
+    return Response.json(
+      { error: "Transfer analysis failed" },
+      { status: 500 }
+    );
+  }
+}
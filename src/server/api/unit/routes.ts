@@ -0,0 +1,161 @@
+import { listBusinessMetrics, saveBusinessMetrics } from "../../db/business";
+import { saveAnalysis } from "../../db/d1";
+import { getThreadCostDatasets, getUserCostDatasets } from "../../db/datasets";
+import { type BusinessMetricPoint, toUsageDate } from "../../unit/business";
+import { buildUnitCostReport } from "../../unit/context";
+import { formatUnitCosts } from "../../unit/engine";
+import { readJsonBody } from "../../utils/request";
+
+// Values one request can enter: a few years of one daily metric
+const MAX_ENTERED_POINTS = 2000;
+const MAX_METRIC_LENGTH = 64;
+
+export async function unitCostRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Weekly unit costs and regressions for one thread, or for the whole
+  // workspace when threadId is left out
+  if (url.pathname === "/api/unit-costs" && request.method === "GET") {
+    const threadId = url.searchParams.get("threadId");
+    try {
+      const datasets = threadId
+        ? await getThreadCostDatasets(env, userId, threadId)
+        : await getUserCostDatasets(env, userId);
+      const points = await listBusinessMetrics(env, userId, threadId);
+      const report = await buildUnitCostReport(env, datasets, points);
+      if (!report) {
+        return Response.json(
+          { error: "No business volumes fall on billed days" },
+          { status: 404 }
+        );
+      }
+      return Response.json({
+        scope: threadId ? "thread" : "workspace",
+        report
+      });
+    } catch (error) {
+      console.error("❌ Unit costs failed:", error);
+      return Response.json({ error: "Unit costs failed" }, { status: 500 });
+    }
+  }
+
+  if (url.pathname === "/api/business-metrics") {
+    if (request.method === "GET") {
+      const points = await listBusinessMetrics(
+        env,
+        userId,
+        url.searchParams.get("threadId")
+      );
+      return Response.json({ points });
+    }
+    if (request.method === "POST") {
+      return await handleEnterMetrics(request, env, userId);
+    }
+  }
+
+  return null;
+}
+
+// Saves hand-entered daily volumes and reruns the thread's unit costs
+async function handleEnterMetrics(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  const body = await readJsonBody<{
+    threadId?: string;
+    metric?: unknown;
+    points?: unknown;
+  }>(request);
+  if (!body) {
+    return Response.json(
+      { error: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+  const { threadId, metric, points } = body;
+  if (!threadId) {
+    return Response.json({ error: "threadId is required" }, { status: 400 });
+  }
+  if (
+    typeof metric !== "string" ||
+    !metric.trim() ||
+    metric.length > MAX_METRIC_LENGTH
+  ) {
+    return Response.json(
+      {
+        error: `metric must be a name of 1 to ${MAX_METRIC_LENGTH} characters`
+      },
+      { status: 400 }
+    );
+  }
+  if (
+    !Array.isArray(points) ||
+    points.length === 0 ||
+    points.length > MAX_ENTERED_POINTS
+  ) {
+    return Response.json(
+      {
+        error: `points must be a list of 1 to ${MAX_ENTERED_POINTS} { date, value } entries`
+      },
+      { status: 400 }
+    );
+  }
+
+  const entered: BusinessMetricPoint[] = [];
+  for (const point of points as { date?: unknown; value?: unknown }[]) {
+    const usageDate =
+      typeof point?.date === "string" ? toUsageDate(point.date) : null;
+    if (
+      !usageDate ||
+      typeof point.value !== "number" ||
+      !Number.isFinite(point.value) ||
+      point.value < 0
+    ) {
+      return Response.json(
+        { error: "Each point needs a date and a non-negative value" },
+        { status: 400 }
+      );
+    }
+    entered.push({ metric: metric.trim(), usageDate, value: point.value });
+  }
+
+  try {
+    await saveBusinessMetrics(env, userId, threadId, "manual", entered);
+    console.log(`✅ Saved ${entered.length} ${metric.trim()} values`);
+
+    const datasets = await getThreadCostDatasets(env, userId, threadId);
+    const report = await buildUnitCostReport(
+      env,
+      datasets,
+      await listBusinessMetrics(env, userId, threadId)
+    );
+    const analysisId = report
+      ? await saveAnalysis(
+          env,
+          userId,
+          threadId,
+          "",
+          "",
+          "",
+          formatUnitCosts(report),
+          "unit-costs",
+          report
+        )
+      : null;
+    return Response.json(
+      { saved: entered.length, analysisId, report },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("❌ Saving business metrics failed:", error);
+    return Response.json(
+      { error: "Saving business metrics failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,322 @@
+import { createThread, getLatestThread } from "../../db/d1";
+import {
+  expectedPartSize,
+  getMultipartUpload,
+  getUploadedParts,
+  type MultipartUpload,
+  partCountFor,
+  saveMultipartUpload,
+  saveUploadedPart,
+  setMultipartUploadStatus
+} from "../../db/uploads";
+import {
+  deleteUploadedFile,
+  ingestUploadedFile,
+  toDeclaredRole
+} from "../../ingest/upload";
+import {
+  buildR2Key,
+  getFileDownloadUrl,
+  saveFileMetadata,
+  type UploadedFile
+} from "../../storage/file-storage";
+
+// Parts are uploaded one request each, so they must fit a Worker request
+// body; R2 needs at least 5MiB for all but the last
+const PART_SIZE = 10 * 1024 * 1024;
+const MAX_MULTIPART_SIZE = 5 * 1024 * 1024 * 1024;
+
+export async function uploadRoutes(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  // Start a multipart upload
+  if (url.pathname === "/api/uploads" && request.method === "POST") {
+    return await handleCreateUpload(request, env, userId);
+  }
+
+  const match = url.pathname.match(
+    /^\/api\/uploads\/([^/]+)(?:\/(parts\/(\d+)|complete))?$/
+  );
+  if (!match) return null;
+
+  const upload = await getMultipartUpload(
+    env,
+    userId,
+    decodeURIComponent(match[1])
+  );
+  if (!upload) {
+    return Response.json({ error: "Upload not found" }, { status: 404 });
+  }
+
+  // Upload one part
+  if (match[3] && request.method === "PUT") {
+    return await handleUploadPart(request, env, upload, Number(match[3]));
+  }
+
+  // Finish the upload and ingest the file
+  if (match[2] === "complete" && request.method === "POST") {
+    return await handleCompleteUpload(env, upload);
+  }
+
+  if (!match[2]) {
+    // Upload state, used by clients resuming after a dropped connection
+    if (request.method === "GET") {
+      return Response.json(await describeUpload(env, upload));
+    }
+
+    // Abort the upload
+    if (request.method === "DELETE") {
+      return await handleAbortUpload(env, upload);
+    }
+  }
+
+  return null;
+}
+
+async function describeUpload(env: Env, upload: MultipartUpload) {
+  const parts = await getUploadedParts(env, upload.uploadId);
+  return {
+    uploadId: upload.uploadId,
+    fileName: upload.fileName,
+    fileSize: upload.fileSize,
+    partSize: upload.partSize,
+    partCount: partCountFor(upload),
+    status: upload.status,
+    fileId: upload.fileId,
+    parts: parts.map(({ partNumber, size }) => ({ partNumber, size }))
+  };
+}
+
+async function handleCreateUpload(
+  request: Request,
+  env: Env,
+  userId: string
+): Promise<Response> {
+  try {
+    const body = (await request.json()) as {
+      fileName?: string;
+      fileSize?: number;
+      contentType?: string;
+      fileType?: string;
+      sessionId?: string;
+      threadId?: string;
+    };
+
+    if (!body.fileName || !body.fileSize || body.fileSize <= 0) {
+      return Response.json(
+        { error: "fileName and fileSize are required" },
+        { status: 400 }
+      );
+    }
+    if (!body.sessionId) {
+      return Response.json({ error: "Session ID required" }, { status: 400 });
+    }
+    if (body.fileSize > MAX_MULTIPART_SIZE) {
+      return Response.json(
+        { error: "File too large. Maximum size is 5GB." },
+        { status: 400 }
+      );
+    }
+
+    const threadId =
+      body.threadId ||
+      (await getLatestThread(env, userId)) ||
+      (await createThread(env, userId));
+    const r2Key = buildR2Key(userId, threadId, body.fileName);
+    const contentType = body.contentType || "application/octet-stream";
+
+    const multipart = await env.FILES.createMultipartUpload(r2Key, {
+      httpMetadata: {
+        contentType,
+        contentDisposition: `attachment; filename="${body.fileName}"`
+      }
+    });
+
+    const upload = {
+      uploadId: multipart.uploadId,
+      userId,
+      threadId,
+      sessionId: body.sessionId,
+      r2Key,
+      fileName: body.fileName,
+      fileSize: body.fileSize,
+      contentType,
+      declaredRole: toDeclaredRole(body.fileType),
+      partSize: PART_SIZE
+    };
+    await saveMultipartUpload(env, upload);
+    console.log(
+      `✅ Multipart upload started for ${body.fileName} (${body.fileSize} bytes): ${upload.uploadId}`
+    );
+
+    return Response.json({
+      uploadId: upload.uploadId,
+      threadId,
+      partSize: PART_SIZE,
+      partCount: partCountFor(upload)
+    });
+  } catch (error) {
+    console.error("❌ Multipart upload creation failed:", error);
+    return Response.json({ error: "Failed to start upload" }, { status: 500 });
+  }
+}
+
+async function handleUploadPart(
+  request: Request,
+  env: Env,
+  upload: MultipartUpload,
+  partNumber: number
+): Promise<Response> {
+  if (upload.status !== "uploading") {
+    return Response.json(
+      { error: `Upload is ${upload.status}` },
+      { status: 409 }
+    );
+  }
+  if (partNumber < 1 || partNumber > partCountFor(upload)) {
+    return Response.json({ error: "Invalid part number" }, { status: 400 });
+  }
+
+  try {
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    const expected = expectedPartSize(upload, partNumber);
+    if (bytes.length !== expected) {
+      return Response.json(
+        { error: `Part ${partNumber} must be ${expected} bytes` },
+        { status: 400 }
+      );
+    }
+
+    const part = await env.FILES.resumeMultipartUpload(
+      upload.r2Key,
+      upload.uploadId
+    ).uploadPart(partNumber, bytes);
+    await saveUploadedPart(env, upload.uploadId, {
+      partNumber,
+      etag: part.etag,
+      size: bytes.length
+    });
+
+    return Response.json({ partNumber, size: bytes.length });
+  } catch (error) {
+    console.error(`❌ Part ${partNumber} upload failed:`, error);
+    return Response.json(
+      { error: `Failed to upload part ${partNumber}` },
+      { status: 500 }
+    );
+  }
+}
+
+async function handleCompleteUpload(
+  env: Env,
+  upload: MultipartUpload
+): Promise<Response> {
+  if (upload.status !== "uploading") {
+    return Response.json(
+      { error: `Upload is ${upload.status}` },
+      { status: 409 }
+    );
+  }
+
+  const parts = await getUploadedParts(env, upload.uploadId);
+  const partCount = partCountFor(upload);
+  if (parts.length !== partCount) {
+    const received = new Set(parts.map((part) => part.partNumber));
+    const missing = Array.from({ length: partCount }, (_, i) => i + 1).filter(
+      (n) => !received.has(n)
+    );
+    return Response.json(
+      { error: "Upload is missing parts", missing },
+      { status: 409 }
+    );
+  }
+
+  let fileId: number;
+  try {
+    await env.FILES.resumeMultipartUpload(
+      upload.r2Key,
+      upload.uploadId
+    ).complete(parts.map(({ partNumber, etag }) => ({ partNumber, etag })));
+    fileId = await saveFileMetadata(
+      env,
+      upload.userId,
+      upload.threadId,
+      upload.sessionId,
+      null,
+      upload.fileName,
+      upload.contentType,
+      upload.fileSize,
+      upload.r2Key
+    );
+    await setMultipartUploadStatus(env, upload.uploadId, "completed", fileId);
+    console.log(
+      `✅ Multipart upload completed: ${upload.fileName} (${fileId})`
+    );
+  } catch (error) {
+    console.error("❌ Multipart upload completion failed:", error);
+    return Response.json(
+      { error: "Failed to complete upload" },
+      { status: 500 }
+    );
+  }
+
+  const uploadedFile: UploadedFile = {
+    id: fileId,
+    fileName: upload.fileName,
+    fileType: upload.contentType,
+    fileSize: upload.fileSize,
+    r2Key: upload.r2Key,
+    uploadedAt: new Date().toISOString(),
+    downloadUrl: await getFileDownloadUrl(env, upload.r2Key)
+  };
+
+  try {
+    const result = await ingestUploadedFile(
+      env,
+      uploadedFile,
+      {
+        userId: upload.userId,
+        threadId: upload.threadId,
+        sessionId: upload.sessionId
+      },
+      upload.declaredRole
+    );
+    return Response.json({ ...result, threadId: upload.threadId });
+  } catch (error) {
+    console.error("❌ File extraction failed:", error);
+    await deleteUploadedFile(env, fileId);
+    return Response.json(
+      {
+        error:
+          "Could not read the file. Is it a valid workbook, archive or Parquet file?"
+      },
+      { status: 422 }
+    );
+  }
+}
+
+async function handleAbortUpload(
+  env: Env,
+  upload: MultipartUpload
+): Promise<Response> {
+  if (upload.status !== "uploading") {
+    return Response.json({ success: true, status: upload.status });
+  }
+
+  try {
+    await env.FILES.resumeMultipartUpload(
+      upload.r2Key,
+      upload.uploadId
+    ).abort();
+    await setMultipartUploadStatus(env, upload.uploadId, "aborted");
+    console.log(`✅ Multipart upload aborted: ${upload.uploadId}`);
+    return Response.json({ success: true, status: "aborted" });
+  } catch (error) {
+    console.error("❌ Multipart upload abort failed:", error);
+    return Response.json({ error: "Failed to abort upload" }, { status: 500 });
+  }
+}
@@ -0,0 +1,316 @@
+import type { FocusRecord } from "./focus";
+
+export interface CostBucket {
+  billedCost: number;
+  effectiveCost: number;
+}
+
+export type CostBreakdown = Record<string, CostBucket>;
+
+export interface CostAggregates {
+  format: string;
+  provider: string;
+  currency: string;
+  rowCount: number;
+  billedCost: number;
+  effectiveCost: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+  byService: CostBreakdown;
+  byUsageType: CostBreakdown;
+  byAccount: CostBreakdown;
+  byRegion: CostBreakdown;
+  byDay: CostBreakdown;
+  byPricingCategory: CostBreakdown;
+  byChargeCategory: CostBreakdown;
+  byResourceGroup: CostBreakdown;
+  byCommitment: CostBreakdown;
+  byTag: CostBreakdown;
+  // Exports from some billing entities mix currencies
+  byCurrency: CostBreakdown;
+}
+
+// Keeps persisted JSON bounded for exports with thousands of usage types
+const MAX_BUCKETS = 200;
+const OTHER_BUCKET = "(other)";
+
+export function createAggregates(format: string): CostAggregates {
+  return {
+    format,
+    provider: "",
+    currency: "USD",
+    rowCount: 0,
+    billedCost: 0,
+    effectiveCost: 0,
+    periodStart: null,
+    periodEnd: null,
+    byService: {},
+    byUsageType: {},
+    byAccount: {},
+    byRegion: {},
+    byDay: {},
+    byPricingCategory: {},
+    byChargeCategory: {},
+    byResourceGroup: {},
+    byCommitment: {},
+    byTag: {},
+    byCurrency: {}
+  };
+}
+
+function addToBucket(
+  breakdown: CostBreakdown,
+  key: string,
+  record: FocusRecord
+): void {
+  const bucket = breakdown[key || "(unknown)"] ?? {
+    billedCost: 0,
+    effectiveCost: 0
+  };
+  bucket.billedCost += record.BilledCost;
+  bucket.effectiveCost += record.EffectiveCost;
+  breakdown[key || "(unknown)"] = bucket;
+}
+
+export function addRecord(agg: CostAggregates, record: FocusRecord): void {
+  agg.rowCount++;
+  agg.billedCost += record.BilledCost;
+  agg.effectiveCost += record.EffectiveCost;
+  if (record.ProviderName) agg.provider = record.ProviderName;
+  if (record.BillingCurrency) agg.currency = record.BillingCurrency;
+
+  const day = record.ChargePeriodStart.slice(0, 10);
+  if (day) {
+    if (!agg.periodStart || day < agg.periodStart) agg.periodStart = day;
+    if (!agg.periodEnd || day > agg.periodEnd) agg.periodEnd = day;
+  }
+
+  addToBucket(agg.byService, record.ServiceName, record);
+  addToBucket(agg.byUsageType, record.x_UsageType || record.SkuId, record);
+  addToBucket(agg.byAccount, record.SubAccountId, record);
+  addToBucket(agg.byRegion, record.RegionId, record);
+  addToBucket(agg.byDay, day, record);
+  addToBucket(agg.byPricingCategory, record.PricingCategory, record);
+  addToBucket(agg.byChargeCategory, record.ChargeCategory, record);
+  addToBucket(agg.byCurrency, record.BillingCurrency || agg.currency, record);
+
+  // Sparse dimensions: only some providers or rows populate them
+  if (record.x_ResourceGroup) {
+    const subscription = record.SubAccountName || record.SubAccountId;
+    addToBucket(
+      agg.byResourceGroup,
+      `${subscription}/${record.x_ResourceGroup}`,
+      record
+    );
+  }
+  if (record.CommitmentDiscountId || record.CommitmentDiscountName) {
+    addToBucket(
+      agg.byCommitment,
+      record.CommitmentDiscountName || record.CommitmentDiscountId,
+      record
+    );
+  }
+  for (const [key, value] of Object.entries(record.Tags)) {
+    addToBucket(agg.byTag, `${key}=${value}`, record);
+  }
+}
+
+function compactBreakdown(breakdown: CostBreakdown): CostBreakdown {
+  const entries = sortBreakdown(breakdown);
+  if (entries.length <= MAX_BUCKETS) return breakdown;
+
+  const compacted: CostBreakdown = {};
+  const other: CostBucket = { billedCost: 0, effectiveCost: 0 };
+  entries.forEach(([key, bucket], i) => {
+    if (i < MAX_BUCKETS - 1) {
+      compacted[key] = bucket;
+    } else {
+      other.billedCost += bucket.billedCost;
+      other.effectiveCost += bucket.effectiveCost;
+    }
+  });
+  compacted[OTHER_BUCKET] = other;
+  return compacted;
+}
+
+export function finalizeAggregates(agg: CostAggregates): CostAggregates {
+  return {
+    ...agg,
+    byService: compactBreakdown(agg.byService),
+    byUsageType: compactBreakdown(agg.byUsageType),
+    byAccount: compactBreakdown(agg.byAccount),
+    byRegion: compactBreakdown(agg.byRegion),
+    // Days are bounded by the billing period and must stay complete
+    byDay: agg.byDay,
+    byPricingCategory: agg.byPricingCategory,
+    byChargeCategory: agg.byChargeCategory,
+    byResourceGroup: compactBreakdown(agg.byResourceGroup),
+    byCommitment: compactBreakdown(agg.byCommitment),
+    byTag: compactBreakdown(agg.byTag),
+    byCurrency: agg.byCurrency
+  };
+}
+
+export function sortBreakdown(
+  breakdown: CostBreakdown
+): [string, CostBucket][] {
+  return Object.entries(breakdown).sort(
+    (a, b) => b[1].effectiveCost - a[1].effectiveCost
+  );
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+}
+
+function formatBreakdown(
+  title: string,
+  breakdown: CostBreakdown,
+  limit: number
+): string {
+  // Datasets persisted before a dimension existed lack its breakdown
+  const rows = sortBreakdown(breakdown ?? {})
+    .slice(0, limit)
+    .map(
+      ([key, bucket]) =>
+        `- ${key}: billed ${formatAmount(bucket.billedCost)}, effective ${formatAmount(bucket.effectiveCost)}`
+    );
+  return `${title}:\n${rows.join("\n") || "- (none)"}`;
+}
+
+export function formatAggregatesForPrompt(
+  fileName: string,
+  agg: CostAggregates
+): string {
+  const days = Object.keys(agg.byDay).sort();
+  const daily = days
+    .map((day) => `- ${day}: ${formatAmount(agg.byDay[day].effectiveCost)}`)
+    .join("\n");
+
+  // Totals across currencies are only meaningful after conversion
+  const mixed = Object.keys(agg.byCurrency ?? {}).length > 1;
+  const currency = mixed ? "(mixed currencies)" : agg.currency;
+
+  return [
+    `Billing export: ${fileName} (${agg.provider || "unknown provider"}, ${agg.format}, ${agg.rowCount} line items normalized to FOCUS)`,
+    `Period: ${agg.periodStart ?? "?"} to ${agg.periodEnd ?? "?"}`,
+    `Billing currency: ${Object.keys(agg.byCurrency ?? {}).join(", ") || agg.currency}`,
+    `Total BilledCost: ${formatAmount(agg.billedCost)} ${currency}`,
+    `Total EffectiveCost (amortized): ${formatAmount(agg.effectiveCost)} ${currency}`,
+    ...(mixed
+      ? [formatBreakdown("Spend by BillingCurrency", agg.byCurrency, 10)]
+      : []),
+    formatBreakdown("Spend by ServiceName", agg.byService, 15),
+    formatBreakdown("Spend by usage type", agg.byUsageType, 20),
+    formatBreakdown("Spend by SubAccountId", agg.byAccount, 10),
+    formatBreakdown("Spend by RegionId", agg.byRegion, 10),
+    formatBreakdown("Spend by PricingCategory", agg.byPricingCategory, 5),
+    formatBreakdown("Spend by ChargeCategory", agg.byChargeCategory, 5),
+    formatBreakdown(
+      "Spend by subscription/resource group",
+      agg.byResourceGroup,
+      15
+    ),
+    formatBreakdown("Spend by commitment discount", agg.byCommitment, 10),
+    formatBreakdown("Spend by tag/label", agg.byTag, 15),
+    `Daily EffectiveCost:\n${daily || "- (none)"}`
+  ].join("\n\n");
+}
+
+function overlap(
+  a: CostAggregates,
+  b: CostAggregates
+): { start: string; end: string } | null {
+  if (!a.periodStart || !a.periodEnd || !b.periodStart || !b.periodEnd) {
+    return null;
+  }
+  const start = a.periodStart > b.periodStart ? a.periodStart : b.periodStart;
+  const end = a.periodEnd < b.periodEnd ? a.periodEnd : b.periodEnd;
+  return start <= end ? { start, end } : null;
+}
+
+// Several exports analyzed together: monthly totals and top services across
+// all of them, and periods two exports of one provider both cover, which
+// would count the same spend twice
+export function formatCombinedAggregates(
+  datasets: { fileName: string; aggregates: CostAggregates }[]
+): string {
+  const monthly = new Map<string, Map<string, number>>();
+  const services = new Map<string, CostBreakdown>();
+  for (const { aggregates } of datasets) {
+    const mixed = Object.keys(aggregates.byCurrency ?? {}).length > 1;
+    const currency = mixed ? "(mixed currencies)" : aggregates.currency;
+    const months = monthly.get(currency) ?? new Map<string, number>();
+    for (const [day, bucket] of Object.entries(aggregates.byDay)) {
+      const month = day.slice(0, 7);
+      months.set(month, (months.get(month) ?? 0) + bucket.effectiveCost);
+    }
+    monthly.set(currency, months);
+
+    const breakdown = services.get(currency) ?? {};
+    for (const [service, bucket] of Object.entries(aggregates.byService)) {
+      const total = breakdown[service] ?? { billedCost: 0, effectiveCost: 0 };
+      total.billedCost += bucket.billedCost;
+      total.effectiveCost += bucket.effectiveCost;
+      breakdown[service] = total;
+    }
+    services.set(currency, breakdown);
+  }
+
+  const starts = datasets
+    .map((d) => d.aggregates.periodStart)
+    .filter((day): day is string => !!day)
+    .sort();
+  const ends = datasets
+    .map((d) => d.aggregates.periodEnd)
+    .filter((day): day is string => !!day)
+    .sort();
+  const sections = [
+    `Combined billing across ${datasets.length} exports (${starts[0] ?? "?"} to ${ends[ends.length - 1] ?? "?"})`
+  ];
+
+  for (const [currency, months] of monthly) {
+    let previous: number | null = null;
+    const rows = [...months]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, cost]) => {
+        const change =
+          previous && previous > 0
+            ? ` (${cost >= previous ? "+" : ""}${(((cost - previous) / previous) * 100).toFixed(1)}% vs previous month)`
+            : "";
+        previous = cost;
+        return `- ${month}: ${formatAmount(cost)}${change}`;
+      });
+    sections.push(
+      `Monthly EffectiveCost (${currency}):\n${rows.join("\n") || "- (none)"}`
+    );
+    sections.push(
+      formatBreakdown(
+        `Top services combined (${currency})`,
+        services.get(currency) ?? {},
+        10
+      )
+    );
+  }
+
+  const overlaps: string[] = [];
+  datasets.forEach((a, i) => {
+    for (const b of datasets.slice(i + 1)) {
+      if (a.aggregates.provider !== b.aggregates.provider) continue;
+      const period = overlap(a.aggregates, b.aggregates);
+      if (period) {
+        overlaps.push(
+          `- ${a.fileName} and ${b.fileName} both cover ${period.start} to ${period.end}; check for double-counted line items`
+        );
+      }
+    }
+  });
+  if (overlaps.length > 0) {
+    sections.push(`Overlapping periods:\n${overlaps.join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
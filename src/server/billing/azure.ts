@@ -0,0 +1,126 @@
+import { buildColumnIndex, normalizeHeader, parseAmount } from "./csv";
+import {
+  type ChargeCategory,
+  emptyFocusRecord,
+  type FocusRecord,
+  type PricingCategory,
+  parseTags,
+  serviceCategoryFor,
+  toIsoDate
+} from "./focus";
+
+export type AzureLayout = "azure-ea" | "azure-mca";
+
+export function detectAzureLayout(header: string[]): AzureLayout | null {
+  const columns = new Set(header.map(normalizeHeader));
+  const hasCost = ["costinbillingcurrency", "cost", "pretaxcost"].some((c) =>
+    columns.has(c)
+  );
+  if (!columns.has("metercategory") || !hasCost) return null;
+  // MCA exports are scoped to billing profiles and invoice sections
+  return columns.has("billingprofileid") || columns.has("invoicesectionid")
+    ? "azure-mca"
+    : "azure-ea";
+}
+
+const CHARGE_CATEGORIES: Record<string, ChargeCategory> = {
+  usage: "Usage",
+  purchase: "Purchase",
+  unusedreservation: "Usage",
+  unusedsavingsplan: "Usage",
+  refund: "Adjustment",
+  tax: "Tax",
+  roundingadjustment: "Adjustment"
+};
+
+const PRICING_CATEGORIES: Record<string, PricingCategory> = {
+  ondemand: "Standard",
+  reservation: "Committed",
+  savingsplan: "Committed",
+  spot: "Dynamic"
+};
+
+// Reads both "Actual cost" and "Amortized cost" exports. Each row carries the
+// cost of the view it came from, so BilledCost and EffectiveCost only diverge
+// for commitment purchases (amortized into usage) and unused commitment rows.
+export function createAzureReader(header: string[]) {
+  const index = buildColumnIndex(header);
+
+  // EA uses PascalCase ("ResourceGroup"), MCA camelCase ("resourceGroupName");
+  // both collapse to the same normalized keys
+  const get = (row: string[], ...keys: string[]): string => {
+    for (const key of keys) {
+      const i = index.get(key);
+      if (i !== undefined && row[i]) return row[i];
+    }
+    return "";
+  };
+
+  const resourceGroup = (row: string[], resourceId: string): string => {
+    const explicit = get(row, "resourcegroup", "resourcegroupname");
+    if (explicit) return explicit;
+    return resourceId.match(/\/resourcegroups\/([^/]+)/i)?.[1] ?? "";
+  };
+
+  return (row: string[]): FocusRecord => {
+    const cost = parseAmount(
+      get(row, "costinbillingcurrency", "cost", "pretaxcost")
+    );
+    const chargeType = get(row, "chargetype").toLowerCase();
+    const pricingModel = get(row, "pricingmodel").toLowerCase();
+    const isCommitment =
+      pricingModel === "reservation" || pricingModel === "savingsplan";
+    const isUnusedCommitment = chargeType.startsWith("unused");
+
+    const serviceName = get(row, "metercategory", "consumedservice");
+    const subCategory = get(row, "metersubcategory");
+    const resourceId = get(row, "resourceid", "instanceid", "instancename");
+    const day = toIsoDate(get(row, "date", "usagedatetime", "usagedate"));
+
+    return {
+      ...emptyFocusRecord(),
+      ProviderName: "Microsoft",
+      BillingAccountId: get(row, "billingaccountid"),
+      SubAccountId: get(row, "subscriptionid", "subscriptionguid"),
+      SubAccountName: get(row, "subscriptionname"),
+      BillingCurrency:
+        get(row, "billingcurrency", "billingcurrencycode", "currency") || "USD",
+      ChargeCategory: CHARGE_CATEGORIES[chargeType] ?? "Usage",
+      ChargeDescription: [serviceName, subCategory, get(row, "metername")]
+        .filter(Boolean)
+        .join(" / "),
+      ChargePeriodStart: day,
+      ChargePeriodEnd: day,
+      BilledCost:
+        isUnusedCommitment || (isCommitment && chargeType === "usage")
+          ? 0
+          : cost,
+      EffectiveCost: isCommitment && chargeType === "purchase" ? 0 : cost,
+      ListCost: parseAmount(get(row, "paygcostinbillingcurrency")),
+      PricingCategory: PRICING_CATEGORIES[pricingModel] ?? "Standard",
+      ConsumedQuantity: parseAmount(get(row, "quantity", "consumedquantity")),
+      ConsumedUnit: get(row, "unitofmeasure"),
+      RegionId: get(row, "resourcelocation", "meterregion").toLowerCase(),
+      ResourceId: resourceId,
+      ResourceName: resourceId.split("/").pop() ?? "",
+      ServiceName: serviceName,
+      ServiceCategory: serviceCategoryFor(`${serviceName} ${subCategory}`),
+      SkuId: get(row, "meterid", "productid"),
+      CommitmentDiscountId: get(row, "reservationid", "benefitid"),
+      CommitmentDiscountName: get(row, "reservationname", "benefitname"),
+      CommitmentDiscountType:
+        pricingModel === "reservation"
+          ? "Reservation"
+          : pricingModel === "savingsplan"
+            ? "Savings Plan"
+            : "",
+      Tags: parseTags(get(row, "tags")),
+      x_UsageType: [serviceName, subCategory].filter(Boolean).join(": "),
+      x_InstanceType:
+        get(row, "additionalinfo").match(
+          /"ServiceType"\s*:\s*"([^"]+)"/
+        )?.[1] ?? "",
+      x_ResourceGroup: resourceGroup(row, resourceId)
+    };
+  };
+}
@@ -0,0 +1,126 @@
+export interface CsvParser {
+  push(chunk: string): string[][];
+  flush(): string[][];
+}
+
+// Incremental RFC 4180 tokenizer: chunks may split rows, quotes or CRLF pairs
+export function createCsvParser(delimiter = ","): CsvParser {
+  let field = "";
+  let row: string[] = [];
+  let inQuotes = false;
+  let quotePending = false;
+  let started = false;
+
+  const endRow = (rows: string[][]) => {
+    row.push(field);
+    field = "";
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+  };
+
+  return {
+    push(chunk: string): string[][] {
+      const rows: string[][] = [];
+      let text = chunk;
+      if (!started) {
+        text = text.replace(/^\uFEFF/, "");
+        started = true;
+      }
+
+      for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false;
+            if (ch === '"') {
+              field += '"';
+              continue;
+            }
+            inQuotes = false;
+          } else if (ch === '"') {
+            quotePending = true;
+            continue;
+          } else {
+            field += ch;
+            continue;
+          }
+        }
+
+        if (ch === '"' && field === "") {
+          inQuotes = true;
+        } else if (ch === delimiter) {
+          row.push(field);
+          field = "";
+        } else if (ch === "\n") {
+          endRow(rows);
+        } else if (ch !== "\r") {
+          field += ch;
+        }
+      }
+
+      return rows;
+    },
+
+    flush(): string[][] {
+      const rows: string[][] = [];
+      inQuotes = false;
+      quotePending = false;
+      if (field !== "" || row.length > 0) endRow(rows);
+      return rows;
+    }
+  };
+}
+
+export async function* readCsvRows(
+  stream: ReadableStream<Uint8Array>,
+  delimiter = ","
+): AsyncGenerator<string[]> {
+  const parser = createCsvParser(delimiter);
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    yield* parser.push(decoder.decode(value, { stream: true }));
+  }
+
+  yield* parser.push(decoder.decode());
+  yield* parser.flush();
+}
+
+export function parseCsvText(text: string, delimiter = ","): string[][] {
+  const parser = createCsvParser(delimiter);
+  return [...parser.push(text), ...parser.flush()];
+}
+
+export function toCsvLine(values: string[]): string {
+  return `${values
+    .map((value) =>
+      /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+    )
+    .join(",")}\n`;
+}
+
+// Header names vary between CUR ("lineItem/UsageType") and CUR 2.0
+// ("line_item_usage_type"); both collapse to "lineitemusagetype"
+export function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function buildColumnIndex(header: string[]): Map<string, number> {
+  const index = new Map<string, number>();
+  header.forEach((name, i) => {
+    const key = normalizeHeader(name);
+    if (!index.has(key)) index.set(key, i);
+  });
+  return index;
+}
+
+export function parseAmount(value: string | undefined): number {
+  if (!value) return 0;
+  const amount = Number(value.replace(/[,\s]/g, ""));
+  return Number.isFinite(amount) ? amount : 0;
+}
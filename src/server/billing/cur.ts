@@ -0,0 +1,172 @@
+import { buildColumnIndex, normalizeHeader, parseAmount } from "./csv";
+import {
+  type ChargeCategory,
+  emptyFocusRecord,
+  type FocusRecord,
+  type PricingCategory,
+  serviceCategoryFor
+} from "./focus";
+
+export type CurVersion = "aws-cur" | "aws-cur2";
+
+export function detectCurVersion(header: string[]): CurVersion | null {
+  const columns = new Set(header.map(normalizeHeader));
+  if (
+    !columns.has("lineitemunblendedcost") ||
+    !(columns.has("lineitemproductcode") || columns.has("lineitemusagetype"))
+  ) {
+    return null;
+  }
+  // CUR 2.0 uses snake_case column names
+  return header.some((name) => name.startsWith("line_item_"))
+    ? "aws-cur2"
+    : "aws-cur";
+}
+
+const CHARGE_CATEGORIES: Record<string, ChargeCategory> = {
+  Tax: "Tax",
+  Credit: "Credit",
+  Refund: "Adjustment",
+  BundledDiscount: "Credit",
+  EdpDiscount: "Credit",
+  PrivateRateDiscount: "Credit",
+  Fee: "Purchase",
+  RIFee: "Purchase",
+  SavingsPlanRecurringFee: "Purchase",
+  SavingsPlanUpfrontFee: "Purchase"
+};
+
+export function createCurReader(header: string[]) {
+  const index = buildColumnIndex(header);
+
+  // CUR tags are one column per key ("resourceTags/user:team", or
+  // "resource_tags_user_team" in Parquet), CUR 2.0 packs them into a JSON
+  // map ("resource_tags")
+  const tagColumns = header
+    .map((name, i) => ({ name, i }))
+    .filter(
+      ({ name }) =>
+        name.startsWith("resourceTags/") || name.startsWith("resource_tags_")
+    )
+    .map(({ name, i }) => ({
+      key: name.startsWith("resourceTags/")
+        ? name.slice("resourceTags/".length)
+        : name.slice("resource_tags_".length).replace(/^(user|aws)_/, "$1:"),
+      i
+    }));
+
+  const get = (row: string[], ...keys: string[]): string => {
+    for (const key of keys) {
+      const i = index.get(key);
+      if (i !== undefined && row[i]) return row[i];
+    }
+    return "";
+  };
+
+  const effectiveCost = (row: string[], unblended: number): number => {
+    switch (get(row, "lineitemlineitemtype")) {
+      case "DiscountedUsage":
+        return parseAmount(get(row, "reservationeffectivecost"));
+      case "SavingsPlanCoveredUsage":
+        return parseAmount(get(row, "savingsplansavingsplaneffectivecost"));
+      case "SavingsPlanNegation":
+      case "SavingsPlanUpfrontFee":
+        return 0;
+      case "RIFee":
+        return (
+          parseAmount(
+            get(row, "reservationunusedamortizedupfrontfeeforbillingperiod")
+          ) + parseAmount(get(row, "reservationunusedrecurringfee"))
+        );
+      case "SavingsPlanRecurringFee":
+        return (
+          parseAmount(get(row, "savingsplantotalcommitmenttodate")) -
+          parseAmount(get(row, "savingsplanusedcommitment"))
+        );
+      case "Fee":
+        // Upfront RI payments are amortized into DiscountedUsage rows
+        return get(row, "reservationreservationarn") ? 0 : unblended;
+      default:
+        return unblended;
+    }
+  };
+
+  const pricingCategory = (row: string[]): PricingCategory => {
+    const lineItemType = get(row, "lineitemlineitemtype");
+    if (
+      lineItemType === "DiscountedUsage" ||
+      lineItemType === "SavingsPlanCoveredUsage"
+    ) {
+      return "Committed";
+    }
+    if (get(row, "lineitemusagetype").includes("SpotUsage")) return "Dynamic";
+    return lineItemType === "Usage" ? "Standard" : "Other";
+  };
+
+  const commitment = (row: string[]): [string, string] => {
+    const reservation = get(row, "reservationreservationarn");
+    if (reservation) return [reservation, "Reservation"];
+    const savingsPlan = get(row, "savingsplansavingsplanarn");
+    if (savingsPlan) return [savingsPlan, "Savings Plan"];
+    return ["", ""];
+  };
+
+  const tags = (row: string[]): Record<string, string> => {
+    const result: Record<string, string> = {};
+    for (const { key, i } of tagColumns) {
+      if (row[i]) result[key] = row[i];
+    }
+    const packed = get(row, "resourcetags");
+    if (packed) {
+      try {
+        Object.assign(result, JSON.parse(packed) as Record<string, string>);
+      } catch {
+        console.log("Skipping malformed resource_tags value");
+      }
+    }
+    return result;
+  };
+
+  const region = (row: string[]): string => {
+    const code = get(row, "productregioncode", "productregion");
+    if (code) return code;
+    // "us-east-1a" -> "us-east-1"
+    return get(row, "lineitemavailabilityzone").replace(/[a-z]$/, "");
+  };
+
+  return (row: string[]): FocusRecord => {
+    const billedCost = parseAmount(get(row, "lineitemunblendedcost"));
+    const serviceName = get(row, "productproductname", "lineitemproductcode");
+    const [commitmentId, commitmentType] = commitment(row);
+    return {
+      ...emptyFocusRecord(),
+      ProviderName: "AWS",
+      BillingAccountId: get(row, "billpayeraccountid"),
+      SubAccountId: get(row, "lineitemusageaccountid", "billpayeraccountid"),
+      SubAccountName: get(row, "lineitemusageaccountname"),
+      BillingCurrency: get(row, "lineitemcurrencycode") || "USD",
+      ChargeCategory:
+        CHARGE_CATEGORIES[get(row, "lineitemlineitemtype")] ?? "Usage",
+      ChargeDescription: get(row, "lineitemlineitemdescription"),
+      ChargePeriodStart: get(row, "lineitemusagestartdate"),
+      ChargePeriodEnd: get(row, "lineitemusageenddate"),
+      BilledCost: billedCost,
+      EffectiveCost: effectiveCost(row, billedCost),
+      ListCost: parseAmount(get(row, "pricingpublicondemandcost")),
+      PricingCategory: pricingCategory(row),
+      ConsumedQuantity: parseAmount(get(row, "lineitemusageamount")),
+      ConsumedUnit: get(row, "pricingunit"),
+      RegionId: region(row) || "global",
+      AvailabilityZone: get(row, "lineitemavailabilityzone"),
+      ResourceId: get(row, "lineitemresourceid"),
+      ServiceName: serviceName,
+      ServiceCategory: serviceCategoryFor(serviceName),
+      SkuId: get(row, "productsku"),
+      CommitmentDiscountId: commitmentId,
+      CommitmentDiscountType: commitmentType,
+      Tags: tags(row),
+      x_UsageType: get(row, "lineitemusagetype"),
+      x_InstanceType: get(row, "productinstancetype")
+    };
+  };
+}
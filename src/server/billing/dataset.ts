@@ -0,0 +1,231 @@
+import {
+  type CostDataset,
+  getCostDataset,
+  saveCostDataset
+} from "../db/datasets";
+import { findBillingSheet, isSpreadsheet } from "../ingest/spreadsheet";
+import {
+  readFileHead,
+  setFileSourceFormat,
+  type UploadedFile
+} from "../storage/file-storage";
+import { createR2StreamWriter } from "../storage/stream-writer";
+import {
+  addRecord,
+  type CostAggregates,
+  createAggregates,
+  finalizeAggregates
+} from "./aggregate";
+import { parseCsvText, readCsvRows } from "./csv";
+import type { FocusRecord } from "./focus";
+import {
+  type BillingFormat,
+  detectBillingFormat,
+  detectJsonBillingFormat,
+  type JsonBillingFormat,
+  type RowReader
+} from "./formats";
+import { looksLikeJson, readJsonArray, readNdjson } from "./ndjson";
+
+export function focusKeyFor(r2Key: string): string {
+  return `${r2Key}.focus.ndjson`;
+}
+
+interface BillingSource {
+  format: string;
+  records: AsyncGenerator<FocusRecord>;
+}
+
+async function* readCsvRecords(
+  stream: ReadableStream<Uint8Array>,
+  format: BillingFormat
+): AsyncGenerator<FocusRecord> {
+  let readRow: RowReader | null = null;
+  for await (const row of readCsvRows(stream)) {
+    if (!readRow) {
+      readRow = format.createReader(row);
+      continue;
+    }
+    const records = readRow(row);
+    if (Array.isArray(records)) yield* records;
+    else yield records;
+  }
+}
+
+async function* readJsonRecords(
+  rows: AsyncIterable<unknown> | unknown[],
+  format: JsonBillingFormat
+): AsyncGenerator<FocusRecord> {
+  for await (const row of rows) {
+    yield* format.readRecord(row);
+  }
+}
+
+async function openCsvSource(
+  env: Env,
+  r2Key: string,
+  head: string
+): Promise<BillingSource | null> {
+  const header = parseCsvText(head.split("\n", 1)[0])[0] ?? [];
+  const format = detectBillingFormat(header);
+  if (!format) return null;
+
+  const object = await env.FILES.get(r2Key);
+  if (!object) return null;
+  return { format: format.id, records: readCsvRecords(object.body, format) };
+}
+
+async function openJsonSource(
+  env: Env,
+  r2Key: string,
+  head: string
+): Promise<BillingSource | null> {
+  const trimmed = head.trimStart();
+
+  // A top-level array (e.g. `bq query --format=json`) is split into its
+  // elements as it streams; newline-delimited exports are read line by line
+  if (trimmed.startsWith("[")) {
+    const headBody = new Response(head).body;
+    if (!headBody) return null;
+    let sample: unknown;
+    try {
+      sample = (await readJsonArray(headBody).next()).value;
+    } catch {
+      return null;
+    }
+    const format = detectJsonBillingFormat(sample);
+    if (!format) return null;
+
+    const object = await env.FILES.get(r2Key);
+    if (!object) return null;
+    return {
+      format: format.id,
+      records: readJsonRecords(readJsonArray(object.body), format)
+    };
+  }
+
+  let sample: unknown;
+  try {
+    sample = JSON.parse(trimmed.split("\n", 1)[0]);
+  } catch {
+    return null;
+  }
+  const format = detectJsonBillingFormat(sample);
+  if (!format) return null;
+
+  const object = await env.FILES.get(r2Key);
+  if (!object) return null;
+  return {
+    format: format.id,
+    records: readJsonRecords(readNdjson(object.body), format)
+  };
+}
+
+// Normalizes a billing export to FOCUS, streaming the records to R2 as NDJSON
+// while aggregating them
+export async function parseBillingFile(
+  env: Env,
+  file: UploadedFile
+): Promise<{ aggregates: CostAggregates; focusKey: string } | null> {
+  // Workbooks are read through the CSV of their billing sheet
+  let sourceKey = file.r2Key;
+  if (isSpreadsheet(file.fileName)) {
+    const sheet = await findBillingSheet(env, file);
+    if (!sheet) return null;
+    sourceKey = sheet.r2Key;
+  }
+
+  const head = await readFileHead(env, sourceKey);
+  if (!head) return null;
+
+  const source = looksLikeJson(head)
+    ? await openJsonSource(env, sourceKey, head)
+    : await openCsvSource(env, sourceKey, head);
+  if (!source) return null;
+
+  console.log(`Normalizing ${source.format} export to FOCUS: ${file.fileName}`);
+  const focusKey = focusKeyFor(sourceKey);
+  const writer = await createR2StreamWriter(
+    env,
+    focusKey,
+    "application/x-ndjson"
+  );
+  const aggregates = createAggregates(source.format);
+
+  try {
+    for await (const record of source.records) {
+      addRecord(aggregates, record);
+      await writer.write(`${JSON.stringify(record)}\n`);
+    }
+    await writer.close();
+  } catch (error) {
+    console.error(`❌ Failed to normalize ${file.fileName}:`, error);
+    await writer.abort();
+    throw error;
+  }
+
+  console.log(
+    `✅ Normalized ${aggregates.rowCount} records from ${file.fileName}`
+  );
+  return { aggregates: finalizeAggregates(aggregates), focusKey };
+}
+
+// Returns the persisted aggregate view, parsing the export on first use only
+export async function loadCostDataset(
+  env: Env,
+  file: UploadedFile
+): Promise<CostDataset | null> {
+  const existing = await getCostDataset(env, file.id);
+  if (existing) {
+    console.log(`Using cached dataset for file: ${file.fileName}`);
+    return existing;
+  }
+
+  const parsed = await parseBillingFile(env, file);
+  if (!parsed) return null;
+
+  await saveCostDataset(env, file.id, parsed.aggregates, parsed.focusKey);
+  await setFileSourceFormat(env, file.id, parsed.aggregates.format);
+  return await getCostDataset(env, file.id);
+}
+
+export async function* readFocusRecords(
+  env: Env,
+  focusKey: string
+): AsyncGenerator<FocusRecord> {
+  const object = await env.FILES.get(focusKey);
+  if (!object) return;
+  yield* readNdjson<FocusRecord>(object.body);
+}
+
+export interface FocusCollector {
+  add(record: FocusRecord): void;
+}
+
+// A collector and the exports it reads
+export interface FocusFeed {
+  datasets: { focusKey: string | null }[];
+  collector: FocusCollector;
+}
+
+// Streams each export once, handing its records to every collector that
+// reads it
+export async function readFocusDatasets(
+  env: Env,
+  feeds: FocusFeed[]
+): Promise<void> {
+  const collectors = new Map<string, FocusCollector[]>();
+  for (const { datasets, collector } of feeds) {
+    for (const { focusKey } of datasets) {
+      if (!focusKey) continue;
+      const readers = collectors.get(focusKey) ?? [];
+      if (!readers.includes(collector)) readers.push(collector);
+      collectors.set(focusKey, readers);
+    }
+  }
+  for (const [focusKey, readers] of collectors) {
+    for await (const record of readFocusRecords(env, focusKey)) {
+      for (const reader of readers) reader.add(record);
+    }
+  }
+}
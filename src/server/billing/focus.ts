@@ -0,0 +1,232 @@
+import { buildColumnIndex, normalizeHeader, parseAmount } from "./csv";
+
+// Subset of FinOps Open Cost & Usage Specification (FOCUS 1.0) columns.
+// Provider-specific extras use the spec's "x_" prefix.
+export interface FocusRecord {
+  ProviderName: string;
+  BillingAccountId: string;
+  SubAccountId: string;
+  SubAccountName: string;
+  BillingCurrency: string;
+  ChargeCategory: ChargeCategory;
+  ChargeDescription: string;
+  ChargePeriodStart: string;
+  ChargePeriodEnd: string;
+  BilledCost: number;
+  EffectiveCost: number;
+  ListCost: number;
+  PricingCategory: PricingCategory;
+  ConsumedQuantity: number;
+  ConsumedUnit: string;
+  RegionId: string;
+  AvailabilityZone: string;
+  ResourceId: string;
+  ResourceName: string;
+  ServiceName: string;
+  ServiceCategory: string;
+  SkuId: string;
+  CommitmentDiscountId: string;
+  CommitmentDiscountName: string;
+  CommitmentDiscountType: string;
+  Tags: Record<string, string>;
+  x_UsageType: string;
+  x_InstanceType: string;
+  x_ResourceGroup: string;
+}
+
+export type ChargeCategory =
+  | "Usage"
+  | "Purchase"
+  | "Tax"
+  | "Credit"
+  | "Adjustment";
+
+export type PricingCategory = "Standard" | "Dynamic" | "Committed" | "Other";
+
+export function emptyFocusRecord(): FocusRecord {
+  return {
+    ProviderName: "",
+    BillingAccountId: "",
+    SubAccountId: "",
+    SubAccountName: "",
+    BillingCurrency: "USD",
+    ChargeCategory: "Usage",
+    ChargeDescription: "",
+    ChargePeriodStart: "",
+    ChargePeriodEnd: "",
+    BilledCost: 0,
+    EffectiveCost: 0,
+    ListCost: 0,
+    PricingCategory: "Standard",
+    ConsumedQuantity: 0,
+    ConsumedUnit: "",
+    RegionId: "",
+    AvailabilityZone: "",
+    ResourceId: "",
+    ResourceName: "",
+    ServiceName: "",
+    ServiceCategory: "Other",
+    SkuId: "",
+    CommitmentDiscountId: "",
+    CommitmentDiscountName: "",
+    CommitmentDiscountType: "",
+    Tags: {},
+    x_UsageType: "",
+    x_InstanceType: "",
+    x_ResourceGroup: ""
+  };
+}
+
+const SERVICE_CATEGORIES: [RegExp, string][] = [
+  [
+    /transfer|cloudfront|cdn|load balanc|\b(elb|nat|vpc|dns)\b|route ?53|network/i,
+    "Networking"
+  ],
+  [/storage|glacier|blob|disk|backup|archive|\b(s3|ebs|efs|r2)\b/i, "Storage"],
+  [
+    /database|sql|dynamo|aurora|redshift|cosmos|bigtable|spanner|elasticache|\b(rds|d1)\b/i,
+    "Databases"
+  ],
+  [
+    /compute|virtual machine|lambda|functions|fargate|kubernetes|workers|app service|\b(ec2|ecs|eks|gke|aks)\b/i,
+    "Compute"
+  ],
+  [
+    /sagemaker|bedrock|openai|vertex|machine learning|\bai\b/i,
+    "AI and Machine Learning"
+  ],
+  [
+    /cloudwatch|monitor|logging|log analytics|observability/i,
+    "Management and Governance"
+  ],
+  [/key vault|waf|guardduty|shield|security|secrets|\bkms\b/i, "Security"],
+  [
+    /kinesis|athena|glue|bigquery|dataflow|pub\/?sub|event hub|analytics/i,
+    "Analytics"
+  ]
+];
+
+export function serviceCategoryFor(serviceName: string): string {
+  // CUR product codes glue the vendor prefix on: "AmazonEC2" -> "Amazon EC2"
+  const name = serviceName.replace(/^(Amazon|AWS)(?=[A-Z])/, "$1 ");
+  for (const [pattern, category] of SERVICE_CATEGORIES) {
+    if (pattern.test(name)) return category;
+  }
+  return "Other";
+}
+
+function parseTagObject(value: string): Record<string, string> | null {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      const tags: Record<string, string> = {};
+      for (const [key, tag] of Object.entries(parsed)) {
+        tags[key] = String(tag ?? "");
+      }
+      return tags;
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+export function parseTags(value: string | undefined): Record<string, string> {
+  if (!value?.trim()) return {};
+  // Azure EA exports drop the braces: "env": "prod","team": "data"
+  const json = parseTagObject(value) ?? parseTagObject(`{${value.trim()}}`);
+  if (json) return json;
+
+  const tags: Record<string, string> = {};
+  for (const pair of value.split(/[;,]/)) {
+    const [key, ...rest] = pair.split(/[:=]/);
+    if (key?.trim()) tags[key.trim()] = rest.join(":").trim();
+  }
+  return tags;
+}
+
+// Accepts ISO timestamps as well as the US-style "MM/DD/YYYY" dates used by
+// several provider exports
+export function toIsoDate(value: string): string {
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) {
+    return `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  }
+  return value.slice(0, 10);
+}
+
+export function isFocusHeader(header: string[]): boolean {
+  const columns = new Set(header.map(normalizeHeader));
+  return (
+    columns.has("billedcost") &&
+    columns.has("effectivecost") &&
+    columns.has("chargeperiodstart") &&
+    columns.has("servicename")
+  );
+}
+
+const CHARGE_CATEGORIES: ChargeCategory[] = [
+  "Usage",
+  "Purchase",
+  "Tax",
+  "Credit",
+  "Adjustment"
+];
+const PRICING_CATEGORIES: PricingCategory[] = [
+  "Standard",
+  "Dynamic",
+  "Committed",
+  "Other"
+];
+
+// Native FOCUS exports (AWS Data Exports, Azure and GCP FOCUS views) only
+// need their column names mapped back onto the record
+export function createFocusReader(header: string[]) {
+  const index = buildColumnIndex(header);
+  const get = (row: string[], key: string): string => {
+    const i = index.get(key);
+    return i === undefined ? "" : (row[i] ?? "");
+  };
+
+  return (row: string[]): FocusRecord => {
+    const chargeCategory = get(row, "chargecategory") as ChargeCategory;
+    const pricingCategory = get(row, "pricingcategory") as PricingCategory;
+    const serviceName = get(row, "servicename");
+    return {
+      ProviderName: get(row, "providername"),
+      BillingAccountId: get(row, "billingaccountid"),
+      SubAccountId: get(row, "subaccountid"),
+      SubAccountName: get(row, "subaccountname"),
+      BillingCurrency: get(row, "billingcurrency") || "USD",
+      ChargeCategory: CHARGE_CATEGORIES.includes(chargeCategory)
+        ? chargeCategory
+        : "Usage",
+      ChargeDescription: get(row, "chargedescription"),
+      ChargePeriodStart: get(row, "chargeperiodstart"),
+      ChargePeriodEnd: get(row, "chargeperiodend"),
+      BilledCost: parseAmount(get(row, "billedcost")),
+      EffectiveCost: parseAmount(get(row, "effectivecost")),
+      ListCost: parseAmount(get(row, "listcost")),
+      PricingCategory: PRICING_CATEGORIES.includes(pricingCategory)
+        ? pricingCategory
+        : "Standard",
+      ConsumedQuantity: parseAmount(get(row, "consumedquantity")),
+      ConsumedUnit: get(row, "consumedunit"),
+      RegionId: get(row, "regionid"),
+      AvailabilityZone: get(row, "availabilityzone"),
+      ResourceId: get(row, "resourceid"),
+      ResourceName: get(row, "resourcename"),
+      ServiceName: serviceName,
+      ServiceCategory:
+        get(row, "servicecategory") || serviceCategoryFor(serviceName),
+      SkuId: get(row, "skuid"),
+      CommitmentDiscountId: get(row, "commitmentdiscountid"),
+      CommitmentDiscountName: get(row, "commitmentdiscountname"),
+      CommitmentDiscountType: get(row, "commitmentdiscounttype"),
+      Tags: parseTags(get(row, "tags")),
+      x_UsageType: get(row, "xusagetype") || get(row, "chargedescription"),
+      x_InstanceType: get(row, "xinstancetype"),
+      x_ResourceGroup: get(row, "xresourcegroupname")
+    };
+  };
+}
@@ -0,0 +1,76 @@
+import { createAzureReader, detectAzureLayout } from "./azure";
+import { createCurReader, detectCurVersion } from "./cur";
+import { createFocusReader, type FocusRecord, isFocusHeader } from "./focus";
+import {
+  createGcpCsvReader,
+  gcpRowToFocus,
+  isGcpBillingRow,
+  isGcpCsvHeader
+} from "./gcp";
+
+export type RowReader = (row: string[]) => FocusRecord | FocusRecord[];
+
+export interface BillingFormat {
+  id: string;
+  detect(header: string[]): boolean;
+  createReader(header: string[]): RowReader;
+}
+
+export interface JsonBillingFormat {
+  id: string;
+  detect(sample: unknown): boolean;
+  readRecord(value: unknown): FocusRecord[];
+}
+
+// Checked in order; native FOCUS first since provider FOCUS exports can
+// carry provider columns too
+export const BILLING_FORMATS: BillingFormat[] = [
+  {
+    id: "focus",
+    detect: isFocusHeader,
+    createReader: createFocusReader
+  },
+  {
+    id: "aws-cur2",
+    detect: (header) => detectCurVersion(header) === "aws-cur2",
+    createReader: createCurReader
+  },
+  {
+    id: "aws-cur",
+    detect: (header) => detectCurVersion(header) === "aws-cur",
+    createReader: createCurReader
+  },
+  {
+    id: "azure-mca",
+    detect: (header) => detectAzureLayout(header) === "azure-mca",
+    createReader: createAzureReader
+  },
+  {
+    id: "azure-ea",
+    detect: (header) => detectAzureLayout(header) === "azure-ea",
+    createReader: createAzureReader
+  },
+  {
+    id: "gcp-billing-csv",
+    detect: isGcpCsvHeader,
+    createReader: createGcpCsvReader
+  }
+];
+
+export const JSON_BILLING_FORMATS: JsonBillingFormat[] = [
+  {
+    id: "gcp-billing-json",
+    detect: isGcpBillingRow,
+    readRecord: (value) => (isGcpBillingRow(value) ? gcpRowToFocus(value) : [])
+  }
+];
+
+export function detectBillingFormat(header: string[]): BillingFormat | null {
+  return BILLING_FORMATS.find((format) => format.detect(header)) ?? null;
+}
+
+export function detectJsonBillingFormat(
+  sample: unknown
+): JsonBillingFormat | null {
+  return JSON_BILLING_FORMATS.find((format) => format.detect(sample)) ?? null;
+}
@@ -0,0 +1,235 @@
+import { buildColumnIndex, normalizeHeader, parseAmount } from "./csv";
+import {
+  type ChargeCategory,
+  emptyFocusRecord,
+  type FocusRecord,
+  serviceCategoryFor
+} from "./focus";
+
+interface GcpLabel {
+  key: string;
+  value: string;
+}
+
+interface GcpCredit {
+  name?: string;
+  full_name?: string;
+  id?: string;
+  type?: string;
+  amount?: number | string;
+}
+
+// Shape of a row in the BigQuery detailed billing export
+export interface GcpBillingRow {
+  billing_account_id?: string;
+  service?: { id?: string; description?: string };
+  sku?: { id?: string; description?: string };
+  usage_start_time?: string;
+  usage_end_time?: string;
+  project?: { id?: string; name?: string; labels?: unknown };
+  labels?: unknown;
+  system_labels?: unknown;
+  location?: { location?: string; region?: string; zone?: string };
+  resource?: { name?: string; global_name?: string };
+  cost?: number | string;
+  cost_at_list?: number | string;
+  currency?: string;
+  usage?: { amount?: number | string; unit?: string };
+  credits?: unknown;
+  cost_type?: string;
+}
+
+export function isGcpBillingRow(value: unknown): value is GcpBillingRow {
+  if (!value || typeof value !== "object") return false;
+  const row = value as GcpBillingRow;
+  return (
+    row.cost !== undefined &&
+    typeof row.sku === "object" &&
+    typeof row.service === "object"
+  );
+}
+
+export function isGcpCsvHeader(header: string[]): boolean {
+  const columns = new Set(header.map(normalizeHeader));
+  return (
+    columns.has("cost") &&
+    (columns.has("skudescription") || columns.has("skuid")) &&
+    (columns.has("servicedescription") || columns.has("serviceid"))
+  );
+}
+
+// Labels arrive as [{key, value}] in JSON exports and as JSON strings of
+// either that array or a plain object in CSV dumps
+function toLabelMap(value: unknown): Record<string, string> {
+  let labels = value;
+  if (typeof labels === "string") {
+    if (!labels.trim()) return {};
+    try {
+      labels = JSON.parse(labels);
+    } catch {
+      return {};
+    }
+  }
+
+  const map: Record<string, string> = {};
+  if (Array.isArray(labels)) {
+    for (const label of labels as GcpLabel[]) {
+      if (label?.key) map[label.key] = String(label.value ?? "");
+    }
+  } else if (labels && typeof labels === "object") {
+    for (const [key, label] of Object.entries(labels)) {
+      map[key] = String(label ?? "");
+    }
+  }
+  return map;
+}
+
+function toCredits(value: unknown): GcpCredit[] {
+  let credits = value;
+  if (typeof credits === "string") {
+    if (!credits.trim()) return [];
+    try {
+      credits = JSON.parse(credits);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(credits) ? (credits as GcpCredit[]) : [];
+}
+
+function toNumber(value: number | string | undefined): number {
+  return typeof value === "number" ? value : parseAmount(value);
+}
+
+const CHARGE_CATEGORIES: Record<string, ChargeCategory> = {
+  regular: "Usage",
+  tax: "Tax",
+  adjustment: "Adjustment",
+  rounding_error: "Adjustment"
+};
+
+// One usage record per row plus one Credit record per applied credit, so
+// sustained-use and committed-use discounts stay visible after aggregation
+export function gcpRowToFocus(row: GcpBillingRow): FocusRecord[] {
+  const tags = {
+    ...toLabelMap(row.project?.labels),
+    ...toLabelMap(row.labels)
+  };
+  const systemLabels = toLabelMap(row.system_labels);
+  const serviceName = row.service?.description ?? row.service?.id ?? "";
+  const cost = toNumber(row.cost);
+  const listCost = toNumber(row.cost_at_list);
+
+  const usage: FocusRecord = {
+    ...emptyFocusRecord(),
+    ProviderName: "Google Cloud",
+    BillingAccountId: row.billing_account_id ?? "",
+    SubAccountId: row.project?.id ?? "",
+    SubAccountName: row.project?.name ?? "",
+    BillingCurrency: row.currency || "USD",
+    ChargeCategory: CHARGE_CATEGORIES[row.cost_type ?? "regular"] ?? "Usage",
+    ChargeDescription: row.sku?.description ?? "",
+    ChargePeriodStart: row.usage_start_time ?? "",
+    ChargePeriodEnd: row.usage_end_time ?? "",
+    BilledCost: cost,
+    EffectiveCost: cost,
+    ListCost: listCost || cost,
+    ConsumedQuantity: toNumber(row.usage?.amount),
+    ConsumedUnit: row.usage?.unit ?? "",
+    RegionId: row.location?.region || row.location?.location || "global",
+    AvailabilityZone: row.location?.zone ?? "",
+    ResourceId: row.resource?.global_name ?? "",
+    ResourceName: row.resource?.name ?? "",
+    ServiceName: serviceName,
+    ServiceCategory: serviceCategoryFor(serviceName),
+    SkuId: row.sku?.id ?? "",
+    Tags: tags,
+    x_UsageType: row.sku?.description ?? "",
+    x_InstanceType: systemLabels["compute.googleapis.com/machine_spec"] ?? ""
+  };
+
+  const credits = toCredits(row.credits).map((credit): FocusRecord => {
+    const amount = toNumber(credit.amount);
+    const type = credit.type ?? credit.name ?? "CREDIT";
+    const isCommitment = type.startsWith("COMMITTED_USAGE_DISCOUNT");
+    return {
+      ...usage,
+      ChargeCategory: "Credit",
+      ChargeDescription: credit.full_name ?? credit.name ?? type,
+      BilledCost: amount,
+      EffectiveCost: amount,
+      ListCost: 0,
+      ConsumedQuantity: 0,
+      PricingCategory: isCommitment ? "Committed" : "Standard",
+      CommitmentDiscountId: isCommitment ? (credit.id ?? "") : "",
+      CommitmentDiscountName: isCommitment ? (credit.full_name ?? "") : "",
+      CommitmentDiscountType: isCommitment ? "Committed Use Discount" : "",
+      x_UsageType: `Credit: ${type}`
+    };
+  });
+
+  return [usage, ...credits];
+}
+
+// CSV dumps flatten nested fields ("service.description" or
+// "service_description"); rebuild the nested row and reuse the JSON mapping
+export function createGcpCsvReader(header: string[]) {
+  const index = buildColumnIndex(header);
+  const creditColumns = header
+    .map((name, i) => ({ key: normalizeHeader(name), i }))
+    .filter(({ key }) => /^credit\d*amount$/.test(key));
+
+  const get = (row: string[], ...keys: string[]): string => {
+    for (const key of keys) {
+      const i = index.get(key);
+      if (i !== undefined && row[i]) return row[i];
+    }
+    return "";
+  };
+
+  return (row: string[]): FocusRecord[] => {
+    const credits: GcpCredit[] = toCredits(get(row, "credits"));
+    for (const { i } of creditColumns) {
+      if (row[i]) credits.push({ amount: row[i], type: "CREDIT" });
+    }
+
+    return gcpRowToFocus({
+      billing_account_id: get(row, "billingaccountid", "accountid"),
+      service: {
+        id: get(row, "serviceid"),
+        description: get(row, "servicedescription")
+      },
+      sku: {
+        id: get(row, "skuid"),
+        description: get(row, "skudescription")
+      },
+      usage_start_time: get(row, "usagestarttime", "starttime"),
+      usage_end_time: get(row, "usageendtime", "endtime"),
+      project: {
+        id: get(row, "projectid"),
+        name: get(row, "projectname"),
+        labels: get(row, "projectlabels")
+      },
+      labels: get(row, "labels"),
+      system_labels: get(row, "systemlabels"),
+      location: {
+        region: get(row, "locationregion", "region"),
+        location: get(row, "locationlocation", "location"),
+        zone: get(row, "locationzone", "zone")
+      },
+      resource: {
+        name: get(row, "resourcename"),
+        global_name: get(row, "resourceglobalname")
+      },
+      cost: get(row, "cost"),
+      cost_at_list: get(row, "costatlist"),
+      currency: get(row, "currency"),
+      usage: {
+        amount: get(row, "usageamount"),
+        unit: get(row, "usageunit")
+      },
+      credits,
+      cost_type: get(row, "costtype") || "regular"
+    });
+  };
+}
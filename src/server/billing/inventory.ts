@@ -0,0 +1,101 @@
+import type { FocusRecord } from "./focus";
+import { COLLECTOR_LIMITS, DAYS_PER_MONTH, DAY_MS } from "../utils/constants";
+
+// One billed resource across the line items of an export
+export interface BilledResource {
+  resourceId: string;
+  resourceName: string;
+  providerName: string;
+  serviceName: string;
+  subAccountId: string;
+  region: string;
+  instanceType: string;
+  currency: string;
+  effectiveCost: number;
+  // Spend charged at on-demand rates, i.e. not covered by a commitment
+  onDemandCost: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+}
+
+export interface ResourceInventory {
+  add(record: FocusRecord): void;
+  resources(): BilledResource[];
+  skipped: number;
+}
+
+export function createResourceInventory(): ResourceInventory {
+  const resources = new Map<string, BilledResource>();
+
+  const inventory: ResourceInventory = {
+    skipped: 0,
+
+    add(record) {
+      if (!record.ResourceId || record.ChargeCategory !== "Usage") return;
+
+      let resource = resources.get(record.ResourceId);
+      if (!resource) {
+        if (resources.size >= COLLECTOR_LIMITS.resources) {
+          inventory.skipped++;
+          return;
+        }
+        resource = {
+          resourceId: record.ResourceId,
+          resourceName: record.ResourceName,
+          providerName: record.ProviderName,
+          serviceName: record.ServiceName,
+          subAccountId: record.SubAccountId,
+          region: record.RegionId,
+          instanceType: record.x_InstanceType,
+          currency: record.BillingCurrency,
+          effectiveCost: 0,
+          onDemandCost: 0,
+          periodStart: null,
+          periodEnd: null
+        };
+        resources.set(record.ResourceId, resource);
+      }
+
+      resource.effectiveCost += record.EffectiveCost;
+      if (
+        record.PricingCategory === "Standard" &&
+        !record.CommitmentDiscountId
+      ) {
+        resource.onDemandCost += record.EffectiveCost;
+      }
+      // Storage and transfer line items of an instance carry no type
+      if (!resource.instanceType && record.x_InstanceType) {
+        resource.instanceType = record.x_InstanceType;
+      }
+      if (!resource.region && record.RegionId)
+        resource.region = record.RegionId;
+
+      const start = record.ChargePeriodStart || null;
+      const end = record.ChargePeriodEnd || record.ChargePeriodStart || null;
+      if (start && (!resource.periodStart || start < resource.periodStart)) {
+        resource.periodStart = start;
+      }
+      if (end && (!resource.periodEnd || end > resource.periodEnd)) {
+        resource.periodEnd = end;
+      }
+    },
+
+    resources() {
+      return [...resources.values()];
+    }
+  };
+
+  return inventory;
+}
+
+// Spend scaled to a month from the days the resource was billed for
+export function monthlyRunRate(
+  resource: Pick<BilledResource, "periodStart" | "periodEnd">,
+  cost: number
+): number {
+  const start = Date.parse(resource.periodStart ?? "");
+  const end = Date.parse(resource.periodEnd ?? "");
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return cost;
+  const days = Math.max((end - start) / DAY_MS, 1);
+  return (cost / days) * DAYS_PER_MONTH;
+}
@@ -0,0 +1,85 @@
+export async function* readLines(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let pending = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    yield* lines;
+  }
+
+  pending += decoder.decode();
+  if (pending) yield pending;
+}
+
+export async function* readNdjson<T>(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  for await (const line of readLines(stream)) {
+    if (line.trim()) yield JSON.parse(line) as T;
+  }
+}
+
+// Yields the elements of a top-level JSON array without parsing the whole
+// document, tracking nesting and strings to find element boundaries
+export async function* readJsonArray<T>(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let element = "";
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    const chunk = decoder.decode(value, { stream: true });
+    let start = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === "[" || char === "{") {
+        depth++;
+        // The outer array bracket is not part of any element
+        if (depth === 1) start = i + 1;
+      } else if (char === "]" || char === "}") {
+        depth--;
+      }
+
+      if (depth === 1 && char === ",") {
+        element += chunk.slice(start, i);
+        if (element.trim()) yield JSON.parse(element) as T;
+        element = "";
+        start = i + 1;
+      } else if (depth === 0 && char === "]") {
+        element += chunk.slice(start, i);
+        if (element.trim()) yield JSON.parse(element) as T;
+        element = "";
+        start = chunk.length;
+      }
+    }
+
+    if (depth >= 1) element += chunk.slice(start);
+  }
+}
+
+export function looksLikeJson(head: string): boolean {
+  const start = head.trimStart()[0];
+  return start === "{" || start === "[";
+}
@@ -0,0 +1,57 @@
+import { readFocusDatasets } from "../billing/dataset";
+import { loadProviderPrices } from "../pricing/lookup";
+import {
+  analyzeCommitments,
+  commitmentProvider,
+  type CommitmentReport,
+  DEFAULT_TARGET_UTILIZATION
+} from "./engine";
+import {
+  type CommitmentUsageCollector,
+  createCommitmentUsageCollector
+} from "./usage";
+
+// Questions about buying commitments run the commitment analysis
+const COMMITMENT_QUESTION =
+  /savings ?plans?|reserved instances?|reservations?|\bris?\b|commit(ment|ted use)|\bcuds?\b|upfront/i;
+
+export function asksAboutCommitments(message: string): boolean {
+  return COMMITMENT_QUESTION.test(message);
+}
+
+// Streams the on-demand compute usage of the exports; null when none of them
+// has any
+export async function buildCommitmentReport(
+  env: Env,
+  datasets: { focusKey: string | null }[],
+  targetUtilization = DEFAULT_TARGET_UTILIZATION
+): Promise<CommitmentReport | null> {
+  const collector = createCommitmentUsageCollector();
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  return commitmentReportFrom(env, collector, targetUtilization);
+}
+
+// Sizes commitments from usage already collected from the exports, at the
+// catalog's commitment rates
+export async function commitmentReportFrom(
+  env: Env,
+  collector: CommitmentUsageCollector,
+  targetUtilization = DEFAULT_TARGET_UTILIZATION
+): Promise<CommitmentReport | null> {
+  if (collector.skipped > 0) {
+    console.log(
+      `⚠️ Commitment analysis skipped ${collector.skipped} instance groups over the limit`
+    );
+  }
+
+  const [usage, ...others] = collector.usages();
+  if (others.length > 0) {
+    console.log(
+      `⚠️ Commitment analysis covers ${usage.provider} in ${usage.currency}; left out ${others.map((o) => `${o.provider} in ${o.currency}`).join(", ")}`
+    );
+  }
+  if (!usage) return null;
+  const provider = commitmentProvider(usage.provider);
+  const prices = provider ? await loadProviderPrices(env, [provider]) : [];
+  return analyzeCommitments(usage, targetUtilization, prices);
+}
@@ -0,0 +1,550 @@
+import type { CatalogPriceRow } from "../db/catalog";
+import type { CloudProvider, PricingModel } from "../pricing/catalog";
+import { type CatalogPricer, createCatalogPricer } from "../pricing/lookup";
+import { HOURS_PER_MONTH, HOUR_MS } from "../utils/constants";
+import { formatMoney, round } from "../utils/format";
+import type { CommitmentUsage, InstanceUsage } from "./usage";
+
+export type CommitmentKind = "savings-plan" | "reserved-instance";
+export type CommitmentTerm = "1yr" | "3yr";
+export type PaymentOption = "no-upfront" | "partial-upfront" | "all-upfront";
+
+export interface CommitmentOption {
+  term: CommitmentTerm;
+  payment: PaymentOption;
+  // Fraction off the on-demand rate
+  discount: number;
+  // Commitment purchased per hour, at the commitment rate
+  hourlyCommitment: number;
+  // On-demand spend per hour the commitment covers at full use
+  coveredHourly: number;
+  // Whole instances, for reserved instances
+  instances: number | null;
+  utilization: number;
+  upfront: number;
+  monthlyRecurring: number;
+  monthlySavings: number;
+}
+
+export interface CommitmentRecommendation {
+  kind: CommitmentKind;
+  name: string;
+  scope: string;
+  onDemandMonthly: number;
+  options: CommitmentOption[];
+  // Best net savings among options meeting the target utilization
+  best: CommitmentOption | null;
+}
+
+export interface CommitmentReport {
+  provider: string;
+  currency: string;
+  granularity: CommitmentUsage["granularity"];
+  periodStart: string;
+  periodEnd: string;
+  hours: number;
+  onDemandMonthly: number;
+  coveredMonthly: number;
+  // Share of eligible usage existing commitments covered
+  coverage: number;
+  // Share of existing commitments that was used; null without commitments
+  utilization: number | null;
+  targetUtilization: number;
+  savingsPlan: CommitmentRecommendation | null;
+  reservations: CommitmentRecommendation[];
+  // Snapshots the commitment rates came from; null when every discount is
+  // the typical published one
+  catalogVersion: string | null;
+}
+
+export const DEFAULT_TARGET_UTILIZATION = 0.9;
+
+const TERM_HOURS: Record<CommitmentTerm, number> = {
+  "1yr": 8760,
+  "3yr": 26280
+};
+const UPFRONT_SHARE: Record<PaymentOption, number> = {
+  "no-upfront": 0,
+  "partial-upfront": 0.5,
+  "all-upfront": 1
+};
+// Reservations are evaluated for the instance types with the most spend
+const MAX_RESERVATION_GROUPS = 10;
+
+interface CommitmentProgram {
+  name: string;
+  discounts: Partial<
+    Record<CommitmentTerm, Partial<Record<PaymentOption, number>>>
+  >;
+}
+
+type CommitmentProvider = Exclude<CloudProvider, "cloudflare">;
+
+// Typical discounts off on-demand from the providers' public pricing, used
+// where the catalog has no commitment rate; each provider only sells the
+// payment options listed
+const PROGRAMS: Record<
+  CommitmentProvider,
+  Record<CommitmentKind, CommitmentProgram>
+> = {
+  aws: {
+    "savings-plan": {
+      name: "Compute Savings Plan",
+      discounts: {
+        "1yr": {
+          "no-upfront": 0.27,
+          "partial-upfront": 0.3,
+          "all-upfront": 0.32
+        },
+        "3yr": {
+          "no-upfront": 0.46,
+          "partial-upfront": 0.5,
+          "all-upfront": 0.52
+        }
+      }
+    },
+    "reserved-instance": {
+      name: "EC2 Standard Reserved Instances",
+      discounts: {
+        "1yr": {
+          "no-upfront": 0.36,
+          "partial-upfront": 0.39,
+          "all-upfront": 0.41
+        },
+        "3yr": {
+          "no-upfront": 0.56,
+          "partial-upfront": 0.6,
+          "all-upfront": 0.62
+        }
+      }
+    }
+  },
+  azure: {
+    "savings-plan": {
+      name: "Azure savings plan for compute",
+      discounts: {
+        "1yr": { "no-upfront": 0.18, "all-upfront": 0.18 },
+        "3yr": { "no-upfront": 0.37, "all-upfront": 0.37 }
+      }
+    },
+    "reserved-instance": {
+      name: "Azure Reserved VM Instances",
+      discounts: {
+        "1yr": { "no-upfront": 0.36, "all-upfront": 0.36 },
+        "3yr": { "no-upfront": 0.58, "all-upfront": 0.58 }
+      }
+    }
+  },
+  gcp: {
+    "savings-plan": {
+      name: "Compute flexible committed use discount",
+      discounts: {
+        "1yr": { "no-upfront": 0.28 },
+        "3yr": { "no-upfront": 0.46 }
+      }
+    },
+    "reserved-instance": {
+      name: "Resource-based committed use discount",
+      discounts: {
+        "1yr": { "no-upfront": 0.37 },
+        "3yr": { "no-upfront": 0.55 }
+      }
+    }
+  }
+};
+
+const CATALOG_SERVICE: Record<CommitmentProvider, string> = {
+  aws: "ec2",
+  azure: "vm",
+  gcp: "compute-engine"
+};
+
+// Catalog provider of a billing export's provider name; null for providers
+// without a commitment program
+export function commitmentProvider(
+  provider: string
+): CommitmentProvider | null {
+  const name = provider.toLowerCase();
+  if (name.includes("azure") || name.includes("microsoft")) return "azure";
+  if (name.includes("google") || name.includes("gcp")) return "gcp";
+  return name.includes("aws") || name.includes("amazon") ? "aws" : null;
+}
+
+// Catalog pricing model of a commitment; GCP sells resource-based committed
+// use discounts where the others sell reservations
+function catalogModel(
+  provider: CommitmentProvider,
+  kind: CommitmentKind,
+  term: CommitmentTerm
+): PricingModel {
+  if (kind === "savings-plan") return `savings-plan-${term}`;
+  return provider === "gcp" ? `commitment-${term}` : `reserved-${term}`;
+}
+
+// Fraction off on-demand of the catalog's commitment rate for an instance
+// type; null when no snapshot prices it
+function catalogDiscount(
+  catalog: CatalogPricer,
+  provider: CommitmentProvider,
+  kind: CommitmentKind,
+  term: CommitmentTerm,
+  instance: { instanceType: string; region: string }
+): number | null {
+  const query = {
+    provider,
+    service: CATALOG_SERVICE[provider],
+    sku: instance.instanceType,
+    region: instance.region || null
+  };
+  const committed = catalog.price({
+    ...query,
+    pricingModel: catalogModel(provider, kind, term)
+  });
+  if (!committed) return null;
+  const onDemand = catalog.price(query);
+  if (!onDemand || onDemand.price <= 0) return null;
+  const discount = 1 - committed.price / onDemand.price;
+  return discount > 0 && discount < 1 ? discount : null;
+}
+
+// Snapshots import the no-upfront rates; other payment options keep their
+// typical margin over no-upfront
+function withPayments(
+  program: CommitmentProgram,
+  term: CommitmentTerm,
+  noUpfront: number
+): Partial<Record<PaymentOption, number>> {
+  const typical = program.discounts[term] ?? {};
+  const base = typical["no-upfront"] ?? 0;
+  const entries = Object.entries(typical);
+  return entries.length > 0
+    ? Object.fromEntries(
+        entries.map(([payment, discount]) => [
+          payment,
+          round(Math.min(noUpfront + discount - base, 0.99), 4)
+        ])
+      )
+    : { "no-upfront": round(noUpfront, 4) };
+}
+
+// The program with its discounts taken from the catalog's commitment rates
+// where it has them, weighted by the on-demand spend of the instance types
+function catalogProgram(
+  catalog: CatalogPricer,
+  provider: CommitmentProvider,
+  kind: CommitmentKind,
+  instances: InstanceUsage[]
+): CommitmentProgram {
+  const program = PROGRAMS[provider][kind];
+  const discounts = { ...program.discounts };
+  for (const term of Object.keys(TERM_HOURS) as CommitmentTerm[]) {
+    let spend = 0;
+    let saved = 0;
+    for (const instance of instances) {
+      const discount = catalogDiscount(catalog, provider, kind, term, instance);
+      if (discount === null || instance.onDemandCost <= 0) continue;
+      spend += instance.onDemandCost;
+      saved += instance.onDemandCost * discount;
+    }
+    if (spend > 0) discounts[term] = withPayments(program, term, saved / spend);
+  }
+  return { name: program.name, discounts };
+}
+
+// A program's discount off on-demand, from the catalog's rate for the
+// instance type when given one; null where the provider does not sell the
+// term and payment option
+export function commitmentDiscount(
+  provider: string,
+  kind: CommitmentKind,
+  term: CommitmentTerm,
+  payment: PaymentOption,
+  catalog?: CatalogPricer,
+  instance?: { instanceType: string; region: string }
+): { name: string; discount: number } | null {
+  const key = commitmentProvider(provider);
+  if (!key) return null;
+  const program = PROGRAMS[key][kind];
+  const fromCatalog =
+    catalog && instance
+      ? catalogDiscount(catalog, key, kind, term, instance)
+      : null;
+  const discount =
+    fromCatalog === null
+      ? program.discounts[term]?.[payment]
+      : withPayments(program, term, fromCatalog)[payment];
+  return discount !== undefined ? { name: program.name, discount } : null;
+}
+
+// Every hour between the first and last one billed; hours without usage count
+// as zero, which is what an idle commitment would be paid for
+function denseSeries(hourly: Map<number, number>, first: number, last: number) {
+  return Array.from(
+    { length: last - first + 1 },
+    (_, i) => hourly.get(first + i) ?? 0
+  );
+}
+
+// Simulates covering `level` of on-demand spend per hour: covered spend is
+// saved, the commitment is paid whether used or not
+function simulate(
+  series: number[],
+  level: number,
+  term: CommitmentTerm,
+  payment: PaymentOption,
+  discount: number,
+  instances: number | null
+): CommitmentOption {
+  const used = series.reduce((sum, spend) => sum + Math.min(spend, level), 0);
+  const hourlyCommitment = level * (1 - discount);
+  const savedPerHour = used / series.length - hourlyCommitment;
+  const termCost = hourlyCommitment * TERM_HOURS[term];
+  const upfront = termCost * UPFRONT_SHARE[payment];
+  return {
+    term,
+    payment,
+    discount,
+    hourlyCommitment: round(hourlyCommitment, 4),
+    coveredHourly: round(level, 4),
+    instances,
+    utilization: level > 0 ? round(used / (series.length * level), 4) : 0,
+    upfront: round(upfront),
+    monthlyRecurring: round(
+      ((termCost - upfront) / TERM_HOURS[term]) * HOURS_PER_MONTH
+    ),
+    monthlySavings: round(savedPerHour * HOURS_PER_MONTH)
+  };
+}
+
+function percentileLevels(series: number[]): number[] {
+  const sorted = [...series].sort((a, b) => a - b);
+  const levels = new Set<number>();
+  for (let p = 0; p <= 100; p++) {
+    const value =
+      sorted[
+        Math.min(Math.floor((p / 100) * sorted.length), sorted.length - 1)
+      ];
+    if (value > 0) levels.add(value);
+  }
+  return [...levels];
+}
+
+// For each term and payment option, the commitment level with the best net
+// savings whose simulated utilization meets the target
+function recommend(
+  kind: CommitmentKind,
+  program: CommitmentProgram,
+  scope: string,
+  series: number[],
+  levels: { level: number; instances: number | null }[],
+  targetUtilization: number
+): CommitmentRecommendation {
+  const options: CommitmentOption[] = [];
+  for (const [term, payments] of Object.entries(program.discounts)) {
+    for (const [payment, discount] of Object.entries(payments ?? {})) {
+      let best: CommitmentOption | null = null;
+      for (const { level, instances } of levels) {
+        const option = simulate(
+          series,
+          level,
+          term as CommitmentTerm,
+          payment as PaymentOption,
+          discount,
+          instances
+        );
+        if (option.utilization < targetUtilization) continue;
+        if (option.monthlySavings <= 0) continue;
+        if (!best || option.monthlySavings > best.monthlySavings) best = option;
+      }
+      if (best) options.push(best);
+    }
+  }
+
+  const onDemand = series.reduce((sum, spend) => sum + spend, 0);
+  return {
+    kind,
+    name: program.name,
+    scope,
+    onDemandMonthly: round((onDemand / series.length) * HOURS_PER_MONTH),
+    options,
+    best: options.reduce<CommitmentOption | null>(
+      (best, option) =>
+        !best || option.monthlySavings > best.monthlySavings ? option : best,
+      null
+    )
+  };
+}
+
+function reservationFor(
+  instance: InstanceUsage,
+  program: CommitmentProgram,
+  first: number,
+  last: number,
+  targetUtilization: number
+): CommitmentRecommendation | null {
+  if (instance.usageHours <= 0) return null;
+  const rate = instance.onDemandCost / instance.usageHours;
+  const series = denseSeries(instance.hourly, first, last);
+  const peak = Math.max(...series);
+  if (rate <= 0 || peak < rate) return null;
+
+  // Reservations come in whole instances
+  const levels = Array.from({ length: Math.floor(peak / rate) }, (_, i) => ({
+    level: (i + 1) * rate,
+    instances: i + 1
+  }));
+  return recommend(
+    "reserved-instance",
+    program,
+    `${instance.instanceType} in ${instance.region || "any region"}`,
+    series,
+    levels,
+    targetUtilization
+  );
+}
+
+// Commitment discounts come from the catalog's reserved, savings plan and
+// committed use rates, and from the typical published ones where it has none
+export function analyzeCommitments(
+  usage: CommitmentUsage,
+  targetUtilization = DEFAULT_TARGET_UTILIZATION,
+  prices: CatalogPriceRow[] = []
+): CommitmentReport {
+  const indexes = [...usage.hourly.keys()];
+  const first = Math.min(...indexes);
+  const last = Math.max(...indexes);
+  const hours = last - first + 1;
+
+  let onDemand = 0;
+  let covered = 0;
+  let committed = 0;
+  for (const hour of usage.hourly.values()) {
+    onDemand += hour.onDemand;
+    covered += hour.covered;
+    committed += hour.committed;
+  }
+  const perMonth = HOURS_PER_MONTH / hours;
+
+  const provider = commitmentProvider(usage.provider);
+  const catalog = createCatalogPricer(prices);
+  const onDemandSeries = new Map(
+    [...usage.hourly].map(([index, hour]) => [index, hour.onDemand])
+  );
+  const series = denseSeries(onDemandSeries, first, last);
+  const savingsPlan =
+    provider && onDemand > 0
+      ? recommend(
+          "savings-plan",
+          catalogProgram(catalog, provider, "savings-plan", usage.instances),
+          "all eligible compute",
+          series,
+          percentileLevels(series).map((level) => ({ level, instances: null })),
+          targetUtilization
+        )
+      : null;
+
+  const reservations = provider
+    ? [...usage.instances]
+        .sort((a, b) => b.onDemandCost - a.onDemandCost)
+        .slice(0, MAX_RESERVATION_GROUPS)
+        .map((instance) =>
+          reservationFor(
+            instance,
+            catalogProgram(catalog, provider, "reserved-instance", [instance]),
+            first,
+            last,
+            targetUtilization
+          )
+        )
+        .filter((r): r is CommitmentRecommendation => r?.best != null)
+    : [];
+
+  return {
+    provider: usage.provider,
+    currency: usage.currency,
+    granularity: usage.granularity,
+    periodStart: new Date(first * HOUR_MS).toISOString(),
+    periodEnd: new Date((last + 1) * HOUR_MS).toISOString(),
+    hours,
+    onDemandMonthly: round(onDemand * perMonth),
+    coveredMonthly: round(covered * perMonth),
+    coverage:
+      covered + onDemand > 0 ? round(covered / (covered + onDemand), 4) : 0,
+    utilization:
+      committed + usage.unusedCommitment > 0
+        ? round(committed / (committed + usage.unusedCommitment), 4)
+        : null,
+    targetUtilization,
+    savingsPlan,
+    reservations,
+    catalogVersion: catalog.versions().join(", ") || null
+  };
+}
+
+function percent(value: number): string {
+  return `${round(value * 100, 1)}%`;
+}
+
+function formatOption(option: CommitmentOption, currency: string): string {
+  const size =
+    option.instances === null
+      ? `${formatMoney(option.hourlyCommitment, currency)}/hour commitment`
+      : `${option.instances} instance${option.instances === 1 ? "" : "s"}`;
+  return `| ${option.term} ${option.payment} | ${percent(option.discount)} | ${size} | ${formatMoney(option.coveredHourly, currency)}/hour | ${percent(option.utilization)} | ${formatMoney(option.upfront, currency)} | ${formatMoney(option.monthlyRecurring, currency)} | ${formatMoney(option.monthlySavings, currency)} |`;
+}
+
+function formatRecommendation(
+  recommendation: CommitmentRecommendation,
+  currency: string
+): string[] {
+  const lines = [
+    `${recommendation.name} (${recommendation.scope}, on-demand ${formatMoney(recommendation.onDemandMonthly, currency)}/month):`
+  ];
+  if (!recommendation.best) {
+    lines.push("No commitment level meets the target utilization.");
+    return lines;
+  }
+  const best = recommendation.best;
+  lines.push(
+    `Recommended: ${best.term} ${best.payment}, saving ${formatMoney(best.monthlySavings, currency)}/month at ${percent(best.utilization)} utilization`,
+    "| Option | Discount | Purchase | Covers on-demand | Utilization | Upfront | Monthly | Net savings/month |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...recommendation.options.map((option) => formatOption(option, currency))
+  );
+  return lines;
+}
+
+export function formatCommitments(report: CommitmentReport): string {
+  const { currency } = report;
+  const lines = [
+    `Commitment analysis (${report.provider}, ${report.granularity} usage over ${report.hours} hours, target utilization ${percent(report.targetUtilization)})`,
+    `Eligible compute: on-demand ${formatMoney(report.onDemandMonthly, currency)}/month, covered by commitments ${formatMoney(report.coveredMonthly, currency)}/month`,
+    `Current coverage: ${percent(report.coverage)}; current utilization: ${report.utilization === null ? "no commitments" : percent(report.utilization)}`
+  ];
+  if (report.granularity !== "hourly") {
+    lines.push(
+      `Usage was spread evenly over the hours of each ${report.granularity === "daily" ? "day" : "billing period"}; hourly exports size commitments more precisely.`
+    );
+  }
+  if (report.savingsPlan && report.reservations.length > 0) {
+    lines.push(
+      "The savings plan and reservations cover the same on-demand spend; net savings do not add up across them."
+    );
+  }
+  if (report.savingsPlan) {
+    lines.push(...formatRecommendation(report.savingsPlan, currency));
+  }
+  for (const reservation of report.reservations) {
+    lines.push(...formatRecommendation(reservation, currency));
+  }
+  if (!report.savingsPlan && report.reservations.length === 0) {
+    lines.push("No on-demand compute to commit to.");
+  } else {
+    lines.push(
+      report.catalogVersion
+        ? `Commitment rates from price catalog ${report.catalogVersion}; typical published discounts where it has none.`
+        : "Typical published commitment discounts; the price catalog has no commitment rates for this usage."
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,203 @@
+import type { FocusRecord } from "../billing/focus";
+import { COLLECTOR_LIMITS, HOUR_MS } from "../utils/constants";
+
+// Commitment-eligible compute spend of one hour, in on-demand terms
+export interface HourlyUsage {
+  // Spend still charged at on-demand rates
+  onDemand: number;
+  // On-demand equivalent of the usage existing commitments covered
+  covered: number;
+  // What that covered usage cost at the commitment rate
+  committed: number;
+}
+
+// On-demand usage of one instance type in one region, the unit reserved
+// instances are bought in
+export interface InstanceUsage {
+  provider: string;
+  instanceType: string;
+  region: string;
+  onDemandCost: number;
+  usageHours: number;
+  hourly: Map<number, number>;
+}
+
+export interface CommitmentUsage {
+  provider: string;
+  currency: string;
+  granularity: "hourly" | "daily" | "monthly";
+  hourly: Map<number, HourlyUsage>;
+  instances: InstanceUsage[];
+  // Commitment fees paid for capacity nothing ran on
+  unusedCommitment: number;
+}
+
+export interface CommitmentUsageCollector {
+  add(record: FocusRecord): void;
+  // The provider and billing currency with the most eligible spend;
+  // commitments are bought from one provider and billed in one currency
+  usage(): CommitmentUsage | null;
+  // Every provider and currency, most eligible spend first
+  usages(): CommitmentUsage[];
+  skipped: number;
+}
+
+interface UsageGroup {
+  provider: string;
+  currency: string;
+  spend: number;
+  longestPeriod: number;
+  unusedCommitment: number;
+  hourly: Map<number, HourlyUsage>;
+  instances: Map<string, InstanceUsage>;
+}
+
+const FLEXIBLE_COMPUTE = /lambda|fargate|functions/i;
+
+// Savings plans and flexible CUDs cover instance hours and serverless
+// compute, not the volumes and transfer billed under the same service
+function isEligible(record: FocusRecord): boolean {
+  if (record.ChargeCategory !== "Usage") return false;
+  if (record.PricingCategory === "Dynamic") return false;
+  return (
+    !!record.x_InstanceType ||
+    FLEXIBLE_COMPUTE.test(`${record.ServiceName} ${record.x_UsageType}`)
+  );
+}
+
+function isOnDemand(record: FocusRecord): boolean {
+  return record.PricingCategory === "Standard" && !record.CommitmentDiscountId;
+}
+
+// Line items are spread evenly over the hours of their charge period, so
+// daily exports become 24 equal hours
+function hoursOf(record: FocusRecord): number[] {
+  const start = Date.parse(record.ChargePeriodStart);
+  if (!Number.isFinite(start)) return [];
+  const end = Date.parse(record.ChargePeriodEnd);
+  const first = Math.floor(start / HOUR_MS);
+  const last = Number.isFinite(end)
+    ? Math.max(Math.ceil(end / HOUR_MS), first + 1)
+    : first + 1;
+  return Array.from({ length: last - first }, (_, i) => first + i);
+}
+
+export function createCommitmentUsageCollector(): CommitmentUsageCollector {
+  const groups = new Map<string, UsageGroup>();
+  let instanceGroups = 0;
+
+  const groupOf = (record: FocusRecord): UsageGroup => {
+    const provider = record.ProviderName.toLowerCase();
+    const currency = record.BillingCurrency || "USD";
+    const key = `${provider}|${currency}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        provider,
+        currency,
+        spend: 0,
+        longestPeriod: 0,
+        unusedCommitment: 0,
+        hourly: new Map(),
+        instances: new Map()
+      };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  const hour = (group: UsageGroup, index: number): HourlyUsage => {
+    let usage = group.hourly.get(index);
+    if (!usage) {
+      usage = { onDemand: 0, covered: 0, committed: 0 };
+      group.hourly.set(index, usage);
+    }
+    return usage;
+  };
+
+  const usages = (): CommitmentUsage[] =>
+    [...groups.values()]
+      .filter((group) => group.hourly.size > 0)
+      .sort((a, b) => b.spend - a.spend)
+      .map((group) => ({
+        provider: group.provider,
+        currency: group.currency,
+        granularity:
+          group.longestPeriod <= 1
+            ? "hourly"
+            : group.longestPeriod <= 24
+              ? "daily"
+              : "monthly",
+        hourly: group.hourly,
+        instances: [...group.instances.values()],
+        unusedCommitment: group.unusedCommitment
+      }));
+
+  const collector: CommitmentUsageCollector = {
+    skipped: 0,
+
+    add(record) {
+      // Fees for reserved capacity left idle carry the unused amount
+      if (record.ChargeCategory === "Purchase" && record.CommitmentDiscountId) {
+        groupOf(record).unusedCommitment += record.EffectiveCost;
+        return;
+      }
+      if (!isEligible(record)) return;
+
+      const hours = hoursOf(record);
+      if (hours.length === 0) return;
+      const group = groupOf(record);
+      group.longestPeriod = Math.max(group.longestPeriod, hours.length);
+      group.spend += record.EffectiveCost;
+
+      const onDemand = isOnDemand(record);
+      const committed = !onDemand && record.PricingCategory === "Committed";
+      const share = 1 / hours.length;
+      for (const index of hours) {
+        const usage = hour(group, index);
+        if (onDemand) usage.onDemand += record.EffectiveCost * share;
+        if (committed) {
+          usage.covered += (record.ListCost || record.EffectiveCost) * share;
+          usage.committed += record.EffectiveCost * share;
+        }
+      }
+
+      if (!onDemand || !record.x_InstanceType) return;
+      const key = `${record.x_InstanceType}|${record.RegionId}`;
+      let instance = group.instances.get(key);
+      if (!instance) {
+        if (instanceGroups >= COLLECTOR_LIMITS.instanceGroups) {
+          collector.skipped++;
+          return;
+        }
+        instanceGroups++;
+        instance = {
+          provider: group.provider,
+          instanceType: record.x_InstanceType.toLowerCase(),
+          region: record.RegionId,
+          onDemandCost: 0,
+          usageHours: 0,
+          hourly: new Map()
+        };
+        group.instances.set(key, instance);
+      }
+      instance.onDemandCost += record.EffectiveCost;
+      // Instance line items are metered in hours; anything else counts the
+      // hours of its charge period
+      instance.usageHours += /hour|hrs/i.test(record.ConsumedUnit)
+        ? record.ConsumedQuantity
+        : hours.length;
+      for (const index of hours) {
+        instance.hourly.set(
+          index,
+          (instance.hourly.get(index) ?? 0) + record.EffectiveCost * share
+        );
+      }
+    },
+
+    usage: () => usages()[0] ?? null,
+    usages
+  };
+
+  return collector;
+}
@@ -0,0 +1,31 @@
+import type { CostAggregates } from "../billing/aggregate";
+import { findFxRates } from "../db/fx";
+import { getReportingCurrency } from "../db/settings";
+import {
+  type CurrencyConversion,
+  convertCostDatasets,
+  needsConversion
+} from "./fx";
+
+// Conversion of the exports into the user's reporting currency; the text is
+// empty when they are all billed in it already
+export async function buildCurrencyConversion(
+  env: Env,
+  userId: string,
+  datasets: { fileName: string; aggregates: CostAggregates }[]
+): Promise<CurrencyConversion> {
+  const reportingCurrency = await getReportingCurrency(env, userId);
+  if (!needsConversion(datasets, reportingCurrency)) {
+    return { reportingCurrency, rates: [], text: "" };
+  }
+
+  const currencies = new Set<string>([reportingCurrency]);
+  for (const { aggregates } of datasets) {
+    currencies.add(aggregates.currency);
+    for (const currency of Object.keys(aggregates.byCurrency ?? {})) {
+      currencies.add(currency);
+    }
+  }
+  const rates = await findFxRates(env, [...currencies]);
+  return convertCostDatasets(datasets, rates, reportingCurrency);
+}
@@ -0,0 +1,258 @@
+import type { CostAggregates, CostBucket } from "../billing/aggregate";
+
+// Units of `currency` per US dollar on `rateDate` (YYYY-MM-DD)
+export interface FxRate {
+  currency: string;
+  rateDate: string;
+  perUsd: number;
+  source: string;
+}
+
+export interface FxQuote {
+  from: string;
+  to: string;
+  // Units of `to` per unit of `from`
+  rate: number;
+  rateDate: string;
+  source: string;
+}
+
+// Stored with each analysis so its converted figures can be reproduced
+export interface AnalysisFx {
+  reportingCurrency: string;
+  rates: FxQuote[];
+}
+
+export interface CurrencyConversion extends AnalysisFx {
+  text: string;
+}
+
+export const BASE_CURRENCY = "USD";
+
+// Reference rates loaded with the first lookup so conversion works before an
+// admin imports an official table; imported rates with a later date win
+export const BUNDLED_FX_DATE = "2026-01-01";
+
+const BUNDLED_PER_USD: Record<string, number> = {
+  EUR: 0.86,
+  GBP: 0.75,
+  JPY: 150,
+  CHF: 0.8,
+  CAD: 1.38,
+  AUD: 1.52,
+  NZD: 1.72,
+  SGD: 1.29,
+  HKD: 7.78,
+  CNY: 7.12,
+  INR: 88,
+  KRW: 1400,
+  BRL: 5.4,
+  MXN: 18.4,
+  SEK: 9.4,
+  NOK: 10,
+  DKK: 6.42,
+  PLN: 3.65,
+  ZAR: 17.4
+};
+
+export function bundledFxRates(): FxRate[] {
+  return Object.entries(BUNDLED_PER_USD).map(([currency, perUsd]) => ({
+    currency,
+    rateDate: BUNDLED_FX_DATE,
+    perUsd,
+    source: "bundled"
+  }));
+}
+
+export function normalizeCurrency(value: unknown): string | null {
+  const code = typeof value === "string" ? value.trim().toUpperCase() : "";
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
+function isDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+// The latest rate on or before the date; a date older than the whole table
+// falls back to its earliest rate
+function rateOn(
+  rates: FxRate[],
+  currency: string,
+  asOf: string
+): FxRate | null {
+  if (currency === BASE_CURRENCY) {
+    return { currency, rateDate: asOf, perUsd: 1, source: "base" };
+  }
+  const candidates = rates
+    .filter((rate) => rate.currency === currency)
+    .sort((a, b) => a.rateDate.localeCompare(b.rateDate));
+  const before = candidates.filter((rate) => rate.rateDate <= asOf);
+  return before[before.length - 1] ?? candidates[0] ?? null;
+}
+
+export function resolveFxQuote(
+  rates: FxRate[],
+  from: string,
+  to: string,
+  asOf: string
+): FxQuote | null {
+  if (from === to) {
+    return { from, to, rate: 1, rateDate: asOf, source: "identity" };
+  }
+  const fromRate = rateOn(rates, from, asOf);
+  const toRate = rateOn(rates, to, asOf);
+  if (!fromRate || !toRate) return null;
+
+  const legs = [fromRate, toRate].filter((rate) => rate.source !== "base");
+  return {
+    from,
+    to,
+    rate: toRate.perUsd / fromRate.perUsd,
+    // A cross rate is only as fresh as its older leg
+    rateDate: legs.map((rate) => rate.rateDate).sort()[0],
+    source: [...new Set(legs.map((rate) => rate.source))].join("+")
+  };
+}
+
+// Rate tables in the common `{ date, base, rates: { EUR: 0.86 } }` shape
+// (ECB, Open Exchange Rates, exchangerate.host); a non-USD base needs a USD
+// rate so the table can be rebased
+export function parseFxRateTable(
+  value: unknown,
+  defaultSource = "api"
+): FxRate[] | string {
+  const doc = value as Record<string, unknown> | null;
+  if (!doc || typeof doc !== "object") return "Expected a JSON object";
+  if (!isDate(doc.date)) return "date must be YYYY-MM-DD";
+  const base = normalizeCurrency(doc.base ?? BASE_CURRENCY);
+  if (!base) return "base must be a 3-letter currency code";
+  const table = doc.rates as Record<string, unknown> | null;
+  if (!table || typeof table !== "object" || Array.isArray(table)) {
+    return "rates must map currency codes to rates";
+  }
+
+  const quoted = new Map<string, number>();
+  for (const [code, rate] of Object.entries(table)) {
+    const currency = normalizeCurrency(code);
+    const amount = Number(rate);
+    if (!currency || !Number.isFinite(amount) || amount <= 0) {
+      return `Invalid rate for ${code}`;
+    }
+    quoted.set(currency, amount);
+  }
+  quoted.set(base, 1);
+
+  const usd = quoted.get(BASE_CURRENCY);
+  if (!usd) return `rates quoted in ${base} must include USD`;
+
+  const source =
+    typeof doc.source === "string" && doc.source ? doc.source : defaultSource;
+  return [...quoted]
+    .filter(([currency]) => currency !== BASE_CURRENCY)
+    .map(([currency, amount]) => ({
+      currency,
+      rateDate: doc.date as string,
+      perUsd: amount / usd,
+      source
+    }));
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+}
+
+function formatRate(quote: FxQuote): string {
+  return `1 ${quote.from} = ${+quote.rate.toPrecision(6)} ${quote.to}`;
+}
+
+// Spend per billing currency; datasets saved before currencies were tracked
+// are all in their single currency
+function currencyBuckets(agg: CostAggregates): [string, CostBucket][] {
+  const buckets = Object.entries(agg.byCurrency ?? {});
+  return buckets.length > 0
+    ? buckets
+    : [
+        [
+          agg.currency,
+          { billedCost: agg.billedCost, effectiveCost: agg.effectiveCost }
+        ]
+      ];
+}
+
+// Converts each export's spend into the reporting currency at the rate for
+// its billing period, listing original and converted amounts side by side
+export function convertCostDatasets(
+  datasets: { fileName: string; aggregates: CostAggregates }[],
+  rates: FxRate[],
+  reportingCurrency: string,
+  today = new Date().toISOString().slice(0, 10)
+): CurrencyConversion {
+  const quotes = new Map<string, FxQuote>();
+  const lines: string[] = [];
+  const missing = new Set<string>();
+  let combinedBilled = 0;
+  let combinedEffective = 0;
+  let bucketCount = 0;
+
+  for (const { fileName, aggregates } of datasets) {
+    const asOf = aggregates.periodEnd ?? today;
+    for (const [currency, bucket] of currencyBuckets(aggregates)) {
+      bucketCount++;
+      const quote = resolveFxQuote(rates, currency, reportingCurrency, asOf);
+      if (!quote) {
+        missing.add(currency);
+        lines.push(
+          `- ${fileName}: BilledCost ${formatAmount(bucket.billedCost)} ${currency}, EffectiveCost ${formatAmount(bucket.effectiveCost)} ${currency} (not converted: no ${currency} rate)`
+        );
+        continue;
+      }
+
+      const billed = bucket.billedCost * quote.rate;
+      const effective = bucket.effectiveCost * quote.rate;
+      combinedBilled += billed;
+      combinedEffective += effective;
+      if (currency === reportingCurrency) {
+        lines.push(
+          `- ${fileName}: BilledCost ${formatAmount(billed)} ${currency}, EffectiveCost ${formatAmount(effective)} ${currency} (already in ${reportingCurrency})`
+        );
+        continue;
+      }
+
+      quotes.set(`${quote.from}|${quote.to}|${quote.rateDate}`, quote);
+      lines.push(
+        `- ${fileName}: BilledCost ${formatAmount(bucket.billedCost)} ${currency} ≈ ${formatAmount(billed)} ${reportingCurrency}, EffectiveCost ${formatAmount(bucket.effectiveCost)} ${currency} ≈ ${formatAmount(effective)} ${reportingCurrency} (${formatRate(quote)}, rate of ${quote.rateDate}, ${quote.source})`
+      );
+    }
+  }
+
+  if (bucketCount > 1) {
+    lines.push(
+      `- Combined: BilledCost ${formatAmount(combinedBilled)} ${reportingCurrency}, EffectiveCost ${formatAmount(combinedEffective)} ${reportingCurrency}${missing.size > 0 ? ` (excluding ${[...missing].join(", ")})` : ""}`
+    );
+  }
+
+  return {
+    reportingCurrency,
+    rates: [...quotes.values()],
+    text: `Currency conversion (reporting currency ${reportingCurrency}):\n${lines.join("\n")}`
+  };
+}
+
+// Nothing to convert when every export already bills in the reporting currency
+export function needsConversion(
+  datasets: { aggregates: CostAggregates }[],
+  reportingCurrency: string
+): boolean {
+  return datasets.some(({ aggregates }) =>
+    currencyBuckets(aggregates).some(
+      ([currency]) => currency !== reportingCurrency
+    )
+  );
+}
@@ -0,0 +1,129 @@
+import type { AnomalyReport, DetectedAnomaly } from "../anomalies/detect";
+import { runInBatches } from "./batch";
+
+export interface AnomalyRow extends DetectedAnomaly {
+  id: number;
+  runId: string;
+  messageId: string | null;
+  sensitivity: string;
+  createdAt: string;
+}
+
+const ANOMALY_COLUMNS = `id, runId, messageId, usageDate, serviceName, subAccountId, usageType, resourceId,
+  actualCost, expectedCost, deltaCost, score, currency, sensitivity, createdAt`;
+
+export async function saveAnomalies(
+  env: Env,
+  userId: string,
+  threadId: string,
+  messageId: string | null,
+  report: AnomalyReport
+): Promise<string> {
+  const runId = crypto.randomUUID();
+  const statements = report.anomalies.map((a) =>
+    env.DB.prepare(
+      `INSERT INTO cost_anomalies (userId, threadId, runId, messageId, usageDate, serviceName, subAccountId,
+         usageType, resourceId, actualCost, expectedCost, deltaCost, score, currency, sensitivity, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+    ).bind(
+      userId,
+      threadId,
+      runId,
+      messageId,
+      a.usageDate,
+      a.serviceName,
+      a.subAccountId || null,
+      a.usageType,
+      a.resourceId,
+      a.actualCost,
+      a.expectedCost,
+      a.deltaCost,
+      a.score,
+      a.currency,
+      report.sensitivity
+    )
+  );
+
+  await runInBatches(env, statements);
+  return runId;
+}
+
+// Detection reruns over the thread's whole history on every upload; only the
+// days of a service and account not recorded for the thread yet are new
+export async function withoutRecordedAnomalies(
+  env: Env,
+  userId: string,
+  threadId: string,
+  report: AnomalyReport
+): Promise<AnomalyReport> {
+  if (report.anomalies.length === 0) return report;
+  const { results } = await env.DB.prepare(
+    `SELECT DISTINCT usageDate, serviceName, subAccountId
+     FROM cost_anomalies
+     WHERE userId = ? AND threadId = ?`
+  )
+    .bind(userId, threadId)
+    .all();
+  const recorded = new Set(
+    (
+      (results as unknown as {
+        usageDate: string;
+        serviceName: string;
+        subAccountId: string | null;
+      }[]) ?? []
+    ).map(
+      (row) => `${row.usageDate}|${row.serviceName}|${row.subAccountId ?? ""}`
+    )
+  );
+  return {
+    ...report,
+    anomalies: report.anomalies.filter(
+      (a) => !recorded.has(`${a.usageDate}|${a.serviceName}|${a.subAccountId}`)
+    )
+  };
+}
+
+// Anomalies of the thread's latest detection pass, largest jumps first
+export async function listLatestAnomalies(
+  env: Env,
+  userId: string,
+  threadId: string
+): Promise<AnomalyRow[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${ANOMALY_COLUMNS}
+     FROM cost_anomalies
+     WHERE userId = ? AND threadId = ?
+       AND runId = (
+         SELECT runId FROM cost_anomalies
+         WHERE userId = ? AND threadId = ?
+         ORDER BY id DESC LIMIT 1
+       )
+     ORDER BY deltaCost DESC, id ASC`
+  )
+    .bind(userId, threadId, userId, threadId)
+    .all();
+  return (results as unknown as AnomalyRow[]) ?? [];
+}
+
+// Anomalies reported with each assistant message, for the chat history
+export async function listMessageAnomalies(
+  env: Env,
+  userId: string,
+  threadId: string
+): Promise<Map<string, AnomalyRow[]>> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${ANOMALY_COLUMNS}
+     FROM cost_anomalies
+     WHERE userId = ? AND threadId = ? AND messageId IS NOT NULL
+     ORDER BY deltaCost DESC, id ASC`
+  )
+    .bind(userId, threadId)
+    .all();
+
+  const byMessage = new Map<string, AnomalyRow[]>();
+  for (const row of (results as unknown as AnomalyRow[]) ?? []) {
+    const messageId = row.messageId as string;
+    byMessage.set(messageId, [...(byMessage.get(messageId) ?? []), row]);
+  }
+  return byMessage;
+}
@@ -0,0 +1,11 @@
+// D1 caps the statements in one batch, so large writes go in chunks
+const BATCH_SIZE = 100;
+
+export async function runInBatches(
+  env: Env,
+  statements: D1PreparedStatement[]
+): Promise<void> {
+  for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+    await env.DB.batch(statements.slice(i, i + BATCH_SIZE));
+  }
+}
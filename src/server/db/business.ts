@@ -0,0 +1,44 @@
+import type { BusinessMetricPoint } from "../unit/business";
+import { runInBatches } from "./batch";
+
+export interface BusinessMetricRow extends BusinessMetricPoint {
+  threadId: string;
+  source: string;
+}
+
+// Re-uploading or re-entering a day replaces its value
+export async function saveBusinessMetrics(
+  env: Env,
+  userId: string,
+  threadId: string,
+  source: string,
+  points: BusinessMetricPoint[]
+): Promise<void> {
+  const statements = points.map((p) =>
+    env.DB.prepare(
+      `INSERT INTO business_metrics (userId, threadId, metric, usageDate, value, source, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT (userId, threadId, metric, usageDate)
+       DO UPDATE SET value = excluded.value, source = excluded.source, createdAt = excluded.createdAt`
+    ).bind(userId, threadId, p.metric, p.usageDate, p.value, source)
+  );
+
+  await runInBatches(env, statements);
+}
+
+// One thread's volumes, or the whole workspace's when threadId is null
+export async function listBusinessMetrics(
+  env: Env,
+  userId: string,
+  threadId: string | null
+): Promise<BusinessMetricRow[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT threadId, metric, usageDate, value, source
+     FROM business_metrics
+     WHERE userId = ? AND (? IS NULL OR threadId = ?)
+     ORDER BY metric, usageDate`
+  )
+    .bind(userId, threadId, threadId)
+    .all();
+  return (results as unknown as BusinessMetricRow[]) ?? [];
+}
@@ -0,0 +1,147 @@
+import {
+  BUNDLED_CATALOG_VERSION,
+  bundledCatalogPrices,
+  type CatalogPrice
+} from "../pricing/catalog";
+import { runInBatches } from "./batch";
+
+export interface CatalogVersion {
+  version: string;
+  source: string;
+  fileName: string | null;
+  priceCount: number;
+  importedAt: string;
+}
+
+export interface CatalogPriceRow extends CatalogPrice {
+  version: string;
+  importedAt: string;
+}
+
+let bundledSeeded = false;
+
+export async function getCatalogVersion(
+  env: Env,
+  version: string
+): Promise<CatalogVersion | null> {
+  const { results } = await env.DB.prepare(
+    `SELECT version, source, fileName, priceCount, importedAt
+     FROM price_catalogs WHERE version = ?`
+  )
+    .bind(version)
+    .all();
+  return (results?.[0] as unknown as CatalogVersion | undefined) ?? null;
+}
+
+export async function listCatalogVersions(env: Env): Promise<CatalogVersion[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT version, source, fileName, priceCount, importedAt
+     FROM price_catalogs
+     ORDER BY datetime(importedAt) DESC`
+  ).all();
+  return (results as unknown as CatalogVersion[]) ?? [];
+}
+
+export async function saveCatalogSnapshot(
+  env: Env,
+  version: string,
+  source: string,
+  fileName: string | null,
+  prices: CatalogPrice[],
+  importedAt: string | null = null
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO price_catalogs (version, source, fileName, priceCount, importedAt)
+     VALUES (?, ?, ?, ?, COALESCE(?, datetime('now')))`
+  )
+    .bind(version, source, fileName, prices.length, importedAt)
+    .run();
+
+  try {
+    await runInBatches(
+      env,
+      prices.map((p) =>
+        env.DB.prepare(
+          `INSERT OR REPLACE INTO catalog_prices (version, provider, service, sku, region, pricingModel, unit, price, currency)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).bind(
+          version,
+          p.provider,
+          p.service,
+          p.sku,
+          p.region,
+          p.pricingModel,
+          p.unit,
+          p.price,
+          p.currency
+        )
+      )
+    );
+  } catch (error) {
+    // A partial snapshot would shadow older ones and block a retry with 409
+    await deleteCatalogVersion(env, version);
+    throw error;
+  }
+  console.log(`✅ Imported price catalog ${version}: ${prices.length} prices`);
+}
+
+async function deleteCatalogVersion(env: Env, version: string): Promise<void> {
+  await env.DB.batch([
+    env.DB.prepare(`DELETE FROM catalog_prices WHERE version = ?`).bind(
+      version
+    ),
+    env.DB.prepare(`DELETE FROM price_catalogs WHERE version = ?`).bind(version)
+  ]);
+}
+
+// The bundled snapshot is loaded once per database, dated before any
+// imported snapshot so imports take precedence
+export async function ensureBundledCatalog(env: Env): Promise<void> {
+  if (bundledSeeded) return;
+  if (!(await getCatalogVersion(env, BUNDLED_CATALOG_VERSION))) {
+    await saveCatalogSnapshot(
+      env,
+      BUNDLED_CATALOG_VERSION,
+      "bundled",
+      null,
+      bundledCatalogPrices(),
+      "1970-01-01 00:00:00"
+    );
+  }
+  bundledSeeded = true;
+}
+
+// Every price for the SKUs across all versions, newest snapshot first
+export async function findCatalogPrices(
+  env: Env,
+  skus: string[]
+): Promise<CatalogPriceRow[]> {
+  if (skus.length === 0) return [];
+  const placeholders = skus.map(() => "?").join(",");
+  const { results } = await env.DB.prepare(
+    `SELECT p.version, p.provider, p.service, p.sku, p.region, p.pricingModel, p.unit, p.price, p.currency, c.importedAt
+     FROM catalog_prices p
+     JOIN price_catalogs c ON c.version = p.version
+     WHERE p.sku IN (${placeholders})
+     ORDER BY datetime(c.importedAt) DESC, p.id ASC`
+  )
+    .bind(...skus.map((sku) => sku.toLowerCase()))
+    .all();
+  return (results as unknown as CatalogPriceRow[]) ?? [];
+}
+
+export async function findProviderPrices(
+  env: Env,
+  provider: string
+): Promise<CatalogPriceRow[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT p.version, p.provider, p.service, p.sku, p.region, p.pricingModel, p.unit, p.price, p.currency, c.importedAt
+     FROM catalog_prices p
+     JOIN price_catalogs c ON c.version = p.version
+     WHERE p.provider = ?
+     ORDER BY datetime(c.importedAt) DESC, p.id ASC`
+  )
+    .bind(provider)
+    .all();
+  return (results as unknown as CatalogPriceRow[]) ?? [];
+}
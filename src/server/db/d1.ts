@@ -1,3 +1,4 @@
+import type { AnalysisFx } from "../currency/fx";
 import type { UploadedFile } from "../storage/file-storage";
 
 export interface Thread {
@@ -25,6 +26,7 @@ interface DatabaseFileRow {
   r2Key: string;
   uploadedAt: string;
   messageId?: string;
+  sourceFormat: string | null;
 }
 
 interface DatabaseMessageRow {
@@ -114,9 +116,9 @@ export async function getThreadMessagesWithFiles(
     .all();
 
   const { results: files } = await env.DB.prepare(
-    `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt, messageId 
+    `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt, messageId, sourceFormat
      FROM uploaded_files 
-     WHERE userId = ? AND threadId = ?
+     WHERE userId = ? AND threadId = ? AND parentFileId IS NULL
      ORDER BY uploadedAt ASC`
   )
     .bind(userId, threadId)
@@ -138,7 +140,8 @@ export async function getThreadMessagesWithFiles(
           fileType: file.fileType,
           fileSize: file.fileSize,
           r2Key: file.r2Key,
-          uploadedAt: file.uploadedAt
+          uploadedAt: file.uploadedAt,
+          sourceFormat: file.sourceFormat
         });
       }
       return acc;
@@ -163,13 +166,29 @@ export async function saveAnalysis(
   plan: string,
   metrics: string,
   comment: string,
-  result: string
+  result: string,
+  analysisType = "optimization",
+  data: unknown = null,
+  catalogVersion: string | null = null,
+  fx: AnalysisFx | null = null
 ): Promise<number> {
   const { meta } = await env.DB.prepare(
-    `INSERT INTO analyses (userId, threadId, plan, metrics, comment, result, createdAt)
-     VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`
+    `INSERT INTO analyses (userId, threadId, plan, metrics, comment, result, analysisType, data, catalogVersion, reportingCurrency, fxRates, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
   )
-    .bind(userId, threadId, plan, metrics, comment, result)
+    .bind(
+      userId,
+      threadId,
+      plan,
+      metrics,
+      comment,
+      result,
+      analysisType,
+      data === null ? null : JSON.stringify(data),
+      catalogVersion,
+      fx?.reportingCurrency ?? null,
+      fx ? JSON.stringify(fx.rates) : null
+    )
     .run();
 
   const insertedId = (meta as { last_row_id?: number }).last_row_id ?? 0;
@@ -217,6 +236,31 @@ export async function getLatestAnalysis(
   );
 }
 
+export async function getLatestAnalysisOfType(
+  env: Env,
+  userId: string,
+  threadId: string,
+  analysisType: string
+) {
+  const { results } = await env.DB.prepare(
+    `SELECT id, result, data, createdAt FROM analyses
+     WHERE userId = ? AND threadId = ? AND analysisType = ?
+     ORDER BY datetime(createdAt) DESC, id DESC
+     LIMIT 1`
+  )
+    .bind(userId, threadId, analysisType)
+    .all();
+
+  return (
+    (results?.[0] as {
+      id: number;
+      result: string;
+      data: string | null;
+      createdAt: string;
+    }) || null
+  );
+}
+
 export async function getFullThreadText(
   env: Env,
   userId: string,
@@ -241,12 +285,73 @@ export async function deleteThread(
   userId: string,
   threadId: string
 ): Promise<void> {
+  // Derived R2 objects are only reachable through these rows
+  const { results: derived } = await env.DB.prepare(
+    `SELECT d.focusKey AS r2Key FROM cost_datasets d
+     JOIN uploaded_files f ON f.id = d.fileId
+     WHERE f.threadId = ? AND d.focusKey IS NOT NULL
+     UNION ALL
+     SELECT s.r2Key FROM file_sheets s
+     JOIN uploaded_files f ON f.id = s.fileId
+     WHERE f.threadId = ?`
+  )
+    .bind(threadId, threadId)
+    .all();
+  const keys = ((derived as unknown as { r2Key: string }[]) ?? []).map(
+    (row) => row.r2Key
+  );
+  // R2 deletes at most 1000 keys per call
+  for (let i = 0; i < keys.length; i += 1000) {
+    await env.FILES.delete(keys.slice(i, i + 1000));
+  }
+
+  await env.DB.prepare(
+    `DELETE FROM cost_datasets
+     WHERE fileId IN (SELECT id FROM uploaded_files WHERE threadId = ?)`
+  )
+    .bind(threadId)
+    .run();
+  await env.DB.prepare(
+    `DELETE FROM metric_summaries
+     WHERE fileId IN (SELECT id FROM uploaded_files WHERE threadId = ?)`
+  )
+    .bind(threadId)
+    .run();
+  await env.DB.prepare(
+    `DELETE FROM file_sheets
+     WHERE fileId IN (SELECT id FROM uploaded_files WHERE threadId = ?)`
+  )
+    .bind(threadId)
+    .run();
+  await env.DB.prepare(
+    `DELETE FROM multipart_upload_parts
+     WHERE uploadId IN (SELECT uploadId FROM multipart_uploads WHERE threadId = ?)`
+  )
+    .bind(threadId)
+    .run();
+  await env.DB.prepare(`DELETE FROM multipart_uploads WHERE threadId = ?`)
+    .bind(threadId)
+    .run();
   await env.DB.prepare(`DELETE FROM uploaded_files WHERE threadId = ?`)
     .bind(threadId)
     .run();
   await env.DB.prepare(`DELETE FROM messages WHERE threadId = ?`)
     .bind(threadId)
     .run();
+  await env.DB.prepare(`DELETE FROM cost_anomalies WHERE threadId = ?`)
+    .bind(threadId)
+    .run();
+  await env.DB.prepare(
+    `DELETE FROM rightsizing_recommendations WHERE threadId = ?`
+  )
+    .bind(threadId)
+    .run();
+  await env.DB.prepare(`DELETE FROM business_metrics WHERE threadId = ?`)
+    .bind(threadId)
+    .run();
+  await env.DB.prepare(`DELETE FROM scenarios WHERE threadId = ?`)
+    .bind(threadId)
+    .run();
   await env.DB.prepare(`DELETE FROM analyses WHERE threadId = ?`)
     .bind(threadId)
     .run();
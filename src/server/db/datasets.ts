@@ -0,0 +1,147 @@
+import type { CostAggregates } from "../billing/aggregate";
+
+export interface CostDataset {
+  id: number;
+  fileId: number;
+  format: string;
+  currency: string;
+  rowCount: number;
+  billedCost: number;
+  effectiveCost: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+  focusKey: string | null;
+  aggregates: CostAggregates;
+  createdAt: string;
+}
+
+interface DatabaseDatasetRow {
+  id: number;
+  fileId: number;
+  format: string;
+  currency: string;
+  rowCount: number;
+  billedCost: number;
+  effectiveCost: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+  focusKey: string | null;
+  aggregates: string;
+  createdAt: string;
+}
+
+function toCostDataset(row: DatabaseDatasetRow): CostDataset {
+  return {
+    ...row,
+    aggregates: JSON.parse(row.aggregates) as CostAggregates
+  };
+}
+
+export async function saveCostDataset(
+  env: Env,
+  fileId: number,
+  aggregates: CostAggregates,
+  focusKey: string | null
+): Promise<number> {
+  const { meta } = await env.DB.prepare(
+    `INSERT INTO cost_datasets (fileId, format, currency, rowCount, billedCost, effectiveCost, periodStart, periodEnd, focusKey, aggregates, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+     ON CONFLICT(fileId) DO UPDATE SET
+       format = excluded.format,
+       currency = excluded.currency,
+       rowCount = excluded.rowCount,
+       billedCost = excluded.billedCost,
+       effectiveCost = excluded.effectiveCost,
+       periodStart = excluded.periodStart,
+       periodEnd = excluded.periodEnd,
+       focusKey = excluded.focusKey,
+       aggregates = excluded.aggregates,
+       createdAt = excluded.createdAt`
+  )
+    .bind(
+      fileId,
+      aggregates.format,
+      aggregates.currency,
+      aggregates.rowCount,
+      aggregates.billedCost,
+      aggregates.effectiveCost,
+      aggregates.periodStart,
+      aggregates.periodEnd,
+      focusKey,
+      JSON.stringify(aggregates)
+    )
+    .run();
+
+  return (meta as { last_row_id?: number }).last_row_id ?? 0;
+}
+
+export async function getCostDataset(
+  env: Env,
+  fileId: number
+): Promise<CostDataset | null> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, fileId, format, currency, rowCount, billedCost, effectiveCost, periodStart, periodEnd, focusKey, aggregates, createdAt
+     FROM cost_datasets
+     WHERE fileId = ?`
+  )
+    .bind(fileId)
+    .all();
+
+  const row = results?.[0] as unknown as DatabaseDatasetRow | undefined;
+  return row ? toCostDataset(row) : null;
+}
+
+export async function deleteCostDataset(
+  env: Env,
+  fileId: number
+): Promise<void> {
+  const dataset = await getCostDataset(env, fileId);
+  if (!dataset) return;
+
+  if (dataset.focusKey) await env.FILES.delete(dataset.focusKey);
+  await env.DB.prepare(`DELETE FROM cost_datasets WHERE fileId = ?`)
+    .bind(fileId)
+    .run();
+}
+
+export async function getThreadCostDatasets(
+  env: Env,
+  userId: string,
+  threadId: string
+): Promise<(CostDataset & { fileName: string })[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT d.id, d.fileId, d.format, d.currency, d.rowCount, d.billedCost, d.effectiveCost,
+       d.periodStart, d.periodEnd, d.focusKey, d.aggregates, d.createdAt, f.fileName
+     FROM cost_datasets d
+     JOIN uploaded_files f ON f.id = d.fileId
+     WHERE f.userId = ? AND f.threadId = ?
+     ORDER BY datetime(d.createdAt) ASC`
+  )
+    .bind(userId, threadId)
+    .all();
+
+  const rows =
+    (results as unknown as (DatabaseDatasetRow & { fileName: string })[]) ?? [];
+  return rows.map((row) => ({ ...toCostDataset(row), fileName: row.fileName }));
+}
+
+// Billing exports across all of a user's threads
+export async function getUserCostDatasets(
+  env: Env,
+  userId: string
+): Promise<(CostDataset & { fileName: string })[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT d.id, d.fileId, d.format, d.currency, d.rowCount, d.billedCost, d.effectiveCost,
+       d.periodStart, d.periodEnd, d.focusKey, d.aggregates, d.createdAt, f.fileName
+     FROM cost_datasets d
+     JOIN uploaded_files f ON f.id = d.fileId
+     WHERE f.userId = ?
+     ORDER BY datetime(d.createdAt) ASC`
+  )
+    .bind(userId)
+    .all();
+
+  const rows =
+    (results as unknown as (DatabaseDatasetRow & { fileName: string })[]) ?? [];
+  return rows.map((row) => ({ ...toCostDataset(row), fileName: row.fileName }));
+}
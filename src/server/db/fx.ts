@@ -0,0 +1,90 @@
+import { BASE_CURRENCY, bundledFxRates, type FxRate } from "../currency/fx";
+import { runInBatches } from "./batch";
+
+export interface FxRateRow extends FxRate {
+  updatedAt: string;
+}
+
+let bundledSeeded = false;
+
+// Imported rates replace an existing rate for the same currency and date;
+// the bundled seed never does
+export async function saveFxRates(
+  env: Env,
+  rates: FxRate[],
+  replace = true
+): Promise<void> {
+  const sql = replace
+    ? `INSERT INTO fx_rates (currency, rateDate, perUsd, source, updatedAt)
+       VALUES (?, ?, ?, ?, datetime('now'))
+       ON CONFLICT (currency, rateDate)
+       DO UPDATE SET perUsd = excluded.perUsd, source = excluded.source, updatedAt = excluded.updatedAt`
+    : `INSERT OR IGNORE INTO fx_rates (currency, rateDate, perUsd, source, updatedAt)
+       VALUES (?, ?, ?, ?, datetime('now'))`;
+
+  await runInBatches(
+    env,
+    rates.map((rate) =>
+      env.DB.prepare(sql).bind(
+        rate.currency,
+        rate.rateDate,
+        rate.perUsd,
+        rate.source
+      )
+    )
+  );
+  console.log(`✅ Saved ${rates.length} FX rates`);
+}
+
+export async function ensureBundledFxRates(env: Env): Promise<void> {
+  if (bundledSeeded) return;
+  await saveFxRates(env, bundledFxRates(), false);
+  bundledSeeded = true;
+}
+
+// Every dated rate for the currencies, oldest first
+export async function findFxRates(
+  env: Env,
+  currencies: string[]
+): Promise<FxRate[]> {
+  const codes = currencies.filter((code) => code !== BASE_CURRENCY);
+  if (codes.length === 0) return [];
+  await ensureBundledFxRates(env);
+  const placeholders = codes.map(() => "?").join(",");
+  const { results } = await env.DB.prepare(
+    `SELECT currency, rateDate, perUsd, source
+     FROM fx_rates
+     WHERE currency IN (${placeholders})
+     ORDER BY rateDate ASC`
+  )
+    .bind(...codes)
+    .all();
+  return (results as unknown as FxRate[]) ?? [];
+}
+
+export async function listFxRates(
+  env: Env,
+  currency: string | null,
+  limit: number
+): Promise<FxRateRow[]> {
+  await ensureBundledFxRates(env);
+  const { results } = await env.DB.prepare(
+    `SELECT currency, rateDate, perUsd, source, updatedAt
+     FROM fx_rates
+     WHERE (? IS NULL OR currency = ?)
+     ORDER BY rateDate DESC, currency ASC
+     LIMIT ?`
+  )
+    .bind(currency, currency, limit)
+    .all();
+  return (results as unknown as FxRateRow[]) ?? [];
+}
+
+export async function listFxCurrencies(env: Env): Promise<string[]> {
+  await ensureBundledFxRates(env);
+  const { results } = await env.DB.prepare(
+    "SELECT DISTINCT currency FROM fx_rates ORDER BY currency"
+  ).all();
+  const rows = (results as unknown as { currency: string }[]) ?? [];
+  return [BASE_CURRENCY, ...rows.map((row) => row.currency)];
+}
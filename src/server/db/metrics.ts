@@ -0,0 +1,129 @@
+import type { UtilizationSummary } from "../metrics/series";
+import { runInBatches } from "./batch";
+
+export interface MetricsDataset {
+  fileId: number;
+  format: string;
+  summaries: UtilizationSummary[];
+}
+
+interface DatabaseSummaryRow extends UtilizationSummary {
+  fileId: number;
+  format: string;
+}
+
+const SUMMARY_COLUMNS = `fileId, format, resourceId, metric, kind, unit, sampleCount, avg, p50, p95, max, periodStart, periodEnd`;
+
+function toSummary(row: DatabaseSummaryRow): UtilizationSummary {
+  return {
+    resourceId: row.resourceId,
+    metric: row.metric,
+    kind: row.kind,
+    unit: row.unit,
+    sampleCount: row.sampleCount,
+    avg: row.avg,
+    p50: row.p50,
+    p95: row.p95,
+    max: row.max,
+    periodStart: row.periodStart,
+    periodEnd: row.periodEnd
+  };
+}
+
+function groupByFile(rows: DatabaseSummaryRow[]): MetricsDataset[] {
+  const datasets = new Map<number, MetricsDataset>();
+  for (const row of rows) {
+    const dataset = datasets.get(row.fileId) ?? {
+      fileId: row.fileId,
+      format: row.format,
+      summaries: []
+    };
+    dataset.summaries.push(toSummary(row));
+    datasets.set(row.fileId, dataset);
+  }
+  return [...datasets.values()];
+}
+
+export async function saveMetricSummaries(
+  env: Env,
+  fileId: number,
+  format: string,
+  summaries: UtilizationSummary[]
+): Promise<void> {
+  await runInBatches(env, [
+    env.DB.prepare(`DELETE FROM metric_summaries WHERE fileId = ?`).bind(
+      fileId
+    ),
+    ...summaries.map((s) =>
+      env.DB.prepare(
+        `INSERT INTO metric_summaries (${SUMMARY_COLUMNS}, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+      ).bind(
+        fileId,
+        format,
+        s.resourceId,
+        s.metric,
+        s.kind,
+        s.unit,
+        s.sampleCount,
+        s.avg,
+        s.p50,
+        s.p95,
+        s.max,
+        s.periodStart,
+        s.periodEnd
+      )
+    )
+  ]);
+}
+
+export async function getMetricsDataset(
+  env: Env,
+  fileId: number
+): Promise<MetricsDataset | null> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${SUMMARY_COLUMNS}
+     FROM metric_summaries
+     WHERE fileId = ?
+     ORDER BY resourceId ASC, kind ASC, metric ASC`
+  )
+    .bind(fileId)
+    .all();
+
+  const rows = (results as unknown as DatabaseSummaryRow[]) ?? [];
+  return groupByFile(rows)[0] ?? null;
+}
+
+export async function deleteMetricSummaries(
+  env: Env,
+  fileId: number
+): Promise<void> {
+  await env.DB.prepare(`DELETE FROM metric_summaries WHERE fileId = ?`)
+    .bind(fileId)
+    .run();
+}
+
+export async function getThreadMetricsDatasets(
+  env: Env,
+  userId: string,
+  threadId: string
+): Promise<(MetricsDataset & { fileName: string })[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT m.fileId, m.format, m.resourceId, m.metric, m.kind, m.unit, m.sampleCount,
+       m.avg, m.p50, m.p95, m.max, m.periodStart, m.periodEnd, f.fileName
+     FROM metric_summaries m
+     JOIN uploaded_files f ON f.id = m.fileId
+     WHERE f.userId = ? AND f.threadId = ?
+     ORDER BY datetime(f.uploadedAt) ASC, m.resourceId ASC, m.kind ASC, m.metric ASC`
+  )
+    .bind(userId, threadId)
+    .all();
+
+  const rows =
+    (results as unknown as (DatabaseSummaryRow & { fileName: string })[]) ?? [];
+  const names = new Map(rows.map((row) => [row.fileId, row.fileName]));
+  return groupByFile(rows).map((dataset) => ({
+    ...dataset,
+    fileName: names.get(dataset.fileId) ?? ""
+  }));
+}
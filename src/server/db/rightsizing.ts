@@ -0,0 +1,82 @@
+import type { RightsizingReport } from "../rightsizing/engine";
+import { runInBatches } from "./batch";
+
+export interface RightsizingRow {
+  id: number;
+  analysisId: number;
+  resourceId: string;
+  resourceName: string | null;
+  provider: string;
+  region: string | null;
+  currentType: string;
+  recommendedType: string;
+  cpuP95: number;
+  memoryP95: number | null;
+  currentMonthly: number;
+  recommendedMonthly: number;
+  monthlySavings: number;
+  currency: string;
+  safetyMargin: number;
+  catalogVersion: string;
+  createdAt: string;
+}
+
+export async function saveRightsizingRecommendations(
+  env: Env,
+  analysisId: number,
+  userId: string,
+  threadId: string,
+  report: RightsizingReport
+): Promise<void> {
+  const statements = report.candidates.map((c) =>
+    env.DB.prepare(
+      `INSERT INTO rightsizing_recommendations (analysisId, userId, threadId, resourceId, resourceName, provider, region,
+         currentType, recommendedType, cpuP95, memoryP95, currentMonthly, recommendedMonthly, monthlySavings,
+         currency, safetyMargin, catalogVersion, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+    ).bind(
+      analysisId,
+      userId,
+      threadId,
+      c.resourceId,
+      c.resourceName || null,
+      c.provider,
+      c.region || null,
+      c.currentType,
+      c.recommendedType,
+      c.cpuP95,
+      c.memoryP95,
+      c.currentMonthly,
+      c.recommendedMonthly,
+      c.monthlySavings,
+      c.currency,
+      report.safetyMargin,
+      c.catalogVersion
+    )
+  );
+
+  await runInBatches(env, statements);
+}
+
+// Recommendations of the thread's latest rightsizing analysis
+export async function listRightsizingRecommendations(
+  env: Env,
+  userId: string,
+  threadId: string
+): Promise<RightsizingRow[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, analysisId, resourceId, resourceName, provider, region, currentType, recommendedType,
+       cpuP95, memoryP95, currentMonthly, recommendedMonthly, monthlySavings, currency, safetyMargin,
+       catalogVersion, createdAt
+     FROM rightsizing_recommendations
+     WHERE userId = ? AND threadId = ?
+       AND analysisId = (
+         SELECT MAX(analysisId) FROM rightsizing_recommendations
+         WHERE userId = ? AND threadId = ?
+       )
+     ORDER BY monthlySavings DESC, id ASC`
+  )
+    .bind(userId, threadId, userId, threadId)
+    .all();
+  return (results as unknown as RightsizingRow[]) ?? [];
+}
@@ -0,0 +1,91 @@
+import type { ScenarioResult, ScenarioTransform } from "../scenarios/engine";
+
+export interface SavedScenario {
+  id: number;
+  threadId: string;
+  name: string;
+  transforms: ScenarioTransform[];
+  result: ScenarioResult;
+  createdAt: string;
+}
+
+interface DatabaseScenarioRow {
+  id: number;
+  threadId: string;
+  name: string;
+  transforms: string;
+  result: string;
+  createdAt: string;
+}
+
+function toSavedScenario(row: DatabaseScenarioRow): SavedScenario {
+  return {
+    ...row,
+    transforms: JSON.parse(row.transforms) as ScenarioTransform[],
+    result: JSON.parse(row.result) as ScenarioResult
+  };
+}
+
+export async function saveScenario(
+  env: Env,
+  userId: string,
+  threadId: string,
+  name: string,
+  transforms: ScenarioTransform[],
+  result: ScenarioResult
+): Promise<number> {
+  const { meta } = await env.DB.prepare(
+    `INSERT INTO scenarios (userId, threadId, name, transforms, result, currency, baselineMonthly,
+       projectedMonthly, monthlyDelta, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+  )
+    .bind(
+      userId,
+      threadId,
+      name,
+      JSON.stringify(transforms),
+      JSON.stringify(result),
+      result.currency,
+      result.baselineMonthly,
+      result.projectedMonthly,
+      result.monthlyDelta
+    )
+    .run();
+
+  return (meta as { last_row_id?: number }).last_row_id ?? 0;
+}
+
+// The thread's scenarios, oldest first, or only the ids given
+export async function listScenarios(
+  env: Env,
+  userId: string,
+  threadId: string,
+  ids: number[] = []
+): Promise<SavedScenario[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, threadId, name, transforms, result, createdAt
+     FROM scenarios
+     WHERE userId = ? AND threadId = ?
+     ORDER BY id ASC`
+  )
+    .bind(userId, threadId)
+    .all();
+
+  const rows = (results as unknown as DatabaseScenarioRow[]) ?? [];
+  return rows
+    .filter((row) => ids.length === 0 || ids.includes(row.id))
+    .map(toSavedScenario);
+}
+
+export async function deleteScenario(
+  env: Env,
+  userId: string,
+  id: number
+): Promise<boolean> {
+  const { meta } = await env.DB.prepare(
+    `DELETE FROM scenarios WHERE id = ? AND userId = ?`
+  )
+    .bind(id, userId)
+    .run();
+  return ((meta as { changes?: number }).changes ?? 0) > 0;
+}
@@ -0,0 +1,129 @@
+import {
+  type AnomalySensitivity,
+  DEFAULT_SENSITIVITY
+} from "../anomalies/detect";
+import { BASE_CURRENCY } from "../currency/fx";
+import { DEFAULT_SAFETY_MARGIN } from "../rightsizing/engine";
+import { DEFAULT_TAG_KEYS, type ShowbackTagKeys } from "../showback/engine";
+
+export async function getReportingCurrency(
+  env: Env,
+  userId: string
+): Promise<string> {
+  const { results } = await env.DB.prepare(
+    "SELECT reportingCurrency FROM user_settings WHERE userId = ?"
+  )
+    .bind(userId)
+    .all();
+  const row = results?.[0] as unknown as
+    | { reportingCurrency: string }
+    | undefined;
+  return row?.reportingCurrency ?? BASE_CURRENCY;
+}
+
+export async function setReportingCurrency(
+  env: Env,
+  userId: string,
+  currency: string
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO user_settings (userId, reportingCurrency, updatedAt)
+     VALUES (?, ?, datetime('now'))
+     ON CONFLICT (userId)
+     DO UPDATE SET reportingCurrency = excluded.reportingCurrency, updatedAt = excluded.updatedAt`
+  )
+    .bind(userId, currency)
+    .run();
+}
+
+export async function getRightsizingMargin(
+  env: Env,
+  userId: string
+): Promise<number> {
+  const { results } = await env.DB.prepare(
+    "SELECT rightsizingMargin FROM user_settings WHERE userId = ?"
+  )
+    .bind(userId)
+    .all();
+  const row = results?.[0] as unknown as
+    | { rightsizingMargin: number }
+    | undefined;
+  return row?.rightsizingMargin ?? DEFAULT_SAFETY_MARGIN;
+}
+
+export async function setRightsizingMargin(
+  env: Env,
+  userId: string,
+  margin: number
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO user_settings (userId, rightsizingMargin, updatedAt)
+     VALUES (?, ?, datetime('now'))
+     ON CONFLICT (userId)
+     DO UPDATE SET rightsizingMargin = excluded.rightsizingMargin, updatedAt = excluded.updatedAt`
+  )
+    .bind(userId, margin)
+    .run();
+}
+
+export async function getAnomalySensitivity(
+  env: Env,
+  userId: string
+): Promise<AnomalySensitivity> {
+  const { results } = await env.DB.prepare(
+    "SELECT anomalySensitivity FROM user_settings WHERE userId = ?"
+  )
+    .bind(userId)
+    .all();
+  const row = results?.[0] as unknown as
+    | { anomalySensitivity: AnomalySensitivity }
+    | undefined;
+  return row?.anomalySensitivity ?? DEFAULT_SENSITIVITY;
+}
+
+export async function setAnomalySensitivity(
+  env: Env,
+  userId: string,
+  sensitivity: AnomalySensitivity
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO user_settings (userId, anomalySensitivity, updatedAt)
+     VALUES (?, ?, datetime('now'))
+     ON CONFLICT (userId)
+     DO UPDATE SET anomalySensitivity = excluded.anomalySensitivity, updatedAt = excluded.updatedAt`
+  )
+    .bind(userId, sensitivity)
+    .run();
+}
+
+export async function getShowbackTagKeys(
+  env: Env,
+  userId: string
+): Promise<ShowbackTagKeys> {
+  const { results } = await env.DB.prepare(
+    "SELECT showbackTagKeys FROM user_settings WHERE userId = ?"
+  )
+    .bind(userId)
+    .all();
+  const row = results?.[0] as unknown as
+    | { showbackTagKeys: string | null }
+    | undefined;
+  return row?.showbackTagKeys
+    ? { ...DEFAULT_TAG_KEYS, ...JSON.parse(row.showbackTagKeys) }
+    : DEFAULT_TAG_KEYS;
+}
+
+export async function setShowbackTagKeys(
+  env: Env,
+  userId: string,
+  tagKeys: ShowbackTagKeys
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO user_settings (userId, showbackTagKeys, updatedAt)
+     VALUES (?, ?, datetime('now'))
+     ON CONFLICT (userId)
+     DO UPDATE SET showbackTagKeys = excluded.showbackTagKeys, updatedAt = excluded.updatedAt`
+  )
+    .bind(userId, JSON.stringify(tagKeys))
+    .run();
+}
@@ -0,0 +1,87 @@
+export type SheetRole = "billing" | "metrics" | "ignore";
+
+export interface FileSheet {
+  id: number;
+  fileId: number;
+  sheetIndex: number;
+  sheetName: string;
+  r2Key: string;
+  rowCount: number;
+  role: SheetRole;
+  detectedRole: SheetRole;
+  createdAt: string;
+}
+
+export type NewFileSheet = Omit<FileSheet, "id" | "fileId" | "createdAt">;
+
+export async function saveFileSheets(
+  env: Env,
+  fileId: number,
+  sheets: NewFileSheet[]
+): Promise<void> {
+  if (sheets.length === 0) return;
+  await env.DB.batch(
+    sheets.map((sheet) =>
+      env.DB.prepare(
+        `INSERT INTO file_sheets (fileId, sheetIndex, sheetName, r2Key, rowCount, role, detectedRole, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+         ON CONFLICT(fileId, sheetIndex) DO UPDATE SET
+           sheetName = excluded.sheetName,
+           r2Key = excluded.r2Key,
+           rowCount = excluded.rowCount,
+           role = excluded.role,
+           detectedRole = excluded.detectedRole`
+      ).bind(
+        fileId,
+        sheet.sheetIndex,
+        sheet.sheetName,
+        sheet.r2Key,
+        sheet.rowCount,
+        sheet.role,
+        sheet.detectedRole
+      )
+    )
+  );
+}
+
+export async function getFileSheets(
+  env: Env,
+  fileId: number
+): Promise<FileSheet[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, fileId, sheetIndex, sheetName, r2Key, rowCount, role, detectedRole, createdAt
+     FROM file_sheets
+     WHERE fileId = ?
+     ORDER BY sheetIndex ASC`
+  )
+    .bind(fileId)
+    .all();
+
+  return (results as unknown as FileSheet[]) ?? [];
+}
+
+export async function setSheetRole(
+  env: Env,
+  fileId: number,
+  sheetIndex: number,
+  role: SheetRole
+): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE file_sheets SET role = ? WHERE fileId = ? AND sheetIndex = ?`
+  )
+    .bind(role, fileId, sheetIndex)
+    .run();
+}
+
+export async function deleteFileSheets(
+  env: Env,
+  fileId: number
+): Promise<void> {
+  const sheets = await getFileSheets(env, fileId);
+  if (sheets.length === 0) return;
+
+  await env.FILES.delete(sheets.map((sheet) => sheet.r2Key));
+  await env.DB.prepare(`DELETE FROM file_sheets WHERE fileId = ?`)
+    .bind(fileId)
+    .run();
+}
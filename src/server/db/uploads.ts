@@ -0,0 +1,132 @@
+export type MultipartUploadStatus = "uploading" | "completed" | "aborted";
+
+export interface MultipartUpload {
+  uploadId: string;
+  userId: string;
+  threadId: string;
+  sessionId: string;
+  r2Key: string;
+  fileName: string;
+  fileSize: number;
+  contentType: string;
+  declaredRole: string | null;
+  partSize: number;
+  status: MultipartUploadStatus;
+  fileId: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+export function partCountFor(
+  upload: Pick<MultipartUpload, "fileSize" | "partSize">
+): number {
+  return Math.max(Math.ceil(upload.fileSize / upload.partSize), 1);
+}
+
+// Every part but the last is exactly partSize bytes, as R2 requires
+export function expectedPartSize(
+  upload: Pick<MultipartUpload, "fileSize" | "partSize">,
+  partNumber: number
+): number {
+  const partCount = partCountFor(upload);
+  if (partNumber < partCount) return upload.partSize;
+  return upload.fileSize - upload.partSize * (partCount - 1);
+}
+
+export async function saveMultipartUpload(
+  env: Env,
+  upload: Omit<MultipartUpload, "status" | "fileId" | "createdAt" | "updatedAt">
+): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO multipart_uploads (uploadId, userId, threadId, sessionId, r2Key, fileName, fileSize, contentType, declaredRole, partSize, status, createdAt, updatedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'uploading', datetime('now'), datetime('now'))`
+  )
+    .bind(
+      upload.uploadId,
+      upload.userId,
+      upload.threadId,
+      upload.sessionId,
+      upload.r2Key,
+      upload.fileName,
+      upload.fileSize,
+      upload.contentType,
+      upload.declaredRole,
+      upload.partSize
+    )
+    .run();
+}
+
+export async function getMultipartUpload(
+  env: Env,
+  userId: string,
+  uploadId: string
+): Promise<MultipartUpload | null> {
+  const { results } = await env.DB.prepare(
+    `SELECT uploadId, userId, threadId, sessionId, r2Key, fileName, fileSize, contentType,
+       declaredRole, partSize, status, fileId, createdAt, updatedAt
+     FROM multipart_uploads
+     WHERE uploadId = ? AND userId = ?`
+  )
+    .bind(uploadId, userId)
+    .all();
+
+  return (results?.[0] as unknown as MultipartUpload | undefined) ?? null;
+}
+
+export async function saveUploadedPart(
+  env: Env,
+  uploadId: string,
+  part: UploadedPart
+): Promise<void> {
+  // A retried part replaces the earlier attempt
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO multipart_upload_parts (uploadId, partNumber, etag, size, createdAt)
+       VALUES (?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(uploadId, partNumber) DO UPDATE SET
+         etag = excluded.etag,
+         size = excluded.size,
+         createdAt = excluded.createdAt`
+    ).bind(uploadId, part.partNumber, part.etag, part.size),
+    env.DB.prepare(
+      `UPDATE multipart_uploads SET updatedAt = datetime('now') WHERE uploadId = ?`
+    ).bind(uploadId)
+  ]);
+}
+
+export async function getUploadedParts(
+  env: Env,
+  uploadId: string
+): Promise<UploadedPart[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT partNumber, etag, size
+     FROM multipart_upload_parts
+     WHERE uploadId = ?
+     ORDER BY partNumber ASC`
+  )
+    .bind(uploadId)
+    .all();
+
+  return (results as unknown as UploadedPart[]) ?? [];
+}
+
+export async function setMultipartUploadStatus(
+  env: Env,
+  uploadId: string,
+  status: MultipartUploadStatus,
+  fileId: number | null = null
+): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE multipart_uploads
+     SET status = ?, fileId = COALESCE(?, fileId), updatedAt = datetime('now')
+     WHERE uploadId = ?`
+  )
+    .bind(status, fileId, uploadId)
+    .run();
+}
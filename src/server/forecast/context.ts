@@ -0,0 +1,27 @@
+import { readFocusDatasets } from "../billing/dataset";
+import { forecastSpend, type SpendForecast } from "./engine";
+import { createDailyCostCollector, type DailyCostCollector } from "./series";
+
+// Forecasts from the daily spend of all the thread's exports; null when they
+// cover less than a week
+export async function buildSpendForecast(
+  env: Env,
+  datasets: { focusKey: string | null }[]
+): Promise<SpendForecast | null> {
+  const collector = createDailyCostCollector();
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  return spendForecastFrom(collector);
+}
+
+export function spendForecastFrom(
+  collector: DailyCostCollector
+): SpendForecast | null {
+  if (collector.skipped > 0) {
+    console.log(
+      `⚠️ Forecast skipped ${collector.skipped} line items of services over the limit`
+    );
+  }
+
+  const series = collector.series();
+  return series ? forecastSpend(series) : null;
+}
@@ -0,0 +1,308 @@
+import { formatMoney, round } from "../utils/format";
+import type { DailyCostSeries } from "./series";
+import { DAY_MS } from "../utils/constants";
+
+export interface ForecastRange {
+  forecast: number;
+  lower: number;
+  upper: number;
+}
+
+export interface PeriodForecast extends ForecastRange {
+  label: string;
+  start: string;
+  end: string;
+  // Spend already billed within the period
+  actualToDate: number;
+}
+
+export interface ServiceForecast {
+  serviceName: string;
+  monthEnd: ForecastRange;
+  quarterEnd: ForecastRange;
+  nextTwelveMonths: ForecastRange;
+}
+
+export interface SpendForecast {
+  currency: string;
+  confidence: number;
+  historyStart: string;
+  historyEnd: string;
+  trainingDays: number;
+  // Fitted change of the total daily spend per day
+  dailyTrend: number;
+  monthEnd: PeriodForecast;
+  quarterEnd: PeriodForecast;
+  nextTwelveMonths: PeriodForecast;
+  months: { month: string; forecast: number }[];
+  services: ServiceForecast[];
+}
+
+export const FORECAST_CONFIDENCE = 0.9;
+// Two-sided normal quantile of the confidence above
+const Z_SCORE = 1.645;
+
+const MIN_HISTORY_DAYS = 7;
+// Recent spend predicts the next months better than last year's
+const TRAINING_DAYS = 90;
+// Two weeks give each weekday two samples for its offset
+const MIN_SEASONAL_DAYS = 14;
+const MAX_SERVICES_REPORTED = 10;
+
+// Linear trend plus an additive offset per weekday; being linear in the
+// spend, service forecasts add up to the total forecast
+interface DailyModel {
+  firstDay: number;
+  intercept: number;
+  slope: number;
+  weekday: number[];
+  sigma: number;
+  n: number;
+  meanX: number;
+  sxx: number;
+}
+
+// 1970-01-01 was a Thursday
+function weekdayOf(day: number): number {
+  return (day + 4) % 7;
+}
+
+function dayNumber(year: number, month: number, date: number): number {
+  return Math.floor(Date.UTC(year, month, date) / DAY_MS);
+}
+
+function isoDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function predict(model: DailyModel, day: number): number {
+  return (
+    model.intercept +
+    model.slope * (day - model.firstDay) +
+    model.weekday[weekdayOf(day)]
+  );
+}
+
+function fitDaily(values: Map<number, number>, days: number[]): DailyModel {
+  const firstDay = days[0];
+  const n = days.length;
+  const ys = days.map((day) => values.get(day) ?? 0);
+  const xs = days.map((day) => day - firstDay);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const model: DailyModel = {
+    firstDay,
+    intercept: meanY - slope * meanX,
+    slope,
+    weekday: new Array<number>(7).fill(0),
+    sigma: 0,
+    n,
+    meanX,
+    sxx
+  };
+
+  // Weekday offsets are the mean trend residual of each weekday, centered so
+  // they do not shift the trend
+  const seasonal = n >= MIN_SEASONAL_DAYS;
+  if (seasonal) {
+    const sums = new Array<number>(7).fill(0);
+    const counts = new Array<number>(7).fill(0);
+    for (let i = 0; i < n; i++) {
+      const weekday = weekdayOf(days[i]);
+      sums[weekday] += ys[i] - predict(model, days[i]);
+      counts[weekday]++;
+    }
+    const means = sums.map((sum, i) => (counts[i] > 0 ? sum / counts[i] : 0));
+    const present = means.filter((_, i) => counts[i] > 0);
+    const center = present.reduce((sum, m) => sum + m, 0) / present.length;
+    model.weekday = means.map((mean, i) => (counts[i] > 0 ? mean - center : 0));
+  }
+
+  let sse = 0;
+  for (let i = 0; i < n; i++) sse += (ys[i] - predict(model, days[i])) ** 2;
+  model.sigma = Math.sqrt(sse / Math.max(1, n - (seasonal ? 8 : 2)));
+  return model;
+}
+
+// Projected spend of the days `from` to `to` and its standard error: daily
+// noise adds up per day, trend error grows with the distance from the data
+function project(
+  model: DailyModel,
+  from: number,
+  to: number
+): { point: number; error: number } {
+  if (to < from) return { point: 0, error: 0 };
+  const days = to - from + 1;
+  let point = 0;
+  for (let day = from; day <= to; day++) point += predict(model, day);
+
+  const meanX = (from + to) / 2 - model.firstDay;
+  const trendVariance =
+    1 / model.n + (model.sxx > 0 ? (meanX - model.meanX) ** 2 / model.sxx : 0);
+  const variance = model.sigma ** 2 * (days + days * days * trendVariance);
+  return { point, error: Math.sqrt(variance) };
+}
+
+function forecastPeriod(
+  model: DailyModel,
+  values: Map<number, number>,
+  lastDay: number,
+  start: number,
+  end: number
+): ForecastRange & { actualToDate: number } {
+  let actualToDate = 0;
+  for (const [day, cost] of values) {
+    if (day >= start && day <= end) actualToDate += cost;
+  }
+  const { point, error } = project(model, Math.max(start, lastDay + 1), end);
+  const margin = Z_SCORE * error;
+  return {
+    forecast: round(actualToDate + Math.max(0, point)),
+    lower: round(actualToDate + Math.max(0, point - margin)),
+    upper: round(actualToDate + Math.max(0, point + margin)),
+    actualToDate: round(actualToDate)
+  };
+}
+
+function monthLabel(day: number, month: "long" | "short"): string {
+  return new Date(day * DAY_MS).toLocaleString("en-US", {
+    month,
+    year: "numeric",
+    timeZone: "UTC"
+  });
+}
+
+// Month-end, quarter-end and 12-month forecasts of the total and per service,
+// starting with the month after the last billed day
+export function forecastSpend(series: DailyCostSeries): SpendForecast | null {
+  if (series.observed.size < MIN_HISTORY_DAYS) return null;
+  const observed = [...series.observed].sort((a, b) => a - b);
+  const lastDay = observed[observed.length - 1];
+  const trainingDays = observed.filter((day) => day > lastDay - TRAINING_DAYS);
+  if (trainingDays.length < MIN_HISTORY_DAYS) return null;
+
+  const total = new Map<number, number>();
+  const ranked: { name: string; values: Map<number, number>; spend: number }[] =
+    [];
+  for (const [name, values] of series.services) {
+    let spend = 0;
+    for (const [day, cost] of values) {
+      total.set(day, (total.get(day) ?? 0) + cost);
+      if (day >= trainingDays[0]) spend += cost;
+    }
+    ranked.push({ name, values, spend });
+  }
+  ranked.sort((a, b) => b.spend - a.spend);
+
+  // Smaller services are forecast together
+  const reported = ranked.slice(0, MAX_SERVICES_REPORTED);
+  const rest = ranked.slice(MAX_SERVICES_REPORTED);
+  if (rest.length > 0) {
+    const values = new Map<number, number>();
+    for (const service of rest) {
+      for (const [day, cost] of service.values) {
+        values.set(day, (values.get(day) ?? 0) + cost);
+      }
+    }
+    reported.push({ name: "Other services", values, spend: 0 });
+  }
+
+  const next = new Date((lastDay + 1) * DAY_MS);
+  const year = next.getUTCFullYear();
+  const month = next.getUTCMonth();
+  const quarter = Math.floor(month / 3);
+  const monthStart = dayNumber(year, month, 1);
+  const periods = {
+    monthEnd: [monthStart, dayNumber(year, month + 1, 1) - 1],
+    quarterEnd: [
+      dayNumber(year, quarter * 3, 1),
+      dayNumber(year, quarter * 3 + 3, 1) - 1
+    ],
+    nextTwelveMonths: [monthStart, dayNumber(year, month + 12, 1) - 1]
+  } as const;
+  const labels = {
+    monthEnd: monthLabel(monthStart, "long"),
+    quarterEnd: `Q${quarter + 1} ${year}`,
+    nextTwelveMonths: `${monthLabel(monthStart, "short")} – ${monthLabel(periods.nextTwelveMonths[1], "short")}`
+  };
+
+  const totalModel = fitDaily(total, trainingDays);
+  const totalPeriod = (key: keyof typeof periods): PeriodForecast => {
+    const [start, end] = periods[key];
+    return {
+      label: labels[key],
+      start: isoDay(start),
+      end: isoDay(end),
+      ...forecastPeriod(totalModel, total, lastDay, start, end)
+    };
+  };
+
+  const months = Array.from({ length: 12 }, (_, i) => {
+    const start = dayNumber(year, month + i, 1);
+    const end = dayNumber(year, month + i + 1, 1) - 1;
+    return {
+      month: isoDay(start).slice(0, 7),
+      forecast: forecastPeriod(totalModel, total, lastDay, start, end).forecast
+    };
+  });
+
+  const services = reported.map(({ name, values }): ServiceForecast => {
+    const model = fitDaily(values, trainingDays);
+    const range = (key: keyof typeof periods): ForecastRange => {
+      const [start, end] = periods[key];
+      const { forecast, lower, upper } = forecastPeriod(
+        model,
+        values,
+        lastDay,
+        start,
+        end
+      );
+      return { forecast, lower, upper };
+    };
+    return {
+      serviceName: name,
+      monthEnd: range("monthEnd"),
+      quarterEnd: range("quarterEnd"),
+      nextTwelveMonths: range("nextTwelveMonths")
+    };
+  });
+
+  return {
+    currency: series.currency,
+    confidence: FORECAST_CONFIDENCE,
+    historyStart: isoDay(observed[0]),
+    historyEnd: isoDay(lastDay),
+    trainingDays: trainingDays.length,
+    dailyTrend: round(totalModel.slope),
+    monthEnd: totalPeriod("monthEnd"),
+    quarterEnd: totalPeriod("quarterEnd"),
+    nextTwelveMonths: totalPeriod("nextTwelveMonths"),
+    months,
+    services
+  };
+}
+
+export function formatForecast(forecast: SpendForecast): string {
+  const money = (value: number) => formatMoney(value, forecast.currency);
+  const range = (r: ForecastRange) =>
+    `${money(r.forecast)} (range ${money(r.lower)} – ${money(r.upper)})`;
+  const period = (name: string, p: PeriodForecast) =>
+    `- ${name}, ${p.label}: ${range(p)}, ${money(p.actualToDate)} billed to date`;
+
+  return [
+    `Spend forecast (${forecast.currency}, ${Math.round(forecast.confidence * 100)}% intervals, trend fitted on ${forecast.trainingDays} days of data through ${forecast.historyEnd}, daily spend trending ${forecast.dailyTrend >= 0 ? "+" : "-"}${money(Math.abs(forecast.dailyTrend))} per day):`,
+    period("Month-end", forecast.monthEnd),
+    period("Quarter-end", forecast.quarterEnd),
+    period("Next 12 months", forecast.nextTwelveMonths),
+    "Month-end by service:",
+    ...forecast.services.map((s) => `- ${s.serviceName}: ${range(s.monthEnd)}`)
+  ].join("\n");
+}
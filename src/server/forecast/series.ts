@@ -0,0 +1,83 @@
+import type { FocusRecord } from "../billing/focus";
+import { COLLECTOR_LIMITS, DAY_MS } from "../utils/constants";
+
+// Daily EffectiveCost per service in one billing currency; days are UTC day
+// numbers since the epoch
+export interface DailyCostSeries {
+  currency: string;
+  services: Map<string, Map<number, number>>;
+  // Days any export had charges for; other days are gaps, not zero spend
+  observed: Set<number>;
+}
+
+export interface DailyCostCollector {
+  add(record: FocusRecord): void;
+  series(): DailyCostSeries | null;
+  skipped: number;
+}
+
+const MAX_PERIOD_DAYS = 366;
+
+// Line items are spread evenly over the days of their charge period, so
+// monthly exports become flat daily spend
+function daysOf(record: FocusRecord): number[] {
+  const start = Date.parse(record.ChargePeriodStart);
+  if (!Number.isFinite(start)) return [];
+  const end = Date.parse(record.ChargePeriodEnd);
+  const first = Math.floor(start / DAY_MS);
+  const last = Number.isFinite(end)
+    ? Math.max(Math.ceil(end / DAY_MS), first + 1)
+    : first + 1;
+  const length = Math.min(last - first, MAX_PERIOD_DAYS);
+  return Array.from({ length }, (_, i) => first + i);
+}
+
+export function createDailyCostCollector(): DailyCostCollector {
+  const byCurrency = new Map<string, DailyCostSeries>();
+  const spendByCurrency = new Map<string, number>();
+
+  const collector: DailyCostCollector = {
+    skipped: 0,
+
+    add(record) {
+      const days = daysOf(record);
+      if (days.length === 0) return;
+
+      const currency = record.BillingCurrency || "USD";
+      let series = byCurrency.get(currency);
+      if (!series) {
+        series = { currency, services: new Map(), observed: new Set() };
+        byCurrency.set(currency, series);
+      }
+      spendByCurrency.set(
+        currency,
+        (spendByCurrency.get(currency) ?? 0) + Math.abs(record.EffectiveCost)
+      );
+
+      const name = record.ServiceName || "(unknown service)";
+      let service = series.services.get(name);
+      if (!service) {
+        if (series.services.size >= COLLECTOR_LIMITS.services) {
+          collector.skipped++;
+          return;
+        }
+        service = new Map();
+        series.services.set(name, service);
+      }
+
+      const share = record.EffectiveCost / days.length;
+      for (const day of days) {
+        series.observed.add(day);
+        service.set(day, (service.get(day) ?? 0) + share);
+      }
+    },
+
+    // Forecasts are made in the currency most of the spend is billed in
+    series() {
+      const [top] = [...spendByCurrency].sort((a, b) => b[1] - a[1]);
+      return top ? (byCurrency.get(top[0]) ?? null) : null;
+    }
+  };
+
+  return collector;
+}
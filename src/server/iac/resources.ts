@@ -0,0 +1,569 @@
+import {
+  type CatalogPrice,
+  type CloudProvider,
+  monthlyCost,
+  type PriceUnit
+} from "../pricing/catalog";
+import type { CatalogPricer } from "../pricing/lookup";
+
+export interface PricedComponent {
+  description: string;
+  service: string;
+  sku: string;
+  region: string;
+  unit: PriceUnit;
+  unitPrice: number;
+  quantity: number;
+  monthlyCost: number;
+}
+
+export interface ResourcePricing {
+  monthlyCost: number;
+  components: PricedComponent[];
+  note?: string;
+}
+
+type Attributes = Record<string, unknown>;
+
+type Pricer = (
+  attrs: Attributes,
+  region: string | null,
+  catalog: CatalogPricer
+) => ResourcePricing;
+
+// Billed only by requests, storage or transfer, which a plan does not show
+const USAGE_BASED_TYPES = new Set([
+  "aws_s3_bucket",
+  "aws_lambda_function",
+  "aws_sqs_queue",
+  "aws_sns_topic",
+  "aws_cloudwatch_log_group",
+  "aws_cloudfront_distribution",
+  "aws_api_gateway_rest_api",
+  "aws_apigatewayv2_api",
+  "aws_ecr_repository",
+  "aws_kms_key",
+  "aws_secretsmanager_secret",
+  "aws_route53_zone",
+  "azurerm_storage_account",
+  "azurerm_function_app",
+  "azurerm_linux_function_app",
+  "google_storage_bucket",
+  "google_cloudfunctions_function",
+  "google_cloudfunctions2_function",
+  "google_cloud_run_service",
+  "google_cloud_run_v2_service",
+  "google_pubsub_topic"
+]);
+
+const NO_CHARGE_TYPES =
+  /^(aws_(vpc|subnet|route|route_table|security_group|iam_|internet_gateway|network_acl|s3_bucket_)|azurerm_(resource_group|virtual_network|subnet|network_security_group|network_interface|role_)|google_(compute_network|compute_subnetwork|compute_firewall|project_iam|service_account))/;
+
+const USAGE_BASED: ResourcePricing = {
+  monthlyCost: 0,
+  components: [],
+  note: "usage-based"
+};
+
+function str(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+function num(value: unknown, fallback = 0): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+// Nested blocks are lists of one object in plan JSON
+function block(value: unknown): Attributes {
+  return (Array.isArray(value) ? value[0] : value) as Attributes;
+}
+
+function component(
+  price: CatalogPrice,
+  description: string,
+  quantity = 1
+): PricedComponent {
+  return {
+    description,
+    service: price.service,
+    sku: price.sku,
+    region: price.region,
+    unit: price.unit,
+    unitPrice: price.price,
+    quantity,
+    monthlyCost: monthlyCost(price, quantity)
+  };
+}
+
+// Sums the components that priced; a missing SKU leaves a note instead
+function priced(
+  parts: (PricedComponent | string | null)[],
+  note?: string
+): ResourcePricing {
+  const components = parts.filter(
+    (part): part is PricedComponent => typeof part === "object" && !!part
+  );
+  const missing = parts.filter((part) => typeof part === "string");
+  const notes = [...missing.map((sku) => `no catalog price for ${sku}`)];
+  if (note) notes.push(note);
+  return {
+    monthlyCost: components.reduce((sum, c) => sum + c.monthlyCost, 0),
+    components,
+    note: notes.length > 0 ? notes.join("; ") : undefined
+  };
+}
+
+function hourly(
+  catalog: CatalogPricer,
+  provider: CloudProvider,
+  service: string,
+  sku: string | null,
+  region: string | null,
+  label: string,
+  quantity = 1
+): PricedComponent | string | null {
+  if (!sku) return null;
+  const price = catalog.price({ provider, service, sku, region });
+  return price ? component(price, `${label} ${sku}`, quantity) : sku;
+}
+
+function storage(
+  catalog: CatalogPricer,
+  provider: CloudProvider,
+  service: string,
+  sku: string | null,
+  sizeGb: number,
+  region: string | null,
+  quantity = 1
+): PricedComponent | string | null {
+  if (!sku || sizeGb <= 0) return null;
+  const price = catalog.price({ provider, service, sku, region });
+  return price
+    ? component(price, `${sizeGb} GB ${sku} storage`, sizeGb * quantity)
+    : sku;
+}
+
+function ebsVolume(
+  catalog: CatalogPricer,
+  type: string,
+  size: number,
+  iops: number,
+  region: string | null
+): (PricedComponent | string | null)[] {
+  const parts = [storage(catalog, "aws", "ebs", type, size, region)];
+  // gp3 includes 3,000 IOPS; io1/io2 bill every provisioned IOPS
+  const billedIops = type === "gp3" ? Math.max(iops - 3000, 0) : iops;
+  if ((type === "io1" || type === "io2" || type === "gp3") && billedIops > 0) {
+    const price = catalog.price({
+      provider: "aws",
+      service: "ebs-iops",
+      sku: type,
+      region
+    });
+    parts.push(
+      price
+        ? component(price, `${billedIops} provisioned IOPS`, billedIops)
+        : type
+    );
+  }
+  return parts;
+}
+
+function cloudSqlTier(
+  catalog: CatalogPricer,
+  tier: string | null,
+  region: string | null,
+  quantity: number
+): (PricedComponent | string | null)[] {
+  const custom = tier?.match(/^db-custom-(\d+)-(\d+)$/);
+  if (!custom) {
+    return [
+      hourly(catalog, "gcp", "cloud-sql", tier, region, "Cloud SQL", quantity)
+    ];
+  }
+  const vcpus = Number(custom[1]);
+  const memoryGb = Number(custom[2]) / 1024;
+  const vcpu = catalog.price({
+    provider: "gcp",
+    service: "cloud-sql",
+    sku: "db-custom-vcpu",
+    region
+  });
+  const memory = catalog.price({
+    provider: "gcp",
+    service: "cloud-sql",
+    sku: "db-custom-memory-gb",
+    region
+  });
+  return [
+    vcpu ? component(vcpu, `${vcpus} vCPU`, vcpus * quantity) : tier,
+    memory
+      ? component(memory, `${memoryGb} GB memory`, memoryGb * quantity)
+      : tier
+  ];
+}
+
+const PRICERS: Record<string, Pricer> = {
+  aws_instance: (attrs, region, catalog) => {
+    const root = block(attrs.root_block_device);
+    const volumes = (
+      Array.isArray(attrs.ebs_block_device) ? attrs.ebs_block_device : []
+    ) as Attributes[];
+    return priced([
+      hourly(catalog, "aws", "ec2", str(attrs.instance_type), region, "EC2"),
+      ...(root
+        ? ebsVolume(
+            catalog,
+            str(root.volume_type) ?? "gp3",
+            num(root.volume_size),
+            num(root.iops),
+            region
+          )
+        : []),
+      ...volumes.flatMap((volume) =>
+        ebsVolume(
+          catalog,
+          str(volume.volume_type) ?? "gp3",
+          num(volume.volume_size),
+          num(volume.iops),
+          region
+        )
+      )
+    ]);
+  },
+  aws_ebs_volume: (attrs, region, catalog) =>
+    priced(
+      ebsVolume(
+        catalog,
+        str(attrs.type) ?? "gp3",
+        num(attrs.size),
+        num(attrs.iops),
+        region
+      )
+    ),
+  aws_db_instance: (attrs, region, catalog) => {
+    const copies = attrs.multi_az === true ? 2 : 1;
+    return priced(
+      [
+        hourly(
+          catalog,
+          "aws",
+          "rds",
+          str(attrs.instance_class),
+          region,
+          "RDS",
+          copies
+        ),
+        storage(
+          catalog,
+          "aws",
+          "rds-storage",
+          str(attrs.storage_type) ?? "gp2",
+          num(attrs.allocated_storage),
+          region,
+          copies
+        )
+      ],
+      copies > 1 ? "Multi-AZ doubles instance and storage" : undefined
+    );
+  },
+  aws_rds_cluster_instance: (attrs, region, catalog) =>
+    priced([
+      hourly(catalog, "aws", "rds", str(attrs.instance_class), region, "Aurora")
+    ]),
+  aws_elasticache_cluster: (attrs, region, catalog) =>
+    priced([
+      hourly(
+        catalog,
+        "aws",
+        "elasticache",
+        str(attrs.node_type),
+        region,
+        "ElastiCache",
+        num(attrs.num_cache_nodes, 1)
+      )
+    ]),
+  aws_elasticache_replication_group: (attrs, region, catalog) => {
+    const nodes =
+      num(attrs.num_cache_clusters) ||
+      num(attrs.num_node_groups, 1) * (num(attrs.replicas_per_node_group) + 1);
+    return priced([
+      hourly(
+        catalog,
+        "aws",
+        "elasticache",
+        str(attrs.node_type),
+        region,
+        "ElastiCache",
+        nodes
+      )
+    ]);
+  },
+  aws_nat_gateway: (_attrs, region, catalog) =>
+    priced([
+      hourly(catalog, "aws", "networking", "nat-gateway", region, "NAT Gateway")
+    ]),
+  aws_lb: (attrs, region, catalog) =>
+    priced(
+      [
+        hourly(
+          catalog,
+          "aws",
+          "networking",
+          `${str(attrs.load_balancer_type) ?? "application"}-load-balancer`,
+          region,
+          "Load balancer"
+        )
+      ],
+      "LCU charges are usage-based"
+    ),
+  aws_elb: (_attrs, region, catalog) =>
+    priced([
+      hourly(
+        catalog,
+        "aws",
+        "networking",
+        "classic-load-balancer",
+        region,
+        "ELB"
+      )
+    ]),
+  aws_eip: (_attrs, region, catalog) =>
+    priced([
+      hourly(catalog, "aws", "networking", "public-ipv4", region, "Elastic IP")
+    ]),
+  aws_eks_cluster: (_attrs, region, catalog) =>
+    priced([
+      hourly(
+        catalog,
+        "aws",
+        "networking",
+        "eks-cluster",
+        region,
+        "EKS control plane"
+      )
+    ]),
+  azurerm_linux_virtual_machine: (attrs, region, catalog) =>
+    priced([hourly(catalog, "azure", "vm", str(attrs.size), region, "VM")]),
+  azurerm_windows_virtual_machine: (attrs, region, catalog) =>
+    priced(
+      [hourly(catalog, "azure", "vm", str(attrs.size), region, "VM")],
+      "Windows license not included"
+    ),
+  azurerm_virtual_machine: (attrs, region, catalog) =>
+    priced([hourly(catalog, "azure", "vm", str(attrs.vm_size), region, "VM")]),
+  azurerm_linux_virtual_machine_scale_set: (attrs, region, catalog) =>
+    priced([
+      hourly(
+        catalog,
+        "azure",
+        "vm",
+        str(attrs.sku),
+        region,
+        "Scale set VM",
+        num(attrs.instances, 1)
+      )
+    ]),
+  azurerm_managed_disk: (attrs, region, catalog) =>
+    priced([
+      storage(
+        catalog,
+        "azure",
+        "managed-disk",
+        str(attrs.storage_account_type),
+        num(attrs.disk_size_gb),
+        region
+      )
+    ]),
+  azurerm_nat_gateway: (_attrs, region, catalog) =>
+    priced([
+      hourly(
+        catalog,
+        "azure",
+        "networking",
+        "nat-gateway",
+        region,
+        "NAT Gateway"
+      )
+    ]),
+  azurerm_public_ip: (_attrs, region, catalog) =>
+    priced([
+      hourly(catalog, "azure", "networking", "public-ip", region, "Public IP")
+    ]),
+  azurerm_lb: (attrs, region, catalog) =>
+    str(attrs.sku) === "Basic"
+      ? priced([], "Basic SKU has no charge")
+      : priced([
+          hourly(
+            catalog,
+            "azure",
+            "networking",
+            "load-balancer",
+            region,
+            "Load balancer"
+          )
+        ]),
+  azurerm_kubernetes_cluster: (attrs, region, catalog) => {
+    const pool = block(attrs.default_node_pool) ?? {};
+    return priced([
+      str(attrs.sku_tier) === "Standard"
+        ? hourly(
+            catalog,
+            "azure",
+            "networking",
+            "aks-standard",
+            region,
+            "AKS uptime SLA"
+          )
+        : null,
+      hourly(
+        catalog,
+        "azure",
+        "vm",
+        str(pool.vm_size),
+        region,
+        "AKS node",
+        num(pool.node_count, 1)
+      )
+    ]);
+  },
+  google_compute_instance: (attrs, region, catalog) => {
+    const disk = block(block(attrs.boot_disk)?.initialize_params) ?? {};
+    return priced([
+      hourly(
+        catalog,
+        "gcp",
+        "compute-engine",
+        str(attrs.machine_type),
+        region,
+        "Compute Engine"
+      ),
+      storage(
+        catalog,
+        "gcp",
+        "persistent-disk",
+        str(disk.type) ?? "pd-standard",
+        num(disk.size),
+        region
+      )
+    ]);
+  },
+  google_compute_disk: (attrs, region, catalog) =>
+    priced([
+      storage(
+        catalog,
+        "gcp",
+        "persistent-disk",
+        str(attrs.type) ?? "pd-standard",
+        num(attrs.size),
+        region
+      )
+    ]),
+  google_sql_database_instance: (attrs, region, catalog) => {
+    const settings = block(attrs.settings) ?? {};
+    const copies = str(settings.availability_type) === "REGIONAL" ? 2 : 1;
+    return priced(
+      [
+        ...cloudSqlTier(catalog, str(settings.tier), region, copies),
+        storage(
+          catalog,
+          "gcp",
+          "cloud-sql-storage",
+          (str(settings.disk_type) ?? "PD_SSD").toLowerCase(),
+          num(settings.disk_size, 10),
+          region,
+          copies
+        )
+      ],
+      copies > 1 ? "Regional availability doubles the instance" : undefined
+    );
+  },
+  google_compute_router_nat: (_attrs, region, catalog) =>
+    priced([
+      hourly(
+        catalog,
+        "gcp",
+        "networking",
+        "cloud-nat-gateway",
+        region,
+        "Cloud NAT"
+      )
+    ]),
+  google_compute_address: (attrs, region, catalog) =>
+    str(attrs.address_type) === "INTERNAL"
+      ? priced([])
+      : priced([
+          hourly(
+            catalog,
+            "gcp",
+            "networking",
+            "external-ip",
+            region,
+            "External IP"
+          )
+        ]),
+  google_compute_forwarding_rule: (_attrs, region, catalog) =>
+    priced([
+      hourly(
+        catalog,
+        "gcp",
+        "networking",
+        "forwarding-rule",
+        region,
+        "Forwarding rule"
+      )
+    ]),
+  google_container_cluster: (_attrs, region, catalog) =>
+    priced([
+      hourly(
+        catalog,
+        "gcp",
+        "networking",
+        "gke-cluster",
+        region,
+        "GKE cluster fee"
+      )
+    ])
+};
+
+PRICERS.aws_alb = PRICERS.aws_lb;
+
+export function providerFor(type: string): CloudProvider | null {
+  if (type.startsWith("aws_")) return "aws";
+  if (type.startsWith("azurerm_")) return "azure";
+  if (type.startsWith("google_")) return "gcp";
+  return null;
+}
+
+// Zones and display names are reduced to the region the catalog is keyed by
+export function regionFor(
+  provider: CloudProvider,
+  attrs: Attributes,
+  fallback: string | null
+): string | null {
+  if (provider === "aws") {
+    const zone = str(attrs.availability_zone);
+    return zone ? zone.replace(/[a-z]$/, "") : fallback;
+  }
+  if (provider === "azure") {
+    const location = str(attrs.location);
+    return location ? location.toLowerCase().replace(/\s+/g, "") : fallback;
+  }
+  const zone = str(attrs.zone);
+  return str(attrs.region) ?? (zone ? zone.replace(/-[a-z]$/, "") : fallback);
+}
+
+// Returns null for resource types the catalog cannot price
+export function priceResource(
+  type: string,
+  attrs: Attributes,
+  region: string | null,
+  catalog: CatalogPricer
+): ResourcePricing | null {
+  if (USAGE_BASED_TYPES.has(type)) return USAGE_BASED;
+  if (NO_CHARGE_TYPES.test(type)) {
+    return { monthlyCost: 0, components: [], note: "no charge" };
+  }
+  const pricer = PRICERS[type];
+  return pricer ? pricer(attrs, region, catalog) : null;
+}
@@ -0,0 +1,255 @@
+import type { CatalogPriceRow } from "../db/catalog";
+import type { CloudProvider } from "../pricing/catalog";
+import { createCatalogPricer } from "../pricing/lookup";
+import type { UploadedFile } from "../storage/file-storage";
+import { round } from "../utils/format";
+import {
+  type PricedComponent,
+  priceResource,
+  providerFor,
+  regionFor
+} from "./resources";
+
+export type PlanAction = "create" | "update" | "replace" | "delete" | "no-op";
+
+interface ResourceChange {
+  address: string;
+  mode?: string;
+  type: string;
+  change: {
+    actions: string[];
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+  };
+}
+
+export interface TerraformPlan {
+  format_version?: string;
+  resource_changes?: ResourceChange[];
+  configuration?: {
+    provider_config?: Record<
+      string,
+      { expressions?: { region?: { constant_value?: string } } }
+    >;
+  };
+}
+
+export interface PlanLineItem {
+  address: string;
+  type: string;
+  action: PlanAction;
+  region: string | null;
+  beforeMonthly: number | null;
+  afterMonthly: number | null;
+  deltaMonthly: number;
+  components: PricedComponent[];
+  note?: string;
+}
+
+export interface PlanCostEstimate {
+  catalogVersion: string | null;
+  currency: string;
+  beforeMonthly: number;
+  afterMonthly: number;
+  deltaMonthly: number;
+  actionCounts: Record<PlanAction, number>;
+  lineItems: PlanLineItem[];
+  unpriced: { address: string; type: string; action: PlanAction }[];
+}
+
+// `terraform show -json` of a saved plan is one document; very large plans
+// are left to the raw-text path
+const MAX_PLAN_BYTES = 32 * 1024 * 1024;
+const MAX_REPORTED_ITEMS = 40;
+
+export function isTerraformPlan(value: unknown): value is TerraformPlan {
+  const doc = value as Record<string, unknown> | null;
+  return (
+    !!doc &&
+    typeof doc === "object" &&
+    Array.isArray(doc.resource_changes) &&
+    "format_version" in doc
+  );
+}
+
+function actionFor(actions: string[]): PlanAction | null {
+  if (actions.includes("delete") && actions.includes("create")) {
+    return "replace";
+  }
+  const [action] = actions;
+  if (
+    action === "create" ||
+    action === "update" ||
+    action === "delete" ||
+    action === "no-op"
+  ) {
+    return action;
+  }
+  return null;
+}
+
+export async function loadTerraformPlan(
+  env: Env,
+  file: UploadedFile
+): Promise<TerraformPlan | null> {
+  const object = await env.FILES.get(file.r2Key);
+  if (!object) return null;
+  if (object.size > MAX_PLAN_BYTES) {
+    console.log(`⚠️ Terraform plan too large to price: ${object.size} bytes`);
+    await object.body.cancel();
+    return null;
+  }
+
+  try {
+    const doc = JSON.parse(await object.text());
+    return isTerraformPlan(doc) ? doc : null;
+  } catch {
+    return null;
+  }
+}
+
+// Providers whose catalog prices the plan needs
+export function planProviders(plan: TerraformPlan): CloudProvider[] {
+  const providers = (plan.resource_changes ?? []).map((change) =>
+    providerFor(change.type)
+  );
+  return [...new Set(providers.filter((p): p is CloudProvider => p !== null))];
+}
+
+// Prices every managed resource before and after the plan from the catalog
+// rows; unchanged resources count toward both totals
+export function estimatePlanCost(
+  plan: TerraformPlan,
+  rows: CatalogPriceRow[]
+): PlanCostEstimate {
+  const catalog = createCatalogPricer(rows);
+  const defaultRegions = Object.fromEntries(
+    Object.entries(plan.configuration?.provider_config ?? {}).map(
+      ([name, config]) => [
+        name,
+        config.expressions?.region?.constant_value ?? null
+      ]
+    )
+  );
+  const estimate: PlanCostEstimate = {
+    catalogVersion: null,
+    currency: "USD",
+    beforeMonthly: 0,
+    afterMonthly: 0,
+    deltaMonthly: 0,
+    actionCounts: { create: 0, update: 0, replace: 0, delete: 0, "no-op": 0 },
+    lineItems: [],
+    unpriced: []
+  };
+
+  for (const change of plan.resource_changes ?? []) {
+    if (change.mode === "data") continue;
+    const action = actionFor(change.change.actions);
+    const provider = providerFor(change.type);
+    if (!action) continue;
+    estimate.actionCounts[action]++;
+
+    const region = provider
+      ? regionFor(
+          provider,
+          change.change.after ?? change.change.before ?? {},
+          defaultRegions[provider] ?? null
+        )
+      : null;
+    const before = change.change.before
+      ? priceResource(change.type, change.change.before, region, catalog)
+      : null;
+    const after = change.change.after
+      ? priceResource(change.type, change.change.after, region, catalog)
+      : null;
+
+    if ((change.change.before && !before) || (change.change.after && !after)) {
+      if (action !== "no-op") {
+        estimate.unpriced.push({
+          address: change.address,
+          type: change.type,
+          action
+        });
+      }
+      continue;
+    }
+
+    const beforeMonthly = before ? round(before.monthlyCost) : null;
+    const afterMonthly = after ? round(after.monthlyCost) : null;
+    estimate.beforeMonthly += beforeMonthly ?? 0;
+    estimate.afterMonthly += afterMonthly ?? 0;
+    if (action === "no-op") continue;
+
+    estimate.lineItems.push({
+      address: change.address,
+      type: change.type,
+      action,
+      region,
+      beforeMonthly,
+      afterMonthly,
+      deltaMonthly: round((afterMonthly ?? 0) - (beforeMonthly ?? 0)),
+      components: (after ?? before)?.components ?? [],
+      note: (after ?? before)?.note
+    });
+  }
+
+  estimate.catalogVersion = catalog.versions().join(", ") || null;
+  estimate.beforeMonthly = round(estimate.beforeMonthly);
+  estimate.afterMonthly = round(estimate.afterMonthly);
+  estimate.deltaMonthly = round(estimate.afterMonthly - estimate.beforeMonthly);
+  estimate.lineItems.sort(
+    (a, b) => Math.abs(b.deltaMonthly) - Math.abs(a.deltaMonthly)
+  );
+  return estimate;
+}
+
+export function formatMoney(value: number | null, signed = false): string {
+  if (value === null) return "-";
+  const amount = Math.abs(value).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+  const sign = value < 0 ? "-" : signed && value > 0 ? "+" : "";
+  return `${sign}$${amount}`;
+}
+
+// Markdown priced diff, used both as the chat reply and as model input
+export function formatPlanEstimate(
+  fileName: string,
+  estimate: PlanCostEstimate
+): string {
+  const counts = Object.entries(estimate.actionCounts)
+    .filter(([action, count]) => count > 0 && action !== "no-op")
+    .map(([action, count]) => `${count} to ${action}`)
+    .join(", ");
+
+  const rows = estimate.lineItems.slice(0, MAX_REPORTED_ITEMS).map((item) => {
+    const priced = item.components.map((c) => c.description).join(", ");
+    const details = [priced, item.note].filter(Boolean).join("; ");
+    return `| ${item.address} | ${item.action} | ${formatMoney(item.beforeMonthly)} | ${formatMoney(item.afterMonthly)} | ${formatMoney(item.deltaMonthly, true)} | ${details} |`;
+  });
+  if (estimate.lineItems.length > MAX_REPORTED_ITEMS) {
+    rows.push(
+      `| ... ${estimate.lineItems.length - MAX_REPORTED_ITEMS} more | | | | | |`
+    );
+  }
+
+  const lines = [
+    `### Terraform plan cost estimate: ${fileName}`,
+    `Changes: ${counts || "none"}. Monthly cost ${formatMoney(estimate.beforeMonthly)} → ${formatMoney(estimate.afterMonthly)} (${formatMoney(estimate.deltaMonthly, true)}/month, ${estimate.currency}, on-demand list prices${estimate.catalogVersion ? ` from catalog ${estimate.catalogVersion}` : ""}).`,
+    "",
+    "| Resource | Action | Before/mo | After/mo | Delta/mo | Priced as |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...rows
+  ];
+  if (rows.length === 0) lines.splice(2);
+  if (estimate.unpriced.length > 0) {
+    lines.push(
+      "",
+      `Not priced (not in the catalog): ${estimate.unpriced
+        .map((item) => `${item.address} (${item.action})`)
+        .join(", ")}`
+    );
+  }
+  return lines.join("\n");
+}
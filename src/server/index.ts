@@ -1,8 +1,20 @@
 import { routeAgentRequest } from "agents";
 import { Chat } from "./ai/chat-agent";
 import { aiRoutes } from "./api/ai/routes";
+import { anomalyRoutes } from "./api/anomalies/routes";
+import { catalogRoutes } from "./api/catalog/routes";
 import { chatRoutes } from "./api/chat/routes";
+import { commitmentRoutes } from "./api/commitments/routes";
+import { currencyRoutes } from "./api/currency/routes";
+import { datasetRoutes } from "./api/datasets/routes";
 import { fileRoutes } from "./api/files/routes";
+import { forecastRoutes } from "./api/forecast/routes";
+import { rightsizingRoutes } from "./api/rightsizing/routes";
+import { scenarioRoutes } from "./api/scenarios/routes";
+import { showbackRoutes } from "./api/showback/routes";
+import { transferRoutes } from "./api/transfer/routes";
+import { unitCostRoutes } from "./api/unit/routes";
+import { uploadRoutes } from "./api/uploads/routes";
 import { getOrSetSessionId } from "./session/cookie";
 
 export default {
@@ -32,6 +44,54 @@ export default {
         // API: Files
         response = await fileRoutes(request, env, userId);
       }
+      if (!response) {
+        // API: Multipart uploads
+        response = await uploadRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Normalized billing datasets
+        response = await datasetRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Price catalog
+        response = await catalogRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Exchange rates and reporting currency
+        response = await currencyRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Rightsizing recommendations and safety margin
+        response = await rightsizingRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Reserved instance and savings plan analysis
+        response = await commitmentRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Spend anomalies and detection sensitivity
+        response = await anomalyRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Spend forecasts
+        response = await forecastRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Data transfer and Cloudflare scenarios
+        response = await transferRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Tag coverage and showback
+        response = await showbackRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: Business volumes and unit costs
+        response = await unitCostRoutes(request, env, userId);
+      }
+      if (!response) {
+        // API: What-if scenarios
+        response = await scenarioRoutes(request, env, userId);
+      }
       if (!response) {
         // API: AI tools
         response = await aiRoutes(request, env, userId);
@@ -0,0 +1,311 @@
+import { Gunzip, Unzip, UnzipInflate } from "fflate";
+import {
+  getChildFiles,
+  saveFileMetadata,
+  type UploadedFile
+} from "../storage/file-storage";
+import { createR2StreamWriter } from "../storage/stream-writer";
+import { convertParquetToCsv } from "./parquet";
+
+export type ArchiveKind = "gzip" | "zip" | "parquet";
+
+export interface ArchiveOwner {
+  userId: string;
+  threadId: string;
+  sessionId: string;
+}
+
+// Guards against zip bombs; compressed uploads are still capped at 10MB
+const MAX_EXPANDED_BYTES = 512 * 1024 * 1024;
+const MAX_ENTRIES = 100;
+
+export function archiveKindFor(fileName: string): ArchiveKind | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".zip")) return "zip";
+  if (name.endsWith(".gz") || name.endsWith(".gzip")) return "gzip";
+  if (name.endsWith(".parquet")) return "parquet";
+  return null;
+}
+
+// Name of the file an entry expands to: "cur.csv.gz" -> "cur.csv" and
+// "cur.snappy.parquet" -> "cur.snappy.csv" once converted
+export function logicalNameFor(fileName: string): string {
+  return fileName.replace(/\.gz(ip)?$/i, "").replace(/\.parquet$/i, ".csv");
+}
+
+function contentTypeFor(fileName: string): string {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "csv":
+      return "text/csv";
+    case "json":
+      return "application/json";
+    case "ndjson":
+    case "jsonl":
+      return "application/x-ndjson";
+    case "xlsx":
+      return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+    case "xls":
+      return "application/vnd.ms-excel";
+    default:
+      return "text/plain";
+  }
+}
+
+// Skips directories and the metadata macOS and Windows add to zips
+function isIgnoredEntry(name: string): boolean {
+  const base = name.split("/").pop() ?? "";
+  return (
+    name.endsWith("/") ||
+    name.startsWith("__MACOSX/") ||
+    base.startsWith(".") ||
+    base === "Thumbs.db"
+  );
+}
+
+async function saveEntry(
+  env: Env,
+  archive: UploadedFile,
+  owner: ArchiveOwner,
+  fileName: string,
+  contentType: string,
+  r2Key: string
+): Promise<UploadedFile> {
+  const fileSize = (await env.FILES.head(r2Key))?.size ?? 0;
+  const id = await saveFileMetadata(
+    env,
+    owner.userId,
+    owner.threadId,
+    owner.sessionId,
+    null,
+    fileName,
+    contentType,
+    fileSize,
+    r2Key,
+    archive.id
+  );
+  return {
+    id,
+    fileName,
+    fileType: contentType,
+    fileSize,
+    r2Key,
+    uploadedAt: new Date().toISOString(),
+    sessionId: owner.sessionId,
+    parentFileId: archive.id
+  };
+}
+
+interface EntrySink {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<UploadedFile>;
+  abort(): Promise<void>;
+}
+
+async function openEntrySink(
+  env: Env,
+  archive: UploadedFile,
+  owner: ArchiveOwner,
+  index: number,
+  entryName: string,
+  budget: { remaining: number }
+): Promise<EntrySink> {
+  const fileName = logicalNameFor(entryName);
+  const isParquet = /\.parquet(\.gz(ip)?)?$/i.test(entryName);
+  const extension = fileName.split(".").pop() ?? "bin";
+  const r2Key = `${archive.r2Key}.entry-${index}.${extension}`;
+  const rawKey = isParquet ? `${r2Key}.parquet` : r2Key;
+  const contentType = contentTypeFor(fileName);
+
+  const writer = await createR2StreamWriter(env, rawKey, contentType);
+  const inflated: Uint8Array[] = [];
+  const gunzip = /\.gz(ip)?$/i.test(entryName)
+    ? new Gunzip((chunk) => inflated.push(chunk))
+    : null;
+
+  const writeBytes = async (bytes: Uint8Array) => {
+    budget.remaining -= bytes.length;
+    if (budget.remaining < 0) {
+      throw new Error(`Archive expands beyond ${MAX_EXPANDED_BYTES} bytes`);
+    }
+    await writer.write(bytes);
+  };
+
+  const flushInflated = async () => {
+    for (const bytes of inflated.splice(0)) await writeBytes(bytes);
+  };
+
+  return {
+    async write(chunk) {
+      if (!gunzip) return await writeBytes(chunk);
+      gunzip.push(chunk);
+      await flushInflated();
+    },
+
+    async close() {
+      if (gunzip) {
+        gunzip.push(new Uint8Array(0), true);
+        await flushInflated();
+      }
+      await writer.close();
+
+      if (isParquet) {
+        await convertParquetToCsv(env, rawKey, r2Key);
+        await env.FILES.delete(rawKey);
+      }
+
+      console.log(`✅ Expanded ${entryName} from ${archive.fileName}`);
+      return await saveEntry(env, archive, owner, fileName, contentType, r2Key);
+    },
+
+    async abort() {
+      await writer.abort();
+    }
+  };
+}
+
+async function expandZip(
+  env: Env,
+  archive: UploadedFile,
+  owner: ArchiveOwner,
+  body: ReadableStream<Uint8Array>
+): Promise<UploadedFile[]> {
+  const budget = { remaining: MAX_EXPANDED_BYTES };
+  const entries: { name: string; sink: EntrySink | null }[] = [];
+  const events: { index: number; chunk: Uint8Array; final: boolean }[] = [];
+  const errors: Error[] = [];
+  const expanded: UploadedFile[] = [];
+
+  // fflate emits entry data synchronously while a chunk is pushed; the
+  // events are drained afterwards so R2 writes can be awaited in order
+  const unzip = new Unzip((entry) => {
+    if (isIgnoredEntry(entry.name)) return;
+    if (/\.zip$/i.test(entry.name)) {
+      console.log(`Skipping nested archive: ${entry.name}`);
+      return;
+    }
+    if (entries.length >= MAX_ENTRIES) {
+      errors.push(new Error(`Archive has more than ${MAX_ENTRIES} files`));
+      return;
+    }
+    const index = entries.push({ name: entry.name, sink: null }) - 1;
+    entry.ondata = (error, chunk, final) => {
+      if (error) errors.push(error);
+      else events.push({ index, chunk, final });
+    };
+    entry.start();
+  });
+  unzip.register(UnzipInflate);
+
+  const drain = async () => {
+    if (errors.length > 0) throw errors[0];
+    for (const { index, chunk, final } of events.splice(0)) {
+      const entry = entries[index];
+      entry.sink ??= await openEntrySink(
+        env,
+        archive,
+        owner,
+        index,
+        entry.name,
+        budget
+      );
+      await entry.sink.write(chunk);
+      if (final) {
+        const sink = entry.sink;
+        entry.sink = null;
+        expanded.push(await sink.close());
+      }
+    }
+  };
+
+  const reader = body.getReader();
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      unzip.push(value);
+      await drain();
+    }
+    unzip.push(new Uint8Array(0), true);
+    await drain();
+  } catch (error) {
+    for (const entry of entries) await entry.sink?.abort();
+    throw error;
+  }
+
+  return expanded;
+}
+
+// Expands a .gz, .zip or .parquet upload into logical files stored next to
+// it in R2, each recorded in uploaded_files with parentFileId = archive.id
+export async function expandArchive(
+  env: Env,
+  archive: UploadedFile,
+  owner: ArchiveOwner
+): Promise<UploadedFile[]> {
+  const kind = archiveKindFor(archive.fileName);
+  if (!kind) return [];
+
+  if (kind === "parquet") {
+    const r2Key = `${archive.r2Key}.csv`;
+    await convertParquetToCsv(env, archive.r2Key, r2Key);
+    console.log(`✅ Converted ${archive.fileName} to CSV`);
+    return [
+      await saveEntry(
+        env,
+        archive,
+        owner,
+        logicalNameFor(archive.fileName),
+        "text/csv",
+        r2Key
+      )
+    ];
+  }
+
+  const object = await env.FILES.get(archive.r2Key);
+  if (!object) return [];
+
+  if (kind === "zip") {
+    return await expandZip(env, archive, owner, object.body);
+  }
+
+  const budget = { remaining: MAX_EXPANDED_BYTES };
+  const sink = await openEntrySink(
+    env,
+    archive,
+    owner,
+    0,
+    archive.fileName,
+    budget
+  );
+  const reader = object.body.getReader();
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      await sink.write(value);
+    }
+    return [await sink.close()];
+  } catch (error) {
+    await sink.abort();
+    throw error;
+  }
+}
+
+// Archives are analyzed through the files they expanded into
+export async function resolveArchiveEntries(
+  env: Env,
+  files: UploadedFile[]
+): Promise<UploadedFile[]> {
+  const archiveIds = files
+    .filter((file) => archiveKindFor(file.fileName))
+    .map((file) => file.id);
+  if (archiveIds.length === 0) return files;
+
+  const known = new Set(files.map((file) => file.id));
+  const entries = await getChildFiles(env, archiveIds);
+  return [
+    ...files.filter((file) => !archiveIds.includes(file.id)),
+    ...entries.filter((entry) => !known.has(entry.id))
+  ];
+}
@@ -0,0 +1,81 @@
+import {
+  type AsyncBuffer,
+  parquetMetadataAsync,
+  parquetRead,
+  parquetSchema
+} from "hyparquet";
+import { toCsvLine } from "../billing/csv";
+import { createR2StreamWriter } from "../storage/stream-writer";
+
+// Parquet footers and column chunks are fetched with R2 range reads, so the
+// file is never loaded whole
+function r2AsyncBuffer(env: Env, r2Key: string, size: number): AsyncBuffer {
+  return {
+    byteLength: size,
+    async slice(start, end = size) {
+      const object = await env.FILES.get(r2Key, {
+        range: { offset: start, length: end - start }
+      });
+      if (!object) throw new Error(`Parquet object disappeared: ${r2Key}`);
+      return await object.arrayBuffer();
+    }
+  };
+}
+
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    // Maps such as CUR 2.0 resource_tags become the JSON the CSV readers expect
+    return JSON.stringify(value, (_key, v) =>
+      typeof v === "bigint" ? v.toString() : v
+    );
+  }
+  return String(value);
+}
+
+// Rewrites a Parquet file as CSV one row group at a time; returns the row count
+export async function convertParquetToCsv(
+  env: Env,
+  sourceKey: string,
+  targetKey: string
+): Promise<number> {
+  const head = await env.FILES.head(sourceKey);
+  if (!head) throw new Error(`Parquet file not found: ${sourceKey}`);
+
+  const file = r2AsyncBuffer(env, sourceKey, head.size);
+  const metadata = await parquetMetadataAsync(file);
+  const columns = parquetSchema(metadata).children.map(
+    (child) => child.element.name
+  );
+
+  const writer = await createR2StreamWriter(env, targetKey, "text/csv");
+  let rowStart = 0;
+  try {
+    await writer.write(toCsvLine(columns));
+    for (const group of metadata.row_groups) {
+      const rowEnd = rowStart + Number(group.num_rows);
+      let rows: unknown[][] = [];
+      await parquetRead({
+        file,
+        metadata,
+        columns,
+        rowStart,
+        rowEnd,
+        onComplete: (result) => {
+          rows = result;
+        }
+      });
+      for (const row of rows) {
+        await writer.write(toCsvLine(row.map(toCsvValue)));
+      }
+      rowStart = rowEnd;
+    }
+    await writer.close();
+  } catch (error) {
+    await writer.abort();
+    throw error;
+  }
+
+  return rowStart;
+}
@@ -0,0 +1,106 @@
+import {
+  getChildFiles,
+  readFileHead,
+  setFileRoles,
+  type UploadedFile
+} from "../storage/file-storage";
+import { archiveKindFor } from "./archive";
+import {
+  type FileRole,
+  type RoleDetection,
+  roleMatchesDeclared,
+  sniffContent
+} from "./sniff";
+import { isSpreadsheet, loadFileSheets } from "./spreadsheet";
+
+export interface FileClassification {
+  declaredRole: string | null;
+  detectedRole: FileRole;
+  detectedFormat: string | null;
+  roleWarning?: string;
+}
+
+const DECLARABLE_ROLES: FileRole[] = [
+  "billing",
+  "metrics",
+  "iac",
+  "pricing",
+  "invoice"
+];
+
+const ROLE_LABELS: Record<FileRole, string> = {
+  billing: "a billing export",
+  metrics: "utilization metrics",
+  iac: "infrastructure as code",
+  pricing: "a price list",
+  invoice: "an invoice",
+  other: "an unrecognized file"
+};
+
+async function detectFileRole(
+  env: Env,
+  file: UploadedFile
+): Promise<RoleDetection> {
+  // Workbooks and archives take the role their contents agree on
+  if (isSpreadsheet(file.fileName)) {
+    const roles = (await loadFileSheets(env, file)).map((sheet) => sheet.role);
+    if (roles.includes("billing")) return { role: "billing", format: null };
+    if (roles.includes("metrics")) return { role: "metrics", format: null };
+    return { role: "other", format: null };
+  }
+
+  if (archiveKindFor(file.fileName)) {
+    const entries = await getChildFiles(env, [file.id]);
+    const roles = new Set(entries.map((entry) => entry.detectedRole));
+    const [role] = [...roles];
+    return roles.size === 1 && role
+      ? { role: role as FileRole, format: null }
+      : { role: "other", format: null };
+  }
+
+  const head = await readFileHead(env, file.r2Key);
+  if (!head) return { role: "other", format: null };
+  return sniffContent(file.fileName, head);
+}
+
+// Sniffs a file's content, persists both roles and explains any mismatch
+// with the role the user attached it as
+export async function classifyFile(
+  env: Env,
+  file: UploadedFile,
+  declaredRole: string | null
+): Promise<FileClassification> {
+  const detection = await detectFileRole(env, file);
+  await setFileRoles(env, file.id, declaredRole, detection.role);
+  console.log(
+    `Detected ${file.fileName} as ${detection.role}${detection.format ? ` (${detection.format})` : ""}, declared ${declaredRole ?? "none"}`
+  );
+
+  const classification: FileClassification = {
+    declaredRole,
+    detectedRole: detection.role,
+    detectedFormat: detection.format
+  };
+  if (!roleMatchesDeclared(declaredRole, detection.role)) {
+    classification.roleWarning = `${file.fileName} was uploaded as a ${declaredRole} file but its content looks like ${ROLE_LABELS[detection.role]}${detection.format ? ` (${detection.format})` : ""}. It will be analyzed as ${detection.role}.`;
+  }
+  return classification;
+}
+
+// Content wins; the declared role only decides when content is inconclusive.
+// Files uploaded before roles were recorded are classified on first use.
+export async function resolveFileRole(
+  env: Env,
+  file: UploadedFile
+): Promise<FileRole> {
+  let detected = file.detectedRole as FileRole | null | undefined;
+  if (!detected) {
+    detected = (await classifyFile(env, file, file.declaredRole ?? null))
+      .detectedRole;
+  }
+  if (detected !== "other") return detected;
+  if (file.declaredRole === "plan") return "billing";
+  return DECLARABLE_ROLES.includes(file.declaredRole as FileRole)
+    ? (file.declaredRole as FileRole)
+    : "other";
+}
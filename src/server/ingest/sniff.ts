@@ -0,0 +1,182 @@
+import { normalizeHeader, parseCsvText } from "../billing/csv";
+import {
+  detectBillingFormat,
+  detectJsonBillingFormat
+} from "../billing/formats";
+import { looksLikeJson } from "../billing/ndjson";
+import { isKubectlTop, isNodeList } from "../k8s/kubectl";
+
+export type FileRole =
+  | "billing"
+  | "metrics"
+  | "iac"
+  | "pricing"
+  | "invoice"
+  | "other";
+
+export interface RoleDetection {
+  role: FileRole;
+  format: string | null;
+}
+
+const COST_COLUMN = /(cost|amount|charge|spend|billed)/;
+const PRICE_COLUMN =
+  /(priceperunit|unitprice|retailprice|ondemandprice|price|rate)$/;
+const PRODUCT_COLUMN =
+  /^(sku|skuid|armskuname|productfamily|instancetype|metername|unit|unitofmeasure)$/;
+const TIME_COLUMN = /^(timestamp|time|date|datetime|period)/;
+const METRIC_COLUMN =
+  /(cpu|memory|mem|utilization|usage|requests|latency|iops|network|bytes|disk|throughput|connections)/;
+const BUSINESS_COLUMN =
+  /^(mau|dau|wau|monthlyactive|dailyactive|active(users|customers|accounts)|customers|users|subscribers|orders|transactions|payments|bookings|checkouts|signups|sessions|apirequests|apicalls|requests|calls|events)/;
+// Business volume tables share the date and request columns of metric
+// exports but name no resource or utilization
+const INFRA_COLUMN =
+  /(cpu|memory|mem|utilization|latency|iops|bytes|disk|resource|instance|host|pod|node|container)/;
+
+// Classifies a tabular file by its header row; known billing exports first,
+// then price lists, business volumes, metric time series and finally
+// anything cost-like
+export function detectHeaderRole(header: string[]): RoleDetection {
+  if (header.length === 0) return { role: "other", format: null };
+
+  const billing = detectBillingFormat(header);
+  if (billing) return { role: "billing", format: billing.id };
+
+  const columns = header.map(normalizeHeader);
+  const has = (pattern: RegExp) => columns.some((c) => pattern.test(c));
+  const hasTime = has(TIME_COLUMN);
+
+  if (has(PRICE_COLUMN) && has(PRODUCT_COLUMN) && !has(COST_COLUMN)) {
+    return { role: "pricing", format: "price-list" };
+  }
+  if (hasTime && has(BUSINESS_COLUMN) && !has(INFRA_COLUMN)) {
+    return { role: "metrics", format: "business-metrics" };
+  }
+  if (hasTime && has(METRIC_COLUMN)) {
+    return { role: "metrics", format: "time-series" };
+  }
+  if (has(COST_COLUMN)) return { role: "billing", format: null };
+  return hasTime
+    ? { role: "metrics", format: "time-series" }
+    : { role: "other", format: null };
+}
+
+function detectJsonRole(value: unknown): RoleDetection {
+  const sample = Array.isArray(value) ? value[0] : value;
+  if (!sample || typeof sample !== "object") {
+    return { role: "other", format: null };
+  }
+
+  const billing = detectJsonBillingFormat(sample);
+  if (billing) return { role: "billing", format: billing.id };
+
+  const doc = sample as Record<string, unknown>;
+  if ("resource_changes" in doc || "planned_values" in doc) {
+    return { role: "iac", format: "terraform-plan" };
+  }
+  if ("AWSTemplateFormatVersion" in doc) {
+    return { role: "iac", format: "cloudformation" };
+  }
+  if (
+    typeof doc.$schema === "string" &&
+    doc.$schema.includes("deploymentTemplate")
+  ) {
+    return { role: "iac", format: "arm-template" };
+  }
+  if ("apiVersion" in doc && "kind" in doc) {
+    return { role: "iac", format: "kubernetes" };
+  }
+  // `aws ec2 describe-*` outputs list deployed resources, like a node list
+  if (
+    ["Volumes", "Addresses", "Snapshots", "Reservations"].some(
+      (key) => key in doc
+    )
+  ) {
+    return { role: "iac", format: "aws-inventory" };
+  }
+  if ("MetricDataResults" in doc || "Datapoints" in doc) {
+    return { role: "metrics", format: "cloudwatch" };
+  }
+  const data = doc.data as Record<string, unknown> | undefined;
+  if (
+    "resultType" in doc ||
+    (data !== null && typeof data === "object" && "resultType" in data)
+  ) {
+    return { role: "metrics", format: "prometheus" };
+  }
+  if (Array.isArray(doc.series) || "pointlist" in doc) {
+    return { role: "metrics", format: "datadog" };
+  }
+  if ("offerCode" in doc || ("products" in doc && "terms" in doc)) {
+    return { role: "pricing", format: "aws-price-list" };
+  }
+  if ("Items" in doc && "BillingCurrency" in doc) {
+    return { role: "pricing", format: "azure-retail-prices" };
+  }
+  return { role: "other", format: null };
+}
+
+// Large documents arrive truncated; fall back to the first NDJSON row, then
+// to the set of keys seen in the head
+function parseJsonHead(head: string): unknown {
+  const trimmed = head.trim();
+  for (const candidate of [trimmed, trimmed.split("\n", 1)[0]]) {
+    try {
+      return JSON.parse(candidate);
+    } catch {}
+  }
+  const keys = [...trimmed.matchAll(/"([A-Za-z_$][\w$]*)"\s*:/g)].map(
+    (match) => [match[1], true]
+  );
+  return Object.fromEntries(keys);
+}
+
+// Recognizes billing exports, metric time series, IaC and price lists from
+// the first bytes of a file; the file name only settles plain-text formats
+export function sniffContent(fileName: string, head: string): RoleDetection {
+  const text = head.replace(/^\uFEFF/, "");
+  const firstLine = text.split("\n", 1)[0].trim();
+
+  if (looksLikeJson(text)) return detectJsonRole(parseJsonHead(text));
+
+  if (/^apiVersion:/m.test(text) && /^kind:\s*\w+/m.test(text)) {
+    return { role: "iac", format: "kubernetes" };
+  }
+  if (/AWSTemplateFormatVersion|^\s+Type:\s*["']?AWS::/m.test(text)) {
+    return { role: "iac", format: "cloudformation" };
+  }
+  if (/^\s*(resource|provider|module)\s+"[\w-]+"/m.test(text)) {
+    return { role: "iac", format: "terraform" };
+  }
+  if (isKubectlTop(firstLine)) {
+    return { role: "metrics", format: "kubectl-top" };
+  }
+  if (isNodeList(firstLine)) {
+    return { role: "iac", format: "kubernetes-nodes" };
+  }
+  if (/^# (HELP|TYPE) /m.test(text)) {
+    return { role: "metrics", format: "prometheus" };
+  }
+
+  const delimiter = firstLine.includes("\t") ? "\t" : ",";
+  const header = parseCsvText(firstLine, delimiter)[0] ?? [];
+  if (header.length > 1) return detectHeaderRole(header);
+
+  return /\.(log|metrics)$/i.test(fileName)
+    ? { role: "metrics", format: null }
+    : { role: "other", format: null };
+}
+
+// Roles are declared per attachment; "other" makes no claim, an invoice may
+// be a billing export, and "plan" is the catch-all slot older uploads were
+// made through for billing, IaC and price inputs
+export function roleMatchesDeclared(
+  declared: string | null | undefined,
+  detected: FileRole
+): boolean {
+  if (!declared || declared === "other" || detected === "other") return true;
+  if (declared === "plan") return detected !== "metrics";
+  if (declared === "invoice") return detected === "billing";
+  return declared === detected;
+}
@@ -0,0 +1,116 @@
+import * as XLSX from "@e965/xlsx";
+import { parseCsvText } from "../billing/csv";
+import { detectBillingFormat } from "../billing/formats";
+import {
+  type FileSheet,
+  getFileSheets,
+  type NewFileSheet,
+  saveFileSheets,
+  type SheetRole
+} from "../db/sheets";
+import { readFileHead, type UploadedFile } from "../storage/file-storage";
+import { detectHeaderRole } from "./sniff";
+
+const SPREADSHEET_EXTENSIONS = ["xlsx", "xlsm", "xls", "ods"];
+
+// Workbooks are parsed in memory, unlike CSV exports which are streamed
+const MAX_WORKBOOK_BYTES = 50 * 1024 * 1024;
+
+export function isSpreadsheet(fileName: string): boolean {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return SPREADSHEET_EXTENSIONS.includes(extension);
+}
+
+export function sheetKeyFor(r2Key: string, sheetIndex: number): string {
+  return `${r2Key}.sheet-${sheetIndex}.csv`;
+}
+
+// Price lists are planning input and travel with the billing sheets
+export function detectSheetRole(header: string[]): SheetRole {
+  const { role } = detectHeaderRole(header);
+  if (role === "billing" || role === "pricing") return "billing";
+  return role === "metrics" ? "metrics" : "ignore";
+}
+
+// Converts every worksheet to CSV in R2 so the billing and metrics pipelines
+// never see the binary workbook
+export async function extractSheets(
+  env: Env,
+  file: UploadedFile
+): Promise<FileSheet[]> {
+  const object = await env.FILES.get(file.r2Key);
+  if (!object) return [];
+  if (object.size > MAX_WORKBOOK_BYTES) {
+    throw new Error(
+      `Workbook ${file.fileName} is ${object.size} bytes; export it as CSV to analyze files over ${MAX_WORKBOOK_BYTES} bytes`
+    );
+  }
+
+  const workbook = XLSX.read(new Uint8Array(await object.arrayBuffer()), {
+    type: "array",
+    dense: true,
+    cellDates: true,
+    dateNF: 'yyyy-mm-dd"T"hh:mm:ss'
+  });
+
+  const sheets: NewFileSheet[] = [];
+  for (const [sheetIndex, sheetName] of workbook.SheetNames.entries()) {
+    const worksheet = workbook.Sheets[sheetName];
+    const csv = XLSX.utils.sheet_to_csv(worksheet, {
+      blankrows: false,
+      rawNumbers: true
+    });
+    if (!csv.trim()) continue;
+
+    const r2Key = sheetKeyFor(file.r2Key, sheetIndex);
+    await env.FILES.put(r2Key, csv, {
+      httpMetadata: { contentType: "text/csv" }
+    });
+
+    const header = parseCsvText(csv.split("\n", 1)[0])[0] ?? [];
+    const range = XLSX.utils.decode_range(worksheet["!ref"] ?? "A1");
+    const detectedRole = detectSheetRole(header);
+    sheets.push({
+      sheetIndex,
+      sheetName,
+      r2Key,
+      rowCount: Math.max(range.e.r - range.s.r, 0),
+      role: detectedRole,
+      detectedRole
+    });
+  }
+
+  console.log(
+    `✅ Extracted ${sheets.length} sheet(s) from ${file.fileName}: ${sheets
+      .map((sheet) => `${sheet.sheetName} (${sheet.role})`)
+      .join(", ")}`
+  );
+  await saveFileSheets(env, file.id, sheets);
+  return await getFileSheets(env, file.id);
+}
+
+// Sheets are extracted at upload time; older uploads are extracted lazily
+export async function loadFileSheets(
+  env: Env,
+  file: UploadedFile
+): Promise<FileSheet[]> {
+  const existing = await getFileSheets(env, file.id);
+  if (existing.length > 0) return existing;
+  return await extractSheets(env, file);
+}
+
+// The first billing sheet in a recognised export format feeds the dataset
+export async function findBillingSheet(
+  env: Env,
+  file: UploadedFile
+): Promise<FileSheet | null> {
+  const sheets = await loadFileSheets(env, file);
+  for (const sheet of sheets) {
+    if (sheet.role !== "billing") continue;
+    const head = await readFileHead(env, sheet.r2Key);
+    if (!head) continue;
+    const header = parseCsvText(head.split("\n", 1)[0])[0] ?? [];
+    if (detectBillingFormat(header)) return sheet;
+  }
+  return null;
+}
@@ -0,0 +1,125 @@
+import { deleteCostDataset } from "../db/datasets";
+import { deleteMetricSummaries } from "../db/metrics";
+import { deleteFileSheets, type FileSheet } from "../db/sheets";
+import { getChildFiles, type UploadedFile } from "../storage/file-storage";
+import { type ArchiveOwner, archiveKindFor, expandArchive } from "./archive";
+import { classifyFile } from "./roles";
+import { extractSheets, isSpreadsheet } from "./spreadsheet";
+
+// Roles an attachment can be declared as; "plan" is the former catch-all
+// upload slot, still accepted from older clients
+const DECLARED_ROLES = [
+  "billing",
+  "metrics",
+  "iac",
+  "pricing",
+  "invoice",
+  "other",
+  "plan"
+];
+
+export type UploadResponseFile = UploadedFile & {
+  detectedFormat?: string | null;
+  roleWarning?: string;
+  sheets?: FileSheet[];
+  entries?: UploadResponseFile[];
+};
+
+export function toDeclaredRole(value: unknown): string | null {
+  return typeof value === "string" && DECLARED_ROLES.includes(value)
+    ? value
+    : null;
+}
+
+// Runs everything that follows a stored upload: workbook sheets, archive
+// expansion and role detection. Throws when the file cannot be read.
+export async function ingestUploadedFile(
+  env: Env,
+  uploadedFile: UploadedFile,
+  owner: ArchiveOwner,
+  declaredRole: string | null
+): Promise<{ file: UploadResponseFile; warnings: string[] }> {
+  const file: UploadResponseFile = { ...uploadedFile };
+
+  if (isSpreadsheet(file.fileName)) {
+    file.sheets = await extractSheets(env, file);
+  }
+  if (archiveKindFor(file.fileName)) {
+    file.entries = [];
+    for (const entry of await expandArchive(env, file, owner)) {
+      file.entries.push({
+        ...entry,
+        sheets: isSpreadsheet(entry.fileName)
+          ? await extractSheets(env, entry)
+          : undefined,
+        ...(await classifyFile(env, entry, declaredRole))
+      });
+    }
+  }
+  Object.assign(file, await classifyFile(env, file, declaredRole));
+
+  // Declared and detected roles that disagree are surfaced, not rejected
+  const warnings = [file, ...(file.entries ?? [])]
+    .map((f) => f.roleWarning)
+    .filter((warning): warning is string => Boolean(warning));
+  for (const warning of warnings) console.log(`⚠️ ${warning}`);
+
+  return { file, warnings };
+}
+
+// Re-checks a file, and any files expanded from it, against a newly declared
+// role
+export async function redeclareFileRole(
+  env: Env,
+  uploadedFile: UploadedFile,
+  declaredRole: string | null
+): Promise<UploadResponseFile> {
+  const file: UploadResponseFile = { ...uploadedFile };
+  const entries = await getChildFiles(env, [file.id]);
+  if (entries.length > 0) {
+    file.entries = [];
+    for (const entry of entries) {
+      file.entries.push({
+        ...entry,
+        ...(await classifyFile(env, entry, declaredRole))
+      });
+    }
+  }
+  Object.assign(file, await classifyFile(env, file, declaredRole));
+  return file;
+}
+
+// Removes a file, everything derived from it and any files expanded from it
+export async function deleteUploadedFile(
+  env: Env,
+  fileId: number
+): Promise<boolean> {
+  // Find R2 key for file
+  const { results } = await env.DB.prepare(
+    `SELECT r2Key FROM uploaded_files WHERE id = ?`
+  )
+    .bind(fileId)
+    .all();
+
+  if (results.length === 0) return false;
+
+  const { r2Key } = results[0] as { r2Key: string };
+
+  for (const entry of await getChildFiles(env, [fileId])) {
+    await deleteUploadedFile(env, entry.id);
+  }
+
+  // Delete from R2
+  await env.FILES.delete(r2Key);
+  console.log(`✅ Deleted from R2: ${r2Key}`);
+
+  // Delete from database
+  await deleteCostDataset(env, fileId);
+  await deleteMetricSummaries(env, fileId);
+  await deleteFileSheets(env, fileId);
+  await env.DB.prepare(`DELETE FROM uploaded_files WHERE id = ?`)
+    .bind(fileId)
+    .run();
+  console.log(`✅ Deleted from database: ${fileId}`);
+  return true;
+}
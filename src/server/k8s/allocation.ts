@@ -0,0 +1,565 @@
+import { formatMoney } from "../iac/terraform";
+import { sniffContent } from "../ingest/sniff";
+import type { CatalogPriceRow } from "../db/catalog";
+import {
+  type CatalogPrice,
+  type CloudProvider,
+  monthlyCost
+} from "../pricing/catalog";
+import { type CatalogPricer, createCatalogPricer } from "../pricing/lookup";
+import { instanceShapeFor } from "../pricing/shapes";
+import { readFileHead, type UploadedFile } from "../storage/file-storage";
+import { round } from "../utils/format";
+import {
+  type NodeUsage,
+  type PodUsage,
+  parseKubectlTop,
+  parseNodeList
+} from "./kubectl";
+import {
+  type ClusterNode,
+  parseManifests,
+  type ResourceAmounts,
+  type Workload
+} from "./manifests";
+import { formatCpu, formatMemory } from "./quantities";
+
+export interface ClusterSnapshot {
+  sources: string[];
+  workloads: Workload[];
+  nodes: ClusterNode[];
+  pods: PodUsage[];
+  nodeUsage: NodeUsage[];
+}
+
+export interface NodeCost {
+  name: string;
+  instanceType: string | null;
+  region: string | null;
+  capacityType: ClusterNode["capacityType"];
+  cpu: number | null;
+  memory: number | null;
+  cpuUsage: number | null;
+  memoryUsage: number | null;
+  monthlyCost: number | null;
+}
+
+export interface AllocationRow {
+  namespace: string;
+  cpuRequest: number;
+  memoryRequest: number;
+  cpuUsage: number | null;
+  memoryUsage: number | null;
+  requestCost: number | null;
+  usageCost: number | null;
+}
+
+export interface WorkloadAllocation extends AllocationRow {
+  name: string;
+  kind: Workload["kind"];
+  replicas: number;
+}
+
+export interface OverRequest {
+  namespace: string;
+  workload: string;
+  // null when usage was only reported per pod for a multi-container pod
+  container: string | null;
+  resource: "cpu" | "memory";
+  requested: number;
+  used: number;
+  suggested: number;
+  monthlySavings: number | null;
+}
+
+export interface ClusterAllocation {
+  catalogVersion: string | null;
+  currency: string;
+  sources: string[];
+  clusterMonthly: number | null;
+  capacity: { cpu: number; memory: number };
+  requested: { cpu: number; memory: number };
+  used: { cpu: number; memory: number } | null;
+  // Cost of capacity no workload requested
+  idleMonthly: number | null;
+  nodes: NodeCost[];
+  unpricedNodes: string[];
+  namespaces: AllocationRow[];
+  workloads: WorkloadAllocation[];
+  overRequested: OverRequest[];
+}
+
+const MAX_MANIFEST_BYTES = 32 * 1024 * 1024;
+const MAX_REPORTED_ROWS = 25;
+const GIB = 1024 ** 3;
+
+// Usage below half the request flags a container; the suggestion keeps 20%
+// headroom over observed usage
+const OVER_REQUEST_RATIO = 0.5;
+const HEADROOM = 1.2;
+
+export const COMPUTE_PROVIDERS: CloudProvider[] = ["aws", "azure", "gcp"];
+
+const COMPUTE_SERVICE: Partial<Record<CloudProvider, string>> = {
+  aws: "ec2",
+  azure: "vm",
+  gcp: "compute-engine"
+};
+
+// Deployment pods end in a ReplicaSet hash and a pod suffix, StatefulSet pods
+// in an ordinal, DaemonSet and Job pods in a pod suffix only
+const POD_SUFFIX = /^(?:[a-z0-9]{6,10}-)?[a-z0-9]{5}$|^\d+$/;
+
+export function createClusterSnapshot(): ClusterSnapshot {
+  return { sources: [], workloads: [], nodes: [], pods: [], nodeUsage: [] };
+}
+
+// Adds a manifest, node list or kubectl top file to the snapshot; returns
+// false for anything else so the caller can handle it another way
+export async function addClusterFile(
+  env: Env,
+  snapshot: ClusterSnapshot,
+  file: UploadedFile
+): Promise<boolean> {
+  const head = await readFileHead(env, file.r2Key);
+  if (!head) return false;
+  const { format } = sniffContent(file.fileName, head);
+  if (
+    format !== "kubernetes" &&
+    format !== "kubernetes-nodes" &&
+    format !== "kubectl-top"
+  ) {
+    return false;
+  }
+
+  const object = await env.FILES.get(file.r2Key);
+  if (!object) return false;
+  if (object.size > MAX_MANIFEST_BYTES) {
+    console.log(`⚠️ Kubernetes file too large to parse: ${object.size} bytes`);
+    await object.body.cancel();
+    return false;
+  }
+  const text = await object.text();
+
+  if (format === "kubernetes") {
+    const { workloads, nodes } = parseManifests(text);
+    if (workloads.length === 0 && nodes.length === 0) return false;
+    snapshot.workloads.push(...workloads);
+    snapshot.nodes.push(...nodes);
+  } else if (format === "kubernetes-nodes") {
+    snapshot.nodes.push(...parseNodeList(text));
+  } else {
+    const { pods, nodes } = parseKubectlTop(text);
+    snapshot.pods.push(...pods);
+    snapshot.nodeUsage.push(...nodes);
+  }
+  snapshot.sources.push(file.fileName);
+  return true;
+}
+
+// The same node can come from `kubectl get nodes` and a Node manifest
+function mergeNodes(nodes: ClusterNode[]): ClusterNode[] {
+  const merged = new Map<string, ClusterNode>();
+  for (const node of nodes) {
+    const existing = merged.get(node.name);
+    merged.set(
+      node.name,
+      existing
+        ? {
+            name: node.name,
+            instanceType: existing.instanceType ?? node.instanceType,
+            region: existing.region ?? node.region,
+            capacityType: existing.capacityType ?? node.capacityType,
+            cpu: existing.cpu ?? node.cpu,
+            memory: existing.memory ?? node.memory
+          }
+        : node
+    );
+  }
+  return [...merged.values()];
+}
+
+function priceNode(
+  node: ClusterNode,
+  usage: NodeUsage | undefined,
+  catalog: CatalogPricer
+): NodeCost {
+  const shape = node.instanceType ? instanceShapeFor(node.instanceType) : null;
+  const providers = shape ? [shape.provider] : COMPUTE_PROVIDERS;
+  let price: CatalogPrice | null = null;
+  for (const provider of node.instanceType ? providers : []) {
+    const service = COMPUTE_SERVICE[provider];
+    price = service
+      ? catalog.price({
+          provider,
+          service,
+          sku: node.instanceType as string,
+          region: node.region
+        })
+      : null;
+    if (price) break;
+  }
+
+  return {
+    name: node.name,
+    instanceType: node.instanceType,
+    region: node.region,
+    capacityType: node.capacityType,
+    cpu: node.cpu ?? shape?.vcpus ?? null,
+    memory: node.memory ?? (shape ? shape.memoryGib * GIB : null),
+    cpuUsage: usage?.cpu ?? null,
+    memoryUsage: usage?.memory ?? null,
+    monthlyCost: price ? round(monthlyCost(price)) : null
+  };
+}
+
+function workloadForPod(pod: PodUsage, workloads: Workload[]): Workload | null {
+  let best: Workload | null = null;
+  for (const workload of workloads) {
+    if (pod.namespace && pod.namespace !== workload.namespace) continue;
+    const matches =
+      pod.pod === workload.name ||
+      (pod.pod.startsWith(`${workload.name}-`) &&
+        POD_SUFFIX.test(pod.pod.slice(workload.name.length + 1)));
+    if (matches && (!best || workload.name.length > best.name.length)) {
+      best = workload;
+    }
+  }
+  return best;
+}
+
+interface WorkloadUsage {
+  pods: Set<string>;
+  cpu: number;
+  memory: number;
+  containers: Map<string, { cpu: number; memory: number }>;
+}
+
+function sumRequests(workload: Workload, resource: "cpu" | "memory"): number {
+  return workload.containers.reduce(
+    (sum, container) => sum + (container.requests[resource] ?? 0),
+    0
+  );
+}
+
+function suggestion(resource: "cpu" | "memory", used: number): number {
+  const target = used * HEADROOM;
+  // CPU in 5m steps, memory in whole MiB, never below what a pod can start on
+  return resource === "cpu"
+    ? Math.max((Math.ceil(Math.round(target * 1000) / 5) * 5) / 1000, 0.01)
+    : Math.max(Math.ceil(target / 1024 ** 2) * 1024 ** 2, 16 * 1024 ** 2);
+}
+
+// Splits node cost between CPU and memory evenly, then charges workloads for
+// their share of each: once by what they request (unrequested capacity is
+// idle) and once by what they actually use (the whole bill is distributed)
+export function allocateClusterCost(
+  snapshot: ClusterSnapshot,
+  prices: CatalogPriceRow[]
+): ClusterAllocation {
+  const catalog = createCatalogPricer(prices);
+  const usageByNode = new Map(snapshot.nodeUsage.map((n) => [n.name, n]));
+  const nodes = mergeNodes(snapshot.nodes).map((node) =>
+    priceNode(node, usageByNode.get(node.name), catalog)
+  );
+  const priced = nodes.filter((node) => node.monthlyCost !== null);
+  const clusterMonthly =
+    priced.length > 0
+      ? round(priced.reduce((sum, node) => sum + (node.monthlyCost ?? 0), 0))
+      : null;
+
+  const workloads = snapshot.workloads.map((workload) =>
+    workload.kind === "DaemonSet"
+      ? { ...workload, replicas: Math.max(nodes.length, 1) }
+      : workload
+  );
+  const usage = new Map<Workload, WorkloadUsage>();
+  for (const pod of snapshot.pods) {
+    let workload = workloadForPod(pod, workloads);
+    // Unmatched pods still count toward usage as standalone workloads
+    if (!workload) {
+      workload = {
+        namespace: pod.namespace ?? "default",
+        name: pod.pod,
+        kind: "Pod",
+        replicas: 1,
+        containers: []
+      };
+      workloads.push(workload);
+    }
+    const entry = usage.get(workload) ?? {
+      pods: new Set<string>(),
+      cpu: 0,
+      memory: 0,
+      containers: new Map()
+    };
+    entry.pods.add(pod.pod);
+    entry.cpu += pod.cpu;
+    entry.memory += pod.memory;
+    if (pod.container) {
+      const container = entry.containers.get(pod.container) ?? {
+        cpu: 0,
+        memory: 0
+      };
+      container.cpu += pod.cpu;
+      container.memory += pod.memory;
+      entry.containers.set(pod.container, container);
+    }
+    usage.set(workload, entry);
+  }
+
+  const hasUsage = snapshot.pods.length > 0;
+  const requested = { cpu: 0, memory: 0 };
+  const used = { cpu: 0, memory: 0 };
+  for (const workload of workloads) {
+    requested.cpu += sumRequests(workload, "cpu") * workload.replicas;
+    requested.memory += sumRequests(workload, "memory") * workload.replicas;
+    used.cpu += usage.get(workload)?.cpu ?? 0;
+    used.memory += usage.get(workload)?.memory ?? 0;
+  }
+
+  const nodeCpu = nodes.reduce((sum, node) => sum + (node.cpu ?? 0), 0);
+  const nodeMemory = nodes.reduce((sum, node) => sum + (node.memory ?? 0), 0);
+  // Partial node lists can leave requests above known capacity
+  const capacity = {
+    cpu: Math.max(nodeCpu, requested.cpu),
+    memory: Math.max(nodeMemory, requested.memory)
+  };
+  const half = clusterMonthly === null ? null : clusterMonthly / 2;
+  const cpuRate =
+    half !== null && capacity.cpu > 0 ? half / capacity.cpu : null;
+  const memoryRate =
+    half !== null && capacity.memory > 0 ? half / capacity.memory : null;
+
+  const costOf = (cpu: number, memory: number): number | null =>
+    cpuRate === null && memoryRate === null
+      ? null
+      : round(cpu * (cpuRate ?? 0) + memory * (memoryRate ?? 0));
+  const usageCostOf = (cpu: number, memory: number): number | null =>
+    half === null || !hasUsage
+      ? null
+      : round(
+          (used.cpu > 0 ? (half * cpu) / used.cpu : 0) +
+            (used.memory > 0 ? (half * memory) / used.memory : 0)
+        );
+
+  const overRequested: OverRequest[] = [];
+  const rows: WorkloadAllocation[] = workloads.map((workload) => {
+    const observed = usage.get(workload);
+    const cpuRequest = sumRequests(workload, "cpu") * workload.replicas;
+    const memoryRequest = sumRequests(workload, "memory") * workload.replicas;
+
+    if (observed) {
+      const podCount = observed.pods.size;
+      // Pod-level usage of a multi-container pod is compared to the pod total
+      const checks: {
+        container: string | null;
+        requests: ResourceAmounts;
+        usage: { cpu: number; memory: number } | null;
+      }[] =
+        observed.containers.size === 0 && workload.containers.length > 1
+          ? [
+              {
+                container: null,
+                requests: {
+                  cpu: sumRequests(workload, "cpu"),
+                  memory: sumRequests(workload, "memory")
+                },
+                usage: observed
+              }
+            ]
+          : workload.containers.map((container) => ({
+              container: container.name,
+              requests: container.requests,
+              usage:
+                observed.containers.get(container.name) ??
+                (workload.containers.length === 1 ? observed : null)
+            }));
+
+      for (const check of checks) {
+        if (!check.usage) continue;
+        for (const resource of ["cpu", "memory"] as const) {
+          const request = check.requests[resource];
+          const average = check.usage[resource] / podCount;
+          if (!request || average >= request * OVER_REQUEST_RATIO) continue;
+          const suggested = suggestion(resource, average);
+          const rate = resource === "cpu" ? cpuRate : memoryRate;
+          overRequested.push({
+            namespace: workload.namespace,
+            workload: workload.name,
+            container: check.container,
+            resource,
+            requested: request,
+            used: average,
+            suggested,
+            monthlySavings:
+              rate === null
+                ? null
+                : round((request - suggested) * workload.replicas * rate)
+          });
+        }
+      }
+    }
+
+    return {
+      namespace: workload.namespace,
+      name: workload.name,
+      kind: workload.kind,
+      replicas: workload.replicas,
+      cpuRequest,
+      memoryRequest,
+      cpuUsage: observed ? observed.cpu : hasUsage ? 0 : null,
+      memoryUsage: observed ? observed.memory : hasUsage ? 0 : null,
+      requestCost: costOf(cpuRequest, memoryRequest),
+      usageCost: observed
+        ? usageCostOf(observed.cpu, observed.memory)
+        : hasUsage
+          ? usageCostOf(0, 0)
+          : null
+    };
+  });
+
+  const namespaces = new Map<string, AllocationRow>();
+  for (const row of rows) {
+    const entry = namespaces.get(row.namespace) ?? {
+      namespace: row.namespace,
+      cpuRequest: 0,
+      memoryRequest: 0,
+      cpuUsage: hasUsage ? 0 : null,
+      memoryUsage: hasUsage ? 0 : null,
+      requestCost: null,
+      usageCost: null
+    };
+    entry.cpuRequest += row.cpuRequest;
+    entry.memoryRequest += row.memoryRequest;
+    if (entry.cpuUsage !== null) entry.cpuUsage += row.cpuUsage ?? 0;
+    if (entry.memoryUsage !== null) entry.memoryUsage += row.memoryUsage ?? 0;
+    namespaces.set(row.namespace, entry);
+  }
+  for (const entry of namespaces.values()) {
+    entry.requestCost = costOf(entry.cpuRequest, entry.memoryRequest);
+    entry.usageCost =
+      entry.cpuUsage === null || entry.memoryUsage === null
+        ? null
+        : usageCostOf(entry.cpuUsage, entry.memoryUsage);
+  }
+
+  const requestTotal = costOf(requested.cpu, requested.memory);
+  const byCost = (a: AllocationRow, b: AllocationRow) =>
+    (b.requestCost ?? b.usageCost ?? b.cpuRequest) -
+    (a.requestCost ?? a.usageCost ?? a.cpuRequest);
+
+  return {
+    catalogVersion: catalog.versions().join(", ") || null,
+    currency: "USD",
+    sources: snapshot.sources,
+    clusterMonthly,
+    capacity,
+    requested,
+    used: hasUsage ? used : null,
+    idleMonthly:
+      clusterMonthly === null || requestTotal === null
+        ? null
+        : round(clusterMonthly - requestTotal),
+    nodes,
+    unpricedNodes: nodes
+      .filter((node) => node.monthlyCost === null)
+      .map((node) => node.name),
+    namespaces: [...namespaces.values()].sort(byCost),
+    workloads: rows.sort(byCost),
+    overRequested: overRequested.sort(
+      (a, b) => (b.monthlySavings ?? 0) - (a.monthlySavings ?? 0)
+    )
+  };
+}
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : "-";
+}
+
+function amount(resource: "cpu" | "memory", value: number | null): string {
+  if (value === null) return "-";
+  return resource === "cpu" ? formatCpu(value) : formatMemory(value);
+}
+
+// Markdown allocation report, used both as the chat reply and as model input
+export function formatClusterAllocation(allocation: ClusterAllocation): string {
+  const lines = [
+    `### Kubernetes cost allocation: ${allocation.sources.join(", ")}`
+  ];
+
+  const priced = allocation.nodes.length - allocation.unpricedNodes.length;
+  const summary = [
+    allocation.clusterMonthly === null
+      ? `No priced nodes, so costs are not allocated; ${allocation.nodes.length} nodes listed.`
+      : `${priced} priced nodes cost ${formatMoney(allocation.clusterMonthly)}/month (${allocation.currency}, on-demand list prices${allocation.catalogVersion ? ` from catalog ${allocation.catalogVersion}` : ""}).`,
+    `Requests cover ${percent(allocation.requested.cpu, allocation.capacity.cpu)} of CPU and ${percent(allocation.requested.memory, allocation.capacity.memory)} of memory capacity.`
+  ];
+  if (allocation.used) {
+    summary.push(
+      `Measured usage is ${percent(allocation.used.cpu, allocation.capacity.cpu)} of CPU and ${percent(allocation.used.memory, allocation.capacity.memory)} of memory.`
+    );
+  }
+  if (allocation.idleMonthly !== null) {
+    summary.push(
+      `Unrequested capacity costs ${formatMoney(allocation.idleMonthly)}/month.`
+    );
+  }
+  lines.push(summary.join(" "));
+
+  lines.push(
+    "",
+    "| Namespace | CPU req | Mem req | CPU used | Mem used | By requests/mo | By usage/mo |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+    ...allocation.namespaces
+      .slice(0, MAX_REPORTED_ROWS)
+      .map(
+        (row) =>
+          `| ${row.namespace} | ${amount("cpu", row.cpuRequest)} | ${amount("memory", row.memoryRequest)} | ${amount("cpu", row.cpuUsage)} | ${amount("memory", row.memoryUsage)} | ${formatMoney(row.requestCost)} | ${formatMoney(row.usageCost)} |`
+      )
+  );
+
+  lines.push(
+    "",
+    "| Workload | Replicas | CPU req | Mem req | CPU used | Mem used | By requests/mo | By usage/mo |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...allocation.workloads
+      .slice(0, MAX_REPORTED_ROWS)
+      .map(
+        (row) =>
+          `| ${row.namespace}/${row.name} (${row.kind}) | ${row.replicas} | ${amount("cpu", row.cpuRequest)} | ${amount("memory", row.memoryRequest)} | ${amount("cpu", row.cpuUsage)} | ${amount("memory", row.memoryUsage)} | ${formatMoney(row.requestCost)} | ${formatMoney(row.usageCost)} |`
+      )
+  );
+  if (allocation.workloads.length > MAX_REPORTED_ROWS) {
+    lines.push(
+      `| ... ${allocation.workloads.length - MAX_REPORTED_ROWS} more | | | | | | | |`
+    );
+  }
+
+  if (allocation.overRequested.length > 0) {
+    lines.push(
+      "",
+      "#### Over-requested containers",
+      "",
+      "| Workload | Container | Resource | Requested | Used (avg/pod) | Suggested | Savings/mo |",
+      "| --- | --- | --- | --- | --- | --- | --- |",
+      ...allocation.overRequested
+        .slice(0, MAX_REPORTED_ROWS)
+        .map(
+          (item) =>
+            `| ${item.namespace}/${item.workload} | ${item.container ?? "(pod)"} | ${item.resource} | ${amount(item.resource, item.requested)} | ${amount(item.resource, item.used)} | ${amount(item.resource, item.suggested)} | ${formatMoney(item.monthlySavings)} |`
+        )
+    );
+  }
+
+  if (allocation.nodes.some((node) => node.capacityType === "spot")) {
+    lines.push("", "Spot nodes are priced at on-demand list prices.");
+  }
+  if (allocation.unpricedNodes.length > 0) {
+    lines.push(
+      "",
+      `Not priced (instance type unknown or not in the catalog): ${allocation.unpricedNodes.join(", ")}`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,111 @@
+import type { ClusterNode } from "./manifests";
+import { parseCpu, parseMemory } from "./quantities";
+
+export interface PodUsage {
+  namespace: string | null;
+  pod: string;
+  // Set when the output came from `kubectl top pods --containers`
+  container: string | null;
+  cpu: number;
+  memory: number;
+}
+
+export interface NodeUsage {
+  name: string;
+  cpu: number;
+  memory: number;
+}
+
+// kubectl aligns columns with a tabwriter, so cells are located by the
+// header offsets; -o wide columns such as OS-IMAGE contain spaces
+function parseTable(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+  const columns = [...lines[0].matchAll(/\S+/g)].map((match) => ({
+    name: match[0],
+    start: match.index ?? 0
+  }));
+
+  return lines.slice(1).map((line) =>
+    Object.fromEntries(
+      columns.map((column, index) => {
+        const end = columns[index + 1]?.start ?? line.length;
+        return [column.name, line.slice(column.start, end).trim()];
+      })
+    )
+  );
+}
+
+export function isKubectlTop(text: string): boolean {
+  return /^(NAMESPACE\s+)?(NAME|POD)\s+(NAME\s+)?CPU\(cores\)/.test(
+    text.trimStart()
+  );
+}
+
+// `kubectl top pods` (optionally -A and --containers) and `kubectl top nodes`
+export function parseKubectlTop(text: string): {
+  pods: PodUsage[];
+  nodes: NodeUsage[];
+} {
+  const rows = parseTable(text);
+  const pods: PodUsage[] = [];
+  const nodes: NodeUsage[] = [];
+  const isNodes = rows.length > 0 && "CPU(%)" in rows[0];
+
+  for (const row of rows) {
+    const cpu = parseCpu(row["CPU(cores)"]);
+    const memory = parseMemory(row["MEMORY(bytes)"]);
+    if (cpu === null || memory === null) continue;
+
+    if (isNodes) {
+      nodes.push({ name: row.NAME, cpu, memory });
+    } else if (row.POD) {
+      pods.push({
+        namespace: row.NAMESPACE || null,
+        pod: row.POD,
+        container: row.NAME,
+        cpu,
+        memory
+      });
+    } else {
+      pods.push({
+        namespace: row.NAMESPACE || null,
+        pod: row.NAME,
+        container: null,
+        cpu,
+        memory
+      });
+    }
+  }
+  return { pods, nodes };
+}
+
+export function isNodeList(text: string): boolean {
+  return /^NAME\s+STATUS\s+ROLES/.test(text.trimStart());
+}
+
+// `kubectl get nodes`, with the instance type, region and capacity type
+// read from -L label columns when present
+export function parseNodeList(text: string): ClusterNode[] {
+  return parseTable(text)
+    .filter((row) => row.NAME)
+    .map((row) => {
+      const capacityType = (
+        row.CAPACITYTYPE ??
+        row["CAPACITY-TYPE"] ??
+        ""
+      ).toLowerCase();
+      return {
+        name: row.NAME,
+        instanceType: row["INSTANCE-TYPE"] || null,
+        region: row.REGION || null,
+        capacityType: capacityType
+          ? capacityType === "spot"
+            ? "spot"
+            : "on-demand"
+          : null,
+        cpu: null,
+        memory: null
+      };
+    });
+}
@@ -0,0 +1,208 @@
+import { parseAllDocuments } from "yaml";
+import { parseCpu, parseMemory } from "./quantities";
+
+export type WorkloadKind =
+  | "Deployment"
+  | "StatefulSet"
+  | "DaemonSet"
+  | "ReplicaSet"
+  | "Job"
+  | "CronJob"
+  | "Pod";
+
+export interface ResourceAmounts {
+  cpu: number | null;
+  memory: number | null;
+}
+
+export interface ContainerSpec {
+  name: string;
+  requests: ResourceAmounts;
+  limits: ResourceAmounts;
+}
+
+export interface Workload {
+  namespace: string;
+  name: string;
+  kind: WorkloadKind;
+  // DaemonSets run one replica per node and are expanded at allocation time
+  replicas: number;
+  containers: ContainerSpec[];
+}
+
+export interface ClusterNode {
+  name: string;
+  instanceType: string | null;
+  region: string | null;
+  capacityType: "on-demand" | "spot" | null;
+  cpu: number | null;
+  memory: number | null;
+}
+
+type K8sObject = {
+  apiVersion?: string;
+  kind?: string;
+  metadata?: {
+    name?: string;
+    namespace?: string;
+    labels?: Record<string, string>;
+    ownerReferences?: unknown[];
+  };
+  spec?: Record<string, unknown>;
+  status?: Record<string, unknown>;
+  items?: unknown[];
+};
+
+const WORKLOAD_KINDS = new Set<string>([
+  "Deployment",
+  "StatefulSet",
+  "DaemonSet",
+  "ReplicaSet",
+  "Job",
+  "CronJob",
+  "Pod"
+]);
+
+const INSTANCE_TYPE_LABELS = [
+  "node.kubernetes.io/instance-type",
+  "beta.kubernetes.io/instance-type"
+];
+const REGION_LABELS = [
+  "topology.kubernetes.io/region",
+  "failure-domain.beta.kubernetes.io/region"
+];
+const CAPACITY_TYPE_LABELS = [
+  "eks.amazonaws.com/capacityType",
+  "karpenter.sh/capacity-type",
+  "cloud.google.com/gke-spot",
+  "cloud.google.com/gke-preemptible",
+  "kubernetes.azure.com/scalesetpriority"
+];
+
+function amounts(value: unknown): ResourceAmounts {
+  const resources = (value ?? {}) as Record<string, unknown>;
+  return {
+    cpu: parseCpu(resources.cpu),
+    memory: parseMemory(resources.memory)
+  };
+}
+
+function templateSpec(value: unknown): Record<string, unknown> | null {
+  return (value as K8sObject | undefined)?.spec ?? null;
+}
+
+// Deployments and friends keep the pod spec under spec.template; CronJobs
+// one level deeper under the job template
+function podSpecFor(object: K8sObject): Record<string, unknown> | null {
+  const spec = object.spec ?? {};
+  if (object.kind === "Pod") return spec;
+  if (object.kind === "CronJob") {
+    return templateSpec(templateSpec(spec.jobTemplate)?.template);
+  }
+  return templateSpec(spec.template);
+}
+
+function toWorkload(object: K8sObject): Workload | null {
+  // Pods and ReplicaSets exported from a live cluster are counted through
+  // the controller that owns them
+  if (object.metadata?.ownerReferences?.length) return null;
+  const podSpec = podSpecFor(object);
+  const name = object.metadata?.name;
+  if (!podSpec || !name) return null;
+
+  const containers = (
+    Array.isArray(podSpec.containers) ? podSpec.containers : []
+  ).map((container: Record<string, unknown>) => {
+    const resources = (container.resources ?? {}) as Record<string, unknown>;
+    return {
+      name: String(container.name ?? "main"),
+      requests: amounts(resources.requests),
+      limits: amounts(resources.limits)
+    };
+  });
+  if (containers.length === 0) return null;
+
+  const replicas = object.spec?.replicas ?? object.spec?.parallelism;
+  return {
+    namespace: object.metadata?.namespace ?? "default",
+    name,
+    kind: object.kind as WorkloadKind,
+    replicas: typeof replicas === "number" ? replicas : 1,
+    containers
+  };
+}
+
+function label(
+  labels: Record<string, string> | undefined,
+  keys: string[]
+): string | null {
+  for (const key of keys) {
+    if (labels?.[key]) return labels[key];
+  }
+  return null;
+}
+
+export function capacityTypeFor(
+  labels: Record<string, string> | undefined
+): ClusterNode["capacityType"] {
+  const value = label(labels, CAPACITY_TYPE_LABELS)?.toLowerCase();
+  if (!value) return null;
+  return value === "spot" || value === "true" ? "spot" : "on-demand";
+}
+
+function toNode(object: K8sObject): ClusterNode | null {
+  const name = object.metadata?.name;
+  if (!name) return null;
+  const labels = object.metadata?.labels;
+  const status = (object.status ?? {}) as Record<string, unknown>;
+  const capacity = amounts(status.allocatable ?? status.capacity);
+  return {
+    name,
+    instanceType: label(labels, INSTANCE_TYPE_LABELS),
+    region: label(labels, REGION_LABELS),
+    capacityType: capacityTypeFor(labels),
+    cpu: capacity.cpu,
+    memory: capacity.memory
+  };
+}
+
+function collectObjects(value: unknown, objects: K8sObject[]) {
+  if (Array.isArray(value)) {
+    for (const item of value) collectObjects(item, objects);
+    return;
+  }
+  const object = value as K8sObject | null;
+  if (!object || typeof object !== "object") return;
+  // kubectl get -o yaml wraps results in a List
+  if (Array.isArray(object.items)) {
+    collectObjects(object.items, objects);
+    return;
+  }
+  if (object.kind) objects.push(object);
+}
+
+// Reads multi-document YAML (or JSON, which is valid YAML) manifests and
+// kubectl output; unknown kinds are ignored
+export function parseManifests(text: string): {
+  workloads: Workload[];
+  nodes: ClusterNode[];
+} {
+  const objects: K8sObject[] = [];
+  for (const document of parseAllDocuments(text)) {
+    if (!("errors" in document) || document.errors.length > 0) continue;
+    collectObjects(document.toJS(), objects);
+  }
+
+  const workloads: Workload[] = [];
+  const nodes: ClusterNode[] = [];
+  for (const object of objects) {
+    if (object.kind === "Node") {
+      const node = toNode(object);
+      if (node) nodes.push(node);
+    } else if (object.kind && WORKLOAD_KINDS.has(object.kind)) {
+      const workload = toWorkload(object);
+      if (workload) workloads.push(workload);
+    }
+  }
+  return { workloads, nodes };
+}
@@ -0,0 +1,45 @@
+const MEMORY_SUFFIXES: Record<string, number> = {
+  Ki: 1024,
+  Mi: 1024 ** 2,
+  Gi: 1024 ** 3,
+  Ti: 1024 ** 4,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12
+};
+
+// "250m" → 0.25 cores, "2" → 2 cores; kubectl also prints nanocores
+export function parseCpu(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^([\d.]+)(n|u|m)?$/);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  const scale =
+    match[2] === "n" ? 1e-9 : match[2] === "u" ? 1e-6 : match[2] ? 1e-3 : 1;
+  return Number.isFinite(amount) ? amount * scale : null;
+}
+
+// "512Mi" and "1G" → bytes
+export function parseMemory(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^([\d.]+)([KMGT]i?|k)?$/);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  const scale = match[2] ? MEMORY_SUFFIXES[match[2]] : 1;
+  return Number.isFinite(amount) ? amount * scale : null;
+}
+
+export function formatCpu(cores: number): string {
+  return cores < 1 ? `${Math.round(cores * 1000)}m` : `${+cores.toFixed(2)}`;
+}
+
+export function formatMemory(bytes: number): string {
+  const gib = bytes / 1024 ** 3;
+  return gib >= 1
+    ? `${+gib.toFixed(2)}Gi`
+    : `${Math.round(bytes / 1024 ** 2)}Mi`;
+}
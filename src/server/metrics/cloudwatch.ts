@@ -0,0 +1,105 @@
+import { type MetricsCollector, metricKindFor, toTimestamp } from "./series";
+
+interface MetricDataResult {
+  Id?: string;
+  Label?: string;
+  Timestamps?: string[];
+  Values?: number[];
+}
+
+interface Datapoint {
+  Timestamp?: string;
+  Average?: number;
+  Maximum?: number;
+  Sum?: number;
+  Unit?: string;
+  ExtendedStatistics?: Record<string, number>;
+}
+
+const AWS_RESOURCE_ID =
+  /\b(i|vol|nat|eni|lb|db|cache|fs|eipalloc)-[0-9a-f]{8,17}\b/;
+
+export function isCloudWatchDocument(value: unknown): boolean {
+  const doc = (Array.isArray(value) ? value[0] : value) as
+    | Record<string, unknown>
+    | undefined;
+  return (
+    !!doc &&
+    typeof doc === "object" &&
+    (Array.isArray(doc.MetricDataResults) || Array.isArray(doc.Datapoints))
+  );
+}
+
+// Labels default to the metric name; dashboards and scripts usually prefix
+// the instance or dimension value ("i-0abc CPUUtilization")
+function splitLabel(
+  label: string,
+  id: string,
+  fallbackResource: string
+): { resourceId: string; metric: string } {
+  const tokens = label.split(/\s+/).filter(Boolean);
+  const metricIndex = tokens.findIndex((token) => metricKindFor(token));
+  const metric = metricIndex >= 0 ? tokens[metricIndex] : label || id;
+  const rest = tokens.filter((_, i) => i !== metricIndex).join(" ");
+  const awsId = `${label} ${id.replace(/_/g, "-")}`.match(AWS_RESOURCE_ID);
+  return { resourceId: awsId?.[0] ?? (rest || fallbackResource), metric };
+}
+
+function datapointValue(point: Datapoint): number | undefined {
+  return (
+    point.Average ??
+    point.Maximum ??
+    point.Sum ??
+    Object.values(point.ExtendedStatistics ?? {})[0]
+  );
+}
+
+// Reads `aws cloudwatch get-metric-data` and get-metric-statistics output
+export function parseCloudWatch(
+  value: unknown,
+  collector: MetricsCollector,
+  fallbackResource: string
+): void {
+  const docs = (Array.isArray(value) ? value : [value]) as Record<
+    string,
+    unknown
+  >[];
+
+  for (const doc of docs) {
+    for (const result of (doc.MetricDataResults ?? []) as MetricDataResult[]) {
+      const { resourceId, metric } = splitLabel(
+        result.Label ?? "",
+        result.Id ?? "",
+        fallbackResource
+      );
+      const values = result.Values ?? [];
+      values.forEach((v, i) => {
+        collector.add(
+          resourceId,
+          metric,
+          v,
+          toTimestamp(result.Timestamps?.[i])
+        );
+      });
+    }
+
+    if (Array.isArray(doc.Datapoints)) {
+      const { resourceId, metric } = splitLabel(
+        String(doc.Label ?? ""),
+        "",
+        fallbackResource
+      );
+      for (const point of doc.Datapoints as Datapoint[]) {
+        const v = datapointValue(point);
+        if (v === undefined) continue;
+        collector.add(
+          resourceId,
+          metric,
+          v,
+          toTimestamp(point.Timestamp),
+          point.Unit ?? null
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { normalizeHeader } from "../billing/csv";
+import { isDatadogQuery, parseDatadogQuery, resourceFromTags } from "./datadog";
+import { type MetricsCollector, toTimestamp } from "./series";
+
+const TIME_COLUMN = /^(timestamp|time|date|datetime|period)/;
+const RESOURCE_COLUMNS = [
+  "resourceid",
+  "resource",
+  "instanceid",
+  "instance",
+  "hostname",
+  "host",
+  "podname",
+  "pod",
+  "node",
+  "container",
+  "vm",
+  "scope",
+  "name"
+];
+const METRIC_COLUMNS = ["metric", "metricname", "query", "series"];
+
+// Handles Datadog timeseries exports and plain time-series CSVs, either wide
+// (one column per series) or long (metric and value columns). Returns the
+// format read, or null when the header has no time column.
+export async function parseMetricsCsv(
+  rows: AsyncIterable<string[]>,
+  collector: MetricsCollector,
+  fallbackResource: string
+): Promise<string | null> {
+  let header: string[] | null = null;
+  let timeIndex = -1;
+  let resourceIndex = -1;
+  let metricIndex = -1;
+  let valueIndex = -1;
+  let datadog = false;
+
+  for await (const row of rows) {
+    if (!header) {
+      header = row;
+      const columns = row.map(normalizeHeader);
+      const find = (names: string[]) =>
+        names.map((name) => columns.indexOf(name)).find((i) => i >= 0) ?? -1;
+      timeIndex = columns.findIndex((c) => TIME_COLUMN.test(c));
+      if (timeIndex < 0) return null;
+      resourceIndex = find(RESOURCE_COLUMNS);
+      metricIndex = find(METRIC_COLUMNS);
+      valueIndex = columns.indexOf("value");
+      datadog = row.some(isDatadogQuery);
+      continue;
+    }
+
+    const timestamp = toTimestamp(row[timeIndex]);
+    const rowResource = row[resourceIndex] || fallbackResource;
+
+    if (metricIndex >= 0 && valueIndex >= 0) {
+      const name = row[metricIndex] ?? "";
+      datadog ||= isDatadogQuery(name);
+      const { metric, tags } = parseDatadogQuery(name);
+      collector.add(
+        resourceFromTags(tags) ?? rowResource,
+        metric,
+        Number(row[valueIndex]),
+        timestamp
+      );
+      continue;
+    }
+
+    header.forEach((column, i) => {
+      if (i === timeIndex || i === resourceIndex || row[i] === "") return;
+      const { metric, tags } = parseDatadogQuery(column);
+      collector.add(
+        resourceFromTags(tags) ?? rowResource,
+        metric,
+        Number(row[i]),
+        timestamp
+      );
+    });
+  }
+
+  if (!header) return null;
+  return datadog ? "datadog" : "time-series";
+}
@@ -0,0 +1,80 @@
+import { type MetricsCollector, toTimestamp } from "./series";
+
+interface DatadogSeries {
+  metric?: string;
+  expression?: string;
+  scope?: string;
+  tag_set?: string[];
+  pointlist?: [number, number | null][];
+  unit?: ({ name?: string } | null)[];
+}
+
+const RESOURCE_TAGS = [
+  "pod_name",
+  "container_name",
+  "instance-id",
+  "host",
+  "name"
+];
+
+export function isDatadogDocument(value: unknown): boolean {
+  const doc = value as Record<string, unknown> | undefined;
+  return (
+    !!doc &&
+    typeof doc === "object" &&
+    (Array.isArray(doc.series) || "pointlist" in doc)
+  );
+}
+
+// Series are named by their query: "avg:system.cpu.user{host:web-1,env:prod}"
+export function isDatadogQuery(name: string): boolean {
+  return /^(\w+:)?[a-z][\w.]*\{.*\}$/i.test(name.trim());
+}
+
+export function parseDatadogQuery(name: string): {
+  metric: string;
+  tags: Record<string, string>;
+} {
+  const match = name.trim().match(/^(?:\w+:)?([^{]+)(?:\{(.*)\})?$/);
+  const tags: Record<string, string> = {};
+  for (const tag of (match?.[2] ?? "").split(",")) {
+    const [key, ...rest] = tag.trim().split(":");
+    if (key && rest.length > 0) tags[key] = rest.join(":");
+  }
+  return { metric: match?.[1].trim() || name.trim(), tags };
+}
+
+export function resourceFromTags(
+  tags: Record<string, string>
+): string | undefined {
+  return RESOURCE_TAGS.map((key) => tags[key]).find(Boolean);
+}
+
+// Reads /api/v1/query responses and single exported series
+export function parseDatadogJson(
+  value: unknown,
+  collector: MetricsCollector,
+  fallbackResource: string
+): void {
+  const doc = value as Record<string, unknown>;
+  const series = (
+    Array.isArray(doc.series) ? doc.series : [doc]
+  ) as DatadogSeries[];
+
+  for (const s of series) {
+    const query = parseDatadogQuery(s.metric ?? s.expression ?? "");
+    const scope = parseDatadogQuery(`x{${s.scope ?? ""}}`).tags;
+    for (const tag of s.tag_set ?? []) {
+      const [key, ...rest] = tag.split(":");
+      if (rest.length > 0) scope[key] = rest.join(":");
+    }
+    const resourceId =
+      resourceFromTags({ ...scope, ...query.tags }) ?? fallbackResource;
+    const unit = s.unit?.[0]?.name ?? null;
+
+    for (const [time, sample] of s.pointlist ?? []) {
+      if (sample === null) continue;
+      collector.add(resourceId, query.metric, sample, toTimestamp(time), unit);
+    }
+  }
+}
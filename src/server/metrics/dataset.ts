@@ -0,0 +1,148 @@
+import { readCsvRows } from "../billing/csv";
+import { looksLikeJson, readLines } from "../billing/ndjson";
+import {
+  getMetricsDataset,
+  type MetricsDataset,
+  saveMetricSummaries
+} from "../db/metrics";
+import { isSpreadsheet, loadFileSheets } from "../ingest/spreadsheet";
+import {
+  readFileHead,
+  setFileSourceFormat,
+  type UploadedFile
+} from "../storage/file-storage";
+import { isCloudWatchDocument, parseCloudWatch } from "./cloudwatch";
+import { parseMetricsCsv } from "./csv";
+import { isDatadogDocument, parseDatadogJson } from "./datadog";
+import {
+  isPrometheusDocument,
+  isPrometheusExposition,
+  parsePrometheusJson,
+  parsePrometheusText
+} from "./prometheus";
+import { createMetricsCollector, type MetricsCollector } from "./series";
+
+// Metric API responses are single JSON documents and are parsed whole;
+// larger files are left to the raw-text path
+const MAX_METRICS_JSON_BYTES = 32 * 1024 * 1024;
+
+async function parseJsonMetrics(
+  env: Env,
+  r2Key: string,
+  collector: MetricsCollector,
+  fallbackName: string
+): Promise<string | null> {
+  const object = await env.FILES.get(r2Key);
+  if (!object) return null;
+  if (object.size > MAX_METRICS_JSON_BYTES) {
+    console.log(`⚠️ Metrics JSON too large to summarize: ${object.size} bytes`);
+    await object.body.cancel();
+    return null;
+  }
+
+  let doc: unknown;
+  try {
+    doc = JSON.parse(await object.text());
+  } catch {
+    return null;
+  }
+
+  if (isCloudWatchDocument(doc)) {
+    parseCloudWatch(doc, collector, fallbackName);
+    return "cloudwatch";
+  }
+  if (isPrometheusDocument(doc)) {
+    parsePrometheusJson(doc, collector, fallbackName, fallbackName);
+    return "prometheus";
+  }
+  if (isDatadogDocument(doc)) {
+    parseDatadogJson(doc, collector, fallbackName);
+    return "datadog";
+  }
+  return null;
+}
+
+async function parseTextMetrics(
+  env: Env,
+  r2Key: string,
+  collector: MetricsCollector,
+  fallbackName: string
+): Promise<string | null> {
+  const head = await readFileHead(env, r2Key);
+  if (!head) return null;
+  if (looksLikeJson(head)) {
+    return await parseJsonMetrics(env, r2Key, collector, fallbackName);
+  }
+
+  const object = await env.FILES.get(r2Key);
+  if (!object) return null;
+
+  if (isPrometheusExposition(head)) {
+    await parsePrometheusText(readLines(object.body), collector, fallbackName);
+    return "prometheus";
+  }
+
+  const delimiter = head.split("\n", 1)[0].includes("\t") ? "\t" : ",";
+  return await parseMetricsCsv(
+    readCsvRows(object.body, delimiter),
+    collector,
+    fallbackName
+  );
+}
+
+// Turns CloudWatch, Prometheus, Datadog and plain time-series exports into
+// per-resource utilization summaries
+export async function parseMetricsFile(
+  env: Env,
+  file: UploadedFile
+): Promise<MetricsDataset | null> {
+  const collector = createMetricsCollector();
+  const fallbackName = file.fileName.replace(/\.[^.]+$/, "");
+  let format: string | null = null;
+
+  if (isSpreadsheet(file.fileName)) {
+    const sheets = await loadFileSheets(env, file);
+    for (const sheet of sheets.filter((s) => s.role === "metrics")) {
+      const object = await env.FILES.get(sheet.r2Key);
+      if (!object) continue;
+      format =
+        (await parseMetricsCsv(
+          readCsvRows(object.body),
+          collector,
+          sheet.sheetName
+        )) ?? format;
+    }
+  } else {
+    format = await parseTextMetrics(env, file.r2Key, collector, fallbackName);
+  }
+
+  const summaries = collector.summarize();
+  if (!format || summaries.length === 0) return null;
+
+  console.log(
+    `✅ Summarized ${summaries.length} ${format} series from ${file.fileName} (${collector.skipped} samples skipped)`
+  );
+  return { fileId: file.id, format, summaries };
+}
+
+// Returns the persisted summaries, parsing the file on first use only
+export async function loadMetricsDataset(
+  env: Env,
+  file: UploadedFile
+): Promise<MetricsDataset | null> {
+  const existing = await getMetricsDataset(env, file.id);
+  if (existing) {
+    console.log(`Using cached metrics for file: ${file.fileName}`);
+    return existing;
+  }
+
+  const parsed = await parseMetricsFile(env, file);
+  if (!parsed) return null;
+
+  await saveMetricSummaries(env, file.id, parsed.format, parsed.summaries);
+  // A workbook's source format belongs to its billing sheet
+  if (!isSpreadsheet(file.fileName)) {
+    await setFileSourceFormat(env, file.id, parsed.format);
+  }
+  return parsed;
+}
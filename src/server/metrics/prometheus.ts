@@ -0,0 +1,123 @@
+import { type MetricsCollector, toTimestamp } from "./series";
+
+interface PrometheusResult {
+  metric?: Record<string, string>;
+  values?: [number, string][];
+  value?: [number, string];
+}
+
+// Most specific first: a pod outranks the node it was scraped from
+const RESOURCE_LABELS = [
+  "pod",
+  "container",
+  "instance_id",
+  "instance",
+  "node",
+  "host",
+  "job"
+];
+
+const SAMPLE_LINE =
+  /^([a-zA-Z_:][\w:]*)(?:\{(.*)\})?\s+(\S+)(?:\s+(-?\d+))?\s*$/;
+const LABEL_PAIR = /([a-zA-Z_]\w*)="((?:[^"\\]|\\.)*)"/g;
+
+// Cumulative series only become utilization once a query applies rate()
+const COUNTER_SUFFIX = /_(total|count|sum|bucket)$/;
+
+export function isPrometheusDocument(value: unknown): boolean {
+  const doc = value as Record<string, unknown> | undefined;
+  if (!doc || typeof doc !== "object" || Array.isArray(doc)) return false;
+  const data = doc.data;
+  return (
+    "resultType" in doc ||
+    (typeof data === "object" && data !== null && "resultType" in data)
+  );
+}
+
+export function isPrometheusExposition(head: string): boolean {
+  const line = head
+    .split("\n")
+    .find((l) => l.trim() && !l.startsWith("#"))
+    ?.trim();
+  const sample = line?.match(SAMPLE_LINE);
+  return (
+    /^# (HELP|TYPE) /m.test(head) ||
+    (!!sample && !Number.isNaN(Number(sample[3])))
+  );
+}
+
+function resourceFor(
+  labels: Record<string, string>,
+  fallbackResource: string
+): string {
+  const name = RESOURCE_LABELS.map((label) => labels[label]).find(Boolean);
+  if (!name) return fallbackResource;
+  return labels.namespace && labels.pod
+    ? `${labels.namespace}/${labels.pod}`
+    : name;
+}
+
+// Reads range (matrix) and instant (vector) query responses from
+// /api/v1/query_range and /api/v1/query
+export function parsePrometheusJson(
+  value: unknown,
+  collector: MetricsCollector,
+  fallbackResource: string,
+  fallbackMetric: string
+): void {
+  const doc = value as Record<string, unknown>;
+  const data = (doc.data ?? doc) as { result?: PrometheusResult[] };
+
+  for (const series of data.result ?? []) {
+    const labels = series.metric ?? {};
+    const metric = labels.__name__ ?? fallbackMetric;
+    const resourceId = resourceFor(labels, fallbackResource);
+    const samples = series.values ?? (series.value ? [series.value] : []);
+    for (const [time, sample] of samples) {
+      collector.add(resourceId, metric, Number(sample), toTimestamp(time));
+    }
+  }
+}
+
+// Reads the text exposition format line by line; each scrape contributes one
+// sample per series, so a file of concatenated scrapes forms a time series
+export async function parsePrometheusText(
+  lines: AsyncIterable<string>,
+  collector: MetricsCollector,
+  fallbackResource: string
+): Promise<void> {
+  const counters = new Set<string>();
+
+  for await (const raw of lines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const type = line.match(/^# TYPE\s+(\S+)\s+(\w+)/);
+    if (type) {
+      if (type[2] === "counter" || type[2] === "histogram") {
+        counters.add(type[1]);
+      }
+      continue;
+    }
+    if (line.startsWith("#")) continue;
+
+    const match = line.match(SAMPLE_LINE);
+    if (!match) continue;
+    const [, metric, labelText, sample, time] = match;
+    if (counters.has(metric) || COUNTER_SUFFIX.test(metric)) {
+      collector.skipped++;
+      continue;
+    }
+
+    const labels: Record<string, string> = {};
+    for (const pair of (labelText ?? "").matchAll(LABEL_PAIR)) {
+      labels[pair[1]] = pair[2];
+    }
+    collector.add(
+      resourceFor(labels, fallbackResource),
+      metric,
+      Number(sample),
+      toTimestamp(time)
+    );
+  }
+}
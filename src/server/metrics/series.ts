@@ -0,0 +1,197 @@
+import { round } from "../utils/format";
+
+export type MetricKind = "cpu" | "memory" | "network" | "iops" | "objects";
+
+export interface UtilizationSummary {
+  resourceId: string;
+  metric: string;
+  kind: MetricKind;
+  unit: string | null;
+  sampleCount: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  max: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+}
+
+export interface MetricsCollector {
+  add(
+    resourceId: string,
+    metric: string,
+    value: number,
+    timestamp: string | null,
+    unit?: string | null
+  ): void;
+  summarize(): UtilizationSummary[];
+  skipped: number;
+}
+
+interface SeriesState {
+  resourceId: string;
+  metric: string;
+  kind: MetricKind;
+  unit: string | null;
+  values: number[];
+  periodStart: string | null;
+  periodEnd: string | null;
+}
+
+// Bounds persisted rows for exports covering whole fleets
+const MAX_SERIES = 1000;
+const MAX_PROMPT_SERIES = 100;
+
+// S3 request metrics count as operations and transfer; they give buckets
+// their access pattern
+const IOPS_METRIC =
+  /(iops|readops|writeops|ops_?(total)?$|operations|io\.[rw]_s|disk_(reads|writes)_completed|(get|put|all|head|list)requests)/;
+// Stored object counts are a level, not a rate of operations
+const OBJECTS_METRIC = /numberofobjects/;
+const NETWORK_METRIC =
+  /(network|net[._]|netin|netout|bytes_?(in|out|received|sent|downloaded|uploaded)|receive|transmit|_rx_|_tx_)/;
+
+// Disk throughput, latency and the like are not utilization and are dropped
+export function metricKindFor(metric: string): MetricKind | null {
+  const name = metric.toLowerCase();
+  if (/cpu/.test(name)) return "cpu";
+  if (/mem|swap/.test(name)) return "memory";
+  if (OBJECTS_METRIC.test(name)) return "objects";
+  if (IOPS_METRIC.test(name)) return "iops";
+  if (NETWORK_METRIC.test(name)) return "network";
+  return null;
+}
+
+export function unitFor(metric: string): string | null {
+  const name = metric.toLowerCase();
+  if (/(utilization|percent|pct|cpu\.(user|system|idle|iowait))/.test(name)) {
+    return "Percent";
+  }
+  if (/ratio$/.test(name)) return "Ratio";
+  if (/bytes/.test(name)) return "Bytes";
+  if (/seconds/.test(name)) return "Seconds";
+  return null;
+}
+
+// Accepts ISO strings and Unix timestamps in seconds or milliseconds
+export function toTimestamp(value: string | number | undefined): string | null {
+  if (value === undefined || value === "") return null;
+  const numeric = typeof value === "number" ? value : Number(value);
+  const time = Number.isFinite(numeric)
+    ? numeric > 1e11
+      ? numeric
+      : numeric * 1000
+    : Date.parse(String(value));
+  return Number.isFinite(time) ? new Date(time).toISOString() : null;
+}
+
+// Nearest-rank percentile over sorted values
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+export function createMetricsCollector(): MetricsCollector {
+  const series = new Map<string, SeriesState>();
+
+  const collector: MetricsCollector = {
+    skipped: 0,
+
+    add(resourceId, metric, value, timestamp, unit = null) {
+      const kind = metricKindFor(metric);
+      if (!kind || !Number.isFinite(value)) {
+        collector.skipped++;
+        return;
+      }
+
+      const key = `${resourceId}\u0000${metric}`;
+      let state = series.get(key);
+      if (!state) {
+        if (series.size >= MAX_SERIES) {
+          collector.skipped++;
+          return;
+        }
+        state = {
+          resourceId,
+          metric,
+          kind,
+          unit: unit ?? unitFor(metric),
+          values: [],
+          periodStart: null,
+          periodEnd: null
+        };
+        series.set(key, state);
+      }
+
+      state.values.push(value);
+      if (timestamp) {
+        if (!state.periodStart || timestamp < state.periodStart) {
+          state.periodStart = timestamp;
+        }
+        if (!state.periodEnd || timestamp > state.periodEnd) {
+          state.periodEnd = timestamp;
+        }
+      }
+    },
+
+    summarize() {
+      return [...series.values()]
+        .map((state) => {
+          const sorted = Float64Array.from(state.values).sort();
+          const sum = sorted.reduce((total, value) => total + value, 0);
+          return {
+            resourceId: state.resourceId,
+            metric: state.metric,
+            kind: state.kind,
+            unit: state.unit,
+            sampleCount: sorted.length,
+            avg: round(sum / sorted.length, 3),
+            p50: round(percentile(sorted, 50), 3),
+            p95: round(percentile(sorted, 95), 3),
+            max: round(sorted[sorted.length - 1], 3),
+            periodStart: state.periodStart,
+            periodEnd: state.periodEnd
+          };
+        })
+        .sort(
+          (a, b) =>
+            a.resourceId.localeCompare(b.resourceId) ||
+            a.kind.localeCompare(b.kind) ||
+            a.metric.localeCompare(b.metric)
+        );
+    }
+  };
+
+  return collector;
+}
+
+export function formatMetricsForPrompt(
+  fileName: string,
+  format: string,
+  summaries: UtilizationSummary[]
+): string {
+  const starts = summaries
+    .map((s) => s.periodStart)
+    .filter(Boolean)
+    .sort();
+  const ends = summaries
+    .map((s) => s.periodEnd)
+    .filter(Boolean)
+    .sort();
+  const resources = new Set(summaries.map((s) => s.resourceId));
+
+  const rows = summaries.slice(0, MAX_PROMPT_SERIES).map((s) => {
+    const unit = s.unit ? `, ${s.unit}` : "";
+    return `- ${s.resourceId} ${s.metric} (${s.kind}${unit}): p50 ${s.p50}, p95 ${s.p95}, max ${s.max}, avg ${s.avg} over ${s.sampleCount} samples`;
+  });
+  if (summaries.length > MAX_PROMPT_SERIES) {
+    rows.push(`- ... ${summaries.length - MAX_PROMPT_SERIES} more series`);
+  }
+
+  return [
+    `Utilization metrics: ${fileName} (${format}, ${summaries.length} series across ${resources.size} resources)`,
+    `Period: ${starts[0] ?? "?"} to ${ends[ends.length - 1] ?? "?"}`,
+    `Per-resource utilization (p50/p95/max):\n${rows.join("\n") || "- (none)"}`
+  ].join("\n\n");
+}
@@ -0,0 +1,49 @@
+import { readFocusDatasets } from "../billing/dataset";
+import { findFxRates } from "../db/fx";
+import { loadProviderPrices } from "../pricing/lookup";
+import { detectOrphans, type OrphanReport } from "./detect";
+import type { AwsInventory } from "./inventory";
+import {
+  createResourceUsageCollector,
+  type ResourceUsageCollector
+} from "./usage";
+
+// Runs the idle resource rules over the billed resources of the exports and
+// any uploaded inventory; null when there is neither
+export async function buildOrphanReport(
+  env: Env,
+  datasets: { focusKey: string | null }[],
+  inventory: AwsInventory
+): Promise<OrphanReport | null> {
+  if (
+    !datasets.some((dataset) => dataset.focusKey) &&
+    inventory.sources.length === 0
+  ) {
+    return null;
+  }
+
+  const collector = createResourceUsageCollector();
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  return orphanReportFrom(env, collector, inventory);
+}
+
+// Resources the exports do not bill are estimated from the catalog's AWS list
+// prices in the exports' currency
+export async function orphanReportFrom(
+  env: Env,
+  collector: ResourceUsageCollector,
+  inventory: AwsInventory
+): Promise<OrphanReport> {
+  if (collector.skipped > 0) {
+    console.log(
+      `⚠️ Idle resource detection skipped ${collector.skipped} resources over the limit`
+    );
+  }
+
+  const resources = collector.resources();
+  const [prices, rates] = await Promise.all([
+    loadProviderPrices(env, ["aws"]),
+    findFxRates(env, [resources[0]?.currency ?? "USD"])
+  ]);
+  return detectOrphans(resources, inventory, { prices, rates });
+}
@@ -0,0 +1,388 @@
+import { monthlyRunRate } from "../billing/inventory";
+import {
+  BASE_CURRENCY,
+  type FxQuote,
+  type FxRate,
+  resolveFxQuote
+} from "../currency/fx";
+import type { CatalogPriceRow } from "../db/catalog";
+import { monthlyCost } from "../pricing/catalog";
+import { type CatalogPricer, createCatalogPricer } from "../pricing/lookup";
+import { DAY_MS } from "../utils/constants";
+import { formatMoney, round } from "../utils/format";
+import type { AwsInventory } from "./inventory";
+import type { ResourceUsage, UsageLine } from "./usage";
+
+export type OrphanKind =
+  | "unattached-volume"
+  | "idle-load-balancer"
+  | "unassociated-ip"
+  | "stale-snapshot"
+  | "stopped-instance"
+  | "empty-nat-gateway";
+
+export interface OrphanFinding {
+  kind: OrphanKind;
+  resourceId: string;
+  region: string;
+  monthlyCost: number;
+  currency: string;
+  // Cost from list prices because the billing export does not show it
+  estimated: boolean;
+  evidence: string;
+  action: string;
+}
+
+export interface OrphanReport {
+  findings: OrphanFinding[];
+  totalMonthlyCost: Record<string, number>;
+  inventorySources: string[];
+  // Snapshots the list-price estimates came from
+  catalogVersion: string | null;
+  // Rate the USD list prices were converted at; null when estimates stay in
+  // USD for want of one
+  fx: FxQuote | null;
+}
+
+export interface OrphanOptions {
+  // Date stale snapshots and long-stopped instances are measured against
+  asOf?: Date;
+  // Catalog rows and exchange rates for resources the export does not bill
+  prices?: CatalogPriceRow[];
+  rates?: FxRate[];
+}
+
+const LABELS: Record<OrphanKind, string> = {
+  "unattached-volume": "Unattached EBS volume",
+  "idle-load-balancer": "Idle load balancer",
+  "unassociated-ip": "Unassociated Elastic IP",
+  "stale-snapshot": "Stale EBS snapshot",
+  "stopped-instance": "Stopped instance with attached storage",
+  "empty-nat-gateway": "Empty NAT gateway"
+};
+
+const STALE_SNAPSHOT_DAYS = 90;
+// A gateway or load balancer moving less than this in the period is unused
+const MIN_PROCESSED_GB = 1;
+// Load balancer capacity units per billed hour below which it serves nothing
+const MIN_LCU_PER_HOUR = 0.01;
+
+// Volume type priced when the catalog has no price for the listed one
+const DEFAULT_VOLUME_TYPE = "gp2";
+
+// Monthly USD list price of one unit of an AWS SKU, used only for resources
+// missing from the billing export; resources the inventory lists without a
+// region get the base region's price. 0 when the catalog has no price.
+function listMonthly(
+  catalog: CatalogPricer,
+  service: string,
+  sku: string,
+  region?: string
+): number {
+  const price = catalog.price({ provider: "aws", service, sku, region });
+  return price ? monthlyCost(price) : 0;
+}
+
+function usageMatching(
+  resource: ResourceUsage,
+  pattern: RegExp
+): UsageLine | null {
+  let total: UsageLine | null = null;
+  for (const [usageType, line] of resource.usageTypes) {
+    if (!pattern.test(usageType)) continue;
+    total ??= { cost: 0, quantity: 0 };
+    total.cost += line.cost;
+    total.quantity += line.quantity;
+  }
+  return total;
+}
+
+// Billing-only rules: usage types that carry the evidence themselves
+function fromBilling(resource: ResourceUsage): OrphanFinding | null {
+  const finding = (
+    kind: OrphanKind,
+    monthlyCost: number,
+    evidence: string,
+    action: string
+  ): OrphanFinding => ({
+    kind,
+    resourceId: resource.resourceId,
+    region: resource.region,
+    monthlyCost: round(monthlyCost),
+    currency: resource.currency,
+    estimated: false,
+    evidence,
+    action
+  });
+
+  const idleAddress = usageMatching(resource, /IdleAddress/i);
+  if (idleAddress && idleAddress.cost > 0) {
+    return finding(
+      "unassociated-ip",
+      monthlyRunRate(resource, idleAddress.cost),
+      `${round(idleAddress.quantity)} idle address hours billed`,
+      "Release the Elastic IP or associate it with a running instance"
+    );
+  }
+
+  const natHours = usageMatching(resource, /NatGateway-Hours/i);
+  if (natHours) {
+    const gb = usageMatching(resource, /NatGateway-Bytes/i)?.quantity ?? 0;
+    if (gb < MIN_PROCESSED_GB) {
+      return finding(
+        "empty-nat-gateway",
+        monthlyRunRate(resource, resource.cost),
+        `${round(natHours.quantity)} gateway hours billed, ${round(gb)} GB processed`,
+        "Delete the NAT gateway and its Elastic IP, or route the subnets through a shared gateway"
+      );
+    }
+  }
+
+  const lbHours = usageMatching(resource, /LoadBalancerUsage/i);
+  if (lbHours && lbHours.quantity > 0) {
+    const lcuHours = usageMatching(resource, /LCUUsage/i)?.quantity ?? 0;
+    const gb = usageMatching(resource, /DataProcessing-Bytes/i)?.quantity ?? 0;
+    if (
+      lcuHours < MIN_LCU_PER_HOUR * lbHours.quantity &&
+      gb < MIN_PROCESSED_GB
+    ) {
+      return finding(
+        "idle-load-balancer",
+        monthlyRunRate(resource, resource.cost),
+        `${round(lbHours.quantity)} load balancer hours billed, ${round(lcuHours)} LCU-hours and ${round(gb)} GB processed`,
+        "Delete the load balancer or consolidate its listeners onto a shared one"
+      );
+    }
+  }
+
+  return null;
+}
+
+function daysBetween(from: string | null, asOf: Date): number | null {
+  const time = Date.parse(from ?? "");
+  return Number.isFinite(time)
+    ? Math.floor((asOf.getTime() - time) / DAY_MS)
+    : null;
+}
+
+// Flags billed resources and inventory entries that cost money without doing
+// work, largest monthly cost first
+export function detectOrphans(
+  usage: ResourceUsage[],
+  inventory: AwsInventory,
+  options: OrphanOptions = {}
+): OrphanReport {
+  const asOf = options.asOf ?? new Date();
+  const catalog = createCatalogPricer(options.prices ?? []);
+  const findings: OrphanFinding[] = [];
+  const flagged = new Set<string>();
+
+  // Billing exports name EC2 resources by id or by ARN ending in the id
+  const billed = new Map<string, ResourceUsage>();
+  for (const resource of usage) {
+    billed.set(resource.resourceId, resource);
+    const id = resource.resourceId.split(/[/:]/).pop();
+    if (id && !billed.has(id)) billed.set(id, resource);
+  }
+  const currency = usage[0]?.currency ?? BASE_CURRENCY;
+  // List prices are converted to the export's currency, or stay in USD when
+  // it has no rate
+  const fx = resolveFxQuote(
+    options.rates ?? [],
+    BASE_CURRENCY,
+    currency,
+    asOf.toISOString().slice(0, 10)
+  );
+  const estimateCurrency = fx ? currency : BASE_CURRENCY;
+  const listPrice = (service: string, sku: string, region?: string) =>
+    listMonthly(catalog, service, sku, region) * (fx?.rate ?? 1);
+
+  const add = (finding: OrphanFinding, billedId?: string) => {
+    if (flagged.has(finding.resourceId)) return;
+    flagged.add(finding.resourceId);
+    if (billedId) flagged.add(billedId);
+    findings.push(finding);
+  };
+
+  // Billed cost when the export has the resource, list price otherwise
+  const costOf = (id: string, estimate: () => number) => {
+    const resource = billed.get(id);
+    return resource
+      ? {
+          monthlyCost: monthlyRunRate(resource, resource.cost),
+          currency: resource.currency,
+          estimated: false,
+          billedId: resource.resourceId
+        }
+      : {
+          monthlyCost: estimate(),
+          currency: estimateCurrency,
+          estimated: true
+        };
+  };
+
+  const volumes = new Map(inventory.volumes.map((v) => [v.volumeId, v]));
+  const volumeEstimate = (volumeId: string) => {
+    const volume = volumes.get(volumeId);
+    if (!volume) return 0;
+    const perGb =
+      listPrice("ebs", volume.volumeType, volume.region) ||
+      listPrice("ebs", DEFAULT_VOLUME_TYPE, volume.region);
+    return volume.sizeGb * perGb;
+  };
+
+  for (const volume of inventory.volumes) {
+    if (volume.state !== "available") continue;
+    const { billedId, ...cost } = costOf(volume.volumeId, () =>
+      volumeEstimate(volume.volumeId)
+    );
+    const age = daysBetween(volume.createdAt, asOf);
+    add(
+      {
+        kind: "unattached-volume",
+        resourceId: volume.volumeId,
+        region: volume.region,
+        ...cost,
+        monthlyCost: round(cost.monthlyCost),
+        evidence: `${volume.sizeGb} GB ${volume.volumeType} volume in state available${age !== null ? `, created ${age} days ago` : ""}`,
+        action: "Snapshot the volume if its data is needed, then delete it"
+      },
+      billedId
+    );
+  }
+
+  for (const address of inventory.addresses) {
+    if (address.associated) continue;
+    const id = address.allocationId ?? address.publicIp;
+    const { billedId, ...cost } = costOf(id, () =>
+      listPrice("networking", "public-ipv4")
+    );
+    add(
+      {
+        kind: "unassociated-ip",
+        resourceId: id,
+        region: "",
+        ...cost,
+        monthlyCost: round(cost.monthlyCost),
+        evidence: `${address.publicIp} has no association`,
+        action: "Release the Elastic IP or associate it with a running instance"
+      },
+      billedId
+    );
+  }
+
+  for (const snapshot of inventory.snapshots) {
+    const age = daysBetween(snapshot.startedAt, asOf);
+    if (age === null || age < STALE_SNAPSHOT_DAYS) continue;
+    const sourceGone =
+      snapshot.volumeId !== null &&
+      inventory.volumes.length > 0 &&
+      !volumes.has(snapshot.volumeId);
+    const { billedId, ...cost } = costOf(
+      snapshot.snapshotId,
+      () => snapshot.sizeGb * listPrice("ebs", "snapshot")
+    );
+    add(
+      {
+        kind: "stale-snapshot",
+        resourceId: snapshot.snapshotId,
+        region: "",
+        ...cost,
+        monthlyCost: round(cost.monthlyCost),
+        evidence: `${snapshot.sizeGb} GB snapshot taken ${age} days ago${sourceGone ? `, source volume ${snapshot.volumeId} no longer exists` : ""}`,
+        action:
+          "Delete the snapshot or move it to the EBS snapshot archive tier"
+      },
+      billedId
+    );
+  }
+
+  for (const instance of inventory.instances) {
+    if (instance.state !== "stopped" || instance.volumeIds.length === 0) {
+      continue;
+    }
+    let billedCost = 0;
+    let listCost = 0;
+    for (const volumeId of instance.volumeIds) {
+      const { billedId, ...cost } = costOf(volumeId, () =>
+        volumeEstimate(volumeId)
+      );
+      if (cost.estimated) listCost += cost.monthlyCost;
+      else billedCost += cost.monthlyCost;
+      flagged.add(volumeId);
+      if (billedId) flagged.add(billedId);
+    }
+    // USD estimates cannot join billed cost in a currency without a rate
+    const estimated = listCost > 0 && (!!fx || billedCost === 0);
+    const age = daysBetween(instance.stoppedAt, asOf);
+    add({
+      kind: "stopped-instance",
+      resourceId: instance.instanceId,
+      region: instance.region,
+      monthlyCost: round(billedCost + (estimated ? listCost : 0)),
+      currency: billedCost > 0 ? currency : estimateCurrency,
+      estimated,
+      evidence: `${instance.instanceType} stopped${age !== null ? ` ${age} days ago` : ""}, ${instance.volumeIds.length} EBS volume${instance.volumeIds.length === 1 ? "" : "s"} still billed`,
+      action:
+        "Snapshot the volumes and terminate the instance, or start it back up if it is still needed"
+    });
+  }
+
+  for (const resource of usage) {
+    if (flagged.has(resource.resourceId)) continue;
+    const finding = fromBilling(resource);
+    if (finding) add(finding);
+  }
+
+  findings.sort((a, b) => b.monthlyCost - a.monthlyCost);
+  const totalMonthlyCost: Record<string, number> = {};
+  for (const finding of findings) {
+    totalMonthlyCost[finding.currency] = round(
+      (totalMonthlyCost[finding.currency] ?? 0) + finding.monthlyCost
+    );
+  }
+  return {
+    findings,
+    totalMonthlyCost,
+    inventorySources: inventory.sources,
+    catalogVersion: catalog.versions().join(", ") || null,
+    fx: findings.some((f) => f.estimated) ? fx : null
+  };
+}
+
+export function formatOrphans(report: OrphanReport): string {
+  if (report.findings.length === 0) {
+    return "No idle or orphaned resources found.";
+  }
+  const totals = Object.entries(report.totalMonthlyCost)
+    .map(([currency, total]) => formatMoney(total, currency))
+    .join(" + ");
+  const lines = [
+    `Idle and orphaned resources (${report.findings.length}, ${totals}/month${report.inventorySources.length > 0 ? `, inventory: ${report.inventorySources.join(", ")}` : ""}):`,
+    ...report.findings.map(
+      (f) =>
+        `- ${LABELS[f.kind]} ${f.resourceId}${f.region ? ` (${f.region})` : ""}: ${formatMoney(f.monthlyCost, f.currency)}/month${f.estimated ? " (list-price estimate)" : ""}; ${f.evidence}. ${f.action}.`
+    )
+  ];
+  const { fx } = report;
+  if (fx && fx.from !== fx.to) {
+    lines.push(
+      `USD list prices converted at 1 USD = ${+fx.rate.toPrecision(6)} ${fx.to} (${fx.rateDate}).`
+    );
+  }
+  return lines.join("\n");
+}
+
+// Rows for the optimizer's recommendation list
+export function orphanRecommendations(report: OrphanReport) {
+  return report.findings.map((f) => ({
+    Area: "Idle resources",
+    Resource: f.resourceId,
+    Issue: LABELS[f.kind],
+    Optimization: f.action,
+    Cloudflare_Alternative: "N/A",
+    Monthly_Cost: f.monthlyCost,
+    Currency: f.currency,
+    Evidence: f.evidence
+  }));
+}
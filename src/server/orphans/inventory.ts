@@ -0,0 +1,176 @@
+import { sniffContent } from "../ingest/sniff";
+import { readFileHead, type UploadedFile } from "../storage/file-storage";
+
+export interface InventoryVolume {
+  volumeId: string;
+  volumeType: string;
+  sizeGb: number;
+  state: string;
+  region: string;
+  createdAt: string | null;
+}
+
+export interface InventoryAddress {
+  publicIp: string;
+  allocationId: string | null;
+  associated: boolean;
+}
+
+export interface InventorySnapshot {
+  snapshotId: string;
+  volumeId: string | null;
+  sizeGb: number;
+  startedAt: string | null;
+}
+
+export interface InventoryInstance {
+  instanceId: string;
+  instanceType: string;
+  state: string;
+  region: string;
+  // Date parsed from the state transition reason, when stopped by a user
+  stoppedAt: string | null;
+  volumeIds: string[];
+}
+
+// Resources listed by `aws ec2 describe-*` exports, merged across files
+export interface AwsInventory {
+  volumes: InventoryVolume[];
+  addresses: InventoryAddress[];
+  snapshots: InventorySnapshot[];
+  instances: InventoryInstance[];
+  sources: string[];
+}
+
+// Snapshot listings of large accounts run to tens of megabytes
+const MAX_INVENTORY_BYTES = 32 * 1024 * 1024;
+
+type Json = Record<string, unknown>;
+
+export function createAwsInventory(): AwsInventory {
+  return {
+    volumes: [],
+    addresses: [],
+    snapshots: [],
+    instances: [],
+    sources: []
+  };
+}
+
+function list(value: unknown): Json[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is Json => !!item && typeof item === "object")
+    : [];
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+// us-east-1a -> us-east-1
+function regionOf(availabilityZone: unknown): string {
+  return text(availabilityZone).replace(/[a-z]$/, "");
+}
+
+function stoppedAt(reason: string): string | null {
+  const match = reason.match(/\((\d{4}-\d{2}-\d{2})[ T][\d:]+/);
+  return match ? match[1] : null;
+}
+
+// Adds the volumes, addresses, snapshots and instances of one describe
+// output; false when the document lists none of them
+export function parseAwsInventory(
+  inventory: AwsInventory,
+  document: unknown
+): boolean {
+  if (!document || typeof document !== "object") return false;
+  const doc = document as Json;
+  let found = false;
+
+  for (const volume of list(doc.Volumes)) {
+    found = true;
+    inventory.volumes.push({
+      volumeId: text(volume.VolumeId),
+      volumeType: text(volume.VolumeType) || "gp2",
+      sizeGb: Number(volume.Size) || 0,
+      state: text(volume.State),
+      region: regionOf(volume.AvailabilityZone),
+      createdAt: text(volume.CreateTime) || null
+    });
+  }
+
+  for (const address of list(doc.Addresses)) {
+    found = true;
+    inventory.addresses.push({
+      publicIp: text(address.PublicIp),
+      allocationId: text(address.AllocationId) || null,
+      associated: !!(
+        address.AssociationId ||
+        address.InstanceId ||
+        address.NetworkInterfaceId
+      )
+    });
+  }
+
+  for (const snapshot of list(doc.Snapshots)) {
+    found = true;
+    inventory.snapshots.push({
+      snapshotId: text(snapshot.SnapshotId),
+      volumeId: text(snapshot.VolumeId) || null,
+      sizeGb: Number(snapshot.VolumeSize) || 0,
+      startedAt: text(snapshot.StartTime) || null
+    });
+  }
+
+  for (const reservation of list(doc.Reservations)) {
+    for (const instance of list(reservation.Instances)) {
+      found = true;
+      const state = (instance.State ?? {}) as Json;
+      const placement = (instance.Placement ?? {}) as Json;
+      inventory.instances.push({
+        instanceId: text(instance.InstanceId),
+        instanceType: text(instance.InstanceType),
+        state: text(state.Name),
+        region: regionOf(placement.AvailabilityZone),
+        stoppedAt: stoppedAt(text(instance.StateTransitionReason)),
+        volumeIds: list(instance.BlockDeviceMappings)
+          .map((mapping) => text((mapping.Ebs as Json | undefined)?.VolumeId))
+          .filter((id) => id)
+      });
+    }
+  }
+
+  return found;
+}
+
+// Reads an uploaded describe-volumes, -addresses, -snapshots or -instances
+// output into the inventory
+export async function addInventoryFile(
+  env: Env,
+  inventory: AwsInventory,
+  file: UploadedFile
+): Promise<boolean> {
+  const head = await readFileHead(env, file.r2Key);
+  if (!head) return false;
+  if (sniffContent(file.fileName, head).format !== "aws-inventory") {
+    return false;
+  }
+
+  const object = await env.FILES.get(file.r2Key);
+  if (!object) return false;
+  if (object.size > MAX_INVENTORY_BYTES) {
+    console.log(`⚠️ Inventory export too large to parse: ${object.size} bytes`);
+    await object.body.cancel();
+    return false;
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(await object.text());
+  } catch {
+    return false;
+  }
+  if (!parseAwsInventory(inventory, document)) return false;
+  inventory.sources.push(file.fileName);
+  return true;
+}
@@ -0,0 +1,89 @@
+import type { FocusRecord } from "../billing/focus";
+import { COLLECTOR_LIMITS } from "../utils/constants";
+
+// Spend and metered quantity of one usage type of a resource
+export interface UsageLine {
+  cost: number;
+  quantity: number;
+}
+
+// A billed resource with its line items split by usage type, the evidence the
+// idle resource rules read
+export interface ResourceUsage {
+  resourceId: string;
+  serviceName: string;
+  subAccountId: string;
+  region: string;
+  currency: string;
+  cost: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+  usageTypes: Map<string, UsageLine>;
+}
+
+export interface ResourceUsageCollector {
+  add(record: FocusRecord): void;
+  resources(): ResourceUsage[];
+  skipped: number;
+}
+
+const MAX_USAGE_TYPES = 20;
+
+export function createResourceUsageCollector(): ResourceUsageCollector {
+  const resources = new Map<string, ResourceUsage>();
+
+  const collector: ResourceUsageCollector = {
+    skipped: 0,
+
+    add(record) {
+      if (!record.ResourceId || record.ChargeCategory !== "Usage") return;
+
+      let resource = resources.get(record.ResourceId);
+      if (!resource) {
+        if (resources.size >= COLLECTOR_LIMITS.resources) {
+          collector.skipped++;
+          return;
+        }
+        resource = {
+          resourceId: record.ResourceId,
+          serviceName: record.ServiceName,
+          subAccountId: record.SubAccountId,
+          region: record.RegionId,
+          currency: record.BillingCurrency,
+          cost: 0,
+          periodStart: null,
+          periodEnd: null,
+          usageTypes: new Map()
+        };
+        resources.set(record.ResourceId, resource);
+      }
+
+      resource.cost += record.EffectiveCost;
+      const usageType = record.x_UsageType || record.ChargeDescription;
+      let line = resource.usageTypes.get(usageType);
+      if (!line && resource.usageTypes.size < MAX_USAGE_TYPES) {
+        line = { cost: 0, quantity: 0 };
+        resource.usageTypes.set(usageType, line);
+      }
+      if (line) {
+        line.cost += record.EffectiveCost;
+        line.quantity += record.ConsumedQuantity;
+      }
+
+      const start = record.ChargePeriodStart || null;
+      const end = record.ChargePeriodEnd || record.ChargePeriodStart || null;
+      if (start && (!resource.periodStart || start < resource.periodStart)) {
+        resource.periodStart = start;
+      }
+      if (end && (!resource.periodEnd || end > resource.periodEnd)) {
+        resource.periodEnd = end;
+      }
+    },
+
+    resources() {
+      return [...resources.values()];
+    }
+  };
+
+  return collector;
+}
@@ -0,0 +1,388 @@
+import { HOURS_PER_MONTH } from "../utils/constants";
+
+export type CloudProvider = "aws" | "azure" | "gcp" | "cloudflare";
+
+export type PriceUnit =
+  | "hour"
+  | "month"
+  | "GB"
+  | "GB-month"
+  | "IOPS-month"
+  | "million-requests"
+  | "million-operations"
+  | "million-rows";
+
+export type PricingModel =
+  | "on-demand"
+  | "spot"
+  | "reserved-1yr"
+  | "reserved-3yr"
+  | "savings-plan-1yr"
+  | "savings-plan-3yr"
+  | "commitment-1yr"
+  | "commitment-3yr";
+
+export interface CatalogPrice {
+  provider: CloudProvider;
+  service: string;
+  sku: string;
+  region: string;
+  pricingModel: PricingModel;
+  unit: PriceUnit;
+  price: number;
+  currency: string;
+}
+
+// Public on-demand list prices (Linux, no license) captured for the bundled
+// catalog. Each provider is priced in one base region and other regions are
+// derived from a regional uplift.
+export const BUNDLED_CATALOG_VERSION = "2026.10.3-bundled";
+
+const BASE_REGION: Record<CloudProvider, string> = {
+  aws: "us-east-1",
+  azure: "eastus",
+  gcp: "us-central1",
+  cloudflare: "global"
+};
+
+const REGION_UPLIFT: Record<string, number> = {
+  "us-east-1": 1,
+  "us-east-2": 1,
+  "us-west-2": 1,
+  "us-west-1": 1.17,
+  "ca-central-1": 1.1,
+  "eu-west-1": 1.11,
+  "eu-west-2": 1.16,
+  "eu-central-1": 1.2,
+  "eu-north-1": 1.06,
+  "ap-southeast-1": 1.25,
+  "ap-southeast-2": 1.25,
+  "ap-northeast-1": 1.29,
+  "ap-south-1": 1.05,
+  "sa-east-1": 1.59,
+  eastus: 1,
+  eastus2: 1,
+  westus2: 1,
+  centralus: 1.1,
+  westus: 1.12,
+  northeurope: 1.08,
+  westeurope: 1.15,
+  uksouth: 1.15,
+  southeastasia: 1.2,
+  japaneast: 1.3,
+  australiaeast: 1.3,
+  "us-central1": 1,
+  "us-east1": 1,
+  "us-west1": 1,
+  "us-east4": 1.13,
+  "europe-west1": 1.1,
+  "europe-west2": 1.22,
+  "europe-west3": 1.22,
+  "asia-southeast1": 1.23,
+  "asia-northeast1": 1.28,
+  "australia-southeast1": 1.38
+};
+
+type PriceTable = Record<string, number>;
+
+const BASE_PRICES: Record<
+  CloudProvider,
+  Record<string, { unit: PriceUnit; prices: PriceTable }>
+> = {
+  aws: {
+    ec2: {
+      unit: "hour",
+      prices: {
+        "t3.nano": 0.0052,
+        "t3.micro": 0.0104,
+        "t3.small": 0.0208,
+        "t3.medium": 0.0416,
+        "t3.large": 0.0832,
+        "t3.xlarge": 0.1664,
+        "t3.2xlarge": 0.3328,
+        "t4g.micro": 0.0084,
+        "t4g.small": 0.0168,
+        "t4g.medium": 0.0336,
+        "t4g.large": 0.0672,
+        "m5.large": 0.096,
+        "m5.xlarge": 0.192,
+        "m5.2xlarge": 0.384,
+        "m5.4xlarge": 0.768,
+        "m6i.large": 0.096,
+        "m6i.xlarge": 0.192,
+        "m6i.2xlarge": 0.384,
+        "m6i.4xlarge": 0.768,
+        "m6g.large": 0.077,
+        "m6g.xlarge": 0.154,
+        "m7g.large": 0.0816,
+        "m7g.xlarge": 0.1632,
+        "c5.large": 0.085,
+        "c5.xlarge": 0.17,
+        "c5.2xlarge": 0.34,
+        "c6i.large": 0.085,
+        "c6i.xlarge": 0.17,
+        "c6g.large": 0.068,
+        "r5.large": 0.126,
+        "r5.xlarge": 0.252,
+        "r5.2xlarge": 0.504,
+        "r6i.large": 0.126,
+        "r6i.xlarge": 0.252,
+        "r6g.large": 0.1008
+      }
+    },
+    rds: {
+      unit: "hour",
+      prices: {
+        "db.t3.micro": 0.017,
+        "db.t3.small": 0.034,
+        "db.t3.medium": 0.068,
+        "db.t3.large": 0.136,
+        "db.t4g.micro": 0.016,
+        "db.t4g.small": 0.032,
+        "db.t4g.medium": 0.065,
+        "db.m5.large": 0.171,
+        "db.m5.xlarge": 0.342,
+        "db.m5.2xlarge": 0.684,
+        "db.m6g.large": 0.152,
+        "db.m6i.large": 0.171,
+        "db.r5.large": 0.24,
+        "db.r5.xlarge": 0.48,
+        "db.r6g.large": 0.215
+      }
+    },
+    "rds-storage": {
+      unit: "GB-month",
+      prices: { gp2: 0.115, gp3: 0.115, io1: 0.125, standard: 0.1 }
+    },
+    elasticache: {
+      unit: "hour",
+      prices: {
+        "cache.t3.micro": 0.017,
+        "cache.t3.small": 0.034,
+        "cache.t3.medium": 0.068,
+        "cache.t4g.micro": 0.016,
+        "cache.m5.large": 0.156,
+        "cache.m6g.large": 0.149,
+        "cache.r5.large": 0.216,
+        "cache.r6g.large": 0.206
+      }
+    },
+    ebs: {
+      unit: "GB-month",
+      prices: {
+        gp2: 0.1,
+        gp3: 0.08,
+        io1: 0.125,
+        io2: 0.125,
+        st1: 0.045,
+        sc1: 0.015,
+        standard: 0.05,
+        snapshot: 0.05
+      }
+    },
+    "ebs-iops": {
+      unit: "IOPS-month",
+      prices: { io1: 0.065, io2: 0.065, gp3: 0.005 }
+    },
+    networking: {
+      unit: "hour",
+      prices: {
+        "nat-gateway": 0.045,
+        "application-load-balancer": 0.0225,
+        "network-load-balancer": 0.0225,
+        "classic-load-balancer": 0.025,
+        "public-ipv4": 0.005,
+        "eks-cluster": 0.1
+      }
+    }
+  },
+  azure: {
+    vm: {
+      unit: "hour",
+      prices: {
+        standard_b1s: 0.0104,
+        standard_b1ms: 0.0207,
+        standard_b2s: 0.0416,
+        standard_b2ms: 0.0832,
+        standard_b4ms: 0.166,
+        standard_d2s_v3: 0.096,
+        standard_d4s_v3: 0.192,
+        standard_d8s_v3: 0.384,
+        standard_d2s_v5: 0.096,
+        standard_d4s_v5: 0.192,
+        standard_d8s_v5: 0.384,
+        standard_d2as_v5: 0.086,
+        standard_d4as_v5: 0.172,
+        standard_e2s_v3: 0.126,
+        standard_e4s_v3: 0.252,
+        standard_e2s_v5: 0.126,
+        standard_e4s_v5: 0.252,
+        standard_f2s_v2: 0.0846,
+        standard_f4s_v2: 0.169
+      }
+    },
+    "managed-disk": {
+      unit: "GB-month",
+      prices: {
+        standard_lrs: 0.045,
+        standardssd_lrs: 0.075,
+        premium_lrs: 0.15,
+        premiumv2_lrs: 0.12
+      }
+    },
+    networking: {
+      unit: "hour",
+      prices: {
+        "nat-gateway": 0.045,
+        "public-ip": 0.005,
+        "load-balancer": 0.025,
+        "aks-standard": 0.1
+      }
+    }
+  },
+  gcp: {
+    "compute-engine": {
+      unit: "hour",
+      prices: {
+        "e2-micro": 0.008376,
+        "e2-small": 0.016751,
+        "e2-medium": 0.033503,
+        "e2-standard-2": 0.067006,
+        "e2-standard-4": 0.134012,
+        "e2-standard-8": 0.268024,
+        "e2-highmem-2": 0.090416,
+        "e2-highmem-4": 0.180832,
+        "n1-standard-1": 0.0475,
+        "n1-standard-2": 0.095,
+        "n1-standard-4": 0.19,
+        "n2-standard-2": 0.097118,
+        "n2-standard-4": 0.194236,
+        "n2-standard-8": 0.388472,
+        "n2d-standard-2": 0.084492,
+        "n2d-standard-4": 0.168984,
+        "c3-standard-4": 0.201608,
+        "t2d-standard-1": 0.042246
+      }
+    },
+    "persistent-disk": {
+      unit: "GB-month",
+      prices: {
+        "pd-standard": 0.04,
+        "pd-balanced": 0.1,
+        "pd-ssd": 0.17,
+        "pd-extreme": 0.125
+      }
+    },
+    "cloud-sql": {
+      unit: "hour",
+      prices: {
+        "db-f1-micro": 0.0105,
+        "db-g1-small": 0.035,
+        "db-custom-vcpu": 0.0413,
+        "db-custom-memory-gb": 0.007
+      }
+    },
+    "cloud-sql-storage": {
+      unit: "GB-month",
+      prices: { pd_ssd: 0.17, pd_hdd: 0.09 }
+    },
+    networking: {
+      unit: "hour",
+      prices: {
+        "cloud-nat-gateway": 0.044,
+        "forwarding-rule": 0.025,
+        "external-ip": 0.005,
+        "gke-cluster": 0.1
+      }
+    }
+  },
+  // Workers Paid plan usage beyond the included allowances
+  cloudflare: {
+    workers: {
+      unit: "million-requests",
+      prices: { requests: 0.3 }
+    },
+    "workers-cpu": {
+      unit: "million-operations",
+      prices: { "cpu-ms": 0.02 }
+    },
+    "workers-plan": {
+      unit: "month",
+      prices: { "workers-paid": 5 }
+    },
+    r2: {
+      unit: "GB-month",
+      prices: { "standard-storage": 0.015, "infrequent-access-storage": 0.01 }
+    },
+    "r2-operations": {
+      unit: "million-operations",
+      prices: {
+        "class-a": 4.5,
+        "class-b": 0.36,
+        "ia-class-a": 9,
+        "ia-class-b": 0.9
+      }
+    },
+    "r2-egress": {
+      unit: "GB",
+      prices: { egress: 0 }
+    },
+    d1: {
+      unit: "million-rows",
+      prices: { "rows-read": 0.001, "rows-written": 1 }
+    },
+    "d1-storage": {
+      unit: "GB-month",
+      prices: { storage: 0.75 }
+    },
+    kv: {
+      unit: "million-operations",
+      prices: { reads: 0.5, writes: 5, deletes: 5, lists: 5 }
+    },
+    "kv-storage": {
+      unit: "GB-month",
+      prices: { storage: 0.5 }
+    }
+  }
+};
+
+export function baseRegionFor(provider: CloudProvider): string {
+  return BASE_REGION[provider];
+}
+
+// Prices captured in one region are scaled to another by the regional uplift;
+// unknown regions keep the captured price
+export function regionalPrice(
+  price: CatalogPrice,
+  region: string | null | undefined
+): CatalogPrice {
+  if (!region || region === price.region) return price;
+  const from = REGION_UPLIFT[price.region];
+  const to = REGION_UPLIFT[region];
+  if (!from || !to) return price;
+  return { ...price, region, price: (price.price / from) * to };
+}
+
+// Every bundled price in its base region, as seeded into the D1 catalog
+export function bundledCatalogPrices(): CatalogPrice[] {
+  return Object.entries(BASE_PRICES).flatMap(([provider, services]) =>
+    Object.entries(services).flatMap(([service, table]) =>
+      Object.entries(table.prices).map(([sku, price]) => ({
+        provider: provider as CloudProvider,
+        service,
+        sku,
+        region: BASE_REGION[provider as CloudProvider],
+        pricingModel: "on-demand" as const,
+        unit: table.unit,
+        price,
+        currency: "USD"
+      }))
+    )
+  );
+}
+
+export function monthlyCost(price: CatalogPrice, quantity = 1): number {
+  return price.unit === "hour"
+    ? price.price * HOURS_PER_MONTH * quantity
+    : price.price * quantity;
+}
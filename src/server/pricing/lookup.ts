@@ -0,0 +1,242 @@
+import {
+  type CatalogPriceRow,
+  ensureBundledCatalog,
+  findCatalogPrices,
+  findProviderPrices
+} from "../db/catalog";
+import {
+  baseRegionFor,
+  type CatalogPrice,
+  type CloudProvider,
+  type PricingModel,
+  regionalPrice
+} from "./catalog";
+import { instanceShapeFor } from "./shapes";
+
+export interface PriceQuery {
+  provider: CloudProvider;
+  sku: string;
+  service?: string | null;
+  region?: string | null;
+  pricingModel?: PricingModel;
+}
+
+export interface ResolvedPrice extends CatalogPrice {
+  version: string;
+  // Scaled from another region or composed from per-vCPU and per-GiB rates
+  derived: boolean;
+}
+
+export interface PriceContext {
+  versions: string[];
+  text: string;
+}
+
+const MAX_CONTEXT_SKUS = 30;
+
+const SKU_PATTERNS: [CloudProvider, RegExp][] = [
+  [
+    "aws",
+    /\b(?:db\.|cache\.)?[a-z][a-z0-9]*\d[a-z0-9-]*\.(?:nano|micro|small|medium|large|\d*xlarge|metal)\b/g
+  ],
+  [
+    "gcp",
+    /\b(?:[a-z]\d[a-z]?-(?:standard|highmem|highcpu)-\d+|e2-(?:micro|small|medium)|f1-micro|g1-small)\b/g
+  ],
+  ["azure", /\bStandard_[A-Z][A-Za-z0-9]*(?:_v\d+)?\b/gi]
+];
+
+const REGION_PATTERNS: Partial<Record<CloudProvider, RegExp>> = {
+  aws: /\b(?:us|eu|ap|sa|ca|me|af)-(?:east|west|central|north|south|northeast|southeast)-\d\b/,
+  gcp: /\b(?:us|europe|asia|australia|northamerica|southamerica)-(?:east|west|central|north|south|northeast|southeast)\d+\b/
+};
+
+function stripRow(row: CatalogPriceRow): CatalogPrice {
+  return {
+    provider: row.provider,
+    service: row.service,
+    sku: row.sku,
+    region: row.region,
+    pricingModel: row.pricingModel,
+    unit: row.unit,
+    price: row.price,
+    currency: row.currency
+  };
+}
+
+// GCP machine types are priced from the family's per-vCPU and per-GiB rates
+function gcpFamilySkus(sku: string): string[] {
+  const family = sku.toLowerCase().split("-")[0];
+  return [`${family}-core`, `${family}-ram`];
+}
+
+// Picks the newest snapshot that prices the SKU, preferring an exact region
+// and otherwise scaling the snapshot's base-region price
+export function resolvePrice(
+  rows: CatalogPriceRow[],
+  query: PriceQuery
+): ResolvedPrice | null {
+  const sku = query.sku.toLowerCase();
+  const model = query.pricingModel ?? "on-demand";
+  const candidates = rows.filter(
+    (row) =>
+      row.provider === query.provider &&
+      row.sku === sku &&
+      row.pricingModel === model &&
+      (!query.service || row.service === query.service)
+  );
+
+  if (candidates.length === 0) {
+    const shape = query.provider === "gcp" ? instanceShapeFor(sku) : null;
+    if (!shape) return null;
+    const [coreSku, ramSku] = gcpFamilySkus(sku);
+    const service = "compute-engine";
+    const core = resolvePrice(rows, { ...query, sku: coreSku, service });
+    const ram = resolvePrice(rows, { ...query, sku: ramSku, service });
+    if (!core || !ram) return null;
+    return {
+      ...core,
+      sku,
+      price: core.price * shape.vcpus + ram.price * shape.memoryGib,
+      derived: true
+    };
+  }
+
+  const version = candidates[0].version;
+  const inVersion = candidates.filter((row) => row.version === version);
+  const exact = query.region
+    ? inVersion.find((row) => row.region === query.region)
+    : undefined;
+  if (exact) return { ...stripRow(exact), version, derived: false };
+
+  const base =
+    inVersion.find((row) => row.region === baseRegionFor(query.provider)) ??
+    inVersion[0];
+  const price = regionalPrice(stripRow(base), query.region);
+  return { ...price, version, derived: price.region !== base.region };
+}
+
+// Prices SKUs from rows loaded up front and remembers the snapshot versions
+// the prices came from
+export interface CatalogPricer {
+  price(query: PriceQuery): ResolvedPrice | null;
+  versions(): string[];
+}
+
+export function createCatalogPricer(rows: CatalogPriceRow[]): CatalogPricer {
+  const versions = new Set<string>();
+  return {
+    price(query) {
+      const price = resolvePrice(rows, query);
+      if (price) versions.add(price.version);
+      return price;
+    },
+    versions: () => [...versions]
+  };
+}
+
+// Every snapshot's prices for the providers, for analyses that price many
+// SKUs without knowing them in advance
+export async function loadProviderPrices(
+  env: Env,
+  providers: Iterable<CloudProvider>
+): Promise<CatalogPriceRow[]> {
+  await ensureBundledCatalog(env);
+  return (
+    await Promise.all(
+      [...new Set(providers)].map((provider) =>
+        findProviderPrices(env, provider)
+      )
+    )
+  ).flat();
+}
+
+export async function lookupCatalogPrice(
+  env: Env,
+  query: PriceQuery
+): Promise<ResolvedPrice | null> {
+  await ensureBundledCatalog(env);
+  const skus =
+    query.provider === "gcp"
+      ? [query.sku, ...gcpFamilySkus(query.sku)]
+      : [query.sku];
+  return resolvePrice(await findCatalogPrices(env, skus), query);
+}
+
+export function extractSkus(
+  text: string
+): { provider: CloudProvider; sku: string }[] {
+  const found = new Map<string, CloudProvider>();
+  for (const [provider, pattern] of SKU_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (found.size >= MAX_CONTEXT_SKUS) break;
+      const sku = match[0].toLowerCase();
+      if (provider === "azure" && !instanceShapeFor(sku)) continue;
+      if (!found.has(sku)) found.set(sku, provider);
+    }
+  }
+  return [...found].map(([sku, provider]) => ({ provider, sku }));
+}
+
+function formatPrice(price: ResolvedPrice): string {
+  return `${price.currency === "USD" ? "$" : `${price.currency} `}${+price.price.toFixed(6)}/${price.unit}`;
+}
+
+// Catalog prices for every instance type mentioned in the analysis input,
+// plus Cloudflare's published rates, so the model quotes real list prices
+export async function buildPriceContext(
+  env: Env,
+  text: string
+): Promise<PriceContext> {
+  await ensureBundledCatalog(env);
+  const skus = extractSkus(text);
+  const rows = await findCatalogPrices(
+    env,
+    skus.flatMap(({ provider, sku }) =>
+      provider === "gcp" ? [sku, ...gcpFamilySkus(sku)] : [sku]
+    )
+  );
+
+  const prices: ResolvedPrice[] = [];
+  for (const { provider, sku } of skus) {
+    const pattern = REGION_PATTERNS[provider];
+    const region = pattern ? (text.match(pattern)?.[0] ?? null) : null;
+    const models = new Set(
+      rows
+        .filter((row) => row.provider === provider && row.sku === sku)
+        .map((row) => row.pricingModel)
+    );
+    if (models.size === 0) models.add("on-demand");
+    for (const pricingModel of models) {
+      const price = resolvePrice(rows, { provider, sku, region, pricingModel });
+      if (price) prices.push(price);
+    }
+  }
+
+  const cloudflare = await findProviderPrices(env, "cloudflare");
+  const seen = new Set<string>();
+  for (const row of cloudflare) {
+    const key = `${row.service}|${row.sku}|${row.pricingModel}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    prices.push({ ...stripRow(row), version: row.version, derived: false });
+  }
+
+  const versions = [...new Set(prices.map((price) => price.version))];
+  const lines = [
+    `Catalog versions: ${versions.join(", ") || "(none)"}`,
+    "| Provider | Service | SKU | Region | Pricing model | Price | Catalog version |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+    ...prices.map(
+      (price) =>
+        `| ${price.provider} | ${price.service} | ${price.sku} | ${price.region}${price.derived ? " (derived)" : ""} | ${price.pricingModel} | ${formatPrice(price)} | ${price.version} |`
+    )
+  ];
+  const missing = skus
+    .filter(({ sku }) => !prices.some((price) => price.sku === sku))
+    .map(({ sku }) => sku);
+  if (missing.length > 0) {
+    lines.push(`Not in the catalog: ${missing.join(", ")}`);
+  }
+  return { versions, text: lines.join("\n") };
+}
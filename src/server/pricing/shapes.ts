@@ -0,0 +1,131 @@
+import type { CloudProvider } from "./catalog";
+
+export interface InstanceShape {
+  provider: CloudProvider;
+  vcpus: number;
+  memoryGib: number;
+}
+
+const AWS_SIZE_VCPUS: Record<string, number> = {
+  nano: 2,
+  micro: 2,
+  small: 2,
+  medium: 2,
+  large: 2,
+  xlarge: 4,
+  metal: 96
+};
+
+// Burstable sizes do not keep a fixed memory to vCPU ratio
+const AWS_BURSTABLE_MEMORY: Record<string, number> = {
+  nano: 0.5,
+  micro: 1,
+  small: 2,
+  medium: 4,
+  large: 8,
+  xlarge: 16,
+  "2xlarge": 32
+};
+
+const AWS_MEMORY_PER_VCPU: Record<string, number> = {
+  c: 2,
+  m: 4,
+  r: 8,
+  x: 16,
+  z: 8
+};
+
+const GCP_MEMORY_PER_VCPU: Record<string, number> = {
+  standard: 4,
+  highmem: 8,
+  highcpu: 1
+};
+
+const GCP_SHARED_CORE: Record<string, [number, number]> = {
+  "e2-micro": [2, 1],
+  "e2-small": [2, 2],
+  "e2-medium": [2, 4],
+  "f1-micro": [1, 0.6],
+  "g1-small": [1, 1.7]
+};
+
+const AZURE_MEMORY_PER_VCPU: Record<string, number> = {
+  a: 2,
+  d: 4,
+  e: 8,
+  f: 2,
+  m: 28
+};
+
+const AZURE_BURSTABLE: Record<string, [number, number]> = {
+  b1s: [1, 1],
+  b1ms: [1, 2],
+  b2s: [2, 4],
+  b2ms: [2, 8],
+  b4ms: [4, 16],
+  b8ms: [8, 32]
+};
+
+function awsShape(type: string): InstanceShape | null {
+  const match = type.match(/^(?:db\.|cache\.)?([a-z]+)(\d+)[a-z-]*\.(\w+)$/);
+  if (!match) return null;
+  const [, family, , size] = match;
+  const vcpus =
+    AWS_SIZE_VCPUS[size] ??
+    (size.endsWith("xlarge") ? Number(size.replace("xlarge", "")) * 4 : NaN);
+  if (!Number.isFinite(vcpus)) return null;
+
+  if (family === "t") {
+    const memoryGib = AWS_BURSTABLE_MEMORY[size];
+    return memoryGib
+      ? { provider: "aws", vcpus: Math.max(vcpus, 2), memoryGib }
+      : null;
+  }
+  const perVcpu = AWS_MEMORY_PER_VCPU[family[0]];
+  return perVcpu
+    ? { provider: "aws", vcpus, memoryGib: vcpus * perVcpu }
+    : null;
+}
+
+function gcpShape(type: string): InstanceShape | null {
+  const shared = GCP_SHARED_CORE[type];
+  if (shared)
+    return { provider: "gcp", vcpus: shared[0], memoryGib: shared[1] };
+
+  const match = type.match(
+    /^([a-z]\d[a-z]?)-(standard|highmem|highcpu)-(\d+)$/
+  );
+  if (!match) return null;
+  const vcpus = Number(match[3]);
+  // N1 predates the 4 GB per vCPU standard ratio
+  const perVcpu =
+    match[1] === "n1" && match[2] === "standard"
+      ? 3.75
+      : GCP_MEMORY_PER_VCPU[match[2]];
+  return { provider: "gcp", vcpus, memoryGib: vcpus * perVcpu };
+}
+
+function azureShape(type: string): InstanceShape | null {
+  const name = type.toLowerCase().replace(/^standard_/, "");
+  const burstable = AZURE_BURSTABLE[name];
+  if (burstable) {
+    return { provider: "azure", vcpus: burstable[0], memoryGib: burstable[1] };
+  }
+
+  const match = name.match(/^([a-z])(\d+)[a-z]*(_v\d+)?$/);
+  const perVcpu = match ? AZURE_MEMORY_PER_VCPU[match[1]] : undefined;
+  if (!match || !perVcpu) return null;
+  const vcpus = Number(match[2]);
+  return { provider: "azure", vcpus, memoryGib: vcpus * perVcpu };
+}
+
+// Derives vCPU and memory from instance type naming conventions, which is
+// enough to size nodes and compare candidates without a full spec sheet
+export function instanceShapeFor(instanceType: string): InstanceShape | null {
+  const type = instanceType.trim();
+  if (/^standard_/i.test(type)) return azureShape(type);
+  if (/^[a-z]\d[a-z]?-/.test(type) || type in GCP_SHARED_CORE) {
+    return gcpShape(type);
+  }
+  return awsShape(type);
+}
@@ -0,0 +1,351 @@
+import type {
+  CatalogPrice,
+  CloudProvider,
+  PriceUnit,
+  PricingModel
+} from "./catalog";
+import { HOURS_PER_MONTH } from "../utils/constants";
+
+export type SnapshotSource =
+  | "aws-price-list"
+  | "azure-retail-prices"
+  | "gcp-skus"
+  | "catalog";
+
+export interface PriceSnapshot {
+  source: SnapshotSource;
+  // Taken from the file when it carries one
+  version: string | null;
+  prices: CatalogPrice[];
+}
+
+type Json = Record<string, unknown>;
+
+const PROVIDERS = new Set<string>(["aws", "azure", "gcp", "cloudflare"]);
+const UNITS = new Set<string>([
+  "hour",
+  "month",
+  "GB",
+  "GB-month",
+  "IOPS-month",
+  "million-requests",
+  "million-operations",
+  "million-rows"
+]);
+const MODELS = new Set<string>([
+  "on-demand",
+  "spot",
+  "reserved-1yr",
+  "reserved-3yr",
+  "savings-plan-1yr",
+  "savings-plan-3yr",
+  "commitment-1yr",
+  "commitment-3yr"
+]);
+
+const AWS_UNITS: Record<string, PriceUnit> = {
+  Hrs: "hour",
+  "GB-Mo": "GB-month",
+  "IOPS-Mo": "IOPS-month",
+  GB: "GB"
+};
+
+const AWS_SERVICES: Record<string, string> = {
+  AmazonEC2: "ec2",
+  AmazonRDS: "rds",
+  AmazonElastiCache: "elasticache"
+};
+
+const AZURE_UNITS: Record<string, PriceUnit> = {
+  "1 Hour": "hour",
+  "1 GB/Month": "GB-month",
+  "1/Month": "month"
+};
+
+const GCP_UNITS: Record<string, PriceUnit> = {
+  h: "hour",
+  "GiBy.h": "hour",
+  "GiBy.mo": "GB-month"
+};
+
+const GCP_MODELS: Record<string, PricingModel> = {
+  OnDemand: "on-demand",
+  Preemptible: "spot",
+  Commit1Yr: "commitment-1yr",
+  Commit3Yr: "commitment-3yr"
+};
+
+const GCP_DISKS: Record<string, string> = {
+  "Storage PD Capacity": "pd-standard",
+  "Balanced PD Capacity": "pd-balanced",
+  "SSD backed PD Capacity": "pd-ssd"
+};
+
+function slug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function str(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+// EC2, RDS and ElastiCache instances keep their API names as SKUs; only
+// Linux, shared tenancy, license-free prices are kept so they line up with
+// the bundled catalog
+function awsProductSku(
+  offerCode: string,
+  product: Json
+): { service: string; sku: string } | null {
+  const attributes = (product.attributes ?? {}) as Json;
+  const family = str(product.productFamily);
+
+  if (offerCode === "AmazonEC2" && family === "Compute Instance") {
+    if (attributes.operatingSystem !== "Linux") return null;
+    if (attributes.tenancy && attributes.tenancy !== "Shared") return null;
+    if (attributes.preInstalledSw && attributes.preInstalledSw !== "NA") {
+      return null;
+    }
+    if (attributes.capacitystatus && attributes.capacitystatus !== "Used") {
+      return null;
+    }
+    const sku = str(attributes.instanceType);
+    return sku ? { service: "ec2", sku } : null;
+  }
+  if (offerCode === "AmazonEC2" && family === "Storage") {
+    const sku = str(attributes.volumeApiName);
+    return sku ? { service: "ebs", sku } : null;
+  }
+  if (family === "Database Instance" || family === "Cache Instance") {
+    if (attributes.deploymentOption === "Multi-AZ") return null;
+    const sku = str(attributes.instanceType);
+    return sku ? { service: AWS_SERVICES[offerCode], sku } : null;
+  }
+
+  const usageType = str(attributes.usagetype);
+  return usageType ? { service: slug(offerCode), sku: usageType } : null;
+}
+
+function awsModel(term: Json): PricingModel | null {
+  const attributes = (term.termAttributes ?? {}) as Json;
+  // Only no-upfront terms are a plain hourly rate
+  if (attributes.PurchaseOption !== "No Upfront") return null;
+  if (attributes.OfferingClass && attributes.OfferingClass !== "standard") {
+    return null;
+  }
+  if (attributes.LeaseContractLength === "1yr") return "reserved-1yr";
+  if (attributes.LeaseContractLength === "3yr") return "reserved-3yr";
+  return null;
+}
+
+// AWS Price List offer files: https://pricing.us-east-1.amazonaws.com/offers/v1.0/aws/<offer>/current/<region>/index.json
+function parseAwsOffer(doc: Json): PriceSnapshot {
+  const offerCode = String(doc.offerCode);
+  const products = (doc.products ?? {}) as Record<string, Json>;
+  const terms = (doc.terms ?? {}) as Record<string, Record<string, Json>>;
+  const seen = new Set<string>();
+  const prices: CatalogPrice[] = [];
+
+  const addTerms = (termType: string, modelFor: (term: Json) => unknown) => {
+    for (const [productSku, offers] of Object.entries(terms[termType] ?? {})) {
+      const product = products[productSku];
+      const region = product
+        ? str(((product.attributes ?? {}) as Json).regionCode)
+        : null;
+      const target = product ? awsProductSku(offerCode, product) : null;
+      if (!target || !region) continue;
+
+      for (const term of Object.values(offers as Record<string, Json>)) {
+        const model = modelFor(term) as PricingModel | null;
+        if (!model) continue;
+        const dimensions = (term.priceDimensions ?? {}) as Record<string, Json>;
+        for (const dimension of Object.values(dimensions)) {
+          const unit = AWS_UNITS[String(dimension.unit)];
+          const usd = Number(
+            ((dimension.pricePerUnit ?? {}) as Json).USD ?? Number.NaN
+          );
+          if (!unit || !Number.isFinite(usd) || usd <= 0) continue;
+          const key = `${target.service}|${target.sku}|${region}|${model}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          prices.push({
+            provider: "aws",
+            service: target.service,
+            sku: target.sku.toLowerCase(),
+            region,
+            pricingModel: model,
+            unit,
+            price: usd,
+            currency: "USD"
+          });
+        }
+      }
+    }
+  };
+  addTerms("OnDemand", () => "on-demand");
+  addTerms("Reserved", awsModel);
+
+  const version = str(doc.version);
+  return {
+    source: "aws-price-list",
+    version: version ? `aws-${offerCode}-${version}` : null,
+    prices
+  };
+}
+
+function azureModel(item: Json): PricingModel | null {
+  const name = `${item.meterName ?? ""} ${item.skuName ?? ""}`;
+  if (item.type === "Consumption") {
+    return /Spot|Low Priority/i.test(name) ? "spot" : "on-demand";
+  }
+  if (item.type === "Reservation") {
+    if (item.reservationTerm === "1 Year") return "reserved-1yr";
+    if (item.reservationTerm === "3 Years") return "reserved-3yr";
+  }
+  return null;
+}
+
+// Azure Retail Prices API responses (https://prices.azure.com/api/retail/prices)
+function parseAzureRetail(doc: Json): PriceSnapshot {
+  const prices: CatalogPrice[] = [];
+  for (const item of (doc.Items ?? []) as Json[]) {
+    if (item.isPrimaryMeterRegion === false) continue;
+    if (/Windows/i.test(String(item.productName ?? ""))) continue;
+    const model = azureModel(item);
+    const region = str(item.armRegionName);
+    const sku = str(item.armSkuName) ?? str(item.skuName);
+    let unit = AZURE_UNITS[String(item.unitOfMeasure)];
+    let price = Number(item.retailPrice ?? item.unitPrice);
+    if (!model || !region || !sku || !Number.isFinite(price)) continue;
+
+    // Reservations are quoted for the whole term
+    if (item.type === "Reservation") {
+      const years = model === "reserved-3yr" ? 3 : 1;
+      price /= HOURS_PER_MONTH * 12 * years;
+      unit = "hour";
+    }
+    if (!unit) continue;
+
+    prices.push({
+      provider: "azure",
+      service:
+        item.serviceName === "Virtual Machines"
+          ? "vm"
+          : slug(String(item.serviceName ?? "other")),
+      sku: sku.toLowerCase(),
+      region,
+      pricingModel: model,
+      unit,
+      price,
+      currency: String(item.currencyCode ?? doc.BillingCurrency ?? "USD")
+    });
+  }
+  return { source: "azure-retail-prices", version: null, prices };
+}
+
+// Compute Engine bills machine types per vCPU and per GiB of memory, so the
+// family rates are kept ("n2-core", "n2-ram") and machine types are priced
+// from them at lookup time
+function gcpSku(sku: Json): { service: string; sku: string } | null {
+  const category = (sku.category ?? {}) as Json;
+  if (category.serviceDisplayName !== "Compute Engine") return null;
+  const description = String(sku.description ?? "");
+
+  const instance =
+    description.match(
+      /^(?:Spot Preemptible |Preemptible )?(\w+) (?:AMD |Arm )?Instance (Core|Ram)/
+    ) ?? description.match(/^Commitment v\d: (\w+) (?:AMD )?(Cpu|Ram)/);
+  if (instance) {
+    const resource = instance[2] === "Ram" ? "ram" : "core";
+    return {
+      service: "compute-engine",
+      sku: `${instance[1].toLowerCase()}-${resource}`
+    };
+  }
+  const disk = Object.entries(GCP_DISKS).find(([label]) =>
+    description.startsWith(label)
+  );
+  return disk ? { service: "persistent-disk", sku: disk[1] } : null;
+}
+
+// Cloud Billing Catalog API responses (services/<id>/skus)
+function parseGcpSkus(doc: Json): PriceSnapshot {
+  const prices: CatalogPrice[] = [];
+  for (const sku of (doc.skus ?? []) as Json[]) {
+    const target = gcpSku(sku);
+    const category = (sku.category ?? {}) as Json;
+    const model = GCP_MODELS[String(category.usageType)];
+    if (!target || !model) continue;
+
+    const [info] = (sku.pricingInfo ?? []) as Json[];
+    const expression = (info?.pricingExpression ?? {}) as Json;
+    const unit = GCP_UNITS[String(expression.usageUnit)];
+    const rates = (expression.tieredRates ?? []) as Json[];
+    const rate = (rates.find((r) => {
+      const price = (r.unitPrice ?? {}) as Json;
+      return Number(price.units ?? 0) > 0 || Number(price.nanos ?? 0) > 0;
+    }) ?? rates[0]) as Json | undefined;
+    if (!unit || !rate) continue;
+    const unitPrice = (rate.unitPrice ?? {}) as Json;
+    const price =
+      Number(unitPrice.units ?? 0) + Number(unitPrice.nanos ?? 0) / 1e9;
+
+    for (const region of (sku.serviceRegions ?? []) as string[]) {
+      prices.push({
+        provider: "gcp",
+        service: target.service,
+        sku: target.sku,
+        region,
+        pricingModel: model,
+        unit,
+        price,
+        currency: String(unitPrice.currencyCode ?? "USD")
+      });
+    }
+  }
+  return { source: "gcp-skus", version: null, prices };
+}
+
+function isCatalogPrice(value: unknown): value is CatalogPrice {
+  const price = value as Partial<CatalogPrice> | null;
+  return (
+    !!price &&
+    PROVIDERS.has(String(price.provider)) &&
+    typeof price.service === "string" &&
+    typeof price.sku === "string" &&
+    typeof price.region === "string" &&
+    MODELS.has(String(price.pricingModel)) &&
+    UNITS.has(String(price.unit)) &&
+    typeof price.price === "number" &&
+    Number.isFinite(price.price)
+  );
+}
+
+// Curated snapshots (e.g. Cloudflare pricing) in the catalog's own shape:
+// { "version": "...", "prices": [CatalogPrice, ...] }
+function parseCatalogSnapshot(doc: Json): PriceSnapshot {
+  return {
+    source: "catalog",
+    version: str(doc.version),
+    prices: (doc.prices as unknown[]).filter(isCatalogPrice).map((price) => ({
+      ...price,
+      provider: price.provider as CloudProvider,
+      sku: price.sku.toLowerCase(),
+      currency: price.currency ?? "USD"
+    }))
+  };
+}
+
+export function parsePriceSnapshot(value: unknown): PriceSnapshot | null {
+  const doc = value as Json | null;
+  if (!doc || typeof doc !== "object" || Array.isArray(doc)) return null;
+  if (typeof doc.offerCode === "string" && "products" in doc) {
+    return parseAwsOffer(doc);
+  }
+  if (Array.isArray(doc.Items)) return parseAzureRetail(doc);
+  if (Array.isArray(doc.skus)) return parseGcpSkus(doc);
+  if (Array.isArray(doc.prices)) return parseCatalogSnapshot(doc);
+  return null;
+}
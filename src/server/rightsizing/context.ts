@@ -0,0 +1,55 @@
+import { readFocusDatasets } from "../billing/dataset";
+import {
+  createResourceInventory,
+  type ResourceInventory
+} from "../billing/inventory";
+import { getRightsizingMargin } from "../db/settings";
+import type { UtilizationSummary } from "../metrics/series";
+import { loadProviderPrices } from "../pricing/lookup";
+import { instanceShapeFor } from "../pricing/shapes";
+import { type RightsizingReport, recommendRightsizing } from "./engine";
+
+// Joins the billed instances of the exports with the parsed utilization
+// series; null when there is nothing to size
+export async function buildRightsizingReport(
+  env: Env,
+  userId: string,
+  datasets: { focusKey: string | null }[],
+  summaries: UtilizationSummary[]
+): Promise<RightsizingReport | null> {
+  if (!datasets.some((dataset) => dataset.focusKey) || summaries.length === 0) {
+    return null;
+  }
+
+  const inventory = createResourceInventory();
+  await readFocusDatasets(env, [{ datasets, collector: inventory }]);
+  return rightsizingReportFrom(env, userId, inventory, summaries);
+}
+
+// Sizes instances already collected from the exports
+export async function rightsizingReportFrom(
+  env: Env,
+  userId: string,
+  inventory: ResourceInventory,
+  summaries: UtilizationSummary[]
+): Promise<RightsizingReport | null> {
+  if (inventory.skipped > 0) {
+    console.log(
+      `⚠️ Rightsizing skipped ${inventory.skipped} resources over the limit`
+    );
+  }
+
+  const resources = inventory
+    .resources()
+    .filter((resource) => resource.instanceType);
+  const providers = new Set(
+    resources
+      .map((resource) => instanceShapeFor(resource.instanceType)?.provider)
+      .filter((provider) => !!provider)
+  );
+  if (providers.size === 0) return null;
+
+  const rows = await loadProviderPrices(env, providers);
+  const safetyMargin = await getRightsizingMargin(env, userId);
+  return recommendRightsizing(resources, summaries, rows, { safetyMargin });
+}
@@ -0,0 +1,273 @@
+import { type BilledResource, monthlyRunRate } from "../billing/inventory";
+import type { CatalogPriceRow } from "../db/catalog";
+import type { CloudProvider } from "../pricing/catalog";
+import { resolvePrice } from "../pricing/lookup";
+import { type InstanceShape, instanceShapeFor } from "../pricing/shapes";
+import type { UtilizationSummary } from "../metrics/series";
+import { formatMoney, round } from "../utils/format";
+
+export interface RightsizingOptions {
+  // Headroom kept above p95 usage, e.g. 0.2 sizes for 120% of p95
+  safetyMargin: number;
+}
+
+export interface RightsizingCandidate {
+  resourceId: string;
+  resourceName: string;
+  provider: CloudProvider;
+  region: string;
+  currentType: string;
+  currentVcpus: number;
+  currentMemoryGib: number;
+  cpuP95: number;
+  // Null when no memory metric was exported; memory is then kept as is
+  memoryP95: number | null;
+  requiredVcpus: number;
+  requiredMemoryGib: number;
+  recommendedType: string;
+  recommendedVcpus: number;
+  recommendedMemoryGib: number;
+  currentMonthly: number;
+  recommendedMonthly: number;
+  monthlySavings: number;
+  currency: string;
+  catalogVersion: string;
+}
+
+export interface RightsizingReport {
+  safetyMargin: number;
+  // Billed instances with utilization metrics to size them by
+  evaluated: number;
+  // Billed instances without any matching CPU metric
+  unmeasured: number;
+  candidates: RightsizingCandidate[];
+  totalMonthlySavings: Record<string, number>;
+  catalogVersion: string | null;
+}
+
+export const DEFAULT_SAFETY_MARGIN = 0.2;
+
+const COMPUTE_SERVICE: Partial<Record<CloudProvider, string>> = {
+  aws: "ec2",
+  azure: "vm",
+  gcp: "compute-engine"
+};
+
+function normalizeId(id: string): string {
+  return id.trim().toLowerCase();
+}
+
+// Metric exports name resources by instance ID, full ARM/GCP path or name,
+// while billing exports use one of the others
+function metricMatches(metricId: string, resource: BilledResource): boolean {
+  const metric = normalizeId(metricId);
+  const ids = [resource.resourceId, resource.resourceName]
+    .filter(Boolean)
+    .map(normalizeId);
+  return ids.some(
+    (id) =>
+      id === metric || id.endsWith(`/${metric}`) || metric.endsWith(`/${id}`)
+  );
+}
+
+// p95 utilization as a percentage. Free, idle and swap series are skipped:
+// their p95 says nothing about peak usage, which would need their p5.
+function percentUsed(
+  summary: UtilizationSummary,
+  shape: InstanceShape
+): number | null {
+  if (/(free|usable|available|idle|swap)/i.test(summary.metric)) return null;
+  let value = summary.p95;
+  if (summary.unit === "Bytes") {
+    if (summary.kind !== "memory") return null;
+    value = (value / (shape.memoryGib * 1024 ** 3)) * 100;
+  } else if (summary.unit === "Ratio" || (!summary.unit && summary.max <= 1)) {
+    value *= 100;
+  } else if (summary.unit && summary.unit !== "Percent") {
+    return null;
+  }
+  return Math.min(Math.max(value, 0), 100);
+}
+
+function peakUtilization(
+  resource: BilledResource,
+  summaries: UtilizationSummary[],
+  shape: InstanceShape
+): { cpu: number | null; memory: number | null } {
+  let cpu: number | null = null;
+  let memory: number | null = null;
+  for (const summary of summaries) {
+    if (summary.kind !== "cpu" && summary.kind !== "memory") continue;
+    if (!metricMatches(summary.resourceId, resource)) continue;
+    const value = percentUsed(summary, shape);
+    if (value === null) continue;
+    if (summary.kind === "cpu") cpu = Math.max(cpu ?? 0, value);
+    else memory = Math.max(memory ?? 0, value);
+  }
+  return { cpu, memory };
+}
+
+function isArm(type: string): boolean {
+  const name = type.toLowerCase();
+  return (
+    /^[a-z]+\d+[a-z]*g[a-z]*\./.test(name) ||
+    /^standard_[a-z]+\d+[a-z]*p[a-z]*_/.test(name) ||
+    /^(t2a|c4a)-/.test(name)
+  );
+}
+
+function isBurstable(type: string): boolean {
+  const name = type.toLowerCase();
+  return (
+    /^t\d/.test(name) ||
+    /^standard_b/.test(name) ||
+    /^(e2-(micro|small|medium)|f1-micro|g1-small)$/.test(name)
+  );
+}
+
+// Instance types the catalog prices in the region, cheapest first
+function pricedTypes(
+  rows: CatalogPriceRow[],
+  provider: CloudProvider,
+  region: string
+): { sku: string; shape: InstanceShape; price: number; version: string }[] {
+  const service = COMPUTE_SERVICE[provider];
+  const skus = new Set(
+    rows
+      .filter((row) => row.provider === provider && row.service === service)
+      .map((row) => row.sku)
+  );
+  const priced = [];
+  for (const sku of skus) {
+    const shape = instanceShapeFor(sku);
+    const price = shape
+      ? resolvePrice(rows, { provider, sku, service, region })
+      : null;
+    if (shape && price) {
+      priced.push({ sku, shape, price: price.price, version: price.version });
+    }
+  }
+  return priced.sort((a, b) => a.price - b.price);
+}
+
+// Sizes each billed instance for its p95 CPU and memory plus the safety
+// margin and picks the cheapest catalog type that fits. Savings scale the
+// billed cost by the price ratio so negotiated discounts carry over.
+export function recommendRightsizing(
+  resources: BilledResource[],
+  summaries: UtilizationSummary[],
+  rows: CatalogPriceRow[],
+  options: RightsizingOptions = { safetyMargin: DEFAULT_SAFETY_MARGIN }
+): RightsizingReport {
+  const margin = options.safetyMargin;
+  const candidates: RightsizingCandidate[] = [];
+  const typesByRegion = new Map<string, ReturnType<typeof pricedTypes>>();
+  let evaluated = 0;
+  let unmeasured = 0;
+
+  for (const resource of resources) {
+    const currentType = resource.instanceType.toLowerCase();
+    const shape = currentType ? instanceShapeFor(currentType) : null;
+    if (!shape || !COMPUTE_SERVICE[shape.provider]) continue;
+
+    const usage = peakUtilization(resource, summaries, shape);
+    if (usage.cpu === null) {
+      unmeasured++;
+      continue;
+    }
+    evaluated++;
+
+    const region = resource.region.toLowerCase();
+    const key = `${shape.provider}|${region}`;
+    if (!typesByRegion.has(key)) {
+      typesByRegion.set(key, pricedTypes(rows, shape.provider, region));
+    }
+    const types = typesByRegion.get(key) ?? [];
+    const current = types.find((type) => type.sku === currentType);
+    if (!current) continue;
+
+    const requiredVcpus = shape.vcpus * (usage.cpu / 100) * (1 + margin);
+    const requiredMemoryGib =
+      usage.memory === null
+        ? shape.memoryGib
+        : shape.memoryGib * (usage.memory / 100) * (1 + margin);
+    const arm = isArm(currentType);
+    const burstable = isBurstable(currentType);
+
+    const fit = types.find(
+      (type) =>
+        type.price < current.price &&
+        type.shape.vcpus >= requiredVcpus &&
+        type.shape.memoryGib >= requiredMemoryGib &&
+        isArm(type.sku) === arm &&
+        (burstable || !isBurstable(type.sku))
+    );
+    if (!fit) continue;
+
+    const currentMonthly = monthlyRunRate(resource, resource.effectiveCost);
+    const recommendedMonthly = currentMonthly * (fit.price / current.price);
+    candidates.push({
+      resourceId: resource.resourceId,
+      resourceName: resource.resourceName,
+      provider: shape.provider,
+      region: resource.region,
+      currentType,
+      currentVcpus: shape.vcpus,
+      currentMemoryGib: shape.memoryGib,
+      cpuP95: round(usage.cpu, 1),
+      memoryP95: usage.memory === null ? null : round(usage.memory, 1),
+      requiredVcpus: round(requiredVcpus),
+      requiredMemoryGib: round(requiredMemoryGib),
+      recommendedType: fit.sku,
+      recommendedVcpus: fit.shape.vcpus,
+      recommendedMemoryGib: fit.shape.memoryGib,
+      currentMonthly: round(currentMonthly),
+      recommendedMonthly: round(recommendedMonthly),
+      monthlySavings: round(currentMonthly - recommendedMonthly),
+      currency: resource.currency,
+      catalogVersion: fit.version
+    });
+  }
+
+  candidates.sort((a, b) => b.monthlySavings - a.monthlySavings);
+  const totalMonthlySavings: Record<string, number> = {};
+  for (const candidate of candidates) {
+    totalMonthlySavings[candidate.currency] = round(
+      (totalMonthlySavings[candidate.currency] ?? 0) + candidate.monthlySavings
+    );
+  }
+  const versions = [...new Set(candidates.map((c) => c.catalogVersion))];
+
+  return {
+    safetyMargin: margin,
+    evaluated,
+    unmeasured,
+    candidates,
+    totalMonthlySavings,
+    catalogVersion: versions.join(", ") || null
+  };
+}
+
+export function formatRightsizing(report: RightsizingReport): string {
+  const totals = Object.entries(report.totalMonthlySavings)
+    .map(([currency, total]) => formatMoney(total, currency))
+    .join(" + ");
+  const lines = [
+    `Rightsizing candidates (p95 utilization + ${Math.round(report.safetyMargin * 100)}% safety margin, ${report.evaluated} instances with metrics, ${report.unmeasured} without)`,
+    `Estimated savings: ${totals || "none"} per month${report.catalogVersion ? ` (catalog ${report.catalogVersion})` : ""}`
+  ];
+  if (report.candidates.length === 0) {
+    lines.push("No measured instance fits a cheaper catalog type.");
+    return lines.join("\n");
+  }
+
+  lines.push(
+    "| Resource | Region | Current | p95 CPU | p95 memory | Recommended | Monthly now | Monthly after | Savings |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...report.candidates.map(
+      (c) =>
+        `| ${c.resourceName || c.resourceId} | ${c.region || "?"} | ${c.currentType} (${c.currentVcpus} vCPU, ${c.currentMemoryGib} GiB) | ${c.cpuP95}% | ${c.memoryP95 === null ? "n/a" : `${c.memoryP95}%`} | ${c.recommendedType} (${c.recommendedVcpus} vCPU, ${c.recommendedMemoryGib} GiB) | ${formatMoney(c.currentMonthly, c.currency)} | ${formatMoney(c.recommendedMonthly, c.currency)} | ${formatMoney(c.monthlySavings, c.currency)} |`
+    )
+  );
+  return lines.join("\n");
+}
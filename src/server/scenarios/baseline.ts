@@ -0,0 +1,207 @@
+import type { FocusRecord } from "../billing/focus";
+import type { CloudProvider } from "../pricing/catalog";
+import { instanceShapeFor } from "../pricing/shapes";
+import {
+  createBucketUsageCollector,
+  type StorageProvider
+} from "../tiering/usage";
+import { createTransferUsageCollector } from "../transfer/usage";
+import { round } from "../utils/format";
+import { COLLECTOR_LIMITS, DAYS_PER_MONTH, DAY_MS } from "../utils/constants";
+
+// Monthly instance spend of one type in one region
+export interface ComputeLine {
+  provider: CloudProvider;
+  region: string;
+  instanceType: string;
+  onDemandCost: number;
+  // Spend already covered by reservations or savings plans
+  committedCost: number;
+}
+
+// Monthly standard-class storage of one bucket, the part tiering can move
+export interface StorageLine {
+  bucket: string;
+  provider: StorageProvider;
+  region: string;
+  standardGb: number;
+  standardCost: number;
+  egressGb: number;
+  egressCost: number;
+}
+
+// Monthly internet egress and CDN delivery, what Cloudflare can serve
+export interface TrafficLine {
+  egressGb: number;
+  egressCost: number;
+  cdnGb: number;
+  cdnCost: number;
+}
+
+// The thread's bill as a month of spend, the starting point of every
+// scenario
+export interface ScenarioBaseline {
+  currency: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  monthlyTotal: number;
+  compute: ComputeLine[];
+  storage: StorageLine[];
+  traffic: TrafficLine;
+}
+
+export interface ScenarioBaselineCollector {
+  add(record: FocusRecord): void;
+  baseline(): ScenarioBaseline | null;
+  skipped: number;
+}
+
+interface CurrencyState {
+  total: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+  compute: Map<string, ComputeLine>;
+}
+
+function providerOf(record: FocusRecord): CloudProvider | null {
+  const name = record.ProviderName.toLowerCase();
+  if (/aws|amazon/.test(name)) return "aws";
+  if (/google|gcp/.test(name)) return "gcp";
+  if (/azure|microsoft/.test(name)) return "azure";
+  return null;
+}
+
+// Virtual machine hours; managed databases and caches keep their own families
+function isInstanceUsage(record: FocusRecord): boolean {
+  const type = record.x_InstanceType.toLowerCase();
+  return (
+    record.ChargeCategory === "Usage" &&
+    !!type &&
+    !/^(db|cache)\./.test(type) &&
+    !!instanceShapeFor(type)
+  );
+}
+
+function monthsOf(start: string | null, end: string | null): number {
+  const from = Date.parse(start ?? "");
+  const to = Date.parse(end ?? "");
+  if (!Number.isFinite(from) || !Number.isFinite(to)) return 1;
+  return Math.max((to - from) / DAY_MS, 1) / DAYS_PER_MONTH;
+}
+
+export function createScenarioBaselineCollector(): ScenarioBaselineCollector {
+  const currencies = new Map<string, CurrencyState>();
+  const buckets = createBucketUsageCollector();
+  const transfer = createTransferUsageCollector();
+
+  const collector: ScenarioBaselineCollector = {
+    skipped: 0,
+
+    add(record) {
+      buckets.add(record);
+      transfer.add(record);
+
+      const currency = record.BillingCurrency || "USD";
+      let state = currencies.get(currency);
+      if (!state) {
+        state = {
+          total: 0,
+          periodStart: null,
+          periodEnd: null,
+          compute: new Map()
+        };
+        currencies.set(currency, state);
+      }
+      state.total += record.EffectiveCost;
+      const start = record.ChargePeriodStart || null;
+      const end = record.ChargePeriodEnd || record.ChargePeriodStart || null;
+      if (start && (!state.periodStart || start < state.periodStart)) {
+        state.periodStart = start;
+      }
+      if (end && (!state.periodEnd || end > state.periodEnd)) {
+        state.periodEnd = end;
+      }
+
+      // Spot spend stays as it is in every scenario
+      if (!isInstanceUsage(record) || record.PricingCategory === "Dynamic") {
+        return;
+      }
+      const provider = providerOf(record);
+      if (!provider) return;
+      const instanceType = record.x_InstanceType.toLowerCase();
+      const key = `${provider}|${record.RegionId}|${instanceType}`;
+      let line = state.compute.get(key);
+      if (!line) {
+        if (state.compute.size >= COLLECTOR_LIMITS.computeLines) {
+          collector.skipped++;
+          return;
+        }
+        line = {
+          provider,
+          region: record.RegionId,
+          instanceType,
+          onDemandCost: 0,
+          committedCost: 0
+        };
+        state.compute.set(key, line);
+      }
+      if (
+        record.PricingCategory === "Committed" ||
+        record.CommitmentDiscountId
+      ) {
+        line.committedCost += record.EffectiveCost;
+      } else {
+        line.onDemandCost += record.EffectiveCost;
+      }
+    },
+
+    // Scenarios are priced in the currency most of the spend is billed in
+    baseline() {
+      const [top] = [...currencies].sort((a, b) => b[1].total - a[1].total);
+      if (!top) return null;
+      const [currency, state] = top;
+      const months = monthsOf(state.periodStart, state.periodEnd);
+      const monthly = (value: number) => round(value / months);
+
+      const storage = buckets
+        .buckets()
+        .filter((b) => b.currency === currency && b.gbMonths.standard > 0)
+        .map((b) => ({
+          bucket: b.bucket,
+          provider: b.provider,
+          region: b.region,
+          standardGb: monthly(b.gbMonths.standard),
+          standardCost: monthly(b.storageCost.standard),
+          egressGb: monthly(b.egressGb),
+          egressCost: monthly(b.egressCost)
+        }));
+
+      const usage = transfer.usage(currency);
+      const egress = usage?.classes.get("internet-egress");
+      const cdn = usage?.classes.get("cdn");
+
+      return {
+        currency,
+        periodStart: state.periodStart,
+        periodEnd: state.periodEnd,
+        monthlyTotal: monthly(state.total),
+        compute: [...state.compute.values()]
+          .filter((c) => c.onDemandCost > 0 || c.committedCost > 0)
+          .map((c) => ({
+            ...c,
+            onDemandCost: monthly(c.onDemandCost),
+            committedCost: monthly(c.committedCost)
+          })),
+        storage,
+        traffic: {
+          egressGb: monthly(egress?.gb ?? 0),
+          egressCost: monthly(egress?.cost ?? 0),
+          cdnGb: monthly(cdn?.gb ?? 0),
+          cdnCost: monthly(cdn?.cost ?? 0)
+        }
+      };
+    }
+  };
+
+  return collector;
+}
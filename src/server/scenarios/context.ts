@@ -0,0 +1,194 @@
+import { readFocusDatasets } from "../billing/dataset";
+import { getThreadCostDatasets } from "../db/datasets";
+import { findFxRates } from "../db/fx";
+import { saveScenario } from "../db/scenarios";
+import { loadProviderPrices } from "../pricing/lookup";
+import { cacheHitRatioIn } from "../transfer/context";
+import {
+  createScenarioBaselineCollector,
+  type ScenarioBaseline,
+  type ScenarioBaselineCollector
+} from "./baseline";
+import {
+  type ScenarioResult,
+  type ScenarioTransform,
+  simulateScenario
+} from "./engine";
+
+const WHAT_IF = /\bwhat[- ]if\b|^\s*\/(whatif|scenario)\b/i;
+// "us-east-1", "us-central1" or "westeurope"
+const REGION =
+  /\b([a-z]{2}-[a-z]+-\d|[a-z]+-[a-z]+\d|(?:east|west|north|south|central)[a-z]*\d?)\b/g;
+const MAX_NAME_LENGTH = 120;
+// Commitments are sized by coverage, which defaults to a steady 80% baseline
+const DEFAULT_COVERAGE = 0.8;
+
+export function asksWhatIf(message: string): boolean {
+  return WHAT_IF.test(message);
+}
+
+export function asksToCompareScenarios(message: string): boolean {
+  return /compare\b.*\bscenarios|scenarios side by side|^\s*\/scenarios\b/i.test(
+    message
+  );
+}
+
+function shareIn(clause: string): number | undefined {
+  const match = clause.match(/(\d+(?:\.\d+)?)\s*%/);
+  if (!match) return undefined;
+  const share = Number(match[1]) / 100;
+  return share > 0 && share <= 1 ? share : undefined;
+}
+
+function transformOf(clause: string): ScenarioTransform | null {
+  const share = shareIn(clause);
+  if (/savings plan|reserv|\bri\b|commit|\bcud\b/i.test(clause)) {
+    return {
+      type: "commitment",
+      kind: /reserv|\bri\b|resource-based/i.test(clause)
+        ? "reserved-instance"
+        : "savings-plan",
+      term: /\b3[- ]?(year|yr)|three[- ]year/i.test(clause) ? "3yr" : "1yr",
+      payment: /all[- ]upfront/i.test(clause)
+        ? "all-upfront"
+        : /partial[- ]upfront/i.test(clause)
+          ? "partial-upfront"
+          : "no-upfront",
+      coverage: share ?? DEFAULT_COVERAGE
+    };
+  }
+  if (/graviton|\barm\b/i.test(clause)) {
+    const from = clause.match(/\b([a-z]\d[a-z]*)\b(?=.*\b(?:to|on)\b)/i)?.[1];
+    return { type: "instance-family", from, to: "graviton", share: share ?? 1 };
+  }
+  if (
+    /\br2\b|glacier|infrequent|standard-ia|nearline|coldline|\bcool\b|deep archive|archive tier/i.test(
+      clause
+    )
+  ) {
+    return {
+      type: "storage-tier",
+      to: /\br2\b/i.test(clause)
+        ? "r2"
+        : /deep archive/i.test(clause)
+          ? "deep-archive"
+          : /glacier|coldline|archive|\bcold\b/i.test(clause)
+            ? "archive"
+            : "infrequent",
+      share: share ?? 1
+    };
+  }
+  if (/cloudflare|\bcdn\b/i.test(clause)) {
+    // "at a 90% cache hit ratio" is not the share of traffic moved
+    const moved = shareIn(
+      clause.replace(/\d+(?:\.\d+)?\s*%\s*(?:cache )?hit/i, "")
+    );
+    return {
+      type: "cloudflare-traffic",
+      share: moved ?? 1,
+      cacheHitRatio: cacheHitRatioIn(clause)
+    };
+  }
+  const family = clause.match(
+    /\b(?:from\s+)?([a-z]\d[a-z]*)\b.*\bto\s+([a-z]\d[a-z]*)\b/i
+  );
+  if (family) {
+    return {
+      type: "instance-family",
+      from: family[1].toLowerCase(),
+      to: family[2].toLowerCase(),
+      share: share ?? 1
+    };
+  }
+  const regions = [...clause.toLowerCase().matchAll(REGION)].map((m) => m[1]);
+  if (regions.length > 0 && /\bto\b/i.test(clause)) {
+    return {
+      type: "region-move",
+      from: regions.length > 1 ? regions[0] : undefined,
+      to: regions[regions.length - 1],
+      share: share ?? 1
+    };
+  }
+  return null;
+}
+
+// "what if we move 40% of EC2 to Graviton and buy a 1-year Compute Savings
+// Plan" -> one transform per clause, in the order they are named
+export function parseScenario(message: string): ScenarioTransform[] {
+  return message
+    .replace(WHAT_IF, "")
+    .split(/\band then\b|\bthen\b|\band\b|[,;+]/i)
+    .map((clause) => transformOf(clause))
+    .filter((t): t is ScenarioTransform => t !== null);
+}
+
+// A month of the exports' spend; null when they bill nothing
+export async function buildScenarioBaseline(
+  env: Env,
+  datasets: { focusKey: string | null }[]
+): Promise<ScenarioBaseline | null> {
+  const collector = createScenarioBaselineCollector();
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  return scenarioBaselineFrom(collector);
+}
+
+export function scenarioBaselineFrom(
+  collector: ScenarioBaselineCollector
+): ScenarioBaseline | null {
+  if (collector.skipped > 0) {
+    console.log(
+      `⚠️ Scenario baseline skipped ${collector.skipped} instance line items over the limit`
+    );
+  }
+  return collector.baseline();
+}
+
+// Simulates the transforms over the thread's exports and saves the scenario;
+// null when the thread has no billed spend
+export async function runScenario(
+  env: Env,
+  userId: string,
+  threadId: string,
+  transforms: ScenarioTransform[],
+  name?: string
+): Promise<{ id: number; name: string; result: ScenarioResult } | null> {
+  const datasets = await getThreadCostDatasets(env, userId, threadId);
+  const baseline = await buildScenarioBaseline(env, datasets);
+  return baseline
+    ? saveScenarioRun(env, userId, threadId, transforms, baseline, name)
+    : null;
+}
+
+// Simulates the transforms over a baseline already built from the thread's
+// exports and saves the scenario
+export async function saveScenarioRun(
+  env: Env,
+  userId: string,
+  threadId: string,
+  transforms: ScenarioTransform[],
+  baseline: ScenarioBaseline,
+  name?: string
+): Promise<{ id: number; name: string; result: ScenarioResult }> {
+  // R2 moves are priced from the catalog's Cloudflare rows
+  const [prices, rates] = await Promise.all([
+    loadProviderPrices(env, [
+      ...baseline.compute.map((line) => line.provider),
+      "cloudflare"
+    ]),
+    findFxRates(env, [baseline.currency])
+  ]);
+  const result = simulateScenario(baseline, transforms, prices, rates);
+  const scenarioName = (
+    name?.trim() || result.steps.map((step) => step.description).join(" + ")
+  ).slice(0, MAX_NAME_LENGTH);
+  const id = await saveScenario(
+    env,
+    userId,
+    threadId,
+    scenarioName,
+    transforms,
+    result
+  );
+  console.log(`✅ Scenario saved with ID: ${id}`);
+  return { id, name: scenarioName, result };
+}
@@ -0,0 +1,504 @@
+import {
+  type CommitmentKind,
+  type CommitmentTerm,
+  commitmentDiscount,
+  type PaymentOption
+} from "../commitments/engine";
+import {
+  BASE_CURRENCY,
+  type FxQuote,
+  type FxRate,
+  resolveFxQuote
+} from "../currency/fx";
+import type { CatalogPriceRow } from "../db/catalog";
+import {
+  type CatalogPrice,
+  type CloudProvider,
+  regionalPrice
+} from "../pricing/catalog";
+import { type CatalogPricer, createCatalogPricer } from "../pricing/lookup";
+import { type StorageTarget, storageTargetPrice } from "../tiering/engine";
+import {
+  DEFAULT_CACHE_HIT_RATIO,
+  DEFAULT_PLAN_MONTHLY,
+  LIST_EGRESS_PER_GB
+} from "../transfer/engine";
+import { formatMoney, round } from "../utils/format";
+import type { ComputeLine, ScenarioBaseline } from "./baseline";
+
+// One change to the bill; shares are fractions (0.4 moves 40%)
+export type ScenarioTransform =
+  | {
+      type: "instance-family";
+      // Family moved, e.g. "m5"; every family when left out
+      from?: string;
+      // Target family, e.g. "m7g", or "graviton" for the Arm equivalent
+      to: string;
+      share: number;
+    }
+  | { type: "region-move"; from?: string; to: string; share: number }
+  | {
+      type: "commitment";
+      kind: CommitmentKind;
+      term: CommitmentTerm;
+      payment?: PaymentOption;
+      // Share of the remaining on-demand compute the commitment covers
+      coverage: number;
+    }
+  | { type: "storage-tier"; to: StorageTarget; share: number; bucket?: string }
+  | { type: "cloudflare-traffic"; share: number; cacheHitRatio?: number };
+
+export interface ScenarioStep {
+  transform: ScenarioTransform;
+  description: string;
+  assumptions: string;
+  monthlyDelta: number;
+}
+
+export interface ScenarioResult {
+  currency: string;
+  // Snapshots the instance and R2 prices came from
+  catalogVersion: string | null;
+  // Rate USD list prices were converted at; absent on scenarios saved before
+  // prices were converted, null when no rate is stored for the currency
+  fx?: FxQuote | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  baselineMonthly: number;
+  projectedMonthly: number;
+  monthlyDelta: number;
+  steps: ScenarioStep[];
+}
+
+// Part of the bill each transform works on; later steps see the bill the
+// earlier ones left
+interface ScenarioState {
+  baseline: ScenarioBaseline;
+  catalog: CatalogPricer;
+  fx: FxQuote | null;
+  compute: ComputeLine[];
+  storage: ScenarioBaseline["storage"];
+  traffic: ScenarioBaseline["traffic"];
+  cloudflarePlan: boolean;
+}
+
+// Graviton list prices run about 20% below the x86 sizes they replace
+const GRAVITON_PRICE_RATIO = 0.8;
+const GRAVITON_FAMILIES: Record<string, string[]> = {
+  m: ["m7g", "m6g"],
+  c: ["c7g", "c6g"],
+  r: ["r7g", "r6g"],
+  t: ["t4g"]
+};
+const CATALOG_SERVICE: Record<CloudProvider, string> = {
+  aws: "ec2",
+  azure: "vm",
+  gcp: "compute-engine",
+  cloudflare: "workers"
+};
+
+// Step of a transform priced in USD when the baseline currency has no rate
+function unconverted(
+  state: ScenarioState,
+  description: string
+): Omit<ScenarioStep, "transform"> {
+  return {
+    description,
+    assumptions: `Not priced: no ${state.baseline.currency} exchange rate to convert the USD list prices`,
+    monthlyDelta: 0
+  };
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 1000) / 10}%`;
+}
+
+// "m5.xlarge" -> ["m5", ".xlarge"], "n2-standard-4" -> ["n2", "-standard-4"]
+function splitType(instanceType: string): [string, string] {
+  const match = instanceType.match(/^([^.-]+)([.-].*)$/);
+  return match ? [match[1], match[2]] : [instanceType, ""];
+}
+
+function isGraviton(family: string): boolean {
+  return /^[a-z]+\d+[a-z]*g[a-z]*$/.test(family);
+}
+
+function hourlyPrice(
+  catalog: CatalogPricer,
+  line: ComputeLine,
+  instanceType: string
+): number | null {
+  return (
+    catalog.price({
+      provider: line.provider,
+      service: CATALOG_SERVICE[line.provider],
+      sku: instanceType,
+      region: line.region
+    })?.price ?? null
+  );
+}
+
+// Target type and its price relative to the current one; null when the
+// target cannot be priced
+function familySwap(
+  catalog: CatalogPricer,
+  line: ComputeLine,
+  to: string
+): { instanceType: string; ratio: number } | null {
+  const [family, size] = splitType(line.instanceType);
+  const current = hourlyPrice(catalog, line, line.instanceType);
+  if (to.toLowerCase() === "graviton") {
+    const candidates = GRAVITON_FAMILIES[family[0]] ?? [];
+    if (line.provider !== "aws" || candidates.length === 0) return null;
+    for (const candidate of candidates) {
+      const price = hourlyPrice(catalog, line, `${candidate}${size}`);
+      if (price && current) {
+        return { instanceType: `${candidate}${size}`, ratio: price / current };
+      }
+    }
+    return {
+      instanceType: `${candidates[0]}${size}`,
+      ratio: GRAVITON_PRICE_RATIO
+    };
+  }
+  const instanceType = `${to.toLowerCase()}${size}`;
+  const price = hourlyPrice(catalog, line, instanceType);
+  return price && current ? { instanceType, ratio: price / current } : null;
+}
+
+function matchesFamily(
+  line: ComputeLine,
+  from: string | undefined,
+  to: string
+): boolean {
+  const [family] = splitType(line.instanceType);
+  if (family === to.toLowerCase()) return false;
+  if (to.toLowerCase() === "graviton" && isGraviton(family)) return false;
+  return !from || family === from.toLowerCase();
+}
+
+function applyInstanceFamily(
+  state: ScenarioState,
+  t: Extract<ScenarioTransform, { type: "instance-family" }>
+): Omit<ScenarioStep, "transform"> {
+  let delta = 0;
+  const moved: string[] = [];
+  const unpriced = new Set<string>();
+  const added: ComputeLine[] = [];
+  for (const line of state.compute) {
+    if (line.onDemandCost <= 0 || !matchesFamily(line, t.from, t.to)) continue;
+    const swap = familySwap(state.catalog, line, t.to);
+    if (!swap) {
+      unpriced.add(line.instanceType);
+      continue;
+    }
+    const movedCost = line.onDemandCost * t.share;
+    line.onDemandCost -= movedCost;
+    added.push({
+      ...line,
+      instanceType: swap.instanceType,
+      onDemandCost: movedCost * swap.ratio,
+      committedCost: 0
+    });
+    delta += movedCost * swap.ratio - movedCost;
+    moved.push(`${line.instanceType} → ${swap.instanceType}`);
+  }
+  state.compute.push(...added);
+
+  const target = t.to.toLowerCase() === "graviton" ? "Graviton" : t.to;
+  return {
+    description: `Move ${percent(t.share)} of on-demand ${t.from ?? "instance"} spend to ${target}${moved.length > 0 ? ` (${moved.slice(0, 4).join(", ")}${moved.length > 4 ? ", ..." : ""})` : ""}`,
+    assumptions: `Catalog list prices of the same size${t.to.toLowerCase() === "graviton" ? `, ${percent(1 - GRAVITON_PRICE_RATIO)} below x86 where the catalog has no Graviton price` : ""}; committed spend stays on its current family${unpriced.size > 0 ? `; not priced: ${[...unpriced].slice(0, 5).join(", ")}` : ""}`,
+    monthlyDelta: delta
+  };
+}
+
+// Price of the target region relative to the source one; null when either
+// has no known uplift
+function regionRatio(
+  provider: CloudProvider,
+  from: string,
+  to: string
+): number | null {
+  if (from === to) return 1;
+  const unit: CatalogPrice = {
+    provider,
+    service: "",
+    sku: "",
+    region: from,
+    pricingModel: "on-demand",
+    unit: "hour",
+    price: 1,
+    currency: "USD"
+  };
+  const moved = regionalPrice(unit, to);
+  return moved === unit ? null : moved.price;
+}
+
+function applyRegionMove(
+  state: ScenarioState,
+  t: Extract<ScenarioTransform, { type: "region-move" }>
+): Omit<ScenarioStep, "transform"> {
+  let delta = 0;
+  const unpriced = new Set<string>();
+  const added: ComputeLine[] = [];
+  const inScope = (region: string) =>
+    region !== t.to && (!t.from || region === t.from);
+
+  for (const line of state.compute) {
+    if (line.onDemandCost <= 0 || !inScope(line.region)) continue;
+    const ratio = regionRatio(line.provider, line.region, t.to);
+    if (ratio === null) {
+      unpriced.add(line.region);
+      continue;
+    }
+    const movedCost = line.onDemandCost * t.share;
+    line.onDemandCost -= movedCost;
+    added.push({
+      ...line,
+      region: t.to,
+      onDemandCost: movedCost * ratio,
+      committedCost: 0
+    });
+    delta += movedCost * ratio - movedCost;
+  }
+  state.compute.push(...added);
+
+  for (const bucket of state.storage) {
+    if (!inScope(bucket.region)) continue;
+    const ratio = regionRatio(bucket.provider, bucket.region, t.to);
+    if (ratio === null) {
+      unpriced.add(bucket.region);
+      continue;
+    }
+    const movedCost = bucket.standardCost * t.share;
+    bucket.standardCost += movedCost * ratio - movedCost;
+    delta += movedCost * ratio - movedCost;
+  }
+
+  return {
+    description: `Move ${percent(t.share)} of on-demand compute and standard storage${t.from ? ` in ${t.from}` : ""} to ${t.to}`,
+    assumptions: `Regional list price uplifts of the catalog; one-time data copy and inter-region transfer are not included${unpriced.size > 0 ? `; regions without a known uplift: ${[...unpriced].join(", ")}` : ""}`,
+    monthlyDelta: delta
+  };
+}
+
+function applyCommitment(
+  state: ScenarioState,
+  t: Extract<ScenarioTransform, { type: "commitment" }>
+): Omit<ScenarioStep, "transform"> {
+  const payment = t.payment ?? "no-upfront";
+  let delta = 0;
+  const programs = new Set<string>();
+  const unsold = new Set<string>();
+  for (const line of state.compute) {
+    if (line.onDemandCost <= 0) continue;
+    const program = commitmentDiscount(
+      line.provider,
+      t.kind,
+      t.term,
+      payment,
+      state.catalog,
+      line
+    );
+    if (!program) {
+      unsold.add(line.provider);
+      continue;
+    }
+    programs.add(program.name);
+    const covered = line.onDemandCost * t.coverage;
+    line.onDemandCost -= covered;
+    line.committedCost += covered * (1 - program.discount);
+    delta -= covered * program.discount;
+  }
+
+  const name = programs.size > 0 ? [...programs].join(", ") : t.kind;
+  return {
+    description: `Buy a ${t.term === "1yr" ? "1-year" : "3-year"} ${name} covering ${percent(t.coverage)} of on-demand compute`,
+    assumptions: `${payment} payment at the catalog's commitment rate or the typical published discount, fully used${unsold.size > 0 ? `; not sold for ${[...unsold].join(", ")} with these terms` : ""}`,
+    monthlyDelta: delta
+  };
+}
+
+function applyStorageTier(
+  state: ScenarioState,
+  t: Extract<ScenarioTransform, { type: "storage-tier" }>
+): Omit<ScenarioStep, "transform"> {
+  if (!state.fx) {
+    return unconverted(
+      state,
+      `Move ${percent(t.share)} of standard storage${t.bucket ? ` in ${t.bucket}` : ""} to ${t.to}`
+    );
+  }
+  const rate = state.fx.rate;
+  let delta = 0;
+  let movedGb = 0;
+  const targets = new Set<string>();
+  for (const bucket of state.storage) {
+    if (t.bucket && bucket.bucket !== t.bucket) continue;
+    const target = storageTargetPrice(bucket.provider, t.to, state.catalog);
+    if (!target) continue;
+    targets.add(target.name);
+    const gb = bucket.standardGb * t.share;
+    const cost = bucket.standardCost * t.share;
+    const egress = t.to === "r2" ? bucket.egressCost * t.share : 0;
+    const egressGb = t.to === "r2" ? bucket.egressGb * t.share : 0;
+    bucket.standardGb -= gb;
+    bucket.standardCost -= cost;
+    bucket.egressGb -= egressGb;
+    bucket.egressCost -= egress;
+    // Egress R2 no longer bills is no longer there to shift to Cloudflare
+    state.traffic.egressGb = Math.max(state.traffic.egressGb - egressGb, 0);
+    state.traffic.egressCost = Math.max(state.traffic.egressCost - egress, 0);
+    movedGb += gb;
+    delta += gb * target.storage * rate - cost - egress;
+  }
+
+  const name = targets.size > 0 ? [...targets].join(", ") : t.to;
+  return {
+    description: `Move ${percent(t.share)} of standard storage${t.bucket ? ` in ${t.bucket}` : ""} (${round(movedGb)} GB) to ${name}`,
+    assumptions:
+      t.to === "r2"
+        ? "R2 storage at list price and no egress fees for the moved data; operations and the one-time copy are priced in the storage comparison"
+        : "List storage prices; retrieval and lifecycle transition fees depend on access and are priced in the storage comparison",
+    monthlyDelta: delta
+  };
+}
+
+function applyCloudflareTraffic(
+  state: ScenarioState,
+  t: Extract<ScenarioTransform, { type: "cloudflare-traffic" }>
+): Omit<ScenarioStep, "transform"> {
+  if (!state.fx) {
+    return unconverted(
+      state,
+      `Serve ${percent(t.share)} of internet egress and CDN traffic through Cloudflare`
+    );
+  }
+  const rate = state.fx.rate;
+  const hitRatio = t.cacheHitRatio ?? DEFAULT_CACHE_HIT_RATIO;
+  const { traffic } = state;
+  const egressPerGb =
+    traffic.egressGb > 0
+      ? traffic.egressCost / traffic.egressGb
+      : LIST_EGRESS_PER_GB * rate;
+  const servedGb = (traffic.egressGb + traffic.cdnGb) * t.share;
+  const current = (traffic.egressCost + traffic.cdnCost) * t.share;
+  // One plan fronts every origin, however many shifts the scenario makes
+  const plan =
+    servedGb > 0 && !state.cloudflarePlan ? DEFAULT_PLAN_MONTHLY * rate : 0;
+  const projected = servedGb * (1 - hitRatio) * egressPerGb + plan;
+  if (servedGb > 0) state.cloudflarePlan = true;
+
+  for (const key of ["egressGb", "egressCost", "cdnGb", "cdnCost"] as const) {
+    traffic[key] *= 1 - t.share;
+  }
+  // Buckets served through Cloudflare leave less egress for R2 to remove
+  for (const bucket of state.storage) {
+    bucket.egressGb *= 1 - t.share;
+    bucket.egressCost *= 1 - t.share;
+  }
+
+  return {
+    description: `Serve ${percent(t.share)} of internet egress and CDN traffic (${round(servedGb)} GB/month) through Cloudflare`,
+    assumptions: `${percent(hitRatio)} cache hit ratio, misses billed at ${round(egressPerGb, 4)} ${state.baseline.currency}/GB origin egress${plan > 0 ? `, ${round(plan)} ${state.baseline.currency}/month plan` : ""}`,
+    monthlyDelta: projected - current
+  };
+}
+
+// Applies the transforms in order to a month of the baseline bill; USD list
+// prices are converted to its currency at the rate for its billing period
+export function simulateScenario(
+  baseline: ScenarioBaseline,
+  transforms: ScenarioTransform[],
+  prices: CatalogPriceRow[],
+  rates: FxRate[] = []
+): ScenarioResult {
+  const asOf = (baseline.periodEnd ?? new Date().toISOString()).slice(0, 10);
+  const state: ScenarioState = {
+    baseline,
+    catalog: createCatalogPricer(prices),
+    fx: resolveFxQuote(rates, BASE_CURRENCY, baseline.currency, asOf),
+    compute: baseline.compute.map((line) => ({ ...line })),
+    storage: baseline.storage.map((bucket) => ({ ...bucket })),
+    traffic: { ...baseline.traffic },
+    cloudflarePlan: false
+  };
+
+  const steps = transforms.map((transform): ScenarioStep => {
+    const step =
+      transform.type === "instance-family"
+        ? applyInstanceFamily(state, transform)
+        : transform.type === "region-move"
+          ? applyRegionMove(state, transform)
+          : transform.type === "commitment"
+            ? applyCommitment(state, transform)
+            : transform.type === "storage-tier"
+              ? applyStorageTier(state, transform)
+              : applyCloudflareTraffic(state, transform);
+    return { transform, ...step, monthlyDelta: round(step.monthlyDelta) };
+  });
+
+  const monthlyDelta = round(
+    steps.reduce((sum, step) => sum + step.monthlyDelta, 0)
+  );
+  return {
+    currency: baseline.currency,
+    catalogVersion: state.catalog.versions().join(", ") || null,
+    fx: state.fx,
+    periodStart: baseline.periodStart,
+    periodEnd: baseline.periodEnd,
+    baselineMonthly: baseline.monthlyTotal,
+    projectedMonthly: round(baseline.monthlyTotal + monthlyDelta),
+    monthlyDelta,
+    steps
+  };
+}
+
+function signedMoney(value: number, currency: string): string {
+  return `${value >= 0 ? "+" : "-"}${formatMoney(Math.abs(value), currency)}`;
+}
+
+function change(result: ScenarioResult): string {
+  return result.baselineMonthly !== 0
+    ? `${result.monthlyDelta >= 0 ? "+" : ""}${percent(result.monthlyDelta / result.baselineMonthly)}`
+    : "-";
+}
+
+export function formatScenario(name: string, result: ScenarioResult): string {
+  const money = (value: number) => formatMoney(value, result.currency);
+  return [
+    `What-if scenario "${name}" (${result.currency}/month, baseline from billing exports ${result.periodStart?.slice(0, 10) ?? "?"} to ${result.periodEnd?.slice(0, 10) ?? "?"}):`,
+    "| Step | Change | Monthly delta | Assumptions |",
+    "|---|---|---|---|",
+    ...result.steps.map(
+      (step, i) =>
+        `| ${i + 1} | ${step.description} | ${signedMoney(step.monthlyDelta, result.currency)} | ${step.assumptions} |`
+    ),
+    `Current monthly bill: ${money(result.baselineMonthly)}`,
+    `Projected monthly bill: ${money(result.projectedMonthly)} (${signedMoney(result.monthlyDelta, result.currency)}, ${change(result)})${result.catalogVersion ? `; instance prices from catalog ${result.catalogVersion}` : ""}`,
+    ...(result.fx && result.fx.from !== result.fx.to
+      ? [
+          `USD list prices converted at 1 USD = ${+result.fx.rate.toPrecision(6)} ${result.currency} (${result.fx.rateDate}).`
+        ]
+      : [])
+  ].join("\n");
+}
+
+// Saved scenarios side by side, cheapest projection first
+export function formatScenarioComparison(
+  scenarios: { id: number; name: string; result: ScenarioResult }[]
+): string {
+  const sorted = [...scenarios].sort(
+    (a, b) => a.result.projectedMonthly - b.result.projectedMonthly
+  );
+  return [
+    "What-if scenarios compared (per month):",
+    "| # | Scenario | Current | Projected | Delta | Change | Steps |",
+    "|---|---|---|---|---|---|---|",
+    ...sorted.map(({ id, name, result }) => {
+      const money = (value: number) => formatMoney(value, result.currency);
+      return `| ${id} | ${name} | ${money(result.baselineMonthly)} | ${money(result.projectedMonthly)} | ${signedMoney(result.monthlyDelta, result.currency)} | ${change(result)} | ${result.steps.map((s) => s.description).join("; ")} |`;
+    })
+  ].join("\n");
+}
@@ -0,0 +1,51 @@
+import { z } from "zod/v3";
+
+// Transforms one scenario can chain
+const MAX_TRANSFORMS = 10;
+
+const share = z.number().gt(0).max(1);
+
+// A scenario run as the chat tool and the scenarios API accept it
+export const scenarioRunSchema = z.object({
+  threadId: z.string().min(1),
+  name: z.string().optional(),
+  transforms: z
+    .array(
+      z.discriminatedUnion("type", [
+        z.object({
+          type: z.literal("instance-family"),
+          from: z.string().optional(),
+          to: z.string().trim().min(1),
+          share
+        }),
+        z.object({
+          type: z.literal("region-move"),
+          from: z.string().optional(),
+          to: z.string().trim().min(1),
+          share
+        }),
+        z.object({
+          type: z.literal("commitment"),
+          kind: z.enum(["savings-plan", "reserved-instance"]),
+          term: z.enum(["1yr", "3yr"]),
+          payment: z
+            .enum(["no-upfront", "partial-upfront", "all-upfront"])
+            .optional(),
+          coverage: share
+        }),
+        z.object({
+          type: z.literal("storage-tier"),
+          to: z.enum(["infrequent", "archive", "deep-archive", "r2"]),
+          share,
+          bucket: z.string().optional()
+        }),
+        z.object({
+          type: z.literal("cloudflare-traffic"),
+          share,
+          cacheHitRatio: z.number().min(0).max(1).optional()
+        })
+      ])
+    )
+    .min(1)
+    .max(MAX_TRANSFORMS)
+});
@@ -0,0 +1,8 @@
+// Admin imports are authorized by a bearer token set as a Worker secret; an
+// unset token disables the import
+export function hasAdminToken(
+  request: Request,
+  token: string | undefined
+): boolean {
+  return !!token && request.headers.get("Authorization") === `Bearer ${token}`;
+}
@@ -1,9 +1,14 @@
-export function getOrSetSessionId(request: Request) {
+export function readSessionId(request: Request): string | null {
   const cookie = request.headers.get("Cookie") || "";
   const match = cookie.match(/sessionId=([^;]+)/);
+  return match ? match[1] : null;
+}
+
+export function getOrSetSessionId(request: Request) {
+  const existing = readSessionId(request);
 
-  if (match) {
-    return { sessionId: match[1], setCookie: null };
+  if (existing) {
+    return { sessionId: existing, setCookie: null };
   }
 
   const sessionId = crypto.randomUUID();
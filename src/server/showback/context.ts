@@ -0,0 +1,50 @@
+import { readFocusDatasets } from "../billing/dataset";
+import {
+  createShowbackCollector,
+  SHOWBACK_DIMENSIONS,
+  type ShowbackDimension,
+  type ShowbackReport,
+  type ShowbackTagKeys
+} from "./engine";
+
+const SHOWBACK_COMMAND = /^\/(showback|chargeback)\b\s*(.*)$/i;
+const DIMENSION_ALIASES: [RegExp, ShowbackDimension][] = [
+  [/^(teams?|owners?)$/i, "team"],
+  [/^(env|envs|environments?|stages?)$/i, "environment"],
+  [/^(cost[- _]?cent(er|re)s?|cc)$/i, "costCenter"]
+];
+
+// "/showback" renders every dimension, "/showback team" only one; null when
+// the message is not the command
+export function parseShowbackCommand(
+  message: string
+): ShowbackDimension[] | null {
+  const match = message.trim().match(SHOWBACK_COMMAND);
+  if (!match) return null;
+  const dimensions = match[2]
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .flatMap((word) =>
+      DIMENSION_ALIASES.filter(([pattern]) => pattern.test(word)).map(
+        ([, dimension]) => dimension
+      )
+    );
+  return dimensions.length > 0 ? [...new Set(dimensions)] : SHOWBACK_DIMENSIONS;
+}
+
+// Allocates the usage of the exports by the configured tag keys; null when
+// they have none
+export async function buildShowbackReport(
+  env: Env,
+  datasets: { focusKey: string | null }[],
+  tagKeys: ShowbackTagKeys
+): Promise<ShowbackReport | null> {
+  const collector = createShowbackCollector(tagKeys);
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  if (collector.skipped > 0) {
+    console.log(
+      `⚠️ Showback skipped ${collector.skipped} tag keys and values over the limit`
+    );
+  }
+  return collector.report();
+}
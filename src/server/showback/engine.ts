@@ -0,0 +1,305 @@
+import type { FocusRecord } from "../billing/focus";
+import { formatMoney, round } from "../utils/format";
+import { COLLECTOR_LIMITS } from "../utils/constants";
+
+export type ShowbackDimension = "team" | "environment" | "costCenter";
+
+export const SHOWBACK_DIMENSIONS: ShowbackDimension[] = [
+  "team",
+  "environment",
+  "costCenter"
+];
+
+// Tag or label keys read for each dimension, the first present one wins
+export type ShowbackTagKeys = Record<ShowbackDimension, string[]>;
+
+export const DEFAULT_TAG_KEYS: ShowbackTagKeys = {
+  team: ["team", "owner", "squad"],
+  environment: ["environment", "env", "stage"],
+  costCenter: ["cost-center", "costcenter", "cost_center"]
+};
+
+// Share of spend carrying one tag key
+export interface TagCoverage {
+  key: string;
+  taggedCost: number;
+  untaggedCost: number;
+  untaggedShare: number;
+}
+
+export interface ShowbackRow {
+  value: string;
+  // Spend tagged with the value
+  cost: number;
+  share: number;
+  // Tagged cost plus a proportional share of the untagged spend
+  chargeback: number;
+  topServices: { serviceName: string; cost: number }[];
+}
+
+export interface ShowbackAllocation {
+  tagKeys: string[];
+  rows: ShowbackRow[];
+  untaggedCost: number;
+  untaggedShare: number;
+}
+
+export interface ShowbackReport {
+  currency: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  totalCost: number;
+  // Usage in other billing currencies is left out rather than added up
+  otherCurrencyCost: Record<string, number>;
+  coverage: TagCoverage[];
+  dimensions: Record<ShowbackDimension, ShowbackAllocation>;
+}
+
+export interface ShowbackCollector {
+  add(record: FocusRecord): void;
+  report(): ShowbackReport | null;
+  skipped: number;
+}
+
+interface CurrencyState {
+  total: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+  // Tagged spend per normalized key, with the key as first seen
+  tagged: Map<string, { key: string; cost: number }>;
+  dimensions: Record<ShowbackDimension, Map<string, ValueState>>;
+}
+
+interface ValueState {
+  cost: number;
+  services: Map<string, number>;
+}
+
+const MAX_COVERAGE_ROWS = 20;
+const MAX_SHOWBACK_ROWS = 25;
+const TOP_SERVICES = 3;
+
+const DIMENSION_LABEL: Record<ShowbackDimension, string> = {
+  team: "Team",
+  environment: "Environment",
+  costCenter: "Cost center"
+};
+
+// CUR prefixes user tags ("user:team") and Parquet exports flatten
+// separators, so keys compare without case, prefix or separators
+export function normalizeTagKey(key: string): string {
+  return key
+    .toLowerCase()
+    .replace(/^user[:_]/, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function emptyState(): CurrencyState {
+  return {
+    total: 0,
+    periodStart: null,
+    periodEnd: null,
+    tagged: new Map(),
+    dimensions: {
+      team: new Map(),
+      environment: new Map(),
+      costCenter: new Map()
+    }
+  };
+}
+
+export function createShowbackCollector(
+  tagKeys: ShowbackTagKeys = DEFAULT_TAG_KEYS
+): ShowbackCollector {
+  const currencies = new Map<string, CurrencyState>();
+  const lookups = SHOWBACK_DIMENSIONS.map(
+    (dimension) => [dimension, tagKeys[dimension].map(normalizeTagKey)] as const
+  );
+
+  const collector: ShowbackCollector = {
+    skipped: 0,
+
+    // Usage is what tags can attribute; taxes, credits and fees are not
+    add(record) {
+      if (record.ChargeCategory !== "Usage") return;
+      const currency = record.BillingCurrency || "USD";
+      let state = currencies.get(currency);
+      if (!state) {
+        state = emptyState();
+        currencies.set(currency, state);
+      }
+      const cost = record.EffectiveCost;
+      state.total += cost;
+
+      const start = record.ChargePeriodStart || null;
+      const end = record.ChargePeriodEnd || record.ChargePeriodStart || null;
+      if (start && (!state.periodStart || start < state.periodStart)) {
+        state.periodStart = start;
+      }
+      if (end && (!state.periodEnd || end > state.periodEnd)) {
+        state.periodEnd = end;
+      }
+
+      const tags = new Map<string, string>();
+      for (const [key, value] of Object.entries(record.Tags)) {
+        const normalized = normalizeTagKey(key);
+        if (!value.trim() || tags.has(normalized)) continue;
+        tags.set(normalized, value.trim());
+        if (
+          !state.tagged.has(normalized) &&
+          state.tagged.size >= COLLECTOR_LIMITS.tagKeys
+        ) {
+          collector.skipped++;
+          continue;
+        }
+        const tagged = state.tagged.get(normalized) ?? { key, cost: 0 };
+        tagged.cost += cost;
+        state.tagged.set(normalized, tagged);
+      }
+
+      for (const [dimension, keys] of lookups) {
+        const key = keys.find((k) => tags.has(k));
+        if (!key) continue;
+        const values = state.dimensions[dimension];
+        const value = tags.get(key) as string;
+        let entry = values.get(value);
+        if (!entry) {
+          if (values.size >= COLLECTOR_LIMITS.tagValues) {
+            collector.skipped++;
+            continue;
+          }
+          entry = { cost: 0, services: new Map() };
+          values.set(value, entry);
+        }
+        entry.cost += cost;
+        const service = record.ServiceName || "(unknown service)";
+        entry.services.set(service, (entry.services.get(service) ?? 0) + cost);
+      }
+    },
+
+    report() {
+      const ranked = [...currencies].sort((a, b) => b[1].total - a[1].total);
+      if (ranked.length === 0) return null;
+      const [currency, state] = ranked[0];
+      const total = state.total;
+      const share = (cost: number) =>
+        total !== 0 ? round(cost / total, 4) : 0;
+
+      const coverage = [...state.tagged.values()]
+        .sort((a, b) => b.cost - a.cost)
+        .slice(0, MAX_COVERAGE_ROWS)
+        .map(({ key, cost }) => ({
+          key,
+          taggedCost: round(cost),
+          untaggedCost: round(total - cost),
+          untaggedShare: share(total - cost)
+        }));
+
+      const allocate = (dimension: ShowbackDimension): ShowbackAllocation => {
+        const values = [...state.dimensions[dimension]].sort(
+          (a, b) => b[1].cost - a[1].cost
+        );
+        const tagged = values.reduce((sum, [, entry]) => sum + entry.cost, 0);
+        const untagged = total - tagged;
+        return {
+          tagKeys: tagKeys[dimension],
+          rows: values.map(([value, entry]) => ({
+            value,
+            cost: round(entry.cost),
+            share: share(entry.cost),
+            chargeback: round(
+              tagged !== 0 ? entry.cost + (untagged * entry.cost) / tagged : 0
+            ),
+            topServices: [...entry.services]
+              .sort((a, b) => b[1] - a[1])
+              .slice(0, TOP_SERVICES)
+              .map(([serviceName, cost]) => ({
+                serviceName,
+                cost: round(cost)
+              }))
+          })),
+          untaggedCost: round(untagged),
+          untaggedShare: share(untagged)
+        };
+      };
+
+      return {
+        currency,
+        periodStart: state.periodStart,
+        periodEnd: state.periodEnd,
+        totalCost: round(total),
+        otherCurrencyCost: Object.fromEntries(
+          ranked.slice(1).map(([other, s]) => [other, round(s.total)])
+        ),
+        coverage,
+        dimensions: {
+          team: allocate("team"),
+          environment: allocate("environment"),
+          costCenter: allocate("costCenter")
+        }
+      };
+    }
+  };
+
+  return collector;
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 1000) / 10}%`;
+}
+
+// Tag coverage plus one showback table per dimension, or only the ones asked
+// for
+export function formatShowback(
+  report: ShowbackReport,
+  dimensions: ShowbackDimension[] = SHOWBACK_DIMENSIONS
+): string {
+  const money = (value: number) => formatMoney(value, report.currency);
+  const sections = [
+    [
+      `Tag coverage (${money(report.totalCost)} of usage, ${report.periodStart?.slice(0, 10) ?? "?"} to ${report.periodEnd?.slice(0, 10) ?? "?"}):`,
+      "| Tag key | Tagged | Untagged | Untagged share |",
+      "|---|---|---|---|",
+      ...report.coverage.map(
+        (c) =>
+          `| ${c.key} | ${money(c.taggedCost)} | ${money(c.untaggedCost)} | ${percent(c.untaggedShare)} |`
+      ),
+      ...(report.coverage.length === 0 ? ["No usage carries tags."] : [])
+    ].join("\n")
+  ];
+
+  for (const dimension of dimensions) {
+    const allocation = report.dimensions[dimension];
+    const label = DIMENSION_LABEL[dimension];
+    const rows = allocation.rows.slice(0, MAX_SHOWBACK_ROWS);
+    const rest = allocation.rows.slice(MAX_SHOWBACK_ROWS);
+    sections.push(
+      [
+        `Showback by ${label.toLowerCase()} (tags: ${allocation.tagKeys.join(", ")}; ${percent(allocation.untaggedShare)} untagged):`,
+        `| ${label} | Cost | Share | Chargeback | Top services |`,
+        "|---|---|---|---|---|",
+        ...rows.map(
+          (r) =>
+            `| ${r.value} | ${money(r.cost)} | ${percent(r.share)} | ${money(r.chargeback)} | ${r.topServices.map((s) => `${s.serviceName} ${money(s.cost)}`).join(", ")} |`
+        ),
+        ...(rest.length > 0
+          ? [
+              `| ${rest.length} more | ${money(rest.reduce((sum, r) => sum + r.cost, 0))} | | ${money(rest.reduce((sum, r) => sum + r.chargeback, 0))} | |`
+            ]
+          : []),
+        `| (untagged) | ${money(allocation.untaggedCost)} | ${percent(allocation.untaggedShare)} | - | |`
+      ].join("\n")
+    );
+  }
+
+  const others = Object.entries(report.otherCurrencyCost);
+  if (others.length > 0) {
+    sections.push(
+      `Usage billed in ${others.map(([currency, cost]) => formatMoney(cost, currency)).join(", ")} is not included.`
+    );
+  }
+  sections.push(
+    "Chargeback spreads untagged spend over the tagged values in proportion to their cost."
+  );
+  return sections.join("\n\n");
+}
@@ -0,0 +1,48 @@
+import { readFocusDatasets } from "../billing/dataset";
+import type { UtilizationSummary } from "../metrics/series";
+import { loadProviderPrices } from "../pricing/lookup";
+import { analyzeSpot, type SpotReport } from "./engine";
+import {
+  createWorkloadUsageCollector,
+  type WorkloadUsageCollector
+} from "./usage";
+
+// Spot and preemptible questions run the analysis on follow-ups too
+const SPOT_QUESTION = /\bspot\b|preemptible|interrupt/i;
+
+export function asksAboutSpot(message: string): boolean {
+  return SPOT_QUESTION.test(message);
+}
+
+// Groups the on-demand instances of the exports into workloads and scores
+// them for Spot; null when nothing runs on demand
+export async function buildSpotReport(
+  env: Env,
+  datasets: { focusKey: string | null }[],
+  summaries: UtilizationSummary[]
+): Promise<SpotReport | null> {
+  const collector = createWorkloadUsageCollector();
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  return spotReportFrom(env, collector, summaries);
+}
+
+// Scores workloads already collected from the exports
+export async function spotReportFrom(
+  env: Env,
+  collector: WorkloadUsageCollector,
+  summaries: UtilizationSummary[]
+): Promise<SpotReport | null> {
+  if (collector.skipped > 0) {
+    console.log(
+      `⚠️ Spot analysis skipped ${collector.skipped} workloads over the limit`
+    );
+  }
+
+  const workloads = collector.workloads();
+  const providers = new Set(workloads.map((workload) => workload.provider));
+  if (providers.size === 0) return null;
+
+  const rows = await loadProviderPrices(env, providers);
+  const report = analyzeSpot(workloads, summaries, rows);
+  return report.assessments.length > 0 ? report : null;
+}
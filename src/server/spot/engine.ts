@@ -0,0 +1,406 @@
+import type { CatalogPriceRow } from "../db/catalog";
+import type { OptimizationItem } from "../ai/recommendations";
+import type { UtilizationSummary } from "../metrics/series";
+import type { CloudProvider } from "../pricing/catalog";
+import { resolvePrice } from "../pricing/lookup";
+import { formatMoney, round } from "../utils/format";
+import type { WorkloadKind, WorkloadUsage } from "./usage";
+import { DAYS_PER_MONTH, HOUR_MS } from "../utils/constants";
+
+export type SpotRisk = "low" | "medium" | "high";
+
+export interface SpotAssessment {
+  workload: string;
+  kind: WorkloadKind;
+  provider: CloudProvider;
+  region: string;
+  currency: string;
+  instances: number;
+  instanceTypes: string[];
+  // 0-100; higher means interruptions hurt less
+  score: number;
+  risk: SpotRisk;
+  signals: string[];
+  // Share of the capacity the estimate moves to Spot
+  spotShare: number;
+  onDemandMonthly: number;
+  // Null when the catalog has no Spot price for the instance types
+  spotDiscount: number | null;
+  monthlySavings: number | null;
+  // Some instance types have no Spot snapshot and were priced at the
+  // provider's typical discount
+  estimated: boolean;
+  // Spot snapshots the discount was averaged over, and their price spread
+  priceSnapshots: number;
+  priceVolatility: number | null;
+}
+
+export interface SpotReport {
+  assessments: SpotAssessment[];
+  // Workloads already billed at Spot rates
+  alreadySpot: number;
+  totalMonthlySavings: Record<string, number>;
+  unpricedTypes: string[];
+  // Types priced at the typical discount for want of a Spot snapshot
+  estimatedTypes: string[];
+  catalogVersion: string | null;
+}
+
+const COMPUTE_SERVICE: Record<CloudProvider, string | null> = {
+  aws: "ec2",
+  azure: "vm",
+  gcp: "compute-engine",
+  cloudflare: null
+};
+
+// Typical Spot discounts off on-demand; they only estimate the savings of
+// instance types no imported Spot snapshot prices
+const TYPICAL_SPOT_DISCOUNT: Record<CloudProvider, number | null> = {
+  aws: 0.65,
+  azure: 0.7,
+  gcp: 0.7,
+  cloudflare: null
+};
+
+const STATEFUL_HINT =
+  /\b(db|database|postgres(ql)?|mysql|maria|mongo|redis|memcached|cassandra|kafka|zookeeper|elastic(search)?|opensearch|etcd|stateful|primary|master|ldap|vault|nfs|ceph)\b/i;
+const STATELESS_HINT =
+  /\b(web|api|frontend|gateway|proxy|worker|batch|jobs?|ci|runners?|build|render|spark|emr|dataproc|etl|stateless|queue|consumer)\b/i;
+
+// Instances replaced within a day are already built to be interrupted
+const SHORT_LIVED_HOURS = 24;
+// A single instance billed for four weeks straight is a pet
+const LONG_RUNNING_HOURS = 672;
+// Spot prices that moved more than this across snapshots add risk
+const VOLATILE_SPREAD = 0.3;
+// Medium risk keeps an on-demand base and moves half the capacity
+const SPOT_SHARE: Record<SpotRisk, number> = { low: 1, medium: 0.5, high: 0 };
+
+const KIND_LABEL: Record<WorkloadKind, string> = {
+  "auto-scaling-group": "Auto Scaling group",
+  "node-group": "node group",
+  instance: "instance"
+};
+
+function spanHours(start: string | null, end: string | null): number {
+  const from = Date.parse(start ?? "");
+  const to = Date.parse(end ?? "");
+  return Number.isFinite(from) && Number.isFinite(to) && to > from
+    ? (to - from) / HOUR_MS
+    : 0;
+}
+
+function monthsBilled(workload: WorkloadUsage): number {
+  const hours = spanHours(workload.periodStart, workload.periodEnd);
+  return hours > 0 ? Math.max(hours / 24, 1) / DAYS_PER_MONTH : 1;
+}
+
+function metricMatches(metricId: string, resourceId: string): boolean {
+  const metric = metricId.trim().toLowerCase();
+  const id = resourceId.trim().toLowerCase();
+  return (
+    id === metric || id.endsWith(`/${metric}`) || metric.endsWith(`/${id}`)
+  );
+}
+
+// Spot prices of every snapshot that has one for the type, oldest first,
+// with the on-demand price of the newest; a type no snapshot prices gets one
+// estimated price at the provider's typical discount
+function spotHistory(
+  rows: CatalogPriceRow[],
+  provider: CloudProvider,
+  instanceType: string,
+  region: string
+): {
+  onDemand: number;
+  spot: number[];
+  version: string | null;
+} | null {
+  const service = COMPUTE_SERVICE[provider];
+  const query = { provider, sku: instanceType, service, region };
+  const onDemand = resolvePrice(rows, query);
+  if (!onDemand || onDemand.price <= 0) return null;
+
+  const spotRows = rows.filter((row) => row.pricingModel === "spot");
+  const versions = [...new Set(spotRows.map((row) => row.version))];
+  const priced: { price: number; version: string }[] = [];
+  for (const snapshot of versions) {
+    const price = resolvePrice(
+      spotRows.filter((row) => row.version === snapshot),
+      { ...query, pricingModel: "spot" }
+    );
+    if (price) priced.unshift(price);
+  }
+  if (priced.length === 0) {
+    const discount = TYPICAL_SPOT_DISCOUNT[provider];
+    return discount === null
+      ? null
+      : {
+          onDemand: onDemand.price,
+          spot: [onDemand.price * (1 - discount)],
+          version: null
+        };
+  }
+  return {
+    onDemand: onDemand.price,
+    spot: priced.map((p) => p.price),
+    version: priced[priced.length - 1].version
+  };
+}
+
+function assessWorkload(
+  workload: WorkloadUsage,
+  summaries: UtilizationSummary[],
+  rows: CatalogPriceRow[],
+  versions: Set<string>,
+  unpriced: Set<string>,
+  estimatedTypes: Set<string>
+): SpotAssessment {
+  const signals: string[] = [];
+  let score = 40;
+
+  if (workload.kind !== "instance") {
+    score += 15;
+    signals.push(`${KIND_LABEL[workload.kind]} replaces lost instances`);
+  }
+
+  const labels = [...workload.labels].join(" ").replace(/[-_.]/g, " ");
+  const stateful = labels.match(STATEFUL_HINT);
+  const stateless = labels.match(STATELESS_HINT);
+  if (stateful) {
+    score -= 40;
+    signals.push(`"${stateful[0]}" in its names or tags suggests state`);
+  } else if (stateless) {
+    score += 15;
+    signals.push(`"${stateless[0]}" in its names or tags suggests stateless`);
+  }
+
+  // Runtime from the billed hours and lifetime of each instance
+  const instances = [...workload.instances.values()];
+  const totalHours = instances.reduce((sum, i) => sum + i.hours, 0);
+  const averageHours = totalHours / Math.max(instances.length, 1);
+  const span = spanHours(workload.periodStart, workload.periodEnd);
+  const concurrent = span > 0 ? totalHours / span : instances.length;
+  if (instances.length > 1 && averageHours < SHORT_LIVED_HOURS) {
+    score += 15;
+    signals.push(
+      `instances run ${round(averageHours, 1)}h on average before being replaced`
+    );
+  } else if (instances.length === 1 && averageHours >= LONG_RUNNING_HOURS) {
+    score -= 15;
+    signals.push(
+      `one instance billed ${Math.round(averageHours)}h without a replacement`
+    );
+  }
+  if (concurrent >= 2) {
+    score += 10;
+    signals.push(`${round(concurrent, 1)} instances run side by side`);
+  }
+  if (workload.instanceTypes.size > 1) {
+    score += 5;
+    signals.push(`spread over ${workload.instanceTypes.size} instance types`);
+  }
+
+  // Bursty CPU (p50 far below p95) is the batch and queue work Spot suits
+  const cpu = summaries.filter(
+    (s) =>
+      s.kind === "cpu" &&
+      instances.some((i) => metricMatches(s.resourceId, i.resourceId))
+  );
+  if (cpu.length > 0) {
+    const p50 = cpu.reduce((sum, s) => sum + s.p50, 0) / cpu.length;
+    const p95 = cpu.reduce((sum, s) => sum + s.p95, 0) / cpu.length;
+    if (p95 > 0 && p50 < p95 * 0.25) {
+      score += 10;
+      signals.push(`bursty CPU (p50 ${round(p50, 1)} vs p95 ${round(p95, 1)})`);
+    }
+  }
+
+  // Discount averaged over the Spot price snapshots, weighted by the
+  // on-demand spend of each instance type
+  const months = monthsBilled(workload);
+  let pricedSpend = 0;
+  let discounted = 0;
+  let snapshots = 0;
+  let estimated = false;
+  let volatility: number | null = null;
+  for (const line of workload.instanceTypes.values()) {
+    const history = spotHistory(
+      rows,
+      workload.provider,
+      line.instanceType,
+      workload.region
+    );
+    if (!history || history.spot.length === 0) {
+      unpriced.add(line.instanceType);
+      continue;
+    }
+    if (history.version) {
+      versions.add(history.version);
+      snapshots = Math.max(snapshots, history.spot.length);
+    } else {
+      estimatedTypes.add(line.instanceType);
+      estimated = true;
+    }
+    const mean =
+      history.spot.reduce((sum, price) => sum + price, 0) / history.spot.length;
+    pricedSpend += line.onDemandCost;
+    discounted += line.onDemandCost * Math.max(1 - mean / history.onDemand, 0);
+    if (history.spot.length > 1) {
+      const spread =
+        (Math.max(...history.spot) - Math.min(...history.spot)) / mean;
+      volatility = Math.max(volatility ?? 0, spread);
+    }
+  }
+  if (volatility !== null && volatility > VOLATILE_SPREAD) {
+    score -= 10;
+    signals.push(
+      `Spot price moved ${Math.round(volatility * 100)}% across ${snapshots} snapshots`
+    );
+  }
+
+  score = Math.min(Math.max(score, 0), 100);
+  const risk: SpotRisk = stateful
+    ? "high"
+    : score >= 70
+      ? "low"
+      : score >= 45
+        ? "medium"
+        : "high";
+  const spotDiscount = pricedSpend > 0 ? discounted / pricedSpend : null;
+  const onDemandMonthly = workload.onDemandCost / months;
+
+  return {
+    workload: workload.workload,
+    kind: workload.kind,
+    provider: workload.provider,
+    region: workload.region,
+    currency: workload.currency,
+    instances: instances.length,
+    instanceTypes: [...workload.instanceTypes.keys()],
+    score,
+    risk,
+    signals,
+    spotShare: SPOT_SHARE[risk],
+    onDemandMonthly: round(onDemandMonthly),
+    spotDiscount: spotDiscount === null ? null : round(spotDiscount, 4),
+    monthlySavings:
+      spotDiscount === null
+        ? null
+        : round(onDemandMonthly * spotDiscount * SPOT_SHARE[risk]),
+    estimated,
+    priceSnapshots: snapshots,
+    priceVolatility: volatility === null ? null : round(volatility, 4)
+  };
+}
+
+// Scores each on-demand workload's tolerance for Spot interruptions and
+// prices the move from the catalog's Spot snapshots, or estimates it at the
+// typical discount where there are none, biggest savings first
+export function analyzeSpot(
+  workloads: WorkloadUsage[],
+  summaries: UtilizationSummary[],
+  rows: CatalogPriceRow[]
+): SpotReport {
+  const versions = new Set<string>();
+  const unpriced = new Set<string>();
+  const estimatedTypes = new Set<string>();
+  const assessments = workloads
+    .filter((workload) => workload.onDemandCost > 0)
+    .map((workload) =>
+      assessWorkload(
+        workload,
+        summaries,
+        rows,
+        versions,
+        unpriced,
+        estimatedTypes
+      )
+    )
+    .sort(
+      (a, b) =>
+        (b.monthlySavings ?? -1) - (a.monthlySavings ?? -1) ||
+        b.onDemandMonthly - a.onDemandMonthly
+    );
+
+  const totalMonthlySavings: Record<string, number> = {};
+  for (const assessment of assessments) {
+    if (!assessment.monthlySavings) continue;
+    totalMonthlySavings[assessment.currency] = round(
+      (totalMonthlySavings[assessment.currency] ?? 0) +
+        assessment.monthlySavings
+    );
+  }
+
+  return {
+    assessments,
+    alreadySpot: workloads.filter((workload) => workload.spotCost > 0).length,
+    totalMonthlySavings,
+    unpricedTypes: [...unpriced].sort(),
+    estimatedTypes: [...estimatedTypes].sort(),
+    catalogVersion: [...versions].join(", ") || null
+  };
+}
+
+export function formatSpot(report: SpotReport): string {
+  const totals = Object.entries(report.totalMonthlySavings)
+    .map(([currency, total]) => formatMoney(total, currency))
+    .join(" + ");
+  const rows = report.assessments.map((a) => {
+    const money = (value: number) => formatMoney(value, a.currency);
+    const savings =
+      a.monthlySavings === null
+        ? "no Spot price"
+        : `${money(a.monthlySavings)} (${Math.round((a.spotDiscount ?? 0) * 100)}% off, ${Math.round(a.spotShare * 100)}% on Spot${a.estimated ? ", estimate" : ""})`;
+    return `| ${a.workload} | ${KIND_LABEL[a.kind]} | ${a.instanceTypes.join(", ")} | ${a.instances} | ${a.score} | ${a.risk} | ${money(a.onDemandMonthly)} | ${savings} | ${a.signals.join("; ") || "no signals"} |`;
+  });
+
+  const lines = [
+    `Spot eligibility (${report.assessments.length} on-demand workloads; ${totals || "no priced"} savings/month${report.catalogVersion ? `, Spot prices from ${report.catalogVersion}` : ""}):`,
+    "| Workload | Kind | Instance types | Instances | Score | Risk | On-demand/month | Spot savings/month | Signals |",
+    "|---|---|---|---|---|---|---|---|---|",
+    ...rows
+  ];
+  if (report.alreadySpot > 0) {
+    lines.push(`${report.alreadySpot} workloads already run on Spot.`);
+  }
+  if (report.estimatedTypes.length > 0) {
+    lines.push(
+      `Estimated at the provider's typical Spot discount, with no Spot price history in the catalog: ${report.estimatedTypes.join(", ")}`
+    );
+  }
+  if (report.unpricedTypes.length > 0) {
+    lines.push(
+      `No Spot price in the catalog for: ${report.unpricedTypes.join(", ")}`
+    );
+  }
+  return lines.join("\n");
+}
+
+// Low and medium risk workloads with priced savings join the JSON
+// recommendation list, tagged with their risk
+export function spotRecommendations(report: SpotReport): OptimizationItem[] {
+  return report.assessments
+    .filter((a) => a.risk !== "high" && (a.monthlySavings ?? 0) > 0)
+    .map((a) => ({
+      Area: "Spot",
+      Resource: a.workload,
+      Issue: `On-demand ${KIND_LABEL[a.kind]} (${a.instanceTypes.join(", ")}) tolerates interruptions`,
+      Optimization:
+        a.risk === "low"
+          ? "Run the capacity on Spot across several instance types with capacity rebalancing"
+          : "Keep an on-demand base and run half the capacity on Spot",
+      Cloudflare_Alternative: "N/A",
+      Monthly_Savings: a.monthlySavings,
+      Currency: a.currency,
+      Risk_Level: a.risk,
+      Evidence: [
+        ...a.signals,
+        ...(a.estimated
+          ? [
+              "savings estimated at the typical Spot discount, not Spot price history"
+            ]
+          : [])
+      ].join("; ")
+    }));
+}
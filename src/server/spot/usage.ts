@@ -0,0 +1,226 @@
+import type { FocusRecord } from "../billing/focus";
+import type { CloudProvider } from "../pricing/catalog";
+import { instanceShapeFor } from "../pricing/shapes";
+import { COLLECTOR_LIMITS, HOUR_MS } from "../utils/constants";
+
+export type WorkloadKind = "auto-scaling-group" | "node-group" | "instance";
+
+export interface WorkloadInstance {
+  resourceId: string;
+  hours: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+// On-demand spend of one instance type within a workload
+export interface WorkloadInstanceType {
+  instanceType: string;
+  hours: number;
+  onDemandCost: number;
+}
+
+// Instances replaced as one unit: an Auto Scaling group, a Kubernetes node
+// group or pool, or a standalone instance
+export interface WorkloadUsage {
+  workload: string;
+  kind: WorkloadKind;
+  provider: CloudProvider;
+  region: string;
+  currency: string;
+  instances: Map<string, WorkloadInstance>;
+  instanceTypes: Map<string, WorkloadInstanceType>;
+  onDemandCost: number;
+  // Spend already billed at Spot / preemptible rates
+  spotCost: number;
+  // Resource names and descriptive tag values, read for statelessness hints
+  labels: Set<string>;
+  periodStart: string | null;
+  periodEnd: string | null;
+}
+
+export interface WorkloadUsageCollector {
+  add(record: FocusRecord): void;
+  workloads(): WorkloadUsage[];
+  skipped: number;
+}
+
+const MAX_LABELS = 20;
+
+// Tag keys compared without case or separators, so CUR's
+// "aws:autoscaling:groupName" and Parquet's "aws:autoscaling_group_name"
+// both match
+const GROUP_TAGS: [WorkloadKind, string[]][] = [
+  [
+    "node-group",
+    [
+      "eksnodegroupname",
+      "alphaeksctlionodegroupname",
+      "karpentershnodepool",
+      "karpentershprovisionername",
+      "googk8snodepoolname",
+      "aksmanagedpoolname"
+    ]
+  ],
+  ["auto-scaling-group", ["awsautoscalinggroupname"]]
+];
+const LABEL_TAGS = new Set([
+  "name",
+  "app",
+  "application",
+  "service",
+  "component",
+  "role",
+  "workload",
+  "tier",
+  "appkubernetesioname",
+  "appkubernetesiocomponent"
+]);
+
+function normalizeKey(key: string): string {
+  return key
+    .toLowerCase()
+    .replace(/^user[:_]/, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function providerOf(record: FocusRecord): CloudProvider | null {
+  const name = record.ProviderName.toLowerCase();
+  if (/aws|amazon/.test(name)) return "aws";
+  if (/google|gcp/.test(name)) return "gcp";
+  if (/azure|microsoft/.test(name)) return "azure";
+  return null;
+}
+
+// Virtual machine hours; managed databases and caches cannot run on Spot
+function isInstanceUsage(record: FocusRecord): boolean {
+  const type = record.x_InstanceType.toLowerCase();
+  return (
+    record.ChargeCategory === "Usage" &&
+    !!record.ResourceId &&
+    !!type &&
+    !/^(db|cache)\./.test(type) &&
+    !!instanceShapeFor(type)
+  );
+}
+
+function groupOf(
+  record: FocusRecord
+): { workload: string; kind: WorkloadKind } | null {
+  const tags = Object.entries(record.Tags).map(
+    ([key, value]) => [normalizeKey(key), value] as const
+  );
+  for (const [kind, keys] of GROUP_TAGS) {
+    const tag = tags.find(([key, value]) => value && keys.includes(key));
+    if (tag) return { workload: tag[1], kind };
+  }
+  return null;
+}
+
+function hoursOf(record: FocusRecord): number {
+  if (/hour|hrs/i.test(record.ConsumedUnit)) return record.ConsumedQuantity;
+  const start = Date.parse(record.ChargePeriodStart);
+  const end = Date.parse(record.ChargePeriodEnd);
+  return Number.isFinite(start) && Number.isFinite(end) && end > start
+    ? (end - start) / HOUR_MS
+    : 0;
+}
+
+export function createWorkloadUsageCollector(): WorkloadUsageCollector {
+  const workloads = new Map<string, WorkloadUsage>();
+
+  const collector: WorkloadUsageCollector = {
+    skipped: 0,
+
+    add(record) {
+      if (!isInstanceUsage(record)) return;
+      const provider = providerOf(record);
+      if (!provider) return;
+
+      const group = groupOf(record) ?? {
+        workload: record.ResourceName || record.ResourceId,
+        kind: "instance" as const
+      };
+      const key = `${provider}|${record.RegionId}|${group.kind}|${group.workload}`;
+      let workload = workloads.get(key);
+      if (!workload) {
+        if (workloads.size >= COLLECTOR_LIMITS.workloads) {
+          collector.skipped++;
+          return;
+        }
+        workload = {
+          workload: group.workload,
+          kind: group.kind,
+          provider,
+          region: record.RegionId,
+          currency: record.BillingCurrency,
+          instances: new Map(),
+          instanceTypes: new Map(),
+          onDemandCost: 0,
+          spotCost: 0,
+          labels: new Set([group.workload]),
+          periodStart: null,
+          periodEnd: null
+        };
+        workloads.set(key, workload);
+      }
+
+      const start = record.ChargePeriodStart || null;
+      const end = record.ChargePeriodEnd || record.ChargePeriodStart || null;
+      const hours = hoursOf(record);
+      let instance = workload.instances.get(record.ResourceId);
+      if (!instance) {
+        instance = {
+          resourceId: record.ResourceId,
+          hours: 0,
+          firstSeen: null,
+          lastSeen: null
+        };
+        workload.instances.set(record.ResourceId, instance);
+      }
+      instance.hours += hours;
+      if (start && (!instance.firstSeen || start < instance.firstSeen)) {
+        instance.firstSeen = start;
+      }
+      if (end && (!instance.lastSeen || end > instance.lastSeen)) {
+        instance.lastSeen = end;
+      }
+      if (start && (!workload.periodStart || start < workload.periodStart)) {
+        workload.periodStart = start;
+      }
+      if (end && (!workload.periodEnd || end > workload.periodEnd)) {
+        workload.periodEnd = end;
+      }
+
+      if (record.PricingCategory === "Dynamic") {
+        workload.spotCost += record.EffectiveCost;
+      } else if (
+        record.PricingCategory === "Standard" &&
+        !record.CommitmentDiscountId
+      ) {
+        const instanceType = record.x_InstanceType.toLowerCase();
+        let line = workload.instanceTypes.get(instanceType);
+        if (!line) {
+          line = { instanceType, hours: 0, onDemandCost: 0 };
+          workload.instanceTypes.set(instanceType, line);
+        }
+        line.hours += hours;
+        line.onDemandCost += record.EffectiveCost;
+        workload.onDemandCost += record.EffectiveCost;
+      }
+
+      if (record.ResourceName) workload.labels.add(record.ResourceName);
+      for (const [key, value] of Object.entries(record.Tags)) {
+        if (workload.labels.size >= MAX_LABELS) break;
+        if (value && LABEL_TAGS.has(normalizeKey(key))) {
+          workload.labels.add(value);
+        }
+      }
+    },
+
+    workloads() {
+      return [...workloads.values()];
+    }
+  };
+
+  return collector;
+}
@@ -7,6 +7,20 @@ export interface UploadedFile {
   uploadedAt: string;
   downloadUrl?: string;
   sessionId?: string;
+  sourceFormat?: string | null;
+  parentFileId?: number | null;
+  declaredRole?: string | null;
+  detectedRole?: string | null;
+}
+
+export function buildR2Key(
+  userId: string,
+  threadId: string,
+  fileName: string
+): string {
+  const fileId = crypto.randomUUID();
+  const fileExtension = fileName.split(".").pop() || "bin";
+  return `${userId}/${threadId}/${fileId}.${fileExtension}`;
 }
 
 export async function storeFileInR2(
@@ -19,9 +33,7 @@ export async function storeFileInR2(
     throw new Error("FILES_BUCKET is not configured");
   }
 
-  const fileId = crypto.randomUUID();
-  const fileExtension = file.name.split(".").pop() || "bin";
-  const r2Key = `${userId}/${threadId}/${fileId}.${fileExtension}`;
+  const r2Key = buildR2Key(userId, threadId, file.name);
 
   try {
     await env.FILES.put(r2Key, file.stream(), {
@@ -54,11 +66,12 @@ export async function saveFileMetadata(
   fileName: string,
   fileType: string,
   fileSize: number,
-  r2Key: string
+  r2Key: string,
+  parentFileId: number | null = null
 ): Promise<number> {
   const { meta } = await env.DB.prepare(
-    `INSERT INTO uploaded_files (userId, threadId, sessionId, messageId, analysisId, fileName, fileType, fileSize, r2Key, uploadedAt)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
+    `INSERT INTO uploaded_files (userId, threadId, sessionId, messageId, analysisId, fileName, fileType, fileSize, r2Key, parentFileId, uploadedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`
   )
     .bind(
       userId,
@@ -69,7 +82,8 @@ export async function saveFileMetadata(
       fileName,
       fileType,
       fileSize,
-      r2Key
+      r2Key,
+      parentFileId
     )
     .run();
 
@@ -81,7 +95,7 @@ export async function getMessageFiles(
   messageId: string
 ): Promise<UploadedFile[]> {
   const { results } = await env.DB.prepare(
-    `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt, sessionId
+    `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt, sessionId, sourceFormat, declaredRole, detectedRole
      FROM uploaded_files 
      WHERE messageId = ?
      ORDER BY uploadedAt ASC`
@@ -98,6 +112,9 @@ export async function getMessageFiles(
     r2Key: string;
     uploadedAt: string;
     sessionId?: string;
+    sourceFormat: string | null;
+    declaredRole: string | null;
+    detectedRole: string | null;
   }[];
 
   return resultsArray.map((row) => ({
@@ -107,7 +124,10 @@ export async function getMessageFiles(
     fileSize: row.fileSize,
     r2Key: row.r2Key,
     uploadedAt: row.uploadedAt,
-    sessionId: row.sessionId
+    sessionId: row.sessionId,
+    sourceFormat: row.sourceFormat,
+    declaredRole: row.declaredRole,
+    detectedRole: row.detectedRole
   }));
 }
 
@@ -116,7 +136,7 @@ export async function getFilesBySession(
   sessionId: string
 ): Promise<UploadedFile[]> {
   const { results } = await env.DB.prepare(
-    `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt, sessionId
+    `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt, sessionId, sourceFormat, declaredRole, detectedRole
      FROM uploaded_files 
      WHERE sessionId = ?
      ORDER BY uploadedAt ASC`
@@ -132,6 +152,9 @@ export async function getFilesBySession(
     r2Key: string;
     uploadedAt: string;
     sessionId?: string;
+    sourceFormat: string | null;
+    declaredRole: string | null;
+    detectedRole: string | null;
   }[];
 
   return resultsArray.map((row) => ({
@@ -141,6 +164,78 @@ export async function getFilesBySession(
     fileSize: row.fileSize,
     r2Key: row.r2Key,
     uploadedAt: row.uploadedAt,
-    sessionId: row.sessionId
+    sessionId: row.sessionId,
+    sourceFormat: row.sourceFormat,
+    declaredRole: row.declaredRole,
+    detectedRole: row.detectedRole
   }));
 }
+
+export async function readFileHead(
+  env: Env,
+  r2Key: string,
+  length = 64 * 1024
+): Promise<string | null> {
+  const object = await env.FILES.get(r2Key, { range: { offset: 0, length } });
+  if (!object) return null;
+  return await object.text();
+}
+
+export async function getUserFile(
+  env: Env,
+  userId: string,
+  fileId: number
+): Promise<UploadedFile | null> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt, sessionId, sourceFormat, declaredRole, detectedRole
+     FROM uploaded_files
+     WHERE id = ? AND userId = ?`
+  )
+    .bind(fileId, userId)
+    .all();
+
+  return (results?.[0] as unknown as UploadedFile | undefined) ?? null;
+}
+
+export async function setFileSourceFormat(
+  env: Env,
+  fileId: number,
+  sourceFormat: string
+): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE uploaded_files SET sourceFormat = ? WHERE id = ?`
+  )
+    .bind(sourceFormat, fileId)
+    .run();
+}
+
+export async function getChildFiles(
+  env: Env,
+  parentFileIds: number[]
+): Promise<UploadedFile[]> {
+  if (parentFileIds.length === 0) return [];
+  const placeholders = parentFileIds.map(() => "?").join(",");
+  const { results } = await env.DB.prepare(
+    `SELECT id, fileName, fileType, fileSize, r2Key, uploadedAt, sessionId, sourceFormat, declaredRole, detectedRole, parentFileId
+     FROM uploaded_files
+     WHERE parentFileId IN (${placeholders})
+     ORDER BY id ASC`
+  )
+    .bind(...parentFileIds)
+    .all();
+
+  return (results as unknown as UploadedFile[]) ?? [];
+}
+
+export async function setFileRoles(
+  env: Env,
+  fileId: number,
+  declaredRole: string | null,
+  detectedRole: string
+): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE uploaded_files SET declaredRole = ?, detectedRole = ? WHERE id = ?`
+  )
+    .bind(declaredRole, detectedRole, fileId)
+    .run();
+}
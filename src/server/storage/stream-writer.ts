@@ -0,0 +1,58 @@
+// R2 multipart parts must all share one size (except the last) and be >= 5MiB
+const PART_SIZE = 5 * 1024 * 1024;
+
+export interface R2StreamWriter {
+  write(chunk: string | Uint8Array): Promise<void>;
+  close(): Promise<number>;
+  abort(): Promise<void>;
+}
+
+// Writes an object of unknown length without buffering it whole in memory
+export async function createR2StreamWriter(
+  env: Env,
+  r2Key: string,
+  contentType: string
+): Promise<R2StreamWriter> {
+  const upload = await env.FILES.createMultipartUpload(r2Key, {
+    httpMetadata: { contentType }
+  });
+  const encoder = new TextEncoder();
+  const parts: R2UploadedPart[] = [];
+  let buffer = new Uint8Array(PART_SIZE);
+  let buffered = 0;
+  let total = 0;
+
+  const uploadPart = async (bytes: Uint8Array) => {
+    parts.push(await upload.uploadPart(parts.length + 1, bytes));
+  };
+
+  return {
+    async write(chunk) {
+      let bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+      total += bytes.length;
+      while (bytes.length > 0) {
+        const take = Math.min(PART_SIZE - buffered, bytes.length);
+        buffer.set(bytes.subarray(0, take), buffered);
+        buffered += take;
+        bytes = bytes.subarray(take);
+        if (buffered === PART_SIZE) {
+          await uploadPart(buffer);
+          buffer = new Uint8Array(PART_SIZE);
+          buffered = 0;
+        }
+      }
+    },
+
+    async close() {
+      if (buffered > 0 || parts.length === 0) {
+        await uploadPart(buffer.slice(0, buffered));
+      }
+      await upload.complete(parts);
+      return total;
+    },
+
+    async abort() {
+      await upload.abort();
+    }
+  };
+}
@@ -0,0 +1,49 @@
+import { readFocusDatasets } from "../billing/dataset";
+import { findFxRates } from "../db/fx";
+import type { UtilizationSummary } from "../metrics/series";
+import { loadProviderPrices } from "../pricing/lookup";
+import { analyzeStorage, type StorageReport } from "./engine";
+import { type BucketUsageCollector, createBucketUsageCollector } from "./usage";
+
+// Models tiering and R2 for the object storage buckets of the exports; null
+// when they bill no bucket storage
+export async function buildStorageReport(
+  env: Env,
+  datasets: { focusKey: string | null }[],
+  summaries: UtilizationSummary[]
+): Promise<StorageReport | null> {
+  const collector = createBucketUsageCollector();
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  return storageReportFrom(env, collector, summaries);
+}
+
+// Prices buckets already collected from the exports with the catalog's R2
+// rates, in each bucket's billing currency
+export async function storageReportFrom(
+  env: Env,
+  collector: BucketUsageCollector,
+  summaries: UtilizationSummary[]
+): Promise<StorageReport | null> {
+  if (collector.skipped > 0) {
+    console.log(
+      `⚠️ Storage analysis skipped ${collector.skipped} buckets over the limit`
+    );
+  }
+
+  const buckets = collector.buckets();
+  if (buckets.length === 0) return null;
+
+  const [rows, rates] = await Promise.all([
+    loadProviderPrices(env, ["cloudflare"]),
+    findFxRates(env, [...new Set(buckets.map((bucket) => bucket.currency))])
+  ]);
+  const report = analyzeStorage(buckets, summaries, rows, rates);
+  if (report.unconvertedCurrencies.length > 0) {
+    console.log(
+      `⚠️ Storage analysis left out buckets billed in ${report.unconvertedCurrencies.join(", ")}: no exchange rate`
+    );
+  }
+  return report.buckets.length > 0 || report.unconvertedCurrencies.length > 0
+    ? report
+    : null;
+}
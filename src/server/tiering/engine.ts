@@ -0,0 +1,446 @@
+import {
+  BASE_CURRENCY,
+  type FxQuote,
+  type FxRate,
+  resolveFxQuote
+} from "../currency/fx";
+import type { CatalogPriceRow } from "../db/catalog";
+import type { UtilizationSummary } from "../metrics/series";
+import { type CatalogPricer, createCatalogPricer } from "../pricing/lookup";
+import { DAYS_PER_MONTH, DAY_MS } from "../utils/constants";
+import { formatMoney, round } from "../utils/format";
+import type { BucketUsage, StorageProvider } from "./usage";
+
+export interface TierOption {
+  tier: string;
+  monthlyCost: number;
+  monthlySavings: number;
+  // Lifecycle transition requests for the objects moved
+  transitionCost: number;
+  breakEvenMonths: number;
+}
+
+export interface R2Option {
+  monthlyCost: number;
+  monthlySavings: number;
+  // Egress the provider bills today that R2 does not charge
+  egressSavings: number;
+  // Provider egress for copying the stored data out once
+  migrationCost: number;
+  breakEvenMonths: number | null;
+}
+
+export interface BucketAnalysis {
+  bucket: string;
+  provider: StorageProvider;
+  region: string;
+  currency: string;
+  storedGb: number;
+  // Data still in the standard class, the part tiering moves
+  standardGb: number;
+  monthlyCost: number;
+  readGbPerMonth: number;
+  // Share of the stored data read per month
+  accessRatio: number;
+  accessSource: "metrics" | "billing";
+  objects: number;
+  objectsEstimated: boolean;
+  tier: TierOption | null;
+  // Null when the catalog has no R2 prices
+  r2: R2Option | null;
+}
+
+export interface StorageReport {
+  buckets: BucketAnalysis[];
+  tierSavings: Record<string, number>;
+  r2Savings: Record<string, number>;
+  catalogVersion: string | null;
+  // Rates the USD list prices were converted at
+  rates: FxQuote[];
+  // Billing currencies left out for want of an exchange rate
+  unconvertedCurrencies: string[];
+}
+
+interface TierPrice {
+  name: string;
+  // Per GB-month stored
+  storage: number;
+  // Per GB read back
+  retrieval: number;
+  // Per 1,000 reads
+  get: number;
+  // Per 1,000 objects moved by a lifecycle rule
+  transition: number;
+  // Hours-long restores; only data that is hardly read goes there
+  archive: boolean;
+}
+
+interface ProviderPrices {
+  standard: TierPrice;
+  tiers: TierPrice[];
+  // Internet egress per GB, paid once to copy the data out
+  egress: number;
+}
+
+// Public USD list prices of the cheapest regions; the figures are estimates
+const PROVIDER_PRICES: Record<StorageProvider, ProviderPrices> = {
+  aws: {
+    standard: tier("S3 Standard", 0.023, 0, 0.0004, 0),
+    tiers: [
+      tier("S3 Standard-IA", 0.0125, 0.01, 0.001, 0.01),
+      tier("S3 Glacier Instant Retrieval", 0.004, 0.03, 0.01, 0.02),
+      tier("S3 Glacier Deep Archive", 0.00099, 0.02, 0.0004, 0.05, true)
+    ],
+    egress: 0.09
+  },
+  gcp: {
+    standard: tier("GCS Standard", 0.02, 0, 0.0004, 0),
+    tiers: [
+      tier("GCS Nearline", 0.01, 0.01, 0.001, 0.01),
+      tier("GCS Coldline", 0.004, 0.02, 0.01, 0.02),
+      tier("GCS Archive", 0.0012, 0.05, 0.05, 0.05, true)
+    ],
+    egress: 0.12
+  },
+  azure: {
+    standard: tier("Blob Hot", 0.0184, 0, 0.0004, 0),
+    tiers: [
+      tier("Blob Cool", 0.01, 0.01, 0.001, 0.01),
+      tier("Blob Cold", 0.0036, 0.03, 0.01, 0.018),
+      tier("Blob Archive", 0.00099, 0.02, 0.5, 0.1, true)
+    ],
+    egress: 0.087
+  }
+};
+
+// Archive tiers only for data of which under 1% is read a month
+const ARCHIVE_MAX_ACCESS_RATIO = 0.01;
+// Object count assumed when no NumberOfObjects metric was uploaded
+const DEFAULT_OBJECT_MB = 1;
+const BYTES_PER_GB = 1024 ** 3;
+
+// R2 storage per GB-month and operations per million; egress is free
+interface R2Prices {
+  storage: number;
+  classA: number;
+  classB: number;
+}
+
+function tier(
+  name: string,
+  storage: number,
+  retrieval: number,
+  get: number,
+  transition: number,
+  archive = false
+): TierPrice {
+  return { name, storage, retrieval, get, transition, archive };
+}
+
+function convertTier(price: TierPrice, rate: number): TierPrice {
+  return {
+    ...price,
+    storage: price.storage * rate,
+    retrieval: price.retrieval * rate,
+    get: price.get * rate,
+    transition: price.transition * rate
+  };
+}
+
+// A provider's list prices in the currency the quote converts to
+function convertPrices(prices: ProviderPrices, rate: number): ProviderPrices {
+  return {
+    standard: convertTier(prices.standard, rate),
+    tiers: prices.tiers.map((price) => convertTier(price, rate)),
+    egress: prices.egress * rate
+  };
+}
+
+// R2 list prices from the catalog's Cloudflare rows
+function r2Prices(catalog: CatalogPricer): R2Prices | null {
+  const price = (service: string, sku: string) =>
+    catalog.price({ provider: "cloudflare", service, sku })?.price ?? null;
+  const storage = price("r2", "standard-storage");
+  const classA = price("r2-operations", "class-a");
+  const classB = price("r2-operations", "class-b");
+  if (storage === null || classA === null || classB === null) return null;
+  return { storage, classA, classB };
+}
+
+// Quote from USD list prices to the bucket's billing currency at the rate of
+// its billing period
+function billingQuote(bucket: BucketUsage, rates: FxRate[]): FxQuote | null {
+  const asOf = (bucket.periodEnd ?? new Date().toISOString()).slice(0, 10);
+  return resolveFxQuote(rates, BASE_CURRENCY, bucket.currency, asOf);
+}
+
+// Months of the export the bucket was billed for
+function monthsBilled(bucket: BucketUsage): number {
+  const start = Date.parse(bucket.periodStart ?? "");
+  const end = Date.parse(bucket.periodEnd ?? "");
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return 1;
+  return Math.max((end - start) / DAY_MS, 1) / DAYS_PER_MONTH;
+}
+
+// Monthly total of a metric from its average datapoint and sampling interval
+function monthlyTotal(summary: UtilizationSummary): number {
+  const start = Date.parse(summary.periodStart ?? "");
+  const end = Date.parse(summary.periodEnd ?? "");
+  if (
+    summary.sampleCount < 2 ||
+    !Number.isFinite(start) ||
+    !Number.isFinite(end) ||
+    end <= start
+  ) {
+    return summary.avg;
+  }
+  const interval = (end - start) / (summary.sampleCount - 1);
+  return summary.avg * ((DAYS_PER_MONTH * DAY_MS) / interval);
+}
+
+// S3 request metrics (BytesDownloaded, GetRequests, NumberOfObjects) give the
+// bucket's access pattern when they were uploaded
+function accessMetrics(bucket: string, summaries: UtilizationSummary[]) {
+  const find = (pattern: RegExp) =>
+    summaries.find((s) => s.resourceId === bucket && pattern.test(s.metric));
+  const downloaded = find(/bytesdownloaded/i);
+  const gets = find(/getrequests/i);
+  const objects = summaries.find(
+    (s) => s.resourceId === bucket && s.kind === "objects"
+  );
+  return {
+    readGb: downloaded ? monthlyTotal(downloaded) / BYTES_PER_GB : null,
+    reads: gets ? monthlyTotal(gets) : null,
+    objects: objects ? objects.max : null
+  };
+}
+
+function breakEven(oneTime: number, monthlySavings: number): number | null {
+  if (monthlySavings <= 0) return null;
+  return round(oneTime / monthlySavings, 1);
+}
+
+function analyzeBucket(
+  bucket: BucketUsage,
+  summaries: UtilizationSummary[],
+  r2: R2Prices | null,
+  rate: number
+): BucketAnalysis | null {
+  const months = monthsBilled(bucket);
+  const standardGb = bucket.gbMonths.standard / months;
+  const storedGb =
+    (bucket.gbMonths.standard +
+      bucket.gbMonths.infrequent +
+      bucket.gbMonths.archive) /
+    months;
+  if (storedGb <= 0) return null;
+
+  const prices = convertPrices(PROVIDER_PRICES[bucket.provider], rate);
+  const metrics = accessMetrics(bucket.bucket, summaries);
+  // Without metrics, data leaving the cloud is the reads we can see
+  const readGb =
+    metrics.readGb ?? (bucket.egressGb + bucket.retrievalGb) / months;
+  const reads = metrics.reads ?? bucket.readRequests / months;
+  const writes = bucket.writeRequests / months;
+  const accessRatio = readGb / storedGb;
+  const objects =
+    metrics.objects ?? Math.ceil((storedGb * 1024) / DEFAULT_OBJECT_MB);
+
+  const monthlyCost =
+    (bucket.storageCost.standard +
+      bucket.storageCost.infrequent +
+      bucket.storageCost.archive +
+      bucket.requestCost +
+      bucket.egressCost +
+      bucket.retrievalCost +
+      bucket.otherCost) /
+    months;
+
+  // Tiering moves the standard data; its share of the reads follows it
+  let best: TierOption | null = null;
+  if (standardGb > 0) {
+    const share = standardGb / storedGb;
+    const standardCost =
+      bucket.storageCost.standard / months ||
+      standardGb * prices.standard.storage;
+    const movedObjects = objects * share;
+    for (const option of prices.tiers) {
+      if (option.archive && accessRatio >= ARCHIVE_MAX_ACCESS_RATIO) continue;
+      const cost =
+        standardGb * option.storage +
+        readGb * share * option.retrieval +
+        ((reads * share) / 1000) * (option.get - prices.standard.get);
+      const savings = standardCost - cost;
+      const transitionCost = (movedObjects / 1000) * option.transition;
+      if (savings <= 0 || (best && savings <= best.monthlySavings)) continue;
+      best = {
+        tier: option.name,
+        monthlyCost: round(cost),
+        monthlySavings: round(savings),
+        transitionCost: round(transitionCost),
+        breakEvenMonths: round(transitionCost / savings, 1)
+      };
+    }
+  }
+
+  let r2Option: R2Option | null = null;
+  if (r2) {
+    const r2Cost =
+      (storedGb * r2.storage +
+        (writes / 1e6) * r2.classA +
+        (reads / 1e6) * r2.classB) *
+      rate;
+    const r2Savings = monthlyCost - r2Cost;
+    const migrationCost = storedGb * prices.egress;
+    r2Option = {
+      monthlyCost: round(r2Cost),
+      monthlySavings: round(r2Savings),
+      egressSavings: round(bucket.egressCost / months),
+      migrationCost: round(migrationCost),
+      breakEvenMonths: breakEven(migrationCost, r2Savings)
+    };
+  }
+
+  return {
+    bucket: bucket.bucket,
+    provider: bucket.provider,
+    region: bucket.region,
+    currency: bucket.currency,
+    storedGb: round(storedGb),
+    standardGb: round(standardGb),
+    monthlyCost: round(monthlyCost),
+    readGbPerMonth: round(readGb),
+    accessRatio: round(accessRatio, 4),
+    accessSource:
+      metrics.readGb !== null || metrics.reads !== null ? "metrics" : "billing",
+    objects: Math.round(objects),
+    objectsEstimated: metrics.objects === null,
+    tier: best,
+    r2: r2Option
+  };
+}
+
+export type StorageTarget = "infrequent" | "archive" | "deep-archive" | "r2";
+
+const TARGET_TIER: Record<Exclude<StorageTarget, "r2">, number> = {
+  infrequent: 0,
+  archive: 1,
+  "deep-archive": 2
+};
+
+// USD list price per GB-month of a provider's cooler tier, or of R2 from the
+// catalog; null when the catalog has no R2 price
+export function storageTargetPrice(
+  provider: StorageProvider,
+  target: StorageTarget,
+  catalog: CatalogPricer
+): { name: string; storage: number } | null {
+  if (target === "r2") {
+    const r2 = r2Prices(catalog);
+    return r2 ? { name: "R2", storage: r2.storage } : null;
+  }
+  const { name, storage } =
+    PROVIDER_PRICES[provider].tiers[TARGET_TIER[target]];
+  return { name, storage };
+}
+
+// Per-bucket lifecycle tiering and R2 migration estimates, most expensive
+// buckets first; list prices are converted to each bucket's billing
+// currency, and buckets billed in a currency without a rate are left out
+export function analyzeStorage(
+  buckets: BucketUsage[],
+  summaries: UtilizationSummary[],
+  prices: CatalogPriceRow[],
+  rates: FxRate[] = []
+): StorageReport {
+  const catalog = createCatalogPricer(prices);
+  const r2 = r2Prices(catalog);
+  const quotes = new Map<string, FxQuote>();
+  const unconverted = new Set<string>();
+  const analyses: BucketAnalysis[] = [];
+  for (const bucket of buckets) {
+    const quote = billingQuote(bucket, rates);
+    if (!quote) {
+      unconverted.add(bucket.currency);
+      continue;
+    }
+    if (quote.from !== quote.to) {
+      quotes.set(`${quote.to}|${quote.rateDate}`, quote);
+    }
+    const analysis = analyzeBucket(bucket, summaries, r2, quote.rate);
+    if (analysis) analyses.push(analysis);
+  }
+  analyses.sort((a, b) => b.monthlyCost - a.monthlyCost);
+
+  const tierSavings: Record<string, number> = {};
+  const r2Savings: Record<string, number> = {};
+  for (const analysis of analyses) {
+    if (analysis.tier) {
+      tierSavings[analysis.currency] = round(
+        (tierSavings[analysis.currency] ?? 0) + analysis.tier.monthlySavings
+      );
+    }
+    if (analysis.r2 && analysis.r2.monthlySavings > 0) {
+      r2Savings[analysis.currency] = round(
+        (r2Savings[analysis.currency] ?? 0) + analysis.r2.monthlySavings
+      );
+    }
+  }
+  return {
+    buckets: analyses,
+    tierSavings,
+    r2Savings,
+    catalogVersion: catalog.versions().join(", ") || null,
+    rates: [...quotes.values()],
+    unconvertedCurrencies: [...unconverted]
+  };
+}
+
+function formatMonths(months: number | null): string {
+  if (months === null) return "never";
+  return months === 0 ? "immediate" : `${months} mo`;
+}
+
+function formatTotals(totals: Record<string, number>): string {
+  const entries = Object.entries(totals);
+  return entries.length > 0
+    ? entries
+        .map(([currency, total]) => formatMoney(total, currency))
+        .join(" + ")
+    : "none";
+}
+
+export function formatStorage(report: StorageReport): string {
+  const rows = report.buckets.map((b) => {
+    const money = (value: number) => formatMoney(value, b.currency);
+    const tier = b.tier
+      ? `${b.tier.tier} | ${money(b.tier.monthlySavings)} | ${money(b.tier.transitionCost)} | ${formatMonths(b.tier.breakEvenMonths)}`
+      : "stay | - | - | -";
+    const r2 = b.r2
+      ? `${money(b.r2.monthlyCost)} | ${money(b.r2.monthlySavings)} | ${money(b.r2.migrationCost)} | ${formatMonths(b.r2.breakEvenMonths)}`
+      : "- | - | - | -";
+    return `| ${b.bucket} | ${b.storedGb} | ${Math.round(b.accessRatio * 1000) / 10}% (${b.accessSource}) | ${money(b.monthlyCost)} | ${tier} | ${r2} |`;
+  });
+
+  const notes = [
+    "R2 savings include the provider egress R2 does not charge; migration egress is the one-time cost of copying the stored data out."
+  ];
+  if (report.rates.length > 0) {
+    notes.push(
+      `USD list prices converted at ${report.rates.map((q) => `1 USD = ${+q.rate.toPrecision(6)} ${q.to} (${q.rateDate})`).join(", ")}.`
+    );
+  }
+  if (report.unconvertedCurrencies.length > 0) {
+    notes.push(
+      `Buckets billed in ${report.unconvertedCurrencies.join(", ")} were left out: no exchange rate to convert the USD list prices.`
+    );
+  }
+
+  return [
+    `Storage tiering and R2 comparison (${report.buckets.length} buckets, list-price estimates${report.catalogVersion ? ` with R2 prices from catalog ${report.catalogVersion}` : ""}; tiering saves ${formatTotals(report.tierSavings)}/month, R2 saves ${formatTotals(report.r2Savings)}/month):`,
+    "| Bucket | Stored GB | Read/month | Cost/month | Best tier | Tier savings/month | Transition | Break-even | R2 cost/month | R2 savings/month | Migration egress | Break-even |",
+    "|---|---|---|---|---|---|---|---|---|---|---|---|",
+    ...rows,
+    ...notes
+  ].join("\n");
+}
@@ -0,0 +1,163 @@
+import type { FocusRecord } from "../billing/focus";
+import { COLLECTOR_LIMITS, HOURS_PER_MONTH } from "../utils/constants";
+
+export type StorageProvider = "aws" | "gcp" | "azure";
+export type StorageClass = "standard" | "infrequent" | "archive";
+
+// One bucket (or Azure storage account) across the line items of an export
+export interface BucketUsage {
+  bucket: string;
+  provider: StorageProvider;
+  region: string;
+  currency: string;
+  // GB-months stored per storage class
+  gbMonths: Record<StorageClass, number>;
+  storageCost: Record<StorageClass, number>;
+  readRequests: number;
+  writeRequests: number;
+  requestCost: number;
+  egressGb: number;
+  egressCost: number;
+  retrievalGb: number;
+  retrievalCost: number;
+  otherCost: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+}
+
+export interface BucketUsageCollector {
+  add(record: FocusRecord): void;
+  buckets(): BucketUsage[];
+  skipped: number;
+}
+
+const BYTES_PER_GB = 1024 ** 3;
+
+const STORAGE_SERVICES: Record<StorageProvider, RegExp> = {
+  aws: /simple storage service|amazons3|^s3$/i,
+  gcp: /cloud storage/i,
+  azure: /^storage$|blob/i
+};
+
+function providerOf(record: FocusRecord): StorageProvider | null {
+  const name = record.ProviderName.toLowerCase();
+  const provider: StorageProvider | null = /aws|amazon/.test(name)
+    ? "aws"
+    : /google|gcp/.test(name)
+      ? "gcp"
+      : /azure|microsoft/.test(name)
+        ? "azure"
+        : null;
+  return provider && STORAGE_SERVICES[provider].test(record.ServiceName)
+    ? provider
+    : null;
+}
+
+function storageClassOf(usageType: string): StorageClass {
+  if (/glacier|gda|deep ?archive|coldline|\bcold\b|archive/i.test(usageType)) {
+    return "archive";
+  }
+  // "-SIA-" and "-ZIA-" in CUR usage types, not the "Asia" of GCS SKUs
+  if (/\b[sz]?ia\b|infrequent|nearline|\bcool\b/i.test(usageType)) {
+    return "infrequent";
+  }
+  return "standard";
+}
+
+// Storage is metered in GB-months, or in byte-hours by some CUR versions
+function gbMonthsOf(record: FocusRecord): number {
+  return /byte-?hrs/i.test(record.ConsumedUnit)
+    ? record.ConsumedQuantity / BYTES_PER_GB / HOURS_PER_MONTH
+    : record.ConsumedQuantity;
+}
+
+function gbOf(record: FocusRecord): number {
+  return /^bytes?$/i.test(record.ConsumedUnit)
+    ? record.ConsumedQuantity / BYTES_PER_GB
+    : record.ConsumedQuantity;
+}
+
+export function createBucketUsageCollector(): BucketUsageCollector {
+  const buckets = new Map<string, BucketUsage>();
+
+  const collector: BucketUsageCollector = {
+    skipped: 0,
+
+    add(record) {
+      if (!record.ResourceId || record.ChargeCategory !== "Usage") return;
+      const provider = providerOf(record);
+      if (!provider) return;
+
+      let bucket = buckets.get(record.ResourceId);
+      if (!bucket) {
+        if (buckets.size >= COLLECTOR_LIMITS.buckets) {
+          collector.skipped++;
+          return;
+        }
+        bucket = {
+          bucket: record.ResourceId,
+          provider,
+          region: record.RegionId,
+          currency: record.BillingCurrency,
+          gbMonths: { standard: 0, infrequent: 0, archive: 0 },
+          storageCost: { standard: 0, infrequent: 0, archive: 0 },
+          readRequests: 0,
+          writeRequests: 0,
+          requestCost: 0,
+          egressGb: 0,
+          egressCost: 0,
+          retrievalGb: 0,
+          retrievalCost: 0,
+          otherCost: 0,
+          periodStart: null,
+          periodEnd: null
+        };
+        buckets.set(record.ResourceId, bucket);
+      }
+
+      const usageType = record.x_UsageType || record.ChargeDescription;
+      const cost = record.EffectiveCost;
+      if (/retrieval/i.test(usageType)) {
+        bucket.retrievalGb += gbOf(record);
+        bucket.retrievalCost += cost;
+      } else if (
+        /datatransfer-out|download|egress|data transfer out|internet/i.test(
+          usageType
+        )
+      ) {
+        bucket.egressGb += gbOf(record);
+        bucket.egressCost += cost;
+      } else if (
+        /requests|operations|class [ab]|transactions/i.test(usageType)
+      ) {
+        if (/tier1|class a|write|put|list|create/i.test(usageType)) {
+          bucket.writeRequests += record.ConsumedQuantity;
+        } else {
+          bucket.readRequests += record.ConsumedQuantity;
+        }
+        bucket.requestCost += cost;
+      } else if (/timedstorage|storage|data stored|bytehrs/i.test(usageType)) {
+        const storageClass = storageClassOf(usageType);
+        bucket.gbMonths[storageClass] += gbMonthsOf(record);
+        bucket.storageCost[storageClass] += cost;
+      } else {
+        bucket.otherCost += cost;
+      }
+
+      const start = record.ChargePeriodStart || null;
+      const end = record.ChargePeriodEnd || record.ChargePeriodStart || null;
+      if (start && (!bucket.periodStart || start < bucket.periodStart)) {
+        bucket.periodStart = start;
+      }
+      if (end && (!bucket.periodEnd || end > bucket.periodEnd)) {
+        bucket.periodEnd = end;
+      }
+    },
+
+    buckets() {
+      return [...buckets.values()];
+    }
+  };
+
+  return collector;
+}
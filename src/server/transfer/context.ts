@@ -0,0 +1,58 @@
+import { readFocusDatasets } from "../billing/dataset";
+import { findFxRates } from "../db/fx";
+import {
+  analyzeTransfer,
+  type TransferOptions,
+  type TransferReport
+} from "./engine";
+import {
+  createTransferUsageCollector,
+  type TransferUsageCollector
+} from "./usage";
+
+// Questions about transfer and CDNs run the analysis on follow-ups too
+const TRANSFER_QUESTION =
+  /egress|data ?transfer|bandwidth|\bcdn\b|cloudfront|cache hit|\bnat\b|inter-?(az|region)/i;
+const CACHE_HIT_RATIO = /(\d{1,3}(?:\.\d+)?)\s*%\s*(?:cache )?hit/i;
+
+export function asksAboutTransfer(message: string): boolean {
+  return TRANSFER_QUESTION.test(message);
+}
+
+// "with a 95% cache hit ratio" sets the CDN scenario's hit ratio
+export function cacheHitRatioIn(message: string): number | undefined {
+  const match = message.match(CACHE_HIT_RATIO);
+  if (!match) return undefined;
+  const ratio = Number(match[1]) / 100;
+  return ratio >= 0 && ratio <= 1 ? ratio : undefined;
+}
+
+// Classifies the transfer line items of the exports; null when they bill
+// no transfer
+export async function buildTransferReport(
+  env: Env,
+  datasets: { focusKey: string | null }[],
+  options: TransferOptions = {}
+): Promise<TransferReport | null> {
+  const collector = createTransferUsageCollector();
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  return transferReportFrom(env, collector, options);
+}
+
+// Analyzes transfer already collected from the exports, with the rate that
+// converts the USD plan price to their billing currency
+export async function transferReportFrom(
+  env: Env,
+  collector: TransferUsageCollector,
+  options: TransferOptions = {}
+): Promise<TransferReport | null> {
+  const [usage, ...others] = collector.usages();
+  if (!usage) return null;
+  if (others.length > 0) {
+    console.log(
+      `⚠️ Transfer analysis covers spend in ${usage.currency}; left out ${others.map((o) => o.currency).join(", ")}`
+    );
+  }
+  const rates = await findFxRates(env, [usage.currency]);
+  return analyzeTransfer(usage, options, rates);
+}
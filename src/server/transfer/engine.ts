@@ -0,0 +1,184 @@
+import {
+  BASE_CURRENCY,
+  type FxQuote,
+  type FxRate,
+  resolveFxQuote
+} from "../currency/fx";
+import { DAYS_PER_MONTH, DAY_MS } from "../utils/constants";
+import { formatMoney, round } from "../utils/format";
+import type { TransferClass, TransferUsage } from "./usage";
+
+export interface TransferClassSummary {
+  transferClass: TransferClass;
+  gbPerMonth: number;
+  monthlyCost: number;
+  costPerGb: number | null;
+  topServices: { serviceName: string; monthlyCost: number }[];
+}
+
+export interface TransferScenario {
+  id: "cloudflare-cdn" | "r2-origin";
+  name: string;
+  assumptions: string;
+  currentMonthly: number;
+  scenarioMonthly: number;
+  monthlySavings: number;
+}
+
+export interface TransferReport {
+  currency: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  cacheHitRatio: number;
+  totalMonthlyCost: number;
+  classes: TransferClassSummary[];
+  scenarios: TransferScenario[];
+  // Rate the USD plan and list prices were converted at; null when none is
+  // stored for the billing currency and the Cloudflare scenario is left out
+  fx: FxQuote | null;
+}
+
+export interface TransferOptions {
+  // Share of egress Cloudflare serves from cache
+  cacheHitRatio?: number;
+  // Cloudflare plan fee in USD added to the CDN scenario
+  planMonthly?: number;
+}
+
+export const DEFAULT_CACHE_HIT_RATIO = 0.8;
+// Cloudflare Pro in USD; egress is not metered on any plan
+export const DEFAULT_PLAN_MONTHLY = 20;
+// List internet egress in USD when the export bills none to derive a rate
+// from
+export const LIST_EGRESS_PER_GB = 0.09;
+
+const LABELS: Record<TransferClass, string> = {
+  "internet-egress": "Internet egress",
+  "inter-region": "Inter-region",
+  "inter-az": "Inter-AZ",
+  nat: "NAT processing",
+  cdn: "CDN"
+};
+const CLASS_ORDER: TransferClass[] = [
+  "internet-egress",
+  "cdn",
+  "inter-region",
+  "inter-az",
+  "nat"
+];
+
+function monthsOf(usage: TransferUsage): number {
+  const start = Date.parse(usage.periodStart ?? "");
+  const end = Date.parse(usage.periodEnd ?? "");
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return 1;
+  return Math.max((end - start) / DAY_MS, 1) / DAYS_PER_MONTH;
+}
+
+// Transfer spend per class with its cost per GB, and what Cloudflare in
+// front of the origins or R2 as the origin would cost instead; USD prices
+// are converted to the billing currency at the rate for the billing period
+export function analyzeTransfer(
+  usage: TransferUsage,
+  options: TransferOptions = {},
+  rates: FxRate[] = []
+): TransferReport {
+  const cacheHitRatio = options.cacheHitRatio ?? DEFAULT_CACHE_HIT_RATIO;
+  const months = monthsOf(usage);
+  const asOf = (usage.periodEnd ?? new Date().toISOString()).slice(0, 10);
+  const fx = resolveFxQuote(rates, BASE_CURRENCY, usage.currency, asOf);
+
+  const classes = CLASS_ORDER.flatMap((transferClass) => {
+    const line = usage.classes.get(transferClass);
+    if (!line) return [];
+    return [
+      {
+        transferClass,
+        gbPerMonth: round(line.gb / months),
+        monthlyCost: round(line.cost / months),
+        costPerGb: line.gb > 0 ? round(line.cost / line.gb, 4) : null,
+        topServices: [...line.byService]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 3)
+          .map(([serviceName, cost]) => ({
+            serviceName,
+            monthlyCost: round(cost / months)
+          }))
+      }
+    ];
+  });
+  const byClass = (transferClass: TransferClass) =>
+    usage.classes.get(transferClass) ?? { gb: 0, cost: 0 };
+
+  const scenarios: TransferScenario[] = [];
+  const egress = byClass("internet-egress");
+  const cdn = byClass("cdn");
+  const servedGb = (egress.gb + cdn.gb) / months;
+  if (servedGb > 0 && fx) {
+    const planMonthly = (options.planMonthly ?? DEFAULT_PLAN_MONTHLY) * fx.rate;
+    // Cache misses are fetched from the origin over internet egress
+    const egressPerGb =
+      egress.gb > 0 ? egress.cost / egress.gb : LIST_EGRESS_PER_GB * fx.rate;
+    const currentMonthly = (egress.cost + cdn.cost) / months;
+    const scenarioMonthly =
+      servedGb * (1 - cacheHitRatio) * egressPerGb + planMonthly;
+    scenarios.push({
+      id: "cloudflare-cdn",
+      name: "Cloudflare in front of the origins",
+      assumptions: `${Math.round(cacheHitRatio * 100)}% cache hit ratio, misses billed at ${round(egressPerGb, 4)} ${usage.currency}/GB origin egress, ${round(planMonthly)} ${usage.currency}/month plan${cdn.gb > 0 ? ", replacing the current CDN" : ""}`,
+      currentMonthly: round(currentMonthly),
+      scenarioMonthly: round(scenarioMonthly),
+      monthlySavings: round(currentMonthly - scenarioMonthly)
+    });
+  }
+
+  if (usage.storageEgress.gb > 0) {
+    const currentMonthly = usage.storageEgress.cost / months;
+    scenarios.push({
+      id: "r2-origin",
+      name: "Object storage origins moved to R2",
+      assumptions: `${round(usage.storageEgress.gb / months)} GB/month served from object storage leaves R2 without egress fees; storage and operations are priced in the storage comparison`,
+      currentMonthly: round(currentMonthly),
+      scenarioMonthly: 0,
+      monthlySavings: round(currentMonthly)
+    });
+  }
+
+  return {
+    currency: usage.currency,
+    periodStart: usage.periodStart,
+    periodEnd: usage.periodEnd,
+    cacheHitRatio,
+    totalMonthlyCost: round(
+      [...usage.classes.values()].reduce((sum, line) => sum + line.cost, 0) /
+        months
+    ),
+    classes,
+    scenarios,
+    fx
+  };
+}
+
+export function formatTransfer(report: TransferReport): string {
+  const money = (value: number) => formatMoney(value, report.currency);
+  return [
+    `Data transfer (${money(report.totalMonthlyCost)}/month):`,
+    ...report.classes.map(
+      (c) =>
+        `- ${LABELS[c.transferClass]}: ${c.gbPerMonth} GB/month, ${money(c.monthlyCost)}/month${c.costPerGb !== null ? ` (${money(c.costPerGb)}/GB)` : ""}; ${c.topServices.map((s) => `${s.serviceName} ${money(s.monthlyCost)}`).join(", ")}`
+    ),
+    ...(report.scenarios.length > 0 ? ["Scenarios:"] : []),
+    ...report.scenarios.map(
+      (s) =>
+        `- ${s.name}: ${money(s.currentMonthly)} -> ${money(s.scenarioMonthly)}/month, ${s.monthlySavings >= 0 ? "saves" : "costs"} ${money(Math.abs(s.monthlySavings))}/month (${s.assumptions})`
+    ),
+    ...(report.fx === null
+      ? [
+          `Cloudflare in front of the origins is not priced: no ${report.currency} exchange rate to convert the USD plan price.`
+        ]
+      : report.fx.from !== report.fx.to
+        ? [
+            `USD prices converted at 1 USD = ${+report.fx.rate.toPrecision(6)} ${report.currency} (${report.fx.rateDate}).`
+          ]
+        : [])
+  ].join("\n");
+}
@@ -0,0 +1,145 @@
+import type { FocusRecord } from "../billing/focus";
+
+export type TransferClass =
+  | "internet-egress"
+  | "inter-region"
+  | "inter-az"
+  | "nat"
+  | "cdn";
+
+export interface TransferLine {
+  gb: number;
+  cost: number;
+  byService: Map<string, number>;
+}
+
+export interface TransferUsage {
+  currency: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  classes: Map<TransferClass, TransferLine>;
+  // Internet egress served straight from object storage, what R2 removes
+  storageEgress: { gb: number; cost: number };
+}
+
+export interface TransferUsageCollector {
+  add(record: FocusRecord): void;
+  // Transfer billed in the given currency, or in the one most of it is
+  // billed in
+  usage(currency?: string): TransferUsage | null;
+  // Transfer per billing currency, most spend first
+  usages(): TransferUsage[];
+}
+
+const BYTES_PER_GB = 1024 ** 3;
+
+const CDN_SERVICE = /cloudfront|cloud cdn|\bcdn\b|front door/i;
+const STORAGE_SERVICE =
+  /simple storage service|amazons3|^s3$|cloud storage|^storage$|blob/i;
+
+// Usage types and meter names per class, checked in this order: NAT and CDN
+// bytes also look like egress
+const CLASS_PATTERNS: [TransferClass, RegExp][] = [
+  ["nat", /natgateway-bytes|nat gateway data processed/i],
+  [
+    "inter-az",
+    /datatransfer-regional-bytes|inter ?zone|inter-availability zone/i
+  ],
+  ["inter-region", /aws-(out|in)-bytes|inter ?region|inter-region/i],
+  [
+    "internet-egress",
+    /datatransfer-out-bytes|internet egress|download worldwide|egress|data transfer out/i
+  ]
+];
+
+function classOf(record: FocusRecord): TransferClass | null {
+  const usageType = record.x_UsageType || record.ChargeDescription;
+  if (CDN_SERVICE.test(record.ServiceName)) {
+    return /bytes|transfer|egress/i.test(usageType) ? "cdn" : null;
+  }
+  for (const [transferClass, pattern] of CLASS_PATTERNS) {
+    if (pattern.test(usageType)) return transferClass;
+  }
+  return null;
+}
+
+function gbOf(record: FocusRecord): number {
+  return /^bytes?$/i.test(record.ConsumedUnit)
+    ? record.ConsumedQuantity / BYTES_PER_GB
+    : record.ConsumedQuantity;
+}
+
+function spendOf(usage: TransferUsage): number {
+  let spend = 0;
+  for (const line of usage.classes.values()) spend += Math.abs(line.cost);
+  return spend;
+}
+
+export function createTransferUsageCollector(): TransferUsageCollector {
+  // Costs in different currencies are never summed
+  const currencies = new Map<string, TransferUsage>();
+
+  const usages = () =>
+    [...currencies.values()]
+      .filter((usage) => usage.classes.size > 0)
+      .sort((a, b) => spendOf(b) - spendOf(a));
+
+  return {
+    add(record) {
+      if (record.ChargeCategory !== "Usage") return;
+      const currency = record.BillingCurrency || "USD";
+      let usage = currencies.get(currency);
+      if (!usage) {
+        usage = {
+          currency,
+          periodStart: null,
+          periodEnd: null,
+          classes: new Map(),
+          storageEgress: { gb: 0, cost: 0 }
+        };
+        currencies.set(currency, usage);
+      }
+      const start = record.ChargePeriodStart || null;
+      const end = record.ChargePeriodEnd || record.ChargePeriodStart || null;
+      if (start && (!usage.periodStart || start < usage.periodStart)) {
+        usage.periodStart = start;
+      }
+      if (end && (!usage.periodEnd || end > usage.periodEnd)) {
+        usage.periodEnd = end;
+      }
+
+      const transferClass = classOf(record);
+      if (!transferClass) return;
+
+      let line = usage.classes.get(transferClass);
+      if (!line) {
+        line = { gb: 0, cost: 0, byService: new Map() };
+        usage.classes.set(transferClass, line);
+      }
+      const gb = gbOf(record);
+      line.gb += gb;
+      line.cost += record.EffectiveCost;
+      const service = record.ServiceName || "(unknown service)";
+      line.byService.set(
+        service,
+        (line.byService.get(service) ?? 0) + record.EffectiveCost
+      );
+
+      if (
+        transferClass === "internet-egress" &&
+        STORAGE_SERVICE.test(record.ServiceName)
+      ) {
+        usage.storageEgress.gb += gb;
+        usage.storageEgress.cost += record.EffectiveCost;
+      }
+    },
+
+    usage(currency) {
+      if (currency === undefined) return usages()[0] ?? null;
+      const usage = currencies.get(currency);
+      return usage && usage.classes.size > 0 ? usage : null;
+    },
+
+    usages
+  };
+}
@@ -0,0 +1,101 @@
+import { normalizeHeader, parseAmount, readCsvRows } from "../billing/csv";
+import { sniffContent } from "../ingest/sniff";
+import { readFileHead, type UploadedFile } from "../storage/file-storage";
+
+// One day's business volume, e.g. API requests, active customers or orders
+export interface BusinessMetricPoint {
+  metric: string;
+  usageDate: string;
+  value: number;
+}
+
+// Bounds rows kept from a file: a few years of daily values per metric
+const MAX_POINTS = 20000;
+
+const DATE_COLUMN = /^(date|day|usagedate|timestamp|time|period)/;
+
+// "2026-09-01", "2026-09-01T00:00:00Z" or "09/01/2026" -> "2026-09-01"
+export function toUsageDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) return trimmed.slice(0, 10);
+  const time = Date.parse(trimmed);
+  return Number.isFinite(time)
+    ? new Date(time).toISOString().slice(0, 10)
+    : null;
+}
+
+export function parseBusinessMetricRows(
+  rows: Iterable<string[]>
+): BusinessMetricPoint[] {
+  const points = new Map<string, BusinessMetricPoint>();
+  let header: string[] | null = null;
+  let dateIndex = -1;
+
+  for (const row of rows) {
+    if (!header) {
+      header = row.map((name) => name.trim());
+      dateIndex = header.findIndex((name) =>
+        DATE_COLUMN.test(normalizeHeader(name))
+      );
+      if (dateIndex < 0) return [];
+      continue;
+    }
+    const usageDate = toUsageDate(row[dateIndex] ?? "");
+    if (!usageDate) continue;
+    header.forEach((metric, i) => {
+      if (i === dateIndex || !metric || !row[i]?.trim()) return;
+      if (points.size >= MAX_POINTS) return;
+      // Several rows of one day (e.g. per region) add up
+      const key = `${metric}\u0000${usageDate}`;
+      const point = points.get(key) ?? { metric, usageDate, value: 0 };
+      point.value += parseAmount(row[i]);
+      points.set(key, point);
+    });
+  }
+  return [...points.values()];
+}
+
+// Business volume exports (date plus requests, MAU, orders... columns); null
+// when the file is not one
+export async function loadBusinessMetrics(
+  env: Env,
+  file: UploadedFile
+): Promise<BusinessMetricPoint[] | null> {
+  const head = await readFileHead(env, file.r2Key);
+  if (!head) return null;
+  if (sniffContent(file.fileName, head).format !== "business-metrics") {
+    return null;
+  }
+
+  const object = await env.FILES.get(file.r2Key);
+  if (!object) return null;
+  const delimiter = head.split("\n", 1)[0].includes("\t") ? "\t" : ",";
+  const rows: string[][] = [];
+  for await (const row of readCsvRows(object.body, delimiter)) {
+    rows.push(row);
+    if (rows.length > MAX_POINTS) break;
+  }
+  const points = parseBusinessMetricRows(rows);
+  return points.length > 0 ? points : null;
+}
+
+// One line per metric for the model: days covered and the latest value
+export function formatBusinessMetrics(
+  fileName: string,
+  points: BusinessMetricPoint[]
+): string {
+  const byMetric = new Map<string, BusinessMetricPoint[]>();
+  for (const point of points) {
+    byMetric.set(point.metric, [...(byMetric.get(point.metric) ?? []), point]);
+  }
+  return [
+    `Business volumes from ${fileName}:`,
+    ...[...byMetric].map(([metric, values]) => {
+      const sorted = values.sort((a, b) =>
+        a.usageDate.localeCompare(b.usageDate)
+      );
+      const last = sorted[sorted.length - 1];
+      return `- ${metric}: ${sorted.length} days from ${sorted[0].usageDate} to ${last.usageDate}, latest ${last.value.toLocaleString("en-US")}`;
+    })
+  ].join("\n");
+}
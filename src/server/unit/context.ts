@@ -0,0 +1,55 @@
+import { readFocusDatasets } from "../billing/dataset";
+import {
+  createDailyCostCollector,
+  type DailyCostCollector
+} from "../forecast/series";
+import type { BusinessMetricPoint } from "./business";
+import {
+  analyzeUnitCosts,
+  type DailySpend,
+  type UnitCostReport
+} from "./engine";
+
+const UNIT_COST_QUESTION =
+  /unit cost|unit economics|cost per|per (1k|thousand|customer|user|request|order|transaction)|\bmau\b/i;
+
+export function asksAboutUnitCosts(message: string): boolean {
+  return UNIT_COST_QUESTION.test(message);
+}
+
+// Joins the daily spend of the exports with business volumes; null without
+// volumes or when none falls on a billed day
+export async function buildUnitCostReport(
+  env: Env,
+  datasets: { focusKey: string | null }[],
+  points: BusinessMetricPoint[]
+): Promise<UnitCostReport | null> {
+  if (points.length === 0) return null;
+  const collector = createDailyCostCollector();
+  await readFocusDatasets(env, [{ datasets, collector }]);
+  return unitCostReportFrom(collector, points);
+}
+
+// Joins daily spend already collected from the exports with the volumes
+export function unitCostReportFrom(
+  collector: DailyCostCollector,
+  points: BusinessMetricPoint[]
+): UnitCostReport | null {
+  if (points.length === 0) return null;
+  if (collector.skipped > 0) {
+    console.log(
+      `⚠️ Unit costs skipped ${collector.skipped} line items of services over the limit`
+    );
+  }
+
+  const series = collector.series();
+  if (!series) return null;
+  const spend: DailySpend = { currency: series.currency, days: new Map() };
+  for (const day of series.observed) spend.days.set(day, 0);
+  for (const days of series.services.values()) {
+    for (const [day, cost] of days) {
+      spend.days.set(day, (spend.days.get(day) ?? 0) + cost);
+    }
+  }
+  return analyzeUnitCosts(spend, points);
+}
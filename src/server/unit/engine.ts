@@ -0,0 +1,256 @@
+import { round } from "../utils/format";
+import type { BusinessMetricPoint } from "./business";
+import { DAYS_PER_MONTH, DAY_MS } from "../utils/constants";
+
+// Volumes summed over a period (requests, orders) divide the period's spend;
+// counts of customers or users are levels, so they price a month of service
+export type UnitBasis = "flow" | "gauge";
+
+// Total spend per UTC day number in one billing currency
+export interface DailySpend {
+  currency: string;
+  days: Map<number, number>;
+}
+
+export interface UnitCostWeek {
+  weekStart: string;
+  weekEnd: string;
+  // Days of the week with both spend and volume
+  days: number;
+  spend: number;
+  volume: number;
+  unitCost: number;
+}
+
+export interface UnitCostSeries {
+  metric: string;
+  basis: UnitBasis;
+  // Units one cost is quoted for: 1000 for requests, 1 otherwise
+  scale: number;
+  weeks: UnitCostWeek[];
+  latest: number | null;
+  baseline: number | null;
+  change: number | null;
+}
+
+export interface UnitCostRegression {
+  metric: string;
+  weekStart: string;
+  latest: number;
+  baseline: number;
+  change: number;
+}
+
+export interface UnitCostReport {
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  metrics: UnitCostSeries[];
+  regressions: UnitCostRegression[];
+}
+
+const MAX_WEEKS = 12;
+// Partial weeks at the edges of an export are too noisy to compare
+const MIN_WEEK_DAYS = 3;
+const BASELINE_WEEKS = 4;
+export const REGRESSION_THRESHOLD = 0.15;
+
+const GAUGE_METRIC =
+  /(mau|dau|wau|active|customer|user|subscriber|account|seat|tenant)/i;
+const PER_THOUSAND_METRIC =
+  /(request|call|event|session|pageview|impression|message)/i;
+
+function toDay(usageDate: string): number {
+  return Math.floor(Date.parse(`${usageDate.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+function toDate(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function unitBasisOf(metric: string): UnitBasis {
+  return GAUGE_METRIC.test(metric) ? "gauge" : "flow";
+}
+
+function seriesFor(
+  metric: string,
+  volumes: Map<number, number>,
+  spend: DailySpend
+): UnitCostSeries | null {
+  const basis = unitBasisOf(metric);
+  const scale = basis === "flow" && PER_THOUSAND_METRIC.test(metric) ? 1000 : 1;
+  const joined = [...volumes]
+    .filter(([day, volume]) => volume > 0 && spend.days.has(day))
+    .sort((a, b) => a[0] - b[0]);
+  if (joined.length === 0) return null;
+
+  // Weeks end on the last joined day so the latest week is a full one
+  const lastDay = joined[joined.length - 1][0];
+  const buckets = new Map<number, [number, number][]>();
+  for (const entry of joined) {
+    const week = Math.floor((lastDay - entry[0]) / 7);
+    if (week >= MAX_WEEKS) continue;
+    const bucket = buckets.get(week) ?? [];
+    bucket.push(entry);
+    buckets.set(week, bucket);
+  }
+
+  const weeks: UnitCostWeek[] = [];
+  for (let week = MAX_WEEKS - 1; week >= 0; week--) {
+    const entries = buckets.get(week);
+    if (!entries || entries.length < MIN_WEEK_DAYS) continue;
+    const total = entries.reduce(
+      (sum, [day]) => sum + (spend.days.get(day) ?? 0),
+      0
+    );
+    const volume = entries.reduce((sum, [, value]) => sum + value, 0);
+    const unitCost =
+      basis === "flow"
+        ? (total / volume) * scale
+        : ((total / entries.length) * DAYS_PER_MONTH) /
+          (volume / entries.length);
+    const end = lastDay - week * 7;
+    weeks.push({
+      weekStart: toDate(end - 6),
+      weekEnd: toDate(end),
+      days: entries.length,
+      spend: round(total),
+      volume: round(basis === "flow" ? volume : volume / entries.length),
+      unitCost: round(unitCost, 6)
+    });
+  }
+  if (weeks.length === 0) return null;
+
+  const latest = weeks[weeks.length - 1].unitCost;
+  const previous = weeks
+    .slice(0, -1)
+    .slice(-BASELINE_WEEKS)
+    .map((w) => w.unitCost);
+  const baseline = previous.length > 0 ? median(previous) : null;
+  return {
+    metric,
+    basis,
+    scale,
+    weeks,
+    latest,
+    baseline,
+    change: baseline ? round(latest / baseline - 1, 4) : null
+  };
+}
+
+// Weekly unit costs per business metric and the metrics whose latest week
+// costs notably more per unit than the weeks before it; null when no volume
+// falls on a billed day
+export function analyzeUnitCosts(
+  spend: DailySpend,
+  points: BusinessMetricPoint[]
+): UnitCostReport | null {
+  const byMetric = new Map<string, Map<number, number>>();
+  for (const point of points) {
+    const day = toDay(point.usageDate);
+    if (!Number.isFinite(day)) continue;
+    let volumes = byMetric.get(point.metric);
+    if (!volumes) {
+      volumes = new Map();
+      byMetric.set(point.metric, volumes);
+    }
+    volumes.set(day, point.value);
+  }
+
+  const metrics = [...byMetric]
+    .map(([metric, volumes]) => seriesFor(metric, volumes, spend))
+    .filter((series): series is UnitCostSeries => series !== null);
+  if (metrics.length === 0) return null;
+
+  const regressions = metrics
+    .filter(
+      (s) =>
+        s.change !== null &&
+        s.baseline !== null &&
+        s.change >= REGRESSION_THRESHOLD
+    )
+    .map((s) => ({
+      metric: s.metric,
+      weekStart: s.weeks[s.weeks.length - 1].weekStart,
+      latest: s.latest as number,
+      baseline: round(s.baseline as number, 6),
+      change: s.change as number
+    }))
+    .sort((a, b) => b.change - a.change);
+
+  return {
+    currency: spend.currency,
+    periodStart: metrics.map((s) => s.weeks[0].weekStart).sort()[0],
+    periodEnd: metrics
+      .map((s) => s.weeks[s.weeks.length - 1].weekEnd)
+      .sort()
+      .reverse()[0],
+    metrics,
+    regressions
+  };
+}
+
+// Unit costs are often fractions of a cent, so small ones keep three
+// significant digits
+function formatUnitMoney(value: number, currency: string): string {
+  const amount =
+    Math.abs(value) >= 1
+      ? value.toLocaleString("en-US", {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2
+        })
+      : value.toLocaleString("en-US", { maximumSignificantDigits: 3 });
+  return currency === "USD" ? `$${amount}` : `${amount} ${currency}`;
+}
+
+function percent(change: number): string {
+  return `${change >= 0 ? "+" : ""}${Math.round(change * 1000) / 10}%`;
+}
+
+function unitOf(series: { metric: string; basis: UnitBasis; scale: number }) {
+  const per = series.scale === 1000 ? `1k ${series.metric}` : series.metric;
+  return series.basis === "gauge" ? `per ${per} per month` : `per ${per}`;
+}
+
+export function formatUnitCosts(report: UnitCostReport): string {
+  const money = (value: number) => formatUnitMoney(value, report.currency);
+  const lines = [
+    `Unit costs (${report.currency}, weekly spend divided by business volume, ${report.periodStart} to ${report.periodEnd}):`,
+    "| Metric | Unit | Latest week | Baseline | Change | Weekly trend |",
+    "|---|---|---|---|---|---|",
+    ...report.metrics.map(
+      (s) =>
+        `| ${s.metric} | ${unitOf(s)} | ${s.latest !== null ? money(s.latest) : "-"} | ${s.baseline !== null ? money(s.baseline) : "-"} | ${s.change !== null ? percent(s.change) : "-"} | ${s.weeks
+          .slice(-6)
+          .map((w) => money(w.unitCost))
+          .join(" → ")} |`
+    )
+  ];
+
+  const bySeries = new Map(report.metrics.map((s) => [s.metric, s]));
+  if (report.regressions.length > 0) {
+    lines.push(
+      "",
+      `Unit cost regressions (latest week at least ${Math.round(REGRESSION_THRESHOLD * 100)}% above the median of the ${BASELINE_WEEKS} weeks before):`,
+      ...report.regressions.map((r) => {
+        const series = bySeries.get(r.metric);
+        const unit = series ? unitOf(series) : `per ${r.metric}`;
+        return `- Cost ${unit} rose ${Math.round(r.change * 1000) / 10}% in the week of ${r.weekStart}: ${money(r.baseline)} → ${money(r.latest)}`;
+      })
+    );
+  } else {
+    lines.push("", "No unit cost regressions in the latest week.");
+  }
+  lines.push(
+    "Gauge metrics such as active customers price a month of spend per customer; volume metrics divide the week's spend by its volume."
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,22 @@
+export const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+// List prices bill a month as 730 hours
+export const HOURS_PER_MONTH = 730;
+export const DAYS_PER_MONTH = HOURS_PER_MONTH / 24;
+
+// Distinct items a collector tracks in one pass over the exports, which
+// bounds memory for exports covering whole fleets; items past a cap are
+// counted as skipped
+export const COLLECTOR_LIMITS = {
+  series: 1000,
+  // Spend breakdowns of the anomaly series; the series themselves are kept
+  breakdowns: 20000,
+  buckets: 2000,
+  tagKeys: 200,
+  tagValues: 500,
+  computeLines: 2000,
+  resources: 5000,
+  services: 500,
+  workloads: 2000,
+  instanceGroups: 500
+} as const;
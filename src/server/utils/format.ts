@@ -0,0 +1,12 @@
+export function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function formatMoney(value: number, currency: string): string {
+  const amount = value.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+  return currency === "USD" ? `$${amount}` : `${amount} ${currency}`;
+}
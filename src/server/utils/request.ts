@@ -0,0 +1,14 @@
+// Parses a JSON object request body; null when the body is not valid JSON or
+// not an object, which routes answer with a 400
+export async function readJsonBody<T extends object>(
+  request: Request
+): Promise<T | null> {
+  try {
+    const body: unknown = await request.json();
+    return body && typeof body === "object" && !Array.isArray(body)
+      ? (body as T)
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -6,14 +6,63 @@ export interface UploadedFile {
   r2Key: string;
   uploadedAt: string;
   downloadUrl?: string;
+  sourceFormat?: string | null;
+  sheets?: FileSheet[];
+  entries?: UploadedFile[];
+  declaredRole?: string | null;
+  detectedRole?: string | null;
+  roleWarning?: string;
 }
 
+export type SheetRole = "billing" | "metrics" | "ignore";
+
+export interface FileSheet {
+  sheetIndex: number;
+  sheetName: string;
+  rowCount: number;
+  role: SheetRole;
+  detectedRole: SheetRole;
+}
+
+export interface PartProgress {
+  partNumber: number;
+  size: number;
+  loaded: number;
+  status: "pending" | "uploading" | "completed" | "error";
+}
+
+export type AttachmentRole =
+  | "billing"
+  | "metrics"
+  | "iac"
+  | "pricing"
+  | "invoice"
+  | "other";
+
 export interface FileUploadProgress {
+  // Client-side key; a message can carry any number of attachments
+  id: string;
   file: File;
   progress: number;
   status: "uploading" | "completed" | "error";
   uploadedFile?: UploadedFile;
-  fileType: "plan" | "metrics";
+  role: AttachmentRole;
+  uploadId?: string;
+  parts?: PartProgress[];
+}
+
+// A day whose spend jumped above its seasonal baseline
+export interface CostAnomaly {
+  usageDate: string;
+  serviceName: string;
+  subAccountId: string | null;
+  usageType: string | null;
+  resourceId: string | null;
+  actualCost: number;
+  expectedCost: number;
+  deltaCost: number;
+  score: number;
+  currency: string;
 }
 
 export interface ChatMessage {
@@ -22,6 +71,7 @@ export interface ChatMessage {
   files?: UploadedFile[];
   messageId?: string;
   timestamp: Date;
+  anomalies?: CostAnomaly[];
 }
 
 export interface ChatResponse {
@@ -29,6 +79,7 @@ export interface ChatResponse {
   threadId?: string;
   analysisId?: number;
   messageId?: string;
+  anomalies?: CostAnomaly[];
 }
 
 export interface HistoryResponse {
@@ -46,3 +97,8 @@ export interface ChatRequest {
   sessionId: string;
   threadId?: string;
 }
+
+export interface CurrencySettings {
+  reportingCurrency: string;
+  currencies: string[];
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { FocusRecord } from "../src/server/billing/focus";
+import {
+  detectAnomalies,
+  formatAnomalies
+} from "../src/server/anomalies/detect";
+import { createDailySpendCollector } from "../src/server/anomalies/series";
+import { focusRecord } from "./fixtures";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 7, 3);
+
+function usage(
+  day: number,
+  cost: number,
+  overrides: Partial<FocusRecord> = {}
+): FocusRecord {
+  return focusRecord({
+    ServiceName: "Amazon Simple Storage Service",
+    SubAccountId: "111122223333",
+    ChargePeriodStart: new Date(START + day * DAY_MS).toISOString(),
+    ChargePeriodEnd: new Date(START + (day + 1) * DAY_MS).toISOString(),
+    EffectiveCost: cost,
+    BilledCost: cost,
+    x_UsageType: "TimedStorage-ByteHrs",
+    ResourceId: "logs-bucket",
+    ...overrides
+  });
+}
+
+// Six weeks of weekday/weekend spend with a transfer spike on `spikeDay`
+function series(spikeDay: number, spike: number) {
+  const collector = createDailySpendCollector();
+  for (let day = 0; day < 42; day++) {
+    const weekend = day % 7 >= 5;
+    collector.add(usage(day, (weekend ? 40 : 100) + (day % 3)));
+    if (day === spikeDay) {
+      collector.add(
+        usage(day, spike, {
+          x_UsageType: "DataTransfer-Out-Bytes",
+          ResourceId: "media-bucket"
+        })
+      );
+    }
+  }
+  collector.add(usage(3, 500, { ChargeCategory: "Purchase" }));
+  return collector.series();
+}
+
+describe("spend anomalies", () => {
+  it("flags a spike against the seasonal baseline with its root cause", () => {
+    const report = detectAnomalies(series(37, 300));
+
+    expect(report.seriesCount).toBe(1);
+    expect(report.anomalies).toHaveLength(1);
+    const [anomaly] = report.anomalies;
+    expect(anomaly.usageDate).toBe("2026-09-09");
+    expect(anomaly.serviceName).toBe("Amazon Simple Storage Service");
+    expect(anomaly.subAccountId).toBe("111122223333");
+    expect(anomaly.usageType).toBe("DataTransfer-Out-Bytes");
+    expect(anomaly.resourceId).toBe("media-bucket");
+    expect(anomaly.deltaCost).toBeGreaterThan(290);
+  });
+
+  it("treats the weekly dip as seasonal and honours the sensitivity", () => {
+    expect(detectAnomalies(series(-1, 0)).anomalies).toHaveLength(0);
+
+    const small = series(37, 30);
+    expect(detectAnomalies(small, "low").anomalies).toHaveLength(0);
+    expect(detectAnomalies(small, "high").anomalies).toHaveLength(1);
+  });
+
+  it("formats the anomalies for the chat", () => {
+    const text = formatAnomalies(detectAnomalies(series(37, 300)));
+
+    expect(text).toContain("Anomalies found (1 across 1");
+    expect(text).toContain("in account 111122223333");
+    expect(text).toContain("resource media-bucket");
+    expect(formatAnomalies(detectAnomalies(series(-1, 0)))).toContain(
+      "No spend anomalies"
+    );
+  });
+});
@@ -0,0 +1,340 @@
+import { describe, expect, it } from "vitest";
+import {
+  addRecord,
+  createAggregates,
+  finalizeAggregates,
+  formatCombinedAggregates
+} from "../src/server/billing/aggregate";
+import {
+  createAzureReader,
+  detectAzureLayout
+} from "../src/server/billing/azure";
+import { parseCsvText, readCsvRows } from "../src/server/billing/csv";
+import { createCurReader, detectCurVersion } from "../src/server/billing/cur";
+import { gcpRowToFocus } from "../src/server/billing/gcp";
+import { readJsonArray } from "../src/server/billing/ndjson";
+import { roleMatchesDeclared, sniffContent } from "../src/server/ingest/sniff";
+import { detectSheetRole } from "../src/server/ingest/spreadsheet";
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    }
+  });
+}
+
+const CUR_HEADER = [
+  "lineItem/LineItemType",
+  "lineItem/UsageAccountId",
+  "lineItem/ProductCode",
+  "lineItem/UsageType",
+  "lineItem/UsageStartDate",
+  "lineItem/UnblendedCost",
+  "product/region",
+  "pricing/term",
+  "reservation/EffectiveCost"
+].join(",");
+
+describe("CSV parsing", () => {
+  it("handles quotes, escaped quotes and embedded newlines", () => {
+    const rows = parseCsvText('a,"b, c","say ""hi""\nthere"\r\n1,2,3\n');
+    expect(rows).toEqual([
+      ["a", "b, c", 'say "hi"\nthere'],
+      ["1", "2", "3"]
+    ]);
+  });
+
+  it("reassembles rows split across stream chunks", async () => {
+    const rows: string[][] = [];
+    for await (const row of readCsvRows(streamOf('x,"y', '""",z\r', "\n1,2"))) {
+      rows.push(row);
+    }
+    expect(rows).toEqual([
+      ["x", 'y"', "z"],
+      ["1", "2"]
+    ]);
+  });
+});
+
+describe("JSON array streaming", () => {
+  it("splits elements across chunks without tripping on strings", async () => {
+    const rows: unknown[] = [];
+    for await (const row of readJsonArray(
+      streamOf('[{"a":"x,]}"', ',"b":[1,2]},', ' {"a":"\\"q\\""}', "]")
+    )) {
+      rows.push(row);
+    }
+    expect(rows).toEqual([{ a: "x,]}", b: [1, 2] }, { a: '"q"' }]);
+  });
+});
+
+describe("CUR parsing", () => {
+  it("normalizes line items to FOCUS columns", () => {
+    const read = createCurReader([
+      ...CUR_HEADER.split(","),
+      "resourceTags/user:team"
+    ]);
+    const record = read([
+      "Usage",
+      "111",
+      "AmazonEC2",
+      "SpotUsage:m5.large",
+      "2025-01-01T00:00:00Z",
+      "3.5",
+      "us-east-1",
+      "",
+      "",
+      "platform"
+    ]);
+    expect(record.SubAccountId).toBe("111");
+    expect(record.ServiceCategory).toBe("Compute");
+    expect(record.PricingCategory).toBe("Dynamic");
+    expect(record.BilledCost).toBe(3.5);
+    expect(record.Tags).toEqual({ "user:team": "platform" });
+  });
+
+  it("detects CUR and CUR 2.0 headers", () => {
+    expect(detectCurVersion(CUR_HEADER.split(","))).toBe("aws-cur");
+    expect(
+      detectCurVersion([
+        "line_item_product_code",
+        "line_item_unblended_cost",
+        "line_item_usage_type"
+      ])
+    ).toBe("aws-cur2");
+    expect(detectCurVersion(["Date", "Cost"])).toBeNull();
+  });
+
+  it("aggregates spend using amortized reservation cost", () => {
+    const [header, ...rows] = parseCsvText(
+      [
+        CUR_HEADER,
+        "Usage,111,AmazonEC2,BoxUsage:m5.large,2025-01-01T00:00:00Z,10,us-east-1,OnDemand,",
+        "DiscountedUsage,111,AmazonEC2,BoxUsage:m5.large,2025-01-02T00:00:00Z,0,us-east-1,Reserved,4",
+        "Usage,222,AmazonS3,TimedStorage-ByteHrs,2025-01-02T00:00:00Z,5,us-west-2,OnDemand,"
+      ].join("\n")
+    );
+    const read = createCurReader(header);
+    const aggregates = createAggregates("aws-cur");
+    for (const row of rows) addRecord(aggregates, read(row));
+    const result = finalizeAggregates(aggregates);
+
+    expect(result.rowCount).toBe(3);
+    expect(result.billedCost).toBe(15);
+    expect(result.effectiveCost).toBe(19);
+    expect(result.byService.AmazonEC2.effectiveCost).toBe(14);
+    expect(result.byAccount["222"].billedCost).toBe(5);
+    expect(result.byPricingCategory.Committed.effectiveCost).toBe(4);
+    expect(result.provider).toBe("AWS");
+    expect(result.periodStart).toBe("2025-01-01");
+    expect(result.periodEnd).toBe("2025-01-02");
+  });
+});
+
+describe("Azure parsing", () => {
+  it("distinguishes EA and MCA layouts", () => {
+    expect(
+      detectAzureLayout([
+        "SubscriptionId",
+        "MeterCategory",
+        "CostInBillingCurrency"
+      ])
+    ).toBe("azure-ea");
+    expect(
+      detectAzureLayout([
+        "billingProfileId",
+        "subscriptionId",
+        "meterCategory",
+        "costInBillingCurrency"
+      ])
+    ).toBe("azure-mca");
+  });
+
+  it("aggregates by subscription and resource group", () => {
+    const [header, ...rows] = parseCsvText(
+      [
+        "SubscriptionId,SubscriptionName,Date,ResourceGroup,MeterCategory,MeterSubCategory,CostInBillingCurrency,BillingCurrency,PricingModel,ChargeType,ReservationName,Tags",
+        'sub-1,Prod,01/05/2025,rg-web,Virtual Machines,Dv3 Series,12.5,EUR,OnDemand,Usage,,"""env"": ""prod"""',
+        "sub-1,Prod,01/06/2025,rg-web,Virtual Machines,Dv3 Series,7.5,EUR,Reservation,Usage,vm-ri,",
+        "sub-1,Prod,01/06/2025,,Virtual Machines,,300,EUR,Reservation,Purchase,vm-ri,"
+      ].join("\n")
+    );
+    const read = createAzureReader(header);
+    const records = rows.map(read);
+    expect(records[0].ChargePeriodStart).toBe("2025-01-05");
+    expect(records[0].Tags).toEqual({ env: "prod" });
+
+    const aggregates = createAggregates("azure-ea");
+    for (const record of records) addRecord(aggregates, record);
+    expect(aggregates.currency).toBe("EUR");
+    expect(aggregates.billedCost).toBe(312.5);
+    expect(aggregates.effectiveCost).toBe(20);
+    expect(aggregates.byResourceGroup["Prod/rg-web"].effectiveCost).toBe(20);
+    expect(aggregates.byCommitment["vm-ri"].billedCost).toBe(300);
+  });
+});
+
+describe("GCP parsing", () => {
+  it("flattens credits, labels and projects into FOCUS records", () => {
+    const records = gcpRowToFocus({
+      billing_account_id: "0000-AAAA",
+      service: { id: "6F81-5844-456A", description: "Compute Engine" },
+      sku: { id: "2E27", description: "N1 Predefined Instance Core" },
+      usage_start_time: "2025-02-01T00:00:00Z",
+      project: {
+        id: "web-prod",
+        name: "Web Prod",
+        labels: [{ key: "team", value: "web" }]
+      },
+      labels: [{ key: "env", value: "prod" }],
+      location: { region: "us-central1", zone: "us-central1-a" },
+      cost: 10,
+      currency: "USD",
+      credits: [
+        {
+          name: "Sustained Usage Discount",
+          amount: -2,
+          type: "SUSTAINED_USAGE_DISCOUNT"
+        },
+        {
+          name: "Committed Usage Discount",
+          amount: -3,
+          type: "COMMITTED_USAGE_DISCOUNT",
+          id: "cud-1"
+        }
+      ]
+    });
+
+    expect(records).toHaveLength(3);
+    expect(records[0].SubAccountId).toBe("web-prod");
+    expect(records[0].Tags).toEqual({ team: "web", env: "prod" });
+    expect(records[2].ChargeCategory).toBe("Credit");
+    expect(records[2].CommitmentDiscountId).toBe("cud-1");
+
+    const aggregates = createAggregates("gcp-billing-json");
+    for (const record of records) addRecord(aggregates, record);
+    expect(aggregates.effectiveCost).toBe(5);
+    expect(aggregates.byChargeCategory.Credit.effectiveCost).toBe(-5);
+    expect(aggregates.byTag["team=web"].effectiveCost).toBe(5);
+  });
+});
+
+describe("Spreadsheet sheets", () => {
+  it("detects sheet roles from their header row", () => {
+    expect(
+      detectSheetRole([
+        "identity/LineItemId",
+        "lineItem/UsageStartDate",
+        "lineItem/UnblendedCost",
+        "lineItem/ProductCode"
+      ])
+    ).toBe("billing");
+    expect(detectSheetRole(["Timestamp", "CPUUtilization", "InstanceId"])).toBe(
+      "metrics"
+    );
+    expect(detectSheetRole(["Service", "Monthly Cost"])).toBe("billing");
+    expect(detectSheetRole(["Notes"])).toBe("ignore");
+  });
+});
+
+describe("Content sniffing", () => {
+  it("recognizes roles regardless of file name", () => {
+    expect(
+      sniffContent(
+        "upload.json",
+        '{"format_version":"1.2","resource_changes":[{"address":"aws_instance.web"'
+      )
+    ).toEqual({ role: "iac", format: "terraform-plan" });
+    expect(
+      sniffContent("a.yaml", "apiVersion: apps/v1\nkind: Deployment\n").role
+    ).toBe("iac");
+    expect(
+      sniffContent(
+        "top.txt",
+        "NAME   CPU(cores)   MEMORY(bytes)\nweb-1  250m  512Mi"
+      )
+    ).toEqual({ role: "metrics", format: "kubectl-top" });
+    expect(
+      sniffContent("plan.csv", "SKU,Product Family,Unit,PricePerUnit\n").role
+    ).toBe("pricing");
+    expect(
+      sniffContent(
+        "plan.csv",
+        "identity/LineItemId,lineItem/UnblendedCost,lineItem/ProductCode\n"
+      )
+    ).toEqual({ role: "billing", format: "aws-cur" });
+  });
+
+  it("treats JSON with a null data field as other content", () => {
+    expect(sniffContent("export.json", '{"data": null}')).toEqual({
+      role: "other",
+      format: null
+    });
+  });
+
+  it("flags declared roles that contradict the content", () => {
+    expect(roleMatchesDeclared("plan", "billing")).toBe(true);
+    expect(roleMatchesDeclared("plan", "metrics")).toBe(false);
+    expect(roleMatchesDeclared("metrics", "iac")).toBe(false);
+    expect(roleMatchesDeclared("metrics", "other")).toBe(true);
+    expect(roleMatchesDeclared("invoice", "billing")).toBe(true);
+    expect(roleMatchesDeclared("pricing", "billing")).toBe(false);
+    expect(roleMatchesDeclared("other", "metrics")).toBe(true);
+  });
+});
+
+describe("Joint billing analysis", () => {
+  function month(provider: string, days: [string, number][]) {
+    const aggregates = createAggregates("focus");
+    aggregates.provider = provider;
+    for (const [day, cost] of days) {
+      aggregates.byDay[day] = { billedCost: cost, effectiveCost: cost };
+      aggregates.byService.EC2 = {
+        billedCost: (aggregates.byService.EC2?.billedCost ?? 0) + cost,
+        effectiveCost: (aggregates.byService.EC2?.effectiveCost ?? 0) + cost
+      };
+      if (!aggregates.periodStart || day < aggregates.periodStart) {
+        aggregates.periodStart = day;
+      }
+      if (!aggregates.periodEnd || day > aggregates.periodEnd) {
+        aggregates.periodEnd = day;
+      }
+    }
+    return aggregates;
+  }
+
+  it("reports month-over-month spend and overlapping exports", () => {
+    const text = formatCombinedAggregates([
+      {
+        fileName: "july.csv",
+        aggregates: month("AWS", [["2026-07-15", 100]])
+      },
+      {
+        fileName: "august.csv",
+        aggregates: month("AWS", [
+          ["2026-08-01", 60],
+          ["2026-08-31", 60]
+        ])
+      },
+      {
+        fileName: "august-copy.csv",
+        aggregates: month("AWS", [["2026-08-20", 10]])
+      }
+    ]);
+
+    expect(text).toContain(
+      "Combined billing across 3 exports (2026-07-15 to 2026-08-31)"
+    );
+    expect(text).toContain(
+      "- 2026-07: 100.00\n- 2026-08: 130.00 (+30.0% vs previous month)"
+    );
+    expect(text).toContain("- EC2: billed 230.00, effective 230.00");
+    expect(text).toContain(
+      "- august.csv and august-copy.csv both cover 2026-08-20 to 2026-08-20"
+    );
+    expect(text).not.toContain("july.csv and");
+  });
+});
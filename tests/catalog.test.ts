@@ -0,0 +1,304 @@
+import { describe, expect, it } from "vitest";
+import type { CatalogPriceRow } from "../src/server/db/catalog";
+import { bundledCatalogPrices } from "../src/server/pricing/catalog";
+import { extractSkus, resolvePrice } from "../src/server/pricing/lookup";
+import { parsePriceSnapshot } from "../src/server/pricing/snapshots";
+
+const AWS_OFFER = {
+  offerCode: "AmazonEC2",
+  version: "20261001000000",
+  products: {
+    LINUX: {
+      sku: "LINUX",
+      productFamily: "Compute Instance",
+      attributes: {
+        instanceType: "m5.large",
+        regionCode: "eu-west-1",
+        operatingSystem: "Linux",
+        tenancy: "Shared",
+        preInstalledSw: "NA",
+        capacitystatus: "Used"
+      }
+    },
+    WINDOWS: {
+      sku: "WINDOWS",
+      productFamily: "Compute Instance",
+      attributes: {
+        instanceType: "m5.large",
+        regionCode: "eu-west-1",
+        operatingSystem: "Windows",
+        tenancy: "Shared",
+        preInstalledSw: "NA",
+        capacitystatus: "Used"
+      }
+    }
+  },
+  terms: {
+    OnDemand: {
+      LINUX: {
+        "LINUX.JRTCKXETXF": {
+          priceDimensions: {
+            "LINUX.JRTCKXETXF.6YS6EN2CT7": {
+              unit: "Hrs",
+              pricePerUnit: { USD: "0.1070000000" }
+            }
+          }
+        }
+      },
+      WINDOWS: {
+        "WINDOWS.JRTCKXETXF": {
+          priceDimensions: {
+            "WINDOWS.JRTCKXETXF.6YS6EN2CT7": {
+              unit: "Hrs",
+              pricePerUnit: { USD: "0.1990000000" }
+            }
+          }
+        }
+      }
+    },
+    Reserved: {
+      LINUX: {
+        "LINUX.4NA7Y494T4": {
+          termAttributes: {
+            LeaseContractLength: "1yr",
+            OfferingClass: "standard",
+            PurchaseOption: "No Upfront"
+          },
+          priceDimensions: {
+            "LINUX.4NA7Y494T4.6YS6EN2CT7": {
+              unit: "Hrs",
+              pricePerUnit: { USD: "0.0670000000" }
+            }
+          }
+        },
+        "LINUX.6QCMYABX3D": {
+          termAttributes: {
+            LeaseContractLength: "1yr",
+            OfferingClass: "standard",
+            PurchaseOption: "All Upfront"
+          },
+          priceDimensions: {
+            "LINUX.6QCMYABX3D.2TG2D8R56U": {
+              unit: "Quantity",
+              pricePerUnit: { USD: "551" }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+function row(
+  overrides: Partial<CatalogPriceRow> & { sku: string; price: number }
+): CatalogPriceRow {
+  return {
+    version: "2026.10-bundled",
+    importedAt: "1970-01-01 00:00:00",
+    provider: "aws",
+    service: "ec2",
+    region: "us-east-1",
+    pricingModel: "on-demand",
+    unit: "hour",
+    currency: "USD",
+    ...overrides
+  };
+}
+
+describe("Price catalog", () => {
+  it("imports Linux on-demand and no-upfront reserved prices from AWS offer files", () => {
+    const snapshot = parsePriceSnapshot(AWS_OFFER);
+    expect(snapshot?.source).toBe("aws-price-list");
+    expect(snapshot?.version).toBe("aws-AmazonEC2-20261001000000");
+    expect(snapshot?.prices).toEqual([
+      {
+        provider: "aws",
+        service: "ec2",
+        sku: "m5.large",
+        region: "eu-west-1",
+        pricingModel: "on-demand",
+        unit: "hour",
+        price: 0.107,
+        currency: "USD"
+      },
+      expect.objectContaining({ pricingModel: "reserved-1yr", price: 0.067 })
+    ]);
+  });
+
+  it("imports Azure retail prices and converts reservations to hourly", () => {
+    const snapshot = parsePriceSnapshot({
+      BillingCurrency: "USD",
+      Items: [
+        {
+          currencyCode: "USD",
+          retailPrice: 0.096,
+          armRegionName: "eastus",
+          armSkuName: "Standard_D2s_v5",
+          serviceName: "Virtual Machines",
+          productName: "Virtual Machines Dsv5 Series",
+          meterName: "D2s v5",
+          unitOfMeasure: "1 Hour",
+          type: "Consumption",
+          isPrimaryMeterRegion: true
+        },
+        {
+          currencyCode: "USD",
+          retailPrice: 525.6,
+          armRegionName: "eastus",
+          armSkuName: "Standard_D2s_v5",
+          serviceName: "Virtual Machines",
+          productName: "Virtual Machines Dsv5 Series",
+          meterName: "D2s v5",
+          unitOfMeasure: "1 Hour",
+          type: "Reservation",
+          reservationTerm: "1 Year",
+          isPrimaryMeterRegion: true
+        },
+        {
+          currencyCode: "USD",
+          retailPrice: 0.188,
+          armRegionName: "eastus",
+          armSkuName: "Standard_D2s_v5",
+          serviceName: "Virtual Machines",
+          productName: "Virtual Machines Dsv5 Series Windows",
+          unitOfMeasure: "1 Hour",
+          type: "Consumption"
+        }
+      ]
+    });
+    expect(snapshot?.prices.map((p) => p.pricingModel)).toEqual([
+      "on-demand",
+      "reserved-1yr"
+    ]);
+    expect(snapshot?.prices[1].price).toBeCloseTo(0.06, 6);
+    expect(snapshot?.prices[0].sku).toBe("standard_d2s_v5");
+  });
+
+  it("prices GCP machine types from per-vCPU and per-GiB rates", () => {
+    const snapshot = parsePriceSnapshot({
+      skus: [
+        {
+          skuId: "A",
+          description: "N2 Instance Core running in Americas",
+          category: {
+            serviceDisplayName: "Compute Engine",
+            usageType: "OnDemand"
+          },
+          serviceRegions: ["us-central1"],
+          pricingInfo: [
+            {
+              pricingExpression: {
+                usageUnit: "h",
+                tieredRates: [
+                  {
+                    unitPrice: {
+                      currencyCode: "USD",
+                      units: "0",
+                      nanos: 31611000
+                    }
+                  }
+                ]
+              }
+            }
+          ]
+        },
+        {
+          skuId: "B",
+          description: "N2 Instance Ram running in Americas",
+          category: {
+            serviceDisplayName: "Compute Engine",
+            usageType: "OnDemand"
+          },
+          serviceRegions: ["us-central1"],
+          pricingInfo: [
+            {
+              pricingExpression: {
+                usageUnit: "GiBy.h",
+                tieredRates: [
+                  {
+                    unitPrice: {
+                      currencyCode: "USD",
+                      units: "0",
+                      nanos: 4237000
+                    }
+                  }
+                ]
+              }
+            }
+          ]
+        }
+      ]
+    });
+    const rows = (snapshot?.prices ?? []).map((price) => ({
+      ...price,
+      version: "gcp-skus-2026-11-01",
+      importedAt: "2026-11-01 00:00:00"
+    }));
+
+    const price = resolvePrice(rows, {
+      provider: "gcp",
+      sku: "n2-standard-4",
+      region: "us-central1"
+    });
+    expect(price?.derived).toBe(true);
+    expect(price?.price).toBeCloseTo(4 * 0.031611 + 16 * 0.004237, 6);
+  });
+
+  it("prefers the newest snapshot and derives other regions", () => {
+    const rows = [
+      row({
+        sku: "m5.large",
+        price: 0.107,
+        region: "eu-west-1",
+        version: "aws-2026-11",
+        importedAt: "2026-11-01 00:00:00"
+      }),
+      row({ sku: "m5.large", price: 0.096 })
+    ];
+
+    expect(
+      resolvePrice(rows, {
+        provider: "aws",
+        sku: "m5.large",
+        region: "eu-west-1"
+      })
+    ).toMatchObject({ price: 0.107, version: "aws-2026-11", derived: false });
+
+    // The newest snapshot only has eu-west-1, so it is the one scaled
+    const derived = resolvePrice(rows, {
+      provider: "aws",
+      sku: "M5.LARGE",
+      region: "eu-central-1"
+    });
+    expect(derived?.version).toBe("aws-2026-11");
+    expect(derived?.price).toBeCloseTo((0.107 / 1.11) * 1.2, 6);
+    expect(derived?.derived).toBe(true);
+
+    expect(
+      resolvePrice(rows, {
+        provider: "aws",
+        sku: "m5.large",
+        pricingModel: "reserved-1yr"
+      })
+    ).toBeNull();
+  });
+
+  it("bundles Cloudflare prices and finds SKUs mentioned in analysis input", () => {
+    expect(
+      bundledCatalogPrices().find(
+        (p) => p.provider === "cloudflare" && p.sku === "standard-storage"
+      )
+    ).toMatchObject({ service: "r2", unit: "GB-month", price: 0.015 });
+
+    expect(
+      extractSkus(
+        "3x m5.large in us-east-1, db.r5.large, n2-standard-4, Standard_D4s_v5 on Standard_LRS"
+      )
+    ).toEqual([
+      { provider: "aws", sku: "m5.large" },
+      { provider: "aws", sku: "db.r5.large" },
+      { provider: "gcp", sku: "n2-standard-4" },
+      { provider: "azure", sku: "standard_d4s_v5" }
+    ]);
+  });
+});
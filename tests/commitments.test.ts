@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import type { FocusRecord } from "../src/server/billing/focus";
+import {
+  analyzeCommitments,
+  formatCommitments
+} from "../src/server/commitments/engine";
+import { createCommitmentUsageCollector } from "../src/server/commitments/usage";
+import { BUNDLED_CATALOG_VERSION } from "../src/server/pricing/catalog";
+import { BUNDLED_ROWS, focusRecord } from "./fixtures";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2026, 8, 1);
+
+function usage(
+  hour: number,
+  instanceType: string,
+  cost: number,
+  overrides: Partial<FocusRecord> = {}
+): FocusRecord {
+  return focusRecord({
+    ServiceName: "Amazon Elastic Compute Cloud",
+    RegionId: "us-east-1",
+    ChargePeriodStart: new Date(START + hour * HOUR_MS).toISOString(),
+    ChargePeriodEnd: new Date(START + (hour + 1) * HOUR_MS).toISOString(),
+    EffectiveCost: cost,
+    BilledCost: cost,
+    ListCost: cost,
+    ConsumedQuantity: cost / 0.1,
+    ConsumedUnit: "Hrs",
+    x_InstanceType: instanceType,
+    ...overrides
+  });
+}
+
+// Ten m5.large around the clock plus ten more during business hours
+function fleet(hours = 30 * 24): FocusRecord[] {
+  const records: FocusRecord[] = [];
+  for (let hour = 0; hour < hours; hour++) {
+    records.push(usage(hour, "m5.large", 1));
+    if (hour % 24 >= 9 && hour % 24 < 17) {
+      records.push(usage(hour, "m5.large", 1));
+    }
+  }
+  return records;
+}
+
+function collect(records: FocusRecord[]) {
+  const collector = createCommitmentUsageCollector();
+  for (const record of records) collector.add(record);
+  const result = collector.usage();
+  if (!result) throw new Error("no usage");
+  return result;
+}
+
+describe("Commitment analysis", () => {
+  it("commits to the always-on baseline at the target utilization", () => {
+    const report = analyzeCommitments(collect(fleet()), 0.9);
+    expect(report).toMatchObject({
+      provider: "aws",
+      granularity: "hourly",
+      hours: 720,
+      coverage: 0,
+      utilization: null
+    });
+    expect(report.onDemandMonthly).toBeCloseTo(((720 + 240) / 720) * 730, 1);
+
+    const plan = report.savingsPlan;
+    expect(plan?.options.map((o) => `${o.term} ${o.payment}`)).toEqual([
+      "1yr no-upfront",
+      "1yr partial-upfront",
+      "1yr all-upfront",
+      "3yr no-upfront",
+      "3yr partial-upfront",
+      "3yr all-upfront"
+    ]);
+    // Business-hour peaks sit idle two thirds of the day, so only the
+    // baseline is committed to
+    const oneYear = plan?.options[0];
+    expect(oneYear).toMatchObject({
+      coveredHourly: 1,
+      hourlyCommitment: 0.73,
+      utilization: 1,
+      upfront: 0,
+      monthlyRecurring: 532.9,
+      monthlySavings: 197.1
+    });
+    expect(plan?.best).toMatchObject({
+      term: "3yr",
+      payment: "all-upfront",
+      upfront: 12614.4,
+      monthlyRecurring: 0,
+      monthlySavings: 379.6
+    });
+
+    const [reservation] = report.reservations;
+    expect(reservation.scope).toBe("m5.large in us-east-1");
+    expect(reservation.best).toMatchObject({ instances: 10, utilization: 1 });
+  });
+
+  it("reports coverage and utilization of existing commitments", () => {
+    const records = fleet(24).map((record, i) =>
+      i % 2 === 0
+        ? {
+            ...record,
+            PricingCategory: "Committed" as const,
+            CommitmentDiscountId: "arn:aws:savingsplans::1:savingsplan/sp-1",
+            EffectiveCost: 0.7
+          }
+        : record
+    );
+    records.push(
+      focusRecord({
+        ChargeCategory: "Purchase",
+        CommitmentDiscountId: "arn:aws:savingsplans::1:savingsplan/sp-1",
+        EffectiveCost: 2.8
+      })
+    );
+    const report = analyzeCommitments(collect(records));
+    // 16 of 32 instance-hours were covered and 11.2 of 14 committed dollars used
+    expect(report.coverage).toBe(0.5);
+    expect(report.utilization).toBe(0.8);
+  });
+
+  it("spreads daily line items over the day and formats the options", () => {
+    const daily = Array.from({ length: 30 }, (_, day) =>
+      usage(day * 24, "m5.large", 24, {
+        ChargePeriodEnd: new Date(
+          START + (day + 1) * 24 * HOUR_MS
+        ).toISOString()
+      })
+    );
+    const report = analyzeCommitments(collect(daily));
+    expect(report.granularity).toBe("daily");
+    expect(report.savingsPlan?.best?.coveredHourly).toBe(1);
+
+    const text = formatCommitments(report);
+    expect(text).toContain(
+      "Current coverage: 0%; current utilization: no commitments"
+    );
+    expect(text).toContain(
+      "Usage was spread evenly over the hours of each day"
+    );
+    expect(text).toContain(
+      "| 3yr all-upfront | 52% | $0.48/hour commitment | $1.00/hour | 100% |"
+    );
+  });
+
+  it("takes discounts from the catalog's commitment rates", () => {
+    const rows = [
+      ...BUNDLED_ROWS,
+      {
+        provider: "aws" as const,
+        service: "ec2",
+        sku: "m5.large",
+        region: "us-east-1",
+        pricingModel: "reserved-1yr" as const,
+        unit: "hour" as const,
+        price: 0.0576,
+        currency: "USD",
+        version: "aws-2026-10",
+        importedAt: "2026-10-01 00:00:00"
+      }
+    ];
+    const report = analyzeCommitments(collect(fleet()), 0.9, rows);
+    expect(report.catalogVersion).toBe(
+      `aws-2026-10, ${BUNDLED_CATALOG_VERSION}`
+    );
+
+    // 40% off the $0.096 list price with the table's margins for the other
+    // payment options; 3-year terms keep the typical discounts
+    const [reservation] = report.reservations;
+    expect(
+      reservation.options.map((o) => [o.term, o.payment, o.discount])
+    ).toEqual([
+      ["1yr", "no-upfront", 0.4],
+      ["1yr", "partial-upfront", 0.43],
+      ["1yr", "all-upfront", 0.45],
+      ["3yr", "no-upfront", 0.56],
+      ["3yr", "partial-upfront", 0.6],
+      ["3yr", "all-upfront", 0.62]
+    ]);
+    expect(report.savingsPlan?.options[0].discount).toBe(0.27);
+    expect(formatCommitments(report)).toContain(
+      `Commitment rates from price catalog aws-2026-10, ${BUNDLED_CATALOG_VERSION}; typical published discounts where it has none.`
+    );
+
+    const typical = analyzeCommitments(collect(fleet()), 0.9, BUNDLED_ROWS);
+    expect(typical.catalogVersion).toBeNull();
+    expect(typical.reservations[0].options[0].discount).toBe(0.36);
+  });
+
+  it("keeps each provider and billing currency apart", () => {
+    const collector = createCommitmentUsageCollector();
+    for (const record of fleet(48)) collector.add(record);
+    for (let hour = 0; hour < 48; hour++) {
+      collector.add(
+        usage(hour, "Standard_D2s_v3", 0.5, {
+          ProviderName: "Microsoft",
+          BillingCurrency: "EUR",
+          RegionId: "westeurope"
+        })
+      );
+    }
+
+    const usages = collector.usages();
+    expect(usages.map((u) => `${u.provider} ${u.currency}`)).toEqual([
+      "aws USD",
+      "microsoft EUR"
+    ]);
+    // 48 hours of one m5.large plus 16 business hours of a second one
+    const aws = [...usages[0].hourly.values()];
+    expect(aws.reduce((sum, h) => sum + h.onDemand, 0)).toBeCloseTo(64, 6);
+    expect(usages[1].instances).toHaveLength(1);
+    expect(collector.usage()?.provider).toBe("aws");
+  });
+});
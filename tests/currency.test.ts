@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  type CostAggregates,
+  createAggregates
+} from "../src/server/billing/aggregate";
+import {
+  convertCostDatasets,
+  type FxRate,
+  needsConversion,
+  parseFxRateTable,
+  resolveFxQuote
+} from "../src/server/currency/fx";
+
+const RATES: FxRate[] = [
+  { currency: "EUR", rateDate: "2026-01-01", perUsd: 0.86, source: "bundled" },
+  { currency: "EUR", rateDate: "2026-09-01", perUsd: 0.8, source: "ecb" },
+  { currency: "JPY", rateDate: "2026-01-01", perUsd: 150, source: "bundled" }
+];
+
+function aggregates(
+  currency: string,
+  effectiveCost: number,
+  periodEnd: string,
+  byCurrency: CostAggregates["byCurrency"] = {
+    [currency]: { billedCost: effectiveCost, effectiveCost }
+  }
+): CostAggregates {
+  return {
+    ...createAggregates("focus"),
+    currency,
+    billedCost: effectiveCost,
+    effectiveCost,
+    periodEnd,
+    byCurrency
+  };
+}
+
+describe("Currency conversion", () => {
+  it("uses the latest rate on or before the billing period end", () => {
+    expect(resolveFxQuote(RATES, "EUR", "USD", "2026-08-31")).toMatchObject({
+      rateDate: "2026-01-01",
+      source: "bundled"
+    });
+    const quote = resolveFxQuote(RATES, "EUR", "USD", "2026-09-30");
+    expect(quote?.rate).toBeCloseTo(1.25, 6);
+    expect(quote?.rateDate).toBe("2026-09-01");
+
+    // Older than the table: the earliest rate is used
+    expect(resolveFxQuote(RATES, "JPY", "USD", "2025-06-30")?.rateDate).toBe(
+      "2026-01-01"
+    );
+    expect(resolveFxQuote(RATES, "CHF", "USD", "2026-09-30")).toBeNull();
+  });
+
+  it("crosses two non-USD currencies through USD at the older leg's date", () => {
+    const quote = resolveFxQuote(RATES, "JPY", "EUR", "2026-09-30");
+    expect(quote?.rate).toBeCloseTo(0.8 / 150, 9);
+    expect(quote).toMatchObject({
+      rateDate: "2026-01-01",
+      source: "bundled+ecb"
+    });
+  });
+
+  it("rebases rate tables quoted against another currency", () => {
+    const rates = parseFxRateTable({
+      date: "2026-10-01",
+      base: "eur",
+      rates: { USD: 1.25, JPY: 187.5 }
+    });
+    expect(rates).toEqual([
+      { currency: "JPY", rateDate: "2026-10-01", perUsd: 150, source: "api" },
+      { currency: "EUR", rateDate: "2026-10-01", perUsd: 0.8, source: "api" }
+    ]);
+
+    expect(
+      parseFxRateTable({ date: "2026-10-01", base: "EUR", rates: { JPY: 1 } })
+    ).toBe("rates quoted in EUR must include USD");
+    expect(parseFxRateTable({ date: "01/10/2026", rates: {} })).toBe(
+      "date must be YYYY-MM-DD"
+    );
+  });
+
+  it("shows original and converted amounts with a combined total", () => {
+    const datasets = [
+      {
+        fileName: "eu.csv",
+        aggregates: aggregates("EUR", 1000, "2026-09-30")
+      },
+      {
+        fileName: "apac.csv",
+        aggregates: aggregates("JPY", 300000, "2026-09-30")
+      },
+      {
+        fileName: "us.csv",
+        aggregates: aggregates("USD", 500, "2026-09-30")
+      }
+    ];
+    expect(needsConversion(datasets, "USD")).toBe(true);
+
+    const conversion = convertCostDatasets(datasets, RATES, "USD");
+    expect(conversion.rates.map((quote) => quote.from)).toEqual(["EUR", "JPY"]);
+    expect(conversion.text).toContain(
+      "EffectiveCost 1,000.00 EUR ≈ 1,250.00 USD (1 EUR = 1.25 USD, rate of 2026-09-01, ecb)"
+    );
+    expect(conversion.text).toContain("300,000.00 JPY ≈ 2,000.00 USD");
+    expect(conversion.text).toContain(
+      "- Combined: BilledCost 3,750.00 USD, EffectiveCost 3,750.00 USD"
+    );
+  });
+
+  it("converts each currency of a mixed export and flags missing rates", () => {
+    const mixed = aggregates("USD", 1100, "2026-09-30", {
+      EUR: { billedCost: 800, effectiveCost: 800 },
+      CHF: { billedCost: 300, effectiveCost: 300 }
+    });
+    const conversion = convertCostDatasets(
+      [{ fileName: "mixed.csv", aggregates: mixed }],
+      RATES,
+      "USD"
+    );
+    expect(conversion.text).toContain(
+      "300.00 CHF (not converted: no CHF rate)"
+    );
+    expect(conversion.text).toContain(
+      "- Combined: BilledCost 1,000.00 USD, EffectiveCost 1,000.00 USD (excluding CHF)"
+    );
+    expect(
+      needsConversion(
+        [{ aggregates: aggregates("EUR", 1, "2026-09-30") }],
+        "EUR"
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import {
+  emptyFocusRecord,
+  type FocusRecord
+} from "../src/server/billing/focus";
+import type { CatalogPriceRow } from "../src/server/db/catalog";
+import {
+  BUNDLED_CATALOG_VERSION,
+  bundledCatalogPrices
+} from "../src/server/pricing/catalog";
+
+// September 2026 as billed by the day, and as the 730 hours list prices
+// bill a month
+export const SEPTEMBER = {
+  ChargePeriodStart: "2026-09-01T00:00:00Z",
+  ChargePeriodEnd: "2026-10-01T00:00:00Z"
+};
+export const LIST_MONTH = {
+  ChargePeriodStart: "2026-09-01T00:00:00Z",
+  ChargePeriodEnd: "2026-10-01T10:00:00Z"
+};
+
+// An AWS usage line item billed in USD; tests override what they exercise
+export function focusRecord(overrides: Partial<FocusRecord> = {}): FocusRecord {
+  return {
+    ...emptyFocusRecord(),
+    ProviderName: "AWS",
+    BillingCurrency: "USD",
+    ...overrides
+  };
+}
+
+// The bundled catalog as the D1 price query returns it
+export const BUNDLED_ROWS: CatalogPriceRow[] = bundledCatalogPrices().map(
+  (price) => ({
+    ...price,
+    version: BUNDLED_CATALOG_VERSION,
+    importedAt: "1970-01-01 00:00:00"
+  })
+);
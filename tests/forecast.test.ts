@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { FocusRecord } from "../src/server/billing/focus";
+import { forecastSpend, formatForecast } from "../src/server/forecast/engine";
+import { createDailyCostCollector } from "../src/server/forecast/series";
+import { focusRecord } from "./fixtures";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 6, 1);
+
+function charge(
+  day: number,
+  serviceName: string,
+  cost: number,
+  days = 1
+): FocusRecord {
+  return focusRecord({
+    ServiceName: serviceName,
+    ChargePeriodStart: new Date(START + day * DAY_MS).toISOString(),
+    ChargePeriodEnd: new Date(START + (day + days) * DAY_MS).toISOString(),
+    EffectiveCost: cost,
+    BilledCost: cost
+  });
+}
+
+function collect(records: FocusRecord[]) {
+  const collector = createDailyCostCollector();
+  for (const record of records) collector.add(record);
+  const series = collector.series();
+  if (!series) throw new Error("no series");
+  return series;
+}
+
+describe("spend forecast", () => {
+  it("extends a linear trend to month-end, quarter-end and 12 months", () => {
+    // 45 days from July 1st, spend rising by one dollar a day
+    const records = Array.from({ length: 45 }, (_, day) =>
+      charge(day, "Amazon Elastic Compute Cloud", 100 + day)
+    );
+    const forecast = forecastSpend(collect(records));
+
+    expect(forecast?.historyEnd).toBe("2026-08-14");
+    expect(forecast?.dailyTrend).toBe(1);
+    expect(forecast?.monthEnd).toMatchObject({
+      label: "August 2026",
+      start: "2026-08-01",
+      end: "2026-08-31",
+      forecast: 4526,
+      lower: 4526,
+      upper: 4526
+    });
+    expect(forecast?.quarterEnd.label).toBe("Q3 2026");
+    expect(forecast?.quarterEnd.forecast).toBe(13386);
+    expect(forecast?.nextTwelveMonths.end).toBe("2027-07-31");
+    expect(forecast?.months).toHaveLength(12);
+    expect(forecast?.months[0]).toEqual({ month: "2026-08", forecast: 4526 });
+  });
+
+  it("breaks the forecast down by service with widening intervals", () => {
+    const records: FocusRecord[] = [];
+    for (let day = 0; day < 60; day++) {
+      const weekend = new Date(START + day * DAY_MS).getUTCDay() % 6 === 0;
+      records.push(
+        charge(
+          day,
+          "Amazon Elastic Compute Cloud",
+          (weekend ? 60 : 100) + 0.5 * day
+        ),
+        charge(day, "Amazon Simple Storage Service", 20 + (day % 3))
+      );
+    }
+    const forecast = forecastSpend(collect(records));
+    if (!forecast) throw new Error("no forecast");
+
+    const { monthEnd, nextTwelveMonths, services } = forecast;
+    expect(monthEnd.lower).toBeLessThan(monthEnd.forecast);
+    expect(monthEnd.upper).toBeGreaterThan(monthEnd.forecast);
+    expect(nextTwelveMonths.upper - nextTwelveMonths.lower).toBeGreaterThan(
+      monthEnd.upper - monthEnd.lower
+    );
+    expect(services.map((s) => s.serviceName)).toEqual([
+      "Amazon Elastic Compute Cloud",
+      "Amazon Simple Storage Service"
+    ]);
+    const byService = services.reduce((sum, s) => sum + s.monthEnd.forecast, 0);
+    expect(byService).toBeCloseTo(monthEnd.forecast, 1);
+    expect(formatForecast(forecast)).toContain("- Month-end, August 2026: $");
+  });
+
+  it("spreads monthly line items over their days and needs a week of data", () => {
+    const monthly = collect([
+      charge(0, "Amazon Elastic Compute Cloud", 3100, 31)
+    ]);
+    expect(monthly.observed.size).toBe(31);
+    expect(forecastSpend(monthly)?.monthEnd.actualToDate).toBe(0);
+
+    const short = collect([charge(0, "Amazon Elastic Compute Cloud", 10)]);
+    expect(forecastSpend(short)).toBeNull();
+  });
+});
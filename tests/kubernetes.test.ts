@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import {
+  allocateClusterCost,
+  type ClusterSnapshot,
+  formatClusterAllocation
+} from "../src/server/k8s/allocation";
+import { parseKubectlTop, parseNodeList } from "../src/server/k8s/kubectl";
+import { parseManifests } from "../src/server/k8s/manifests";
+import { parseCpu, parseMemory } from "../src/server/k8s/quantities";
+import { instanceShapeFor } from "../src/server/pricing/shapes";
+import { BUNDLED_ROWS as ROWS } from "./fixtures";
+
+const MANIFESTS = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  replicas: 3
+  template:
+    spec:
+      containers:
+        - name: app
+          resources:
+            requests: { cpu: 500m, memory: 1Gi }
+            limits: { cpu: "1", memory: 1Gi }
+---
+apiVersion: apps/v1
+kind: StatefulSet
+metadata:
+  name: api
+  namespace: payments
+spec:
+  replicas: 2
+  template:
+    spec:
+      containers:
+        - name: api
+          resources:
+            requests: { cpu: "1", memory: 2Gi }
+---
+apiVersion: apps/v1
+kind: DaemonSet
+metadata:
+  name: node-exporter
+  namespace: monitoring
+spec:
+  template:
+    spec:
+      containers:
+        - name: exporter
+          resources:
+            requests: { cpu: 100m, memory: 128Mi }
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: web
+`;
+
+const NODES = `NAME                          STATUS   ROLES    AGE   VERSION               INSTANCE-TYPE
+ip-10-0-1-12.ec2.internal     Ready    <none>   12d   v1.29.3-eks-ae9a62a   m5.xlarge
+ip-10-0-2-34.ec2.internal     Ready    <none>   12d   v1.29.3-eks-ae9a62a   m5.xlarge
+`;
+
+const TOP = `NAMESPACE    NAME                         CPU(cores)   MEMORY(bytes)
+default      web-5d8f7c9b6d-abcde         100m         200Mi
+default      web-5d8f7c9b6d-fghij         100m         200Mi
+default      web-5d8f7c9b6d-klmno         100m         200Mi
+payments     api-0                        900m         1800Mi
+payments     api-1                        900m         1800Mi
+monitoring   node-exporter-k2j4h          20m          30Mi
+kube-system  coredns-legacy               5m           20Mi
+`;
+
+function snapshot(): ClusterSnapshot {
+  const { workloads, nodes } = parseManifests(MANIFESTS);
+  const { pods, nodes: nodeUsage } = parseKubectlTop(TOP);
+  return {
+    sources: ["app.yaml", "nodes.txt", "top.txt"],
+    workloads,
+    nodes: [...nodes, ...parseNodeList(NODES)],
+    pods,
+    nodeUsage
+  };
+}
+
+describe("Kubernetes cost allocation", () => {
+  it("parses quantities and instance shapes", () => {
+    expect(parseCpu("250m")).toBe(0.25);
+    expect(parseCpu("2")).toBe(2);
+    expect(parseMemory("512Mi")).toBe(512 * 1024 ** 2);
+    expect(parseMemory("1G")).toBe(1e9);
+    expect(instanceShapeFor("m5.xlarge")).toEqual({
+      provider: "aws",
+      vcpus: 4,
+      memoryGib: 16
+    });
+    expect(instanceShapeFor("n2-standard-8")?.memoryGib).toBe(32);
+    expect(instanceShapeFor("Standard_D4s_v5")?.vcpus).toBe(4);
+  });
+
+  it("reads workloads from manifests and kubectl output", () => {
+    const { workloads } = parseManifests(MANIFESTS);
+    expect(workloads.map((w) => `${w.namespace}/${w.name}`)).toEqual([
+      "default/web",
+      "payments/api",
+      "monitoring/node-exporter"
+    ]);
+    expect(workloads[0].containers[0].requests).toEqual({
+      cpu: 0.5,
+      memory: 1024 ** 3
+    });
+
+    const nodes = parseNodeList(NODES);
+    expect(nodes[0]).toMatchObject({
+      name: "ip-10-0-1-12.ec2.internal",
+      instanceType: "m5.xlarge"
+    });
+
+    const { pods } = parseKubectlTop(TOP);
+    expect(pods[3]).toMatchObject({
+      namespace: "payments",
+      pod: "api-0",
+      cpu: 0.9
+    });
+  });
+
+  it("splits node cost by requests and by usage", () => {
+    const allocation = allocateClusterCost(snapshot(), ROWS);
+
+    // Two m5.xlarge nodes at 0.192/h in us-east-1
+    expect(allocation.clusterMonthly).toBe(280.32);
+    const web = allocation.workloads.find((w) => w.name === "web");
+    // 1.5 of 8 cores and 3 of 32 GiB, each half of the bill
+    expect(web?.requestCost).toBe(39.42);
+    const exporter = allocation.workloads.find(
+      (w) => w.name === "node-exporter"
+    );
+    expect(exporter?.replicas).toBe(2);
+
+    // Usage-based allocation distributes the whole bill
+    const usageTotal = allocation.namespaces.reduce(
+      (sum, row) => sum + (row.usageCost ?? 0),
+      0
+    );
+    expect(usageTotal).toBeCloseTo(280.32, 1);
+    expect(
+      allocation.workloads.find((w) => w.name === "coredns-legacy")
+    ).toMatchObject({ kind: "Pod", namespace: "kube-system", cpuRequest: 0 });
+  });
+
+  it("flags over-requested containers with a suggested request", () => {
+    const allocation = allocateClusterCost(snapshot(), ROWS);
+    const web = allocation.overRequested.filter((o) => o.workload === "web");
+
+    expect(web).toContainEqual(
+      expect.objectContaining({
+        container: "app",
+        resource: "cpu",
+        requested: 0.5,
+        suggested: 0.12,
+        monthlySavings: 19.97
+      })
+    );
+    expect(web.find((o) => o.resource === "memory")?.suggested).toBe(
+      240 * 1024 ** 2
+    );
+    expect(allocation.overRequested.some((o) => o.workload === "api")).toBe(
+      false
+    );
+
+    const report = formatClusterAllocation(allocation);
+    expect(report).toContain("2 priced nodes cost $280.32/month");
+    expect(report).toContain(
+      "| default/web | app | cpu | 500m | 100m | 120m | $19.97 |"
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import { parseCsvText } from "../src/server/billing/csv";
+import { parseCloudWatch } from "../src/server/metrics/cloudwatch";
+import { parseMetricsCsv } from "../src/server/metrics/csv";
+import { parseDatadogJson } from "../src/server/metrics/datadog";
+import {
+  isPrometheusDocument,
+  isPrometheusExposition,
+  parsePrometheusJson,
+  parsePrometheusText
+} from "../src/server/metrics/prometheus";
+import { createMetricsCollector } from "../src/server/metrics/series";
+
+async function* iterate<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+describe("Utilization summaries", () => {
+  it("computes nearest-rank percentiles per resource and metric", () => {
+    const collector = createMetricsCollector();
+    for (let i = 1; i <= 100; i++) {
+      collector.add("web-1", "CPUUtilization", i, null);
+    }
+    collector.add("web-1", "DiskReadBytes", 10, null);
+
+    const [summary] = collector.summarize();
+    expect(collector.skipped).toBe(1);
+    expect(summary).toMatchObject({
+      resourceId: "web-1",
+      kind: "cpu",
+      unit: "Percent",
+      sampleCount: 100,
+      p50: 50,
+      p95: 95,
+      max: 100,
+      avg: 50.5
+    });
+  });
+
+  it("keeps bucket object counts apart from request rates", () => {
+    const collector = createMetricsCollector();
+    collector.add("reports", "NumberOfObjects", 5000, null);
+    collector.add("reports", "GetRequests", 120, null);
+
+    expect(collector.summarize().map((s) => [s.metric, s.kind])).toEqual([
+      ["GetRequests", "iops"],
+      ["NumberOfObjects", "objects"]
+    ]);
+  });
+});
+
+describe("CloudWatch metrics", () => {
+  it("splits resource and metric out of GetMetricData labels", () => {
+    const collector = createMetricsCollector();
+    parseCloudWatch(
+      {
+        MetricDataResults: [
+          {
+            Id: "m1",
+            Label: "i-0abc12345678 CPUUtilization",
+            Timestamps: ["2026-09-02T00:00:00Z", "2026-09-01T00:00:00Z"],
+            Values: [40, 20]
+          },
+          {
+            Id: "m2",
+            Label: "NetworkIn",
+            Timestamps: ["2026-09-01T00:00:00Z"],
+            Values: [1024]
+          }
+        ]
+      },
+      collector,
+      "fleet"
+    );
+
+    const summaries = collector.summarize();
+    expect(summaries.map((s) => [s.resourceId, s.metric, s.kind])).toEqual([
+      ["fleet", "NetworkIn", "network"],
+      ["i-0abc12345678", "CPUUtilization", "cpu"]
+    ]);
+    expect(summaries[1].periodStart).toBe("2026-09-01T00:00:00.000Z");
+    expect(summaries[1].max).toBe(40);
+  });
+});
+
+describe("Prometheus metrics", () => {
+  it("reads range query matrices keyed by pod", () => {
+    const collector = createMetricsCollector();
+    parsePrometheusJson(
+      {
+        status: "success",
+        data: {
+          resultType: "matrix",
+          result: [
+            {
+              metric: { namespace: "shop", pod: "api-7d9", instance: "n1" },
+              values: [
+                [1767225600, "0.25"],
+                [1767225660, "0.75"]
+              ]
+            }
+          ]
+        }
+      },
+      collector,
+      "cpu-usage",
+      "container_cpu_usage"
+    );
+
+    const [summary] = collector.summarize();
+    expect(summary.resourceId).toBe("shop/api-7d9");
+    expect(summary.metric).toBe("container_cpu_usage");
+    expect(summary.max).toBe(0.75);
+    expect(summary.periodStart).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("rejects JSON documents whose data is not an object", () => {
+    expect(isPrometheusDocument({ status: "success", data: "matrix" })).toBe(
+      false
+    );
+    expect(isPrometheusDocument({ data: 42 })).toBe(false);
+    expect(isPrometheusDocument({ data: { resultType: "vector" } })).toBe(true);
+  });
+
+  it("skips counters in the text exposition format", async () => {
+    const text = [
+      "# TYPE node_memory_MemAvailable_bytes gauge",
+      'node_memory_MemAvailable_bytes{instance="n1:9100"} 2048',
+      "# TYPE node_cpu_seconds_total counter",
+      'node_cpu_seconds_total{cpu="0",instance="n1:9100"} 1234.5'
+    ];
+    expect(isPrometheusExposition(text.join("\n"))).toBe(true);
+
+    const collector = createMetricsCollector();
+    await parsePrometheusText(iterate(text), collector, "scrape");
+
+    const summaries = collector.summarize();
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0]).toMatchObject({
+      resourceId: "n1:9100",
+      kind: "memory",
+      unit: "Bytes"
+    });
+    expect(collector.skipped).toBe(1);
+  });
+});
+
+describe("Datadog metrics", () => {
+  it("reads wide CSV exports named by query", async () => {
+    const rows = parseCsvText(
+      [
+        "timestamp,avg:system.cpu.user{host:web-1},avg:system.mem.used{host:web-1}",
+        "1767225600000,10,512",
+        "1767225660000,30,768"
+      ].join("\n")
+    );
+    const collector = createMetricsCollector();
+    const format = await parseMetricsCsv(iterate(rows), collector, "export");
+
+    expect(format).toBe("datadog");
+    expect(
+      collector.summarize().map((s) => [s.resourceId, s.kind, s.max])
+    ).toEqual([
+      ["web-1", "cpu", 30],
+      ["web-1", "memory", 768]
+    ]);
+  });
+
+  it("reads long CSVs with a resource column", async () => {
+    const rows = parseCsvText(
+      [
+        "Timestamp,InstanceId,Metric,Value",
+        "2026-09-01T00:00:00Z,i-1,CPUUtilization,12",
+        "2026-09-01T01:00:00Z,i-1,CPUUtilization,18"
+      ].join("\n")
+    );
+    const collector = createMetricsCollector();
+    const format = await parseMetricsCsv(iterate(rows), collector, "export");
+
+    expect(format).toBe("time-series");
+    expect(collector.summarize()[0]).toMatchObject({
+      resourceId: "i-1",
+      sampleCount: 2,
+      p50: 12,
+      max: 18
+    });
+  });
+
+  it("reads query API series with scope tags", () => {
+    const collector = createMetricsCollector();
+    parseDatadogJson(
+      {
+        series: [
+          {
+            metric: "system.net.bytes_rcvd",
+            scope: "host:db-1",
+            pointlist: [
+              [1767225600000, 100],
+              [1767225660000, null]
+            ]
+          }
+        ]
+      },
+      collector,
+      "export"
+    );
+
+    const [summary] = collector.summarize();
+    expect(summary).toMatchObject({
+      resourceId: "db-1",
+      kind: "network",
+      sampleCount: 1
+    });
+  });
+});
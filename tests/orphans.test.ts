@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import { mergeRecommendations } from "../src/server/ai/recommendations";
+import type { FocusRecord } from "../src/server/billing/focus";
+import { sniffContent } from "../src/server/ingest/sniff";
+import {
+  detectOrphans,
+  formatOrphans,
+  orphanRecommendations
+} from "../src/server/orphans/detect";
+import {
+  createAwsInventory,
+  parseAwsInventory
+} from "../src/server/orphans/inventory";
+import { bundledFxRates } from "../src/server/currency/fx";
+import { createResourceUsageCollector } from "../src/server/orphans/usage";
+import { BUNDLED_CATALOG_VERSION } from "../src/server/pricing/catalog";
+import { BUNDLED_ROWS, focusRecord, SEPTEMBER } from "./fixtures";
+
+const AS_OF = new Date("2026-10-01T00:00:00Z");
+
+// A 30-day line item of one usage type
+function usage(
+  resourceId: string,
+  usageType: string,
+  cost: number,
+  quantity: number
+): FocusRecord {
+  return focusRecord({
+    ...SEPTEMBER,
+    ServiceName: "Amazon Elastic Compute Cloud",
+    RegionId: "us-east-1",
+    ResourceId: resourceId,
+    EffectiveCost: cost,
+    BilledCost: cost,
+    ConsumedQuantity: quantity,
+    x_UsageType: usageType
+  });
+}
+
+function billed(records: FocusRecord[]) {
+  const collector = createResourceUsageCollector();
+  for (const record of records) collector.add(record);
+  return collector.resources();
+}
+
+describe("idle and orphaned resources", () => {
+  it("reads idle addresses, empty NAT gateways and idle load balancers from billing", () => {
+    const report = detectOrphans(
+      billed([
+        usage("eipalloc-1", "USE1-ElasticIP:IdleAddress", 3.6, 720),
+        usage("nat-1", "USE1-NatGateway-Hours", 32.4, 720),
+        usage("nat-1", "USE1-NatGateway-Bytes", 0.01, 0.2),
+        usage("nat-2", "USE1-NatGateway-Hours", 32.4, 720),
+        usage("nat-2", "USE1-NatGateway-Bytes", 45, 1000),
+        usage("app/idle-alb", "USE1-LoadBalancerUsage", 16.2, 720),
+        usage("app/idle-alb", "USE1-LCUUsage", 0, 0.5),
+        usage("i-busy", "USE1-BoxUsage:m5.large", 70, 720)
+      ]),
+      createAwsInventory(),
+      { asOf: AS_OF }
+    );
+
+    expect(
+      report.findings.map((f) => [f.kind, f.resourceId, f.monthlyCost])
+    ).toEqual([
+      ["empty-nat-gateway", "nat-1", 32.86],
+      ["idle-load-balancer", "app/idle-alb", 16.42],
+      ["unassociated-ip", "eipalloc-1", 3.65]
+    ]);
+    expect(report.findings[0].evidence).toBe(
+      "720 gateway hours billed, 0.2 GB processed"
+    );
+    expect(report.totalMonthlyCost).toEqual({ USD: 52.93 });
+  });
+
+  it("finds unattached volumes, stale snapshots and stopped instances in inventory exports", () => {
+    expect(sniffContent("volumes.json", '{\n  "Volumes": [\n')).toEqual({
+      role: "iac",
+      format: "aws-inventory"
+    });
+
+    const inventory = createAwsInventory();
+    parseAwsInventory(inventory, {
+      Volumes: [
+        {
+          VolumeId: "vol-free",
+          Size: 500,
+          VolumeType: "gp3",
+          State: "available",
+          AvailabilityZone: "us-east-1a",
+          CreateTime: "2026-06-03T00:00:00Z"
+        },
+        {
+          VolumeId: "vol-root",
+          Size: 100,
+          VolumeType: "gp2",
+          State: "in-use",
+          AvailabilityZone: "us-east-1a"
+        }
+      ]
+    });
+    parseAwsInventory(inventory, {
+      Snapshots: [
+        {
+          SnapshotId: "snap-old",
+          VolumeId: "vol-deleted",
+          VolumeSize: 200,
+          StartTime: "2025-10-01T00:00:00Z"
+        },
+        {
+          SnapshotId: "snap-new",
+          VolumeId: "vol-root",
+          VolumeSize: 100,
+          StartTime: "2026-09-20T00:00:00Z"
+        }
+      ]
+    });
+    parseAwsInventory(inventory, {
+      Reservations: [
+        {
+          Instances: [
+            {
+              InstanceId: "i-stopped",
+              InstanceType: "m5.xlarge",
+              State: { Name: "stopped" },
+              StateTransitionReason: "User initiated (2026-07-03 09:12:00 GMT)",
+              Placement: { AvailabilityZone: "us-east-1a" },
+              BlockDeviceMappings: [{ Ebs: { VolumeId: "vol-root" } }]
+            }
+          ]
+        }
+      ]
+    });
+
+    const report = detectOrphans(
+      billed([
+        usage(
+          "arn:aws:ec2:us-east-1:111122223333:volume/vol-free",
+          "USE1-EBS:VolumeUsage.gp3",
+          40,
+          500
+        )
+      ]),
+      inventory,
+      { asOf: AS_OF, prices: BUNDLED_ROWS }
+    );
+
+    expect(report.catalogVersion).toBe(BUNDLED_CATALOG_VERSION);
+    expect(
+      report.findings.map((f) => [
+        f.kind,
+        f.resourceId,
+        f.monthlyCost,
+        f.estimated
+      ])
+    ).toEqual([
+      ["unattached-volume", "vol-free", 40.56, false],
+      ["stale-snapshot", "snap-old", 10, true],
+      ["stopped-instance", "i-stopped", 10, true]
+    ]);
+    expect(report.findings[1].evidence).toContain(
+      "source volume vol-deleted no longer exists"
+    );
+    expect(report.findings[2].evidence).toBe(
+      "m5.xlarge stopped 90 days ago, 1 EBS volume still billed"
+    );
+  });
+
+  it("prices unbilled resources in their region and the export's currency", () => {
+    const inventory = createAwsInventory();
+    parseAwsInventory(inventory, {
+      Volumes: [
+        {
+          VolumeId: "vol-frankfurt",
+          Size: 500,
+          VolumeType: "gp3",
+          State: "available",
+          AvailabilityZone: "eu-central-1b"
+        }
+      ],
+      Addresses: [{ PublicIp: "203.0.113.7", AllocationId: "eipalloc-9" }]
+    });
+    const billedIn = (currency: string) =>
+      billed([
+        {
+          ...usage("i-busy", "EUC1-BoxUsage:m5.large", 10000, 720),
+          BillingCurrency: currency
+        }
+      ]);
+
+    // gp3 at $0.08 with Frankfurt's 20% uplift, and $0.005 per address hour,
+    // at 150 JPY per USD
+    const report = detectOrphans(billedIn("JPY"), inventory, {
+      asOf: AS_OF,
+      prices: BUNDLED_ROWS,
+      rates: bundledFxRates()
+    });
+    expect(
+      report.findings.map((f) => [f.resourceId, f.monthlyCost, f.currency])
+    ).toEqual([
+      ["vol-frankfurt", 7200, "JPY"],
+      ["eipalloc-9", 547.5, "JPY"]
+    ]);
+    expect(formatOrphans(report)).toContain(
+      "USD list prices converted at 1 USD = 150 JPY (2026-01-01)."
+    );
+
+    // Without a rate the estimates stay in USD
+    const unconverted = detectOrphans(billedIn("XOF"), inventory, {
+      asOf: AS_OF,
+      prices: BUNDLED_ROWS,
+      rates: bundledFxRates()
+    });
+    expect(unconverted.fx).toBeNull();
+    expect(unconverted.totalMonthlyCost).toEqual({ USD: 51.65 });
+  });
+
+  it("merges the findings into the optimizer's recommendation list", () => {
+    const report = detectOrphans(
+      billed([usage("eipalloc-1", "USE1-ElasticIP:IdleAddress", 3.6, 720)]),
+      createAwsInventory(),
+      { asOf: AS_OF }
+    );
+    expect(formatOrphans(report)).toContain(
+      "- Unassociated Elastic IP eipalloc-1 (us-east-1): $3.65/month"
+    );
+
+    const analysis =
+      'Summary.\n\n```json\n[{"Area":"Compute","Resource":"i-1","Issue":"x","Optimization":"y","Cloudflare_Alternative":"N/A"}]\n```\nDone.';
+    const merged = mergeRecommendations(
+      analysis,
+      orphanRecommendations(report)
+    );
+    const list = JSON.parse(
+      merged.slice(
+        merged.indexOf("[", merged.indexOf("```json")),
+        merged.lastIndexOf("```")
+      )
+    );
+    expect(list.map((item: { Resource: string }) => item.Resource)).toEqual([
+      "i-1",
+      "eipalloc-1"
+    ]);
+    expect(list[1]).toMatchObject({
+      Monthly_Cost: 3.65,
+      Area: "Idle resources"
+    });
+    expect(merged.endsWith("Done.")).toBe(true);
+    expect(
+      mergeRecommendations("No list.", orphanRecommendations(report))
+    ).toContain('```json\n[\n  {\n    "Area": "Idle resources"');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import type { FocusRecord } from "../src/server/billing/focus";
+import {
+  createResourceInventory,
+  monthlyRunRate
+} from "../src/server/billing/inventory";
+import type { UtilizationSummary } from "../src/server/metrics/series";
+import { BUNDLED_CATALOG_VERSION } from "../src/server/pricing/catalog";
+import {
+  formatRightsizing,
+  recommendRightsizing
+} from "../src/server/rightsizing/engine";
+import { BUNDLED_ROWS as ROWS, focusRecord } from "./fixtures";
+
+// Thirty daily line items at the on-demand rate
+function dailyUsage(
+  resourceId: string,
+  instanceType: string,
+  hourlyRate: number,
+  overrides: Partial<FocusRecord> = {}
+): FocusRecord[] {
+  return Array.from({ length: 30 }, (_, day) =>
+    focusRecord({
+      ServiceName: "Amazon Elastic Compute Cloud",
+      RegionId: "us-east-1",
+      ResourceId: resourceId,
+      x_InstanceType: instanceType,
+      ChargePeriodStart: `2026-09-${String(day + 1).padStart(2, "0")}T00:00:00Z`,
+      ChargePeriodEnd: new Date(Date.UTC(2026, 8, day + 2)).toISOString(),
+      EffectiveCost: hourlyRate * 24,
+      BilledCost: hourlyRate * 24,
+      ...overrides
+    })
+  );
+}
+
+function summary(
+  resourceId: string,
+  metric: string,
+  p95: number,
+  unit: string | null = "Percent"
+): UtilizationSummary {
+  return {
+    resourceId,
+    metric,
+    kind: /cpu/i.test(metric) ? "cpu" : "memory",
+    unit,
+    sampleCount: 720,
+    avg: p95 / 2,
+    p50: p95 / 2,
+    p95,
+    max: p95,
+    periodStart: "2026-09-01T00:00:00Z",
+    periodEnd: "2026-10-01T00:00:00Z"
+  };
+}
+
+function inventoryOf(...records: FocusRecord[][]) {
+  const inventory = createResourceInventory();
+  for (const record of records.flat()) inventory.add(record);
+  return inventory.resources();
+}
+
+describe("Rightsizing", () => {
+  it("joins billed instances across line items and scales them to a month", () => {
+    const [resource] = inventoryOf(
+      dailyUsage("i-0web", "m5.2xlarge", 0.384),
+      // Attached volume line items carry no instance type
+      dailyUsage("i-0web", "", 0.01, { RegionId: "" }),
+      dailyUsage("i-0web", "m5.2xlarge", 0.384, {
+        ChargeCategory: "Tax",
+        EffectiveCost: 100
+      })
+    );
+    expect(resource).toMatchObject({
+      instanceType: "m5.2xlarge",
+      region: "us-east-1",
+      periodStart: "2026-09-01T00:00:00Z",
+      periodEnd: "2026-10-01T00:00:00.000Z"
+    });
+    expect(resource.effectiveCost).toBeCloseTo(30 * 24 * 0.394, 6);
+    expect(monthlyRunRate(resource, 30)).toBeCloseTo(30.42, 2);
+  });
+
+  it("picks the cheapest type that fits p95 plus the safety margin", () => {
+    const resources = inventoryOf(
+      dailyUsage("i-0web", "m5.2xlarge", 0.384),
+      dailyUsage("i-0arm", "m6g.xlarge", 0.154)
+    );
+    const report = recommendRightsizing(
+      resources,
+      [
+        // Metric exports name instances by ARN
+        summary(
+          "arn:aws:ec2:us-east-1:123:instance/i-0web",
+          "CPUUtilization",
+          20
+        ),
+        summary("i-0web", "mem_used_percent", 30),
+        summary("i-0web", "mem_available_percent", 5),
+        summary("i-0arm", "CPUUtilization", 0.3, null)
+      ],
+      ROWS,
+      { safetyMargin: 0.2 }
+    );
+
+    expect(report.evaluated).toBe(2);
+    expect(report.candidates.map((c) => c.recommendedType)).toEqual([
+      "r5.large",
+      "r6g.large"
+    ]);
+    // Unknown memory keeps the current 16 GiB, so only Graviton types with
+    // as much memory qualify
+    expect(report.candidates[1]).toMatchObject({
+      cpuP95: 30,
+      memoryP95: null,
+      requiredVcpus: 1.44,
+      requiredMemoryGib: 16
+    });
+
+    const [web] = report.candidates;
+    expect(web).toMatchObject({
+      currentType: "m5.2xlarge",
+      cpuP95: 20,
+      memoryP95: 30,
+      requiredVcpus: 1.92,
+      requiredMemoryGib: 11.52,
+      currentMonthly: 280.32,
+      recommendedMonthly: 91.98,
+      monthlySavings: 188.34,
+      currency: "USD",
+      catalogVersion: BUNDLED_CATALOG_VERSION
+    });
+    expect(report.totalMonthlySavings.USD).toBeCloseTo(
+      web.monthlySavings + report.candidates[1].monthlySavings,
+      2
+    );
+    expect(formatRightsizing(report)).toContain(
+      "| i-0web | us-east-1 | m5.2xlarge (8 vCPU, 32 GiB) | 20% | 30% | r5.large (2 vCPU, 16 GiB) | $280.32 | $91.98 | $188.34 |"
+    );
+  });
+
+  it("keeps busy and unmeasured instances and burstable types out", () => {
+    const resources = inventoryOf(
+      dailyUsage("i-0busy", "c5.xlarge", 0.17),
+      dailyUsage("i-0dark", "m5.xlarge", 0.192),
+      dailyUsage("i-0idle", "m5.large", 0.096)
+    );
+    const report = recommendRightsizing(
+      resources,
+      [
+        summary("i-0busy", "CPUUtilization", 85),
+        summary("i-0idle", "CPUUtilization", 5),
+        summary("i-0idle", "mem_used_percent", 10)
+      ],
+      ROWS,
+      { safetyMargin: 0.2 }
+    );
+
+    expect(report).toMatchObject({ evaluated: 2, unmeasured: 1 });
+    // An idle m5.large moves to the cheapest fixed-performance type rather
+    // than onto burstable t3 credits
+    expect(report.candidates.map((c) => c.recommendedType)).toEqual([
+      "c5.large"
+    ]);
+
+    const busy = recommendRightsizing(
+      resources.slice(0, 1),
+      [summary("i-0busy", "CPUUtilization", 85)],
+      ROWS
+    );
+    expect(formatRightsizing(busy)).toContain(
+      "No measured instance fits a cheaper catalog type."
+    );
+  });
+});
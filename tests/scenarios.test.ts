@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import type { FocusRecord } from "../src/server/billing/focus";
+import { bundledFxRates } from "../src/server/currency/fx";
+import { createScenarioBaselineCollector } from "../src/server/scenarios/baseline";
+import { parseScenario } from "../src/server/scenarios/context";
+import {
+  formatScenario,
+  formatScenarioComparison,
+  simulateScenario
+} from "../src/server/scenarios/engine";
+import { scenarioRunSchema } from "../src/server/scenarios/schema";
+import { BUNDLED_ROWS as ROWS, focusRecord, LIST_MONTH } from "./fixtures";
+
+// Exactly one 730-hour month
+function usage(overrides: Partial<FocusRecord>): FocusRecord {
+  return focusRecord({ ...LIST_MONTH, RegionId: "us-east-1", ...overrides });
+}
+
+function baselineOf(records: FocusRecord[]) {
+  const collector = createScenarioBaselineCollector();
+  for (const record of records) collector.add(record);
+  const baseline = collector.baseline();
+  if (!baseline) throw new Error("no baseline");
+  return baseline;
+}
+
+describe("What-if scenarios", () => {
+  it("parses one transform per clause of a what-if question", () => {
+    expect(
+      parseScenario(
+        "What if we move 40% of EC2 to Graviton and buy a 1-year Compute Savings Plan?"
+      )
+    ).toEqual([
+      { type: "instance-family", from: undefined, to: "graviton", share: 0.4 },
+      {
+        type: "commitment",
+        kind: "savings-plan",
+        term: "1yr",
+        payment: "no-upfront",
+        coverage: 0.8
+      }
+    ]);
+    expect(
+      parseScenario(
+        "what if we move 30% of compute from us-east-1 to eu-west-1, then serve 50% of traffic through Cloudflare at a 90% cache hit ratio"
+      )
+    ).toEqual([
+      { type: "region-move", from: "us-east-1", to: "eu-west-1", share: 0.3 },
+      { type: "cloudflare-traffic", share: 0.5, cacheHitRatio: 0.9 }
+    ]);
+  });
+
+  it("accepts parsed transforms and rejects out-of-range shares", () => {
+    const transforms = parseScenario("Move 40% of EC2 to Graviton");
+    expect(
+      scenarioRunSchema.safeParse({ threadId: "t1", transforms }).success
+    ).toBe(true);
+
+    const parsed = scenarioRunSchema.safeParse({
+      threadId: "t1",
+      transforms: [{ type: "storage-tier", to: "glacier", share: 1.5 }]
+    });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["transforms", 0, "to"]);
+  });
+
+  it("applies family swaps before commitments so the plan covers the new bill", () => {
+    const baseline = baselineOf([
+      usage({
+        ServiceName: "Amazon EC2",
+        x_InstanceType: "m5.xlarge",
+        EffectiveCost: 1000
+      }),
+      usage({
+        ServiceName: "Amazon EC2",
+        x_InstanceType: "m6g.large",
+        PricingCategory: "Committed",
+        CommitmentDiscountId: "sp-1",
+        EffectiveCost: 200
+      }),
+      usage({ ServiceName: "Amazon RDS", EffectiveCost: 300 })
+    ]);
+    expect(baseline.monthlyTotal).toBe(1500);
+
+    const result = simulateScenario(
+      baseline,
+      [
+        { type: "instance-family", to: "graviton", share: 0.4 },
+        { type: "commitment", kind: "savings-plan", term: "1yr", coverage: 0.8 }
+      ],
+      ROWS
+    );
+    // 40% of $1,000 moves from m5.xlarge ($0.192/h) to m7g.xlarge ($0.1632/h);
+    // the plan then covers 80% of the remaining $940 at 27% off
+    expect(result.steps.map((s) => s.monthlyDelta)).toEqual([-60, -203.04]);
+    expect(result.projectedMonthly).toBe(1236.96);
+    expect(result.monthlyDelta).toBe(-263.04);
+    expect(formatScenario("graviton + plan", result)).toContain(
+      "Projected monthly bill: $1,236.96 (-$263.04, -17.5%)"
+    );
+  });
+
+  it("does not save the same egress twice across Cloudflare and R2 moves", () => {
+    const s3 = {
+      ServiceName: "Amazon Simple Storage Service",
+      ResourceId: "assets"
+    };
+    const baseline = baselineOf([
+      usage({
+        ...s3,
+        x_UsageType: "TimedStorage-ByteHrs",
+        ConsumedQuantity: 1000,
+        ConsumedUnit: "GB-Mo",
+        EffectiveCost: 23
+      }),
+      usage({
+        ...s3,
+        x_UsageType: "DataTransfer-Out-Bytes",
+        ConsumedQuantity: 500,
+        ConsumedUnit: "GB",
+        EffectiveCost: 45
+      })
+    ]);
+
+    const shifted = simulateScenario(
+      baseline,
+      [
+        { type: "cloudflare-traffic", share: 0.5, cacheHitRatio: 0.9 },
+        { type: "storage-tier", to: "r2", share: 1 }
+      ],
+      ROWS
+    );
+    // Half the egress goes through Cloudflare ($2.25 of misses plus the $20
+    // plan), then R2 stores 1,000 GB for $15 and removes the rest of egress
+    expect(shifted.steps.map((s) => s.monthlyDelta)).toEqual([-0.25, -30.5]);
+    expect(shifted.projectedMonthly).toBe(37.25);
+
+    const tiered = simulateScenario(
+      baseline,
+      [{ type: "storage-tier", to: "infrequent", share: 1 }],
+      ROWS
+    );
+    expect(tiered.monthlyDelta).toBe(-10.5);
+    const comparison = formatScenarioComparison([
+      { id: 1, name: "Cloudflare + R2", result: shifted },
+      { id: 2, name: "Standard-IA", result: tiered }
+    ]);
+    expect(comparison.split("\n")[3]).toContain(
+      "| 1 | Cloudflare + R2 | $68.00 | $37.25 | -$30.75 | -45.2% |"
+    );
+  });
+
+  it("converts USD list prices to the baseline currency", () => {
+    // The Cloudflare and R2 bill above at 150 JPY per USD
+    const s3 = {
+      ServiceName: "Amazon Simple Storage Service",
+      ResourceId: "assets",
+      BillingCurrency: "JPY"
+    };
+    const records = [
+      usage({
+        ...s3,
+        x_UsageType: "TimedStorage-ByteHrs",
+        ConsumedQuantity: 1000,
+        ConsumedUnit: "GB-Mo",
+        EffectiveCost: 3450
+      }),
+      usage({
+        ...s3,
+        x_UsageType: "DataTransfer-Out-Bytes",
+        ConsumedQuantity: 500,
+        ConsumedUnit: "GB",
+        EffectiveCost: 6750
+      })
+    ];
+    const transforms = [
+      { type: "cloudflare-traffic" as const, share: 0.5, cacheHitRatio: 0.9 },
+      { type: "storage-tier" as const, to: "r2" as const, share: 1 }
+    ];
+
+    const shifted = simulateScenario(
+      baselineOf(records),
+      transforms,
+      ROWS,
+      bundledFxRates()
+    );
+    expect(shifted.currency).toBe("JPY");
+    expect(shifted.steps.map((s) => s.monthlyDelta)).toEqual([-37.5, -4575]);
+    expect(shifted.steps[0].assumptions).toContain("3000 JPY/month plan");
+    expect(formatScenario("Cloudflare + R2", shifted)).toContain(
+      "USD list prices converted at 1 USD = 150 JPY (2026-01-01)."
+    );
+
+    const unconverted = simulateScenario(
+      baselineOf(records.map((r) => ({ ...r, BillingCurrency: "XOF" }))),
+      transforms,
+      ROWS,
+      bundledFxRates()
+    );
+    expect(unconverted.monthlyDelta).toBe(0);
+    expect(unconverted.steps[1].assumptions).toBe(
+      "Not priced: no XOF exchange rate to convert the USD list prices"
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import type { FocusRecord } from "../src/server/billing/focus";
+import { parseShowbackCommand } from "../src/server/showback/context";
+import {
+  createShowbackCollector,
+  DEFAULT_TAG_KEYS,
+  formatShowback
+} from "../src/server/showback/engine";
+import { focusRecord, SEPTEMBER } from "./fixtures";
+
+function usage(
+  serviceName: string,
+  cost: number,
+  tags: Record<string, string> = {}
+): FocusRecord {
+  return focusRecord({
+    ...SEPTEMBER,
+    ServiceName: serviceName,
+    EffectiveCost: cost,
+    BilledCost: cost,
+    Tags: tags
+  });
+}
+
+// $1,000 of usage: $750 tagged with a team, $250 untagged
+const BILL = [
+  usage("Amazon EC2", 400, { "user:team": "payments", "user:env": "prod" }),
+  usage("Amazon RDS", 100, { "user:Team": "payments", "user:env": "prod" }),
+  usage("Amazon EC2", 250, { "user:team": "search", "user:env": "staging" }),
+  usage("Amazon S3", 150, { "user:env": "prod" }),
+  usage("AWS Support", 100),
+  { ...usage("Tax", 80), ChargeCategory: "Tax" as const }
+];
+
+function report(records: FocusRecord[], tagKeys = DEFAULT_TAG_KEYS) {
+  const collector = createShowbackCollector(tagKeys);
+  for (const record of records) collector.add(record);
+  const result = collector.report();
+  if (!result) throw new Error("no usage");
+  return result;
+}
+
+describe("showback", () => {
+  it("reports untagged spend per tag key", () => {
+    const result = report(BILL);
+
+    expect(result.totalCost).toBe(1000);
+    expect(result.coverage).toEqual([
+      {
+        key: "user:env",
+        taggedCost: 900,
+        untaggedCost: 100,
+        untaggedShare: 0.1
+      },
+      {
+        key: "user:team",
+        taggedCost: 750,
+        untaggedCost: 250,
+        untaggedShare: 0.25
+      }
+    ]);
+  });
+
+  it("allocates spend by team and spreads untagged spend for chargeback", () => {
+    const { team, environment, costCenter } = report(BILL).dimensions;
+
+    expect(team.rows).toEqual([
+      {
+        value: "payments",
+        cost: 500,
+        share: 0.5,
+        chargeback: 666.67,
+        topServices: [
+          { serviceName: "Amazon EC2", cost: 400 },
+          { serviceName: "Amazon RDS", cost: 100 }
+        ]
+      },
+      {
+        value: "search",
+        cost: 250,
+        share: 0.25,
+        chargeback: 333.33,
+        topServices: [{ serviceName: "Amazon EC2", cost: 250 }]
+      }
+    ]);
+    expect(team.untaggedShare).toBe(0.25);
+    expect(environment.rows.map((r) => [r.value, r.cost])).toEqual([
+      ["prod", 650],
+      ["staging", 250]
+    ]);
+    expect(costCenter).toMatchObject({ rows: [], untaggedCost: 1000 });
+
+    // Configured keys replace the defaults
+    const byOwner = report(
+      [usage("Amazon EC2", 10, { owner: "ana", team: "core" })],
+      { ...DEFAULT_TAG_KEYS, team: ["owner"] }
+    );
+    expect(byOwner.dimensions.team.rows[0].value).toBe("ana");
+  });
+
+  it("renders the chat command's tables", () => {
+    expect(parseShowbackCommand("/showback")).toEqual([
+      "team",
+      "environment",
+      "costCenter"
+    ]);
+    expect(parseShowbackCommand("/chargeback env cost-center")).toEqual([
+      "environment",
+      "costCenter"
+    ]);
+    expect(parseShowbackCommand("show me the showback")).toBeNull();
+
+    const text = formatShowback(report(BILL), ["team"]);
+    expect(text).toContain("| user:team | $750.00 | $250.00 | 25% |");
+    expect(text).toContain(
+      "Showback by team (tags: team, owner, squad; 25% untagged):"
+    );
+    expect(text).toContain(
+      "| payments | $500.00 | 50% | $666.67 | Amazon EC2 $400.00, Amazon RDS $100.00 |"
+    );
+    expect(text).not.toContain("Showback by environment");
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import type { FocusRecord } from "../src/server/billing/focus";
+import type { CatalogPriceRow } from "../src/server/db/catalog";
+import type { UtilizationSummary } from "../src/server/metrics/series";
+import { BUNDLED_CATALOG_VERSION } from "../src/server/pricing/catalog";
+import { asksAboutSpot } from "../src/server/spot/context";
+import {
+  analyzeSpot,
+  formatSpot,
+  spotRecommendations
+} from "../src/server/spot/engine";
+import { createWorkloadUsageCollector } from "../src/server/spot/usage";
+import { BUNDLED_ROWS, focusRecord } from "./fixtures";
+
+// On-demand EC2 hours of one instance, starting on September 1st
+function box(
+  resourceId: string,
+  instanceType: string,
+  hours: number,
+  tags: Record<string, string> = {},
+  startHour = 0
+): FocusRecord {
+  const start = Date.parse("2026-09-01T00:00:00Z") + startHour * 3600000;
+  const price = instanceType === "m5.large" ? 0.096 : 0.085;
+  return focusRecord({
+    ServiceName: "Amazon Elastic Compute Cloud",
+    RegionId: "us-east-1",
+    ResourceId: resourceId,
+    ChargePeriodStart: new Date(start).toISOString(),
+    ChargePeriodEnd: new Date(start + hours * 3600000).toISOString(),
+    EffectiveCost: price * hours,
+    BilledCost: price * hours,
+    ConsumedQuantity: hours,
+    ConsumedUnit: "Hrs",
+    Tags: tags,
+    x_UsageType: `BoxUsage:${instanceType}`,
+    x_InstanceType: instanceType
+  });
+}
+
+function row(
+  version: string,
+  importedAt: string,
+  pricingModel: "on-demand" | "spot",
+  price: number
+): CatalogPriceRow {
+  return {
+    version,
+    importedAt,
+    provider: "aws",
+    service: "ec2",
+    sku: "m5.large",
+    region: "us-east-1",
+    pricingModel,
+    unit: "hour",
+    price,
+    currency: "USD"
+  };
+}
+
+// Two Spot snapshots for m5.large, none for c5.large; newest first as the
+// catalog query returns them
+const ROWS = [
+  row("2026.09-spot", "2026-09-15 00:00:00", "spot", 0.04),
+  row("2026.08-spot", "2026-08-15 00:00:00", "spot", 0.036),
+  row(BUNDLED_CATALOG_VERSION, "1970-01-01 00:00:00", "on-demand", 0.096)
+];
+
+const ASG = { "aws:autoscaling:groupName": "web-asg" };
+
+function workloads(records: FocusRecord[]) {
+  const collector = createWorkloadUsageCollector();
+  for (const record of records) collector.add(record);
+  return collector.workloads();
+}
+
+const FLEET = [
+  box("i-web1", "m5.large", 720, ASG),
+  box("i-web2", "m5.large", 720, ASG),
+  box("i-web3", "m5.large", 720, ASG),
+  box("i-0orders", "m5.large", 720, { "user:Name": "orders-postgres" }),
+  ...Array.from({ length: 10 }, (_, i) =>
+    box(`i-job${i}`, "c5.large", 12, { "eks:nodegroup-name": "etl" }, i * 72)
+  )
+];
+
+describe("spot eligibility", () => {
+  it("groups instances into workloads and scores their interruption risk", () => {
+    const report = analyzeSpot(workloads(FLEET), [], ROWS);
+
+    expect(
+      report.assessments.map((a) => [a.workload, a.kind, a.score, a.risk])
+    ).toEqual([
+      ["web-asg", "auto-scaling-group", 80, "low"],
+      ["i-0orders", "instance", 0, "high"],
+      ["etl", "node-group", 85, "low"]
+    ]);
+    expect(report.assessments[1].signals).toEqual([
+      '"postgres" in its names or tags suggests state',
+      "one instance billed 720h without a replacement"
+    ]);
+    expect(report.assessments[2].signals).toContain(
+      "instances run 12h on average before being replaced"
+    );
+  });
+
+  it("prices the move from the average of the Spot snapshots", () => {
+    const report = analyzeSpot(workloads(FLEET), [], ROWS);
+    const [web, db, etl] = report.assessments;
+
+    // $0.038 average Spot against $0.096 on demand
+    expect(web).toMatchObject({
+      onDemandMonthly: 210.24,
+      spotDiscount: 0.6042,
+      monthlySavings: 127.02,
+      priceSnapshots: 2,
+      priceVolatility: 0.1053
+    });
+    expect(db.monthlySavings).toBe(0);
+    expect(etl.monthlySavings).toBeNull();
+    expect(report.unpricedTypes).toEqual(["c5.large"]);
+    expect(report.totalMonthlySavings).toEqual({ USD: 127.02 });
+    expect(report.catalogVersion).toBe("2026.09-spot");
+
+    expect(spotRecommendations(report)).toEqual([
+      expect.objectContaining({
+        Area: "Spot",
+        Resource: "web-asg",
+        Monthly_Savings: 127.02,
+        Risk_Level: "low"
+      })
+    ]);
+  });
+
+  it("labels savings estimated at the typical discount without Spot snapshots", () => {
+    const report = analyzeSpot(workloads(FLEET), [], BUNDLED_ROWS);
+    const [web, , etl] = report.assessments;
+
+    // 65% off the $0.096 on-demand price, with no price history
+    expect(web).toMatchObject({
+      spotDiscount: 0.65,
+      monthlySavings: 136.66,
+      estimated: true,
+      priceSnapshots: 0,
+      priceVolatility: null
+    });
+    expect(etl.estimated).toBe(true);
+    expect(report.estimatedTypes).toEqual(["c5.large", "m5.large"]);
+    expect(report.unpricedTypes).toEqual([]);
+    expect(report.catalogVersion).toBeNull();
+
+    const text = formatSpot(report);
+    expect(text).toContain("$136.66 (65% off, 100% on Spot, estimate)");
+    expect(text).toContain(
+      "Estimated at the provider's typical Spot discount, with no Spot price history in the catalog: c5.large, m5.large"
+    );
+    expect(spotRecommendations(report)[0].Evidence).toContain(
+      "savings estimated at the typical Spot discount, not Spot price history"
+    );
+
+    // Imported snapshots replace the estimate for the types they price
+    const priced = analyzeSpot(
+      workloads(FLEET),
+      [],
+      [...ROWS, ...BUNDLED_ROWS]
+    );
+    expect(priced.assessments[0]).toMatchObject({
+      workload: "web-asg",
+      estimated: false,
+      spotDiscount: 0.6042
+    });
+    expect(priced.estimatedTypes).toEqual(["c5.large"]);
+  });
+
+  it("reads bursty CPU from metrics and reports the table", () => {
+    const cpu: UtilizationSummary = {
+      resourceId: "i-0orders",
+      metric: "CPUUtilization",
+      kind: "cpu",
+      unit: "Percent",
+      sampleCount: 720,
+      avg: 10,
+      p50: 4,
+      p95: 60,
+      max: 90,
+      periodStart: "2026-09-01T00:00:00Z",
+      periodEnd: "2026-09-30T23:00:00Z"
+    };
+    const report = analyzeSpot(workloads(FLEET), [cpu], ROWS);
+    const db = report.assessments.find((a) => a.workload === "i-0orders");
+    expect(db?.signals).toContain("bursty CPU (p50 4 vs p95 60)");
+    expect(db?.risk).toBe("high");
+
+    const text = formatSpot(report);
+    expect(text).toContain(
+      "Spot eligibility (3 on-demand workloads; $127.02 savings/month, Spot prices from 2026.09-spot):"
+    );
+    expect(text).toContain("No Spot price in the catalog for: c5.large");
+    expect(asksAboutSpot("Which workloads could run on spot?")).toBe(true);
+    expect(asksAboutSpot("Show the forecast")).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimatePlanCost,
+  formatPlanEstimate,
+  isTerraformPlan
+} from "../src/server/iac/terraform";
+import type { CatalogPriceRow } from "../src/server/db/catalog";
+import { resolvePrice } from "../src/server/pricing/lookup";
+import { BUNDLED_ROWS as ROWS } from "./fixtures";
+
+const PLAN = {
+  format_version: "1.2",
+  configuration: {
+    provider_config: {
+      aws: { expressions: { region: { constant_value: "eu-west-1" } } }
+    }
+  },
+  resource_changes: [
+    {
+      address: "aws_instance.web",
+      mode: "managed",
+      type: "aws_instance",
+      change: {
+        actions: ["create"],
+        before: null,
+        after: {
+          instance_type: "t3.large",
+          availability_zone: "us-east-1a",
+          root_block_device: [{ volume_type: "gp3", volume_size: 50 }]
+        }
+      }
+    },
+    {
+      address: "aws_db_instance.main",
+      mode: "managed",
+      type: "aws_db_instance",
+      change: {
+        actions: ["update"],
+        before: {
+          instance_class: "db.t3.medium",
+          allocated_storage: 100,
+          storage_type: "gp2"
+        },
+        after: {
+          instance_class: "db.m5.large",
+          allocated_storage: 100,
+          storage_type: "gp2"
+        }
+      }
+    },
+    {
+      address: "aws_nat_gateway.old",
+      mode: "managed",
+      type: "aws_nat_gateway",
+      change: { actions: ["delete"], before: {}, after: null }
+    },
+    {
+      address: "aws_s3_bucket.logs",
+      mode: "managed",
+      type: "aws_s3_bucket",
+      change: { actions: ["no-op"], before: {}, after: {} }
+    },
+    {
+      address: "aws_mq_broker.events",
+      mode: "managed",
+      type: "aws_mq_broker",
+      change: { actions: ["create"], before: null, after: {} }
+    },
+    {
+      address: "data.aws_ami.ubuntu",
+      mode: "data",
+      type: "aws_ami",
+      change: { actions: ["read"], before: null, after: {} }
+    }
+  ]
+};
+
+describe("Terraform plan estimates", () => {
+  it("recognizes terraform show -json output", () => {
+    expect(isTerraformPlan(PLAN)).toBe(true);
+    expect(isTerraformPlan({ resource_changes: [] })).toBe(false);
+  });
+
+  it("prices created, updated and deleted resources", () => {
+    const estimate = estimatePlanCost(PLAN, ROWS);
+    const items = Object.fromEntries(
+      estimate.lineItems.map((item) => [item.address, item])
+    );
+
+    // t3.large at 0.0832/h plus 50 GB gp3 at 0.08 in us-east-1
+    expect(items["aws_instance.web"].afterMonthly).toBe(64.74);
+    expect(items["aws_instance.web"].region).toBe("us-east-1");
+    // The NAT gateway has no zone and falls back to the provider region
+    expect(items["aws_nat_gateway.old"].region).toBe("eu-west-1");
+    expect(items["aws_nat_gateway.old"].afterMonthly).toBeNull();
+    expect(items["aws_db_instance.main"].deltaMonthly).toBe(83.46);
+
+    expect(estimate.actionCounts).toMatchObject({
+      create: 2,
+      update: 1,
+      delete: 1,
+      "no-op": 1
+    });
+    expect(estimate.unpriced).toEqual([
+      {
+        address: "aws_mq_broker.events",
+        type: "aws_mq_broker",
+        action: "create"
+      }
+    ]);
+    expect(estimate.deltaMonthly).toBe(
+      Math.round((estimate.afterMonthly - estimate.beforeMonthly) * 100) / 100
+    );
+  });
+
+  it("renders a priced diff", () => {
+    const report = formatPlanEstimate(
+      "plan.json",
+      estimatePlanCost(PLAN, ROWS)
+    );
+    expect(report).toContain("| aws_instance.web | create | - | $64.74 |");
+    expect(report).toContain("Not priced (not in the catalog): aws_mq_broker");
+  });
+
+  it("derives regional prices from the base region", () => {
+    const price = (sku: string, region: string) =>
+      resolvePrice(ROWS, { provider: "aws", service: "ec2", sku, region });
+    expect(price("m5.large", "us-east-1")?.price).toBe(0.096);
+    expect(price("m5.large", "eu-central-1")?.price).toBe(0.096 * 1.2);
+    expect(price("x9.huge", "us-east-1")).toBeNull();
+  });
+
+  it("prices from the newest imported snapshot", () => {
+    const imported: CatalogPriceRow = {
+      ...ROWS.find((row) => row.sku === "t3.large")!,
+      version: "aws-ec2-2026-11",
+      price: 0.1,
+      importedAt: "2026-11-01 00:00:00"
+    };
+    const estimate = estimatePlanCost(PLAN, [imported, ...ROWS]);
+    const web = estimate.lineItems.find(
+      (item) => item.address === "aws_instance.web"
+    );
+    // 0.1/h instead of 0.0832/h, the volume still from the bundled snapshot
+    expect(web?.afterMonthly).toBe(77);
+    expect(estimate.catalogVersion).toContain("aws-ec2-2026-11");
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import type { FocusRecord } from "../src/server/billing/focus";
+import { bundledFxRates } from "../src/server/currency/fx";
+import type { UtilizationSummary } from "../src/server/metrics/series";
+import { analyzeStorage, formatStorage } from "../src/server/tiering/engine";
+import { createBucketUsageCollector } from "../src/server/tiering/usage";
+import { BUNDLED_ROWS, focusRecord, SEPTEMBER } from "./fixtures";
+
+// A 30-day S3 line item
+function s3(
+  bucket: string,
+  usageType: string,
+  cost: number,
+  quantity: number,
+  unit = "GB-Mo"
+): FocusRecord {
+  return focusRecord({
+    ...SEPTEMBER,
+    ServiceName: "Amazon Simple Storage Service",
+    RegionId: "us-east-1",
+    ResourceId: bucket,
+    EffectiveCost: cost,
+    BilledCost: cost,
+    ConsumedQuantity: quantity,
+    ConsumedUnit: unit,
+    x_UsageType: usageType
+  });
+}
+
+function buckets(records: FocusRecord[]) {
+  const collector = createBucketUsageCollector();
+  for (const record of records) collector.add(record);
+  return collector.buckets();
+}
+
+// 30 days in 30 days of billing are 0.986 of a 730-hour month
+const MONTH = 30 / (730 / 24);
+
+describe("storage tiering and R2", () => {
+  it("moves cold data to an archive tier and prices the R2 migration", () => {
+    const report = analyzeStorage(
+      buckets([
+        s3("logs-archive", "TimedStorage-ByteHrs", 230 * MONTH, 10000 * MONTH),
+        s3(
+          "logs-archive",
+          "DataTransfer-Out-Bytes",
+          0.45 * MONTH,
+          5 * MONTH,
+          "GB"
+        ),
+        s3(
+          "logs-archive",
+          "Requests-Tier1",
+          0.5 * MONTH,
+          100000 * MONTH,
+          "Requests"
+        )
+      ]),
+      [],
+      BUNDLED_ROWS
+    );
+
+    const [bucket] = report.buckets;
+    expect(bucket).toMatchObject({
+      bucket: "logs-archive",
+      storedGb: 10000,
+      monthlyCost: 230.95,
+      accessSource: "billing",
+      objectsEstimated: true
+    });
+    expect(bucket.tier).toEqual({
+      tier: "S3 Glacier Deep Archive",
+      monthlyCost: 10,
+      monthlySavings: 220,
+      transitionCost: 512,
+      breakEvenMonths: 2.3
+    });
+    expect(bucket.r2).toEqual({
+      monthlyCost: 150.45,
+      monthlySavings: 80.5,
+      egressSavings: 0.45,
+      migrationCost: 900,
+      breakEvenMonths: 11.2
+    });
+  });
+
+  it("converts the list prices to the bucket's billing currency", () => {
+    // The first bucket's bill at 150 JPY per USD
+    const inYen = (record: FocusRecord): FocusRecord => ({
+      ...record,
+      BillingCurrency: "JPY",
+      EffectiveCost: record.EffectiveCost * 150,
+      BilledCost: record.BilledCost * 150
+    });
+    const report = analyzeStorage(
+      buckets([
+        inYen(
+          s3("logs-archive", "TimedStorage-ByteHrs", 230 * MONTH, 10000 * MONTH)
+        ),
+        inYen(
+          s3(
+            "logs-archive",
+            "DataTransfer-Out-Bytes",
+            0.45 * MONTH,
+            5 * MONTH,
+            "GB"
+          )
+        ),
+        inYen(
+          s3(
+            "logs-archive",
+            "Requests-Tier1",
+            0.5 * MONTH,
+            100000 * MONTH,
+            "Requests"
+          )
+        ),
+        {
+          ...s3("exports", "TimedStorage-ByteHrs", 23 * MONTH, 1000 * MONTH),
+          BillingCurrency: "XOF"
+        }
+      ]),
+      [],
+      BUNDLED_ROWS,
+      bundledFxRates()
+    );
+
+    const [bucket] = report.buckets;
+    expect(report.buckets).toHaveLength(1);
+    expect(bucket).toMatchObject({ currency: "JPY", monthlyCost: 34642.5 });
+    expect(bucket.tier).toEqual({
+      tier: "S3 Glacier Deep Archive",
+      monthlyCost: 1500,
+      monthlySavings: 33000,
+      transitionCost: 76800,
+      breakEvenMonths: 2.3
+    });
+    expect(bucket.r2).toEqual({
+      monthlyCost: 22567.5,
+      monthlySavings: 12075,
+      egressSavings: 67.5,
+      migrationCost: 135000,
+      breakEvenMonths: 11.2
+    });
+    expect(report.unconvertedCurrencies).toEqual(["XOF"]);
+    const text = formatStorage(report);
+    expect(text).toContain("1 USD = 150 JPY (2026-01-01)");
+    expect(text).toContain(
+      "Buckets billed in XOF were left out: no exchange rate to convert the USD list prices."
+    );
+  });
+
+  it("keeps hot data in place but shows the egress R2 saves", () => {
+    const report = analyzeStorage(
+      buckets([
+        s3("web-assets", "TimedStorage-ByteHrs", 23 * MONTH, 1000 * MONTH),
+        s3(
+          "web-assets",
+          "DataTransfer-Out-Bytes",
+          450 * MONTH,
+          5000 * MONTH,
+          "GB"
+        ),
+        s3("web-assets", "Requests-Tier2", 4 * MONTH, 1e7 * MONTH, "Requests"),
+        s3("web-assets", "TimedStorage-SIA-ByteHrs", 12.5 * MONTH, 1000 * MONTH)
+      ]),
+      [],
+      BUNDLED_ROWS
+    );
+
+    const [bucket] = report.buckets;
+    expect(bucket.storedGb).toBe(2000);
+    expect(bucket.standardGb).toBe(1000);
+    expect(bucket.tier).toBeNull();
+    expect(bucket.r2?.egressSavings).toBe(450);
+    expect(bucket.r2?.breakEvenMonths).toBe(0.4);
+    expect(report.r2Savings.USD).toBe(bucket.r2?.monthlySavings);
+    expect(report.tierSavings).toEqual({});
+  });
+
+  it("reads the access pattern from bucket metrics", () => {
+    // Daily BytesDownloaded of 100 GB against 1000 GB stored
+    const summaries: UtilizationSummary[] = [
+      {
+        resourceId: "reports",
+        metric: "BytesDownloaded",
+        kind: "network",
+        unit: "Bytes",
+        sampleCount: 31,
+        avg: 100 * 1024 ** 3,
+        p50: 0,
+        p95: 0,
+        max: 0,
+        periodStart: "2026-09-01T00:00:00Z",
+        periodEnd: "2026-10-01T00:00:00Z"
+      },
+      {
+        resourceId: "reports",
+        metric: "NumberOfObjects",
+        kind: "objects",
+        unit: null,
+        sampleCount: 31,
+        avg: 5000,
+        p50: 5000,
+        p95: 5000,
+        max: 5000,
+        periodStart: "2026-09-01T00:00:00Z",
+        periodEnd: "2026-10-01T00:00:00Z"
+      }
+    ];
+    const report = analyzeStorage(
+      buckets([
+        s3("reports", "TimedStorage-ByteHrs", 23 * MONTH, 1000 * MONTH)
+      ]),
+      summaries,
+      BUNDLED_ROWS
+    );
+
+    const [bucket] = report.buckets;
+    expect(bucket.accessSource).toBe("metrics");
+    expect(bucket.readGbPerMonth).toBe(3041.67);
+    expect(bucket.objects).toBe(5000);
+    expect(bucket.tier).toBeNull();
+    expect(formatStorage(report)).toContain(
+      "| reports | 1000 | 304.2% (metrics) | $23.00 | stay | - | - | - |"
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import type { FocusRecord } from "../src/server/billing/focus";
+import { bundledFxRates } from "../src/server/currency/fx";
+import {
+  asksAboutTransfer,
+  cacheHitRatioIn
+} from "../src/server/transfer/context";
+import { analyzeTransfer, formatTransfer } from "../src/server/transfer/engine";
+import { createTransferUsageCollector } from "../src/server/transfer/usage";
+import { focusRecord, LIST_MONTH } from "./fixtures";
+
+// A CUR transfer line item billed over one 730-hour month
+function transfer(
+  serviceName: string,
+  usageType: string,
+  gb: number,
+  cost: number
+): FocusRecord {
+  return focusRecord({
+    ...LIST_MONTH,
+    ServiceName: serviceName,
+    EffectiveCost: cost,
+    BilledCost: cost,
+    ConsumedQuantity: gb,
+    ConsumedUnit: "GB",
+    x_UsageType: usageType
+  });
+}
+
+function usage(records: FocusRecord[]) {
+  const collector = createTransferUsageCollector();
+  for (const record of records) collector.add(record);
+  const result = collector.usage();
+  if (!result) throw new Error("no transfer usage");
+  return result;
+}
+
+const BILL = [
+  transfer(
+    "Amazon Elastic Compute Cloud",
+    "USE1-DataTransfer-Out-Bytes",
+    5000,
+    450
+  ),
+  transfer(
+    "Amazon Simple Storage Service",
+    "USE1-DataTransfer-Out-Bytes",
+    1000,
+    90
+  ),
+  transfer("Amazon CloudFront", "US-DataTransfer-Out-Bytes", 4000, 340),
+  transfer("Amazon Elastic Compute Cloud", "USE1-USW2-AWS-Out-Bytes", 2000, 40),
+  transfer(
+    "Amazon Elastic Compute Cloud",
+    "USE1-DataTransfer-Regional-Bytes",
+    3000,
+    60
+  ),
+  transfer("Amazon Elastic Compute Cloud", "USE1-NatGateway-Bytes", 1500, 67.5),
+  transfer("Amazon Elastic Compute Cloud", "USE1-BoxUsage:m5.large", 730, 70.08)
+];
+
+describe("data transfer analysis", () => {
+  it("classifies transfer line items and prices each class per GB", () => {
+    const report = analyzeTransfer(usage(BILL));
+
+    expect(report.totalMonthlyCost).toBe(1047.5);
+    expect(
+      report.classes.map((c) => [c.transferClass, c.gbPerMonth, c.costPerGb])
+    ).toEqual([
+      ["internet-egress", 6000, 0.09],
+      ["cdn", 4000, 0.085],
+      ["inter-region", 2000, 0.02],
+      ["inter-az", 3000, 0.02],
+      ["nat", 1500, 0.045]
+    ]);
+    expect(report.classes[0].topServices).toEqual([
+      { serviceName: "Amazon Elastic Compute Cloud", monthlyCost: 450 },
+      { serviceName: "Amazon Simple Storage Service", monthlyCost: 90 }
+    ]);
+  });
+
+  it("keeps transfer billed in each currency apart", () => {
+    const collector = createTransferUsageCollector();
+    for (const record of BILL) collector.add(record);
+    collector.add({
+      ...transfer(
+        "Amazon Elastic Compute Cloud",
+        "EUC1-DataTransfer-Out-Bytes",
+        100,
+        8
+      ),
+      BillingCurrency: "EUR"
+    });
+
+    expect(collector.usages().map((u) => u.currency)).toEqual(["USD", "EUR"]);
+    expect(collector.usage()?.classes.get("internet-egress")?.gb).toBe(6000);
+    expect(collector.usage("EUR")?.classes.get("internet-egress")).toEqual({
+      gb: 100,
+      cost: 8,
+      byService: new Map([["Amazon Elastic Compute Cloud", 8]])
+    });
+  });
+
+  it("models Cloudflare in front of the origins and R2 origins", () => {
+    const report = analyzeTransfer(usage(BILL), { cacheHitRatio: 0.9 });
+
+    // 10,000 GB served, 1,000 GB of misses at $0.09 plus the $20 plan
+    expect(report.scenarios).toEqual([
+      expect.objectContaining({
+        id: "cloudflare-cdn",
+        currentMonthly: 880,
+        scenarioMonthly: 110,
+        monthlySavings: 770
+      }),
+      expect.objectContaining({
+        id: "r2-origin",
+        currentMonthly: 90,
+        scenarioMonthly: 0,
+        monthlySavings: 90
+      })
+    ]);
+    const text = formatTransfer(report);
+    expect(text).toContain("- NAT processing: 1500 GB/month, $67.50/month");
+    expect(text).toContain(
+      "- Cloudflare in front of the origins: $880.00 -> $110.00/month, saves $770.00/month (90% cache hit ratio"
+    );
+  });
+
+  it("converts the USD plan price to the billing currency", () => {
+    // The same bill at 150 JPY per USD
+    const inYen = BILL.map((record) => ({
+      ...record,
+      BillingCurrency: "JPY",
+      EffectiveCost: record.EffectiveCost * 150,
+      BilledCost: record.BilledCost * 150
+    }));
+    const report = analyzeTransfer(
+      usage(inYen),
+      { cacheHitRatio: 0.9 },
+      bundledFxRates()
+    );
+
+    // 1,000 GB of misses at ¥13.50 plus the ¥3,000 plan
+    expect(report.scenarios[0]).toMatchObject({
+      id: "cloudflare-cdn",
+      currentMonthly: 132000,
+      scenarioMonthly: 16500,
+      monthlySavings: 115500
+    });
+    expect(report.scenarios[0].assumptions).toContain("3000 JPY/month plan");
+    expect(formatTransfer(report)).toContain(
+      "USD prices converted at 1 USD = 150 JPY (2026-01-01)."
+    );
+
+    const unconverted = analyzeTransfer(
+      usage(BILL.map((record) => ({ ...record, BillingCurrency: "XOF" }))),
+      {},
+      bundledFxRates()
+    );
+    expect(unconverted.fx).toBeNull();
+    expect(unconverted.scenarios.map((s) => s.id)).toEqual(["r2-origin"]);
+    expect(formatTransfer(unconverted)).toContain(
+      "Cloudflare in front of the origins is not priced: no XOF exchange rate to convert the USD plan price."
+    );
+  });
+
+  it("reads transfer questions and hit ratios from messages", () => {
+    expect(asksAboutTransfer("How much egress could a CDN save?")).toBe(true);
+    expect(asksAboutTransfer("Which instances are oversized?")).toBe(false);
+    expect(cacheHitRatioIn("Assume a 95% cache hit ratio")).toBe(0.95);
+    expect(cacheHitRatioIn("Cut egress by 40%")).toBeUndefined();
+    expect(createTransferUsageCollector().usage()).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { sniffContent } from "../src/server/ingest/sniff";
+import { parseBusinessMetricRows } from "../src/server/unit/business";
+import {
+  analyzeUnitCosts,
+  type DailySpend,
+  formatUnitCosts
+} from "../src/server/unit/engine";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIRST_DAY = Date.UTC(2026, 8, 1) / DAY_MS;
+
+function date(offset: number): string {
+  return new Date((FIRST_DAY + offset) * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Five weeks of spend, $100 a day
+function spend(days = 35, cost = 100): DailySpend {
+  return {
+    currency: "USD",
+    days: new Map(Array.from({ length: days }, (_, i) => [FIRST_DAY + i, cost]))
+  };
+}
+
+describe("Business metrics", () => {
+  it("detects and parses daily volume tables", () => {
+    expect(
+      sniffContent("volumes.csv", "date,api_requests,mau,orders\n").format
+    ).toBe("business-metrics");
+    expect(
+      sniffContent("cw.csv", "Timestamp,InstanceId,CPUUtilization\n").format
+    ).toBe("time-series");
+
+    const points = parseBusinessMetricRows([
+      ["Date", "API requests", "MAU"],
+      ["2026-09-01", "1,200,000", "5000"],
+      ["09/01/2026", "300000", ""],
+      ["2026-09-02T00:00:00Z", "1000000", "5100"],
+      ["not a date", "5", "5"]
+    ]);
+    expect(points).toEqual([
+      { metric: "API requests", usageDate: "2026-09-01", value: 1500000 },
+      { metric: "MAU", usageDate: "2026-09-01", value: 5000 },
+      { metric: "API requests", usageDate: "2026-09-02", value: 1000000 },
+      { metric: "MAU", usageDate: "2026-09-02", value: 5100 }
+    ]);
+  });
+});
+
+describe("Unit costs", () => {
+  it("flags a week whose cost per 1k requests jumps", () => {
+    // 1M requests a day for four weeks, then half the traffic for the same
+    // spend in the fifth
+    const points = Array.from({ length: 35 }, (_, i) => ({
+      metric: "requests",
+      usageDate: date(i),
+      value: i < 28 ? 1000000 : 500000
+    }));
+    const report = analyzeUnitCosts(spend(), points);
+
+    expect(report).not.toBeNull();
+    const [series] = report?.metrics ?? [];
+    expect(series.scale).toBe(1000);
+    expect(series.weeks).toHaveLength(5);
+    expect(series.baseline).toBeCloseTo(0.1);
+    expect(series.latest).toBeCloseTo(0.2);
+    expect(report?.regressions).toEqual([
+      {
+        metric: "requests",
+        weekStart: date(28),
+        latest: 0.2,
+        baseline: 0.1,
+        change: 1
+      }
+    ]);
+    expect(formatUnitCosts(report as NonNullable<typeof report>)).toContain(
+      "Cost per 1k requests rose 100% in the week of 2026-09-29: $0.1 → $0.2"
+    );
+  });
+
+  it("prices a month of spend per active customer and skips unbilled days", () => {
+    // Volumes before the billed period do not join any spend
+    const points = [
+      ...Array.from({ length: 21 }, (_, i) => ({
+        metric: "active customers",
+        usageDate: date(i),
+        value: 1000
+      })),
+      { metric: "orders", usageDate: date(-10), value: 40 }
+    ];
+    const report = analyzeUnitCosts(spend(21), points);
+
+    expect(report?.metrics.map((s) => s.metric)).toEqual(["active customers"]);
+    const [series] = report?.metrics ?? [];
+    expect(series.basis).toBe("gauge");
+    // $100 a day is ~$3,041.67 a month over 1,000 customers
+    expect(series.latest).toBeCloseTo(3.041667, 5);
+    expect(series.change).toBe(0);
+    expect(report?.regressions).toEqual([]);
+    expect(formatUnitCosts(report as NonNullable<typeof report>)).toContain(
+      "| active customers | per active customers per month | $3.04 |"
+    );
+  });
+});